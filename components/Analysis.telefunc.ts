@@ -0,0 +1,256 @@
+/**
+ * Telefunc API for audio analysis: decode a file and estimate what its tags lack.
+ * Results go into mp3_file_cache (loudness into song_loudness); write-back to the file is queued as an
+ * ordinary pending export edit, so it goes through the review panel.
+ */
+import {
+  getMP3CacheByPath, setDetectedBpm, setDetectedKey, setEnergyLevel, type MP3CacheItem,
+} from '../database/sqlite/queries/dj-sets';
+import { addTagEdit, getTagEditsForFile, removeTagEdit } from '../database/sqlite/queries/mp3-tag-edits';
+import {
+  saveAudioFeatures, getAudioFeatures, getTaggedEnergySamples, getEstimatedEnergySongs, saveLoudness, getLoudness,
+  saveMixPoints, getMixPoints,
+} from '../database/sqlite/queries/audio-features';
+import { analyzeAudioFile, type AnalysisRequest, type AnalysisResult } from '../lib/audio-analysis';
+import { BPM_WRITE_BACK_CONFIDENCE, type BpmEstimate } from '../lib/bpm-detection';
+import type { KeyEstimate } from '../lib/key-detection';
+import { estimateEnergy, calibrateEnergy, type EnergyCalibration } from '../lib/energy-estimation';
+import { replayGainDb, formatReplayGain, previewGainDb, type LoudnessMeasurement } from '../lib/loudness';
+import type { MixPoints } from '../lib/mix-points';
+import { MP3MetadataManager, isSupportedAudioFile } from '../lib/mp3-metadata';
+import { standardToCamelot } from '../lib/camelot';
+import type { TempoKeyInfo } from '../lib/tempo-match';
+import type { AnalysisTagField, EnergySource } from '../lib/types';
+
+const mp3Manager = new MP3MetadataManager();
+
+export interface BpmAnalysisResult extends BpmEstimate {
+  filePath: string;
+  /** False when the file already has a TBPM tag; the estimate is then only reported */
+  stored: boolean;
+  /** Pending TBPM export edit created for review; null when the tempo is too uncertain to write */
+  pendingEditId: number | null;
+}
+
+export interface KeyAnalysisResult extends KeyEstimate {
+  filePath: string;
+  /** False when the file already has a TKEY tag; the estimate is then only reported */
+  stored: boolean;
+  /** Pending TKEY export edit created for review, if any */
+  pendingEditId: number | null;
+}
+
+export interface EnergyAnalysisResult {
+  filePath: string;
+  /** The estimate, 1–10 on the Mixed In Key scale */
+  estimate: number;
+  /** The energy the song now has, which is the estimate unless a tag or override wins */
+  energyLevel: number;
+  energySource: EnergySource;
+  calibration: Pick<EnergyCalibration, 'sampleCount' | 'rmse'>;
+}
+
+export interface LoudnessAnalysisResult extends LoudnessMeasurement {
+  filePath: string;
+  /** ReplayGain 2.0 track gain, relative to -18 LUFS */
+  replayGainDb: number;
+  /** Pending REPLAYGAIN_TRACK_GAIN export edit, or null when the file's tag already agrees */
+  pendingEditId: number | null;
+}
+
+function requireCachedSong(filePath: string): MP3CacheItem {
+  const cached = getMP3CacheByPath(filePath);
+  if (!cached) throw new Error('Song is not in the library — scan it first');
+  return cached;
+}
+
+function dropPendingAnalysisEdits(filePath: string, field: AnalysisTagField): void {
+  for (const edit of getTagEditsForFile(filePath)) {
+    if (edit.fieldName === field && edit.direction === 'export' && edit.status === 'pending') removeTagEdit(edit.id);
+  }
+}
+
+/**
+ * Replace any pending write-back of the same field so re-analysis doesn't
+ * stack edits. Returns null, queueing nothing, for containers whose tags we
+ * can't write: the edit could only ever fail on export.
+ */
+function queueAnalysisEdit(filePath: string, field: AnalysisTagField, originalValue: string | null, newValue: string): number | null {
+  dropPendingAnalysisEdits(filePath, field);
+  if (!isSupportedAudioFile(filePath)) return null;
+  return addTagEdit(filePath, field, originalValue, newValue, 'export');
+}
+
+/**
+ * Analyse a song in the analysis worker. Loudness is cheap next to the
+ * decode, so every analysis records it and the player can level-match the
+ * song from then on.
+ */
+async function analyzeSong(filePath: string, request: AnalysisRequest): Promise<AnalysisResult> {
+  const result = await analyzeAudioFile(filePath, request);
+  if (result.loudness) saveLoudness(filePath, result.loudness);
+  return result;
+}
+
+/**
+ * Estimate the tempo of a library song. Returns null when the audio is too
+ * short or arrhythmic to call. A BPM from the file's own tag is never
+ * overwritten: the estimate is returned for comparison but not stored. An
+ * uncertain estimate is stored but no TBPM write-back is queued for it.
+ */
+export async function onDetectBpm(filePath: string): Promise<BpmAnalysisResult | null> {
+  const cached = requireCachedSong(filePath);
+  const estimate = (await analyzeSong(filePath, { bpm: true })).bpm;
+  if (!estimate) return null;
+
+  // Rows cached before bpm_source existed have a null source; their bpm came from the tag
+  const tagged = cached.bpm != null && cached.bpm_source !== 'detected';
+  if (tagged) return { ...estimate, filePath, stored: false, pendingEditId: null };
+
+  setDetectedBpm(filePath, estimate.bpm, estimate.confidence);
+  // A write-back queued by an earlier, surer run no longer matches the stored tempo
+  if (estimate.confidence < BPM_WRITE_BACK_CONFIDENCE) {
+    dropPendingAnalysisEdits(filePath, 'TBPM');
+    return { ...estimate, filePath, stored: true, pendingEditId: null };
+  }
+  const pendingEditId = queueAnalysisEdit(filePath, 'TBPM', null, String(Math.round(estimate.bpm)));
+  return { ...estimate, filePath, stored: true, pendingEditId };
+}
+
+/**
+ * Estimate the musical key of a library song, for tracks Mixed In Key never
+ * tagged. Returns null for unpitched audio. Like BPM, a tagged key is kept.
+ */
+export async function onDetectKey(filePath: string): Promise<KeyAnalysisResult | null> {
+  const cached = requireCachedSong(filePath);
+  const estimate = (await analyzeSong(filePath, { key: true })).key;
+  if (!estimate) return null;
+
+  const tagged = cached.key != null && cached.key_source !== 'detected';
+  if (tagged) return { ...estimate, filePath, stored: false, pendingEditId: null };
+
+  setDetectedKey(filePath, estimate.key, estimate.camelotKey, estimate.confidence);
+  const pendingEditId = queueAnalysisEdit(filePath, 'TKEY', null, estimate.key);
+  return { ...estimate, filePath, stored: true, pendingEditId };
+}
+
+/**
+ * Estimate the energy level of a library song from loudness, spectral flux,
+ * onset density and tempo. Analysing MIK-tagged songs is worthwhile too:
+ * their measurements become calibration data, while their tag is kept.
+ */
+export async function onEstimateEnergy(filePath: string): Promise<EnergyAnalysisResult> {
+  const cached = requireCachedSong(filePath);
+  const { energy: features } = await analyzeSong(filePath, { energy: { bpm: cached.bpm ?? null } });
+  if (!features) throw new Error('Energy analysis returned no features');
+  saveAudioFeatures(filePath, features);
+
+  const calibration = calibrateEnergy(getTaggedEnergySamples());
+  const estimate = estimateEnergy(features, calibration);
+  const { sampleCount, rmse } = calibration;
+
+  // A MIK tag or a manual override wins; rows cached before energy_source existed count as tagged
+  if (cached.energy_level != null && cached.energy_source !== 'detected') {
+    const energySource = cached.energy_source ?? 'tag';
+    return { filePath, estimate, energyLevel: cached.energy_level, energySource, calibration: { sampleCount, rmse } };
+  }
+  setEnergyLevel(filePath, estimate, 'detected');
+  return { filePath, estimate, energyLevel: estimate, energySource: 'detected', calibration: { sampleCount, rmse } };
+}
+
+/**
+ * Override a song's energy level by hand, or pass null to drop the override:
+ * the MIK tag comes back if the file has one, otherwise the estimate.
+ */
+export async function onSetEnergyOverride(
+  filePath: string,
+  level: number | null,
+): Promise<{ energyLevel: number | null; energySource: EnergySource | null }> {
+  requireCachedSong(filePath);
+  if (level != null) {
+    if (!Number.isInteger(level) || level < 1 || level > 10) throw new Error('Energy level must be a whole number from 1 to 10');
+    setEnergyLevel(filePath, level, 'manual');
+    return { energyLevel: level, energySource: 'manual' };
+  }
+
+  const tagged = (await mp3Manager.readMetadata(filePath)).energyLevel;
+  if (tagged != null) {
+    setEnergyLevel(filePath, tagged, 'tag');
+    return { energyLevel: tagged, energySource: 'tag' };
+  }
+  const features = getAudioFeatures(filePath);
+  if (features) {
+    const estimate = estimateEnergy(features, calibrateEnergy(getTaggedEnergySamples()));
+    setEnergyLevel(filePath, estimate, 'detected');
+    return { energyLevel: estimate, energySource: 'detected' };
+  }
+  setEnergyLevel(filePath, null, null);
+  return { energyLevel: null, energySource: null };
+}
+
+/**
+ * Refit the energy model to every analysed MIK-tagged song and re-estimate
+ * all songs whose energy is an estimate. No audio is decoded.
+ */
+export async function onRecalibrateEnergy(): Promise<{
+  calibration: Pick<EnergyCalibration, 'sampleCount' | 'rmse'>;
+  updated: number;
+}> {
+  const calibration = calibrateEnergy(getTaggedEnergySamples());
+  let updated = 0;
+  for (const song of getEstimatedEnergySongs()) {
+    setEnergyLevel(song.filePath, estimateEnergy(song.features, calibration), 'detected');
+    updated++;
+  }
+  return { calibration: { sampleCount: calibration.sampleCount, rmse: calibration.rmse }, updated };
+}
+
+/**
+ * Measure integrated loudness and true peak, and queue the ReplayGain track
+ * gain for review. Returns null for silent or sub-second audio.
+ */
+export async function onMeasureLoudness(filePath: string): Promise<LoudnessAnalysisResult | null> {
+  requireCachedSong(filePath);
+  const { loudness } = await analyzeSong(filePath, {});
+  if (!loudness) return null;
+
+  const gain = replayGainDb(loudness.integratedLufs);
+  const tagged = (await mp3Manager.readMetadata(filePath)).replayGainTrackGain;
+  // Taggers round differently; a few hundredths of a dB apart is the same gain
+  const pendingEditId = tagged != null && Math.abs(tagged - gain) < 0.05
+    ? null
+    : queueAnalysisEdit(filePath, 'REPLAYGAIN_TRACK_GAIN', tagged != null ? formatReplayGain(tagged) : null, formatReplayGain(gain));
+  return { ...loudness, filePath, replayGainDb: gain, pendingEditId };
+}
+
+/** Gain in dB that level-matches a song's preview, or null if it hasn't been analysed yet */
+export async function onGetPreviewGain(filePath: string): Promise<number | null> {
+  const loudness = getLoudness(filePath);
+  return loudness ? previewGainDb(loudness) : null;
+}
+
+/**
+ * Suggest mix-in/mix-out points: silence bounds and the first and last
+ * full-energy phrases. Stored in song_mix_points, replacing earlier
+ * suggestions; cue points are left alone.
+ */
+export async function onDetectMixPoints(filePath: string): Promise<MixPoints | null> {
+  const cached = requireCachedSong(filePath);
+  const points = (await analyzeSong(filePath, { mixPoints: { bpm: cached.bpm ?? null } })).mixPoints ?? null;
+  saveMixPoints(filePath, points);
+  return points;
+}
+
+/** Tempo and Camelot key from the library, tagged or estimated, for tempo-matched previews */
+export async function onGetTempoKey(filePath: string): Promise<TempoKeyInfo> {
+  const cached = getMP3CacheByPath(filePath);
+  return {
+    bpm: cached?.bpm ?? null,
+    camelotKey: cached?.camelot_key || (cached?.key ? standardToCamelot(cached.key) : null),
+  };
+}
+
+/** Stored mix-point suggestions, or null if the song hasn't been analysed */
+export async function onGetMixPoints(filePath: string): Promise<MixPoints | null> {
+  return getMixPoints(filePath);
+}
@@ -12,6 +12,10 @@ import './AudioPlayer.css';
 
 export interface AudioPlayerProps {
   src: string;
+  /** `/waveform/<encoded path>` for the same file, to draw its waveform on the progress bar */
+  waveformSrc?: string;
+  /** Cue points (seconds) to mark on the progress bar */
+  cues?: { position: number; name: string }[];
   title?: string;
   artist?: string;
   autoPlay?: boolean;
@@ -30,6 +34,8 @@ export interface AudioPlayerProps {
 
 export function AudioPlayer({
   src,
+  waveformSrc,
+  cues,
   title = 'Unknown Track',
   artist = 'Unknown Artist',
   autoPlay = false,
@@ -232,6 +238,8 @@ export function AudioPlayer({
               isLoading={state.isLoading}
               onSeek={seekTo}
               compact
+              waveformSrc={waveformSrc}
+              cues={cues}
             />
           </Box>
           <Text size="10px" c="dimmed" style={{ whiteSpace: 'nowrap' }}>
@@ -286,6 +294,8 @@ export function AudioPlayer({
         isLoading={state.isLoading}
         onSeek={seekTo}
         mb="xl"
+        waveformSrc={waveformSrc}
+        cues={cues}
       />
 
       {/* Player controls */}
@@ -1,6 +1,7 @@
 import React, { useState, useCallback } from 'react';
 import { Box, Group, Text, Slider } from '@mantine/core';
 import { formatTime } from '../../lib/format-utils';
+import { Waveform } from './Waveform';
 
 export interface ProgressBarProps {
   currentTime: number;
@@ -9,6 +10,10 @@ export interface ProgressBarProps {
   onSeek: (time: number) => void;
   mb?: string | number;
   compact?: boolean;
+  /** `/waveform/<encoded path>`; when set, a click-to-seek waveform is drawn above the slider */
+  waveformSrc?: string;
+  /** Cue points (seconds), e.g. suggested mix points, shown as markers */
+  cues?: { position: number; name: string }[];
 }
 
 
@@ -32,11 +37,14 @@ export function ProgressBar({
   onSeek,
   mb,
   compact = false,
+  waveformSrc,
+  cues = [],
 }: ProgressBarProps) {
   const [seekingTo, setSeekingTo] = useState<number | null>(null);
 
   const displayTime = seekingTo ?? currentTime;
   const marks = generateMarks(duration);
+  const cueMarks = cues.filter(c => c.position < duration).map(c => ({ value: c.position }));
 
   const handleChange = useCallback((value: number) => {
     setSeekingTo(value);
@@ -47,6 +55,11 @@ export function ProgressBar({
     onSeek(value);
   }, [onSeek]);
 
+  const handleWaveformSeek = useCallback((value: number) => {
+    setSeekingTo(value);
+    onSeek(value);
+  }, [onSeek]);
+
   // Clear seeking state when currentTime catches up to target
   React.useEffect(() => {
     if (seekingTo !== null && Math.abs(currentTime - seekingTo) < 0.5) {
@@ -69,12 +82,24 @@ export function ProgressBar({
         </Group>
       )}
 
+      {waveformSrc && (
+        <Waveform
+          src={waveformSrc}
+          currentTime={displayTime}
+          duration={duration}
+          onSeek={handleWaveformSeek}
+          height={compact ? 20 : 56}
+          disabled={isLoading || duration === 0}
+          cues={cues}
+        />
+      )}
+
       <Slider
         value={seekingTo ?? currentTime}
         min={0}
         max={sliderMax}
         step={0.1}
-        marks={compact ? [] : marks}
+        marks={compact ? cueMarks : [...marks, ...cueMarks]}
         disabled={isLoading || duration === 0}
         onChange={handleChange}
         onChangeEnd={handleChangeEnd}
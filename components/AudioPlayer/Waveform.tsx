@@ -0,0 +1,138 @@
+import { useEffect, useRef, useState, useCallback, type MouseEvent } from 'react';
+import { Box } from '@mantine/core';
+import type { WaveformLevel } from '../../lib/waveform';
+
+export interface WaveformProps {
+  /** `/waveform/<encoded path>`; nothing is drawn until the peaks have loaded */
+  src: string;
+  currentTime: number;
+  duration: number;
+  onSeek: (time: number) => void;
+  height?: number;
+  disabled?: boolean;
+  /** Cue positions (seconds) drawn as markers over the waveform; `end` shades a loop */
+  cues?: { position: number; name: string; color?: string; end?: number }[];
+}
+
+type WaveformResponse = WaveformLevel & { duration: number };
+
+/** Buckets to ask the server for; more than any player is wide */
+const WAVEFORM_POINTS = 1200;
+const UNPLAYED_ALPHA = 0.4;
+const CUE_COLOR = 'rgba(255, 196, 0, 0.9)';
+const LOOP_ALPHA = 0.25;
+
+/** Low → red, mid → green, high → blue, scaled so the dominant band is at full strength */
+function bandColor(low: number, mid: number, high: number, alpha: number): string {
+  const strongest = Math.max(low, mid, high, 1);
+  const channel = (v: number) => Math.round(60 + (195 * v) / strongest);
+  return `rgba(${channel(low)}, ${channel(mid)}, ${channel(high)}, ${alpha})`;
+}
+
+export function Waveform({
+  src,
+  currentTime,
+  duration,
+  onSeek,
+  height = 48,
+  disabled = false,
+  cues,
+}: WaveformProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [data, setData] = useState<WaveformResponse | null>(null);
+  const [width, setWidth] = useState(0);
+
+  // Fetch peaks; the first request for a track decodes it server-side, so it can take a moment
+  useEffect(() => {
+    const controller = new AbortController();
+    setData(null);
+    fetch(`${src}?points=${WAVEFORM_POINTS}`, { signal: controller.signal })
+      .then(response => (response.ok ? response.json() : null))
+      .then((body: WaveformResponse | null) => setData(body))
+      .catch(() => { /* no waveform; the slider still works */ });
+    return () => controller.abort();
+  }, [src]);
+
+  // Track the rendered width so the canvas stays sharp
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(Math.floor(entry.contentRect.width)));
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [data]);
+
+  const progress = duration > 0 ? Math.min(1, currentTime / duration) : 0;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !data || width === 0) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = width * ratio;
+    canvas.height = height * ratio;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    const buckets = data.peak.length;
+    const middle = height / 2;
+    const playedX = progress * width;
+    for (let x = 0; x < width; x++) {
+      const from = Math.floor((x * buckets) / width);
+      const to = Math.max(from + 1, Math.floor(((x + 1) * buckets) / width));
+      let peak = 0;
+      let low = 0;
+      let mid = 0;
+      let high = 0;
+      for (let b = from; b < Math.min(to, buckets); b++) {
+        peak = Math.max(peak, data.peak[b]);
+        low = Math.max(low, data.low[b]);
+        mid = Math.max(mid, data.mid[b]);
+        high = Math.max(high, data.high[b]);
+      }
+      const barHeight = Math.max(1, (peak / 255) * middle);
+      ctx.fillStyle = bandColor(low, mid, high, x < playedX ? 1 : UNPLAYED_ALPHA);
+      ctx.fillRect(x, middle - barHeight, 1, barHeight * 2);
+    }
+
+    if (cues && duration > 0) {
+      const toX = (seconds: number) => Math.min(width - 1, Math.round((seconds / duration) * width));
+      for (const cue of cues) {
+        const x = toX(cue.position);
+        ctx.fillStyle = cue.color ?? CUE_COLOR;
+        if (cue.end !== undefined) {
+          ctx.globalAlpha = LOOP_ALPHA;
+          ctx.fillRect(x, 0, Math.max(1, toX(cue.end) - x), height);
+          ctx.globalAlpha = 1;
+        }
+        ctx.fillRect(x, 0, 1, height);
+      }
+    }
+
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.fillRect(Math.min(width - 1, playedX), 0, 1, height);
+  }, [data, width, height, progress, cues, duration]);
+
+  const handleClick = useCallback((event: MouseEvent<HTMLCanvasElement>) => {
+    if (disabled || duration <= 0) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+    onSeek(ratio * duration);
+  }, [disabled, duration, onSeek]);
+
+  if (!data) return null;
+
+  return (
+    <Box style={{ height, cursor: disabled ? 'default' : 'pointer' }}>
+      {/* The slider next to it is the accessible seek control; this is a pointer shortcut */}
+      <canvas
+        ref={canvasRef}
+        onClick={handleClick}
+        aria-hidden="true"
+        data-testid="waveform"
+        style={{ width: '100%', height, display: 'block' }}
+      />
+    </Box>
+  );
+}
@@ -3,3 +3,4 @@ export type { AudioPlayerProps, AudioState } from './AudioPlayer';
 export { PlayerControls } from './PlayerControls';
 export { ProgressBar } from './ProgressBar';
 export { VolumeControl } from './VolumeControl';
+export { Waveform } from './Waveform';
@@ -0,0 +1,100 @@
+/**
+ * Telefunc API for duplicate detection: fingerprint library songs, group the
+ * ones that are the same recording and merge a group onto the copy to keep.
+ */
+import path from 'path';
+import { getMP3CacheByPath } from '../database/sqlite/queries/dj-sets';
+import {
+  saveFingerprint, getLibraryFingerprints, getUnfingerprintedPaths, countFingerprints,
+} from '../database/sqlite/queries/audio-features';
+import { getTagsForSong } from '../database/sqlite/queries/song-tags';
+import { getConnectionsForSong } from '../database/sqlite/queries/song-connections';
+import { mergeSongs, type MergeSummary } from '../database/sqlite/queries/song-merge';
+import { analyzeAudioFile } from '../lib/audio-analysis';
+import { groupDuplicates } from '../lib/fingerprint';
+
+export interface FingerprintProgress {
+  fingerprinted: number;
+  total: number;
+  /** Songs in this batch that couldn't be decoded */
+  failed: string[];
+}
+
+export interface DuplicateCopy {
+  filePath: string;
+  title: string;
+  artist: string;
+  /** Upper-case file extension, e.g. "MP3", "FLAC" */
+  format: string;
+  /** Average bitrate from file size and duration */
+  bitrateKbps: number | null;
+  fileSize: number | null;
+  duration: number | null;
+  tagCount: number;
+  connectionCount: number;
+}
+
+export interface DuplicateGroup {
+  /** Lowest pairwise fingerprint similarity in the group, 0–1 */
+  similarity: number;
+  copies: DuplicateCopy[];
+}
+
+export async function onGetFingerprintProgress(): Promise<FingerprintProgress> {
+  return { ...countFingerprints(), failed: [] };
+}
+
+/**
+ * Fingerprint up to `batchSize` songs that don't have one yet. Each song is a
+ * full decode, so the client calls this repeatedly and shows progress.
+ */
+export async function onFingerprintBatch(batchSize = 10): Promise<FingerprintProgress> {
+  const failed: string[] = [];
+  for (const filePath of getUnfingerprintedPaths(batchSize)) {
+    try {
+      const { fingerprint } = await analyzeAudioFile(filePath, { fingerprint: true });
+      if (!fingerprint) throw new Error('Analysis returned no fingerprint');
+      saveFingerprint(filePath, fingerprint);
+    } catch (error) {
+      console.warn('[Duplicates] Failed to fingerprint', filePath, error);
+      // Store an empty fingerprint so the batch moves on instead of retrying it forever
+      saveFingerprint(filePath, { words: new Uint32Array(0), duration: 0 });
+      failed.push(filePath);
+    }
+  }
+  return { ...countFingerprints(), failed };
+}
+
+function describeCopy(filePath: string): DuplicateCopy {
+  const cached = getMP3CacheByPath(filePath);
+  const fileSize = cached?.file_size ?? null;
+  const duration = cached?.duration ?? null;
+  return {
+    filePath,
+    title: cached?.title || path.basename(filePath),
+    artist: cached?.artist || '',
+    format: path.extname(filePath).slice(1).toUpperCase(),
+    bitrateKbps: fileSize && duration ? Math.round((fileSize * 8) / duration / 1000) : null,
+    fileSize,
+    duration,
+    tagCount: getTagsForSong(filePath).length,
+    connectionCount: getConnectionsForSong(filePath).length,
+  };
+}
+
+/** Groups of fingerprinted songs that are the same recording, best copy (highest bitrate) first */
+export async function onFindDuplicates(): Promise<DuplicateGroup[]> {
+  const songs = getLibraryFingerprints().filter(song => song.fingerprint.words.length > 0);
+  return groupDuplicates(songs)
+    .map(group => ({
+      similarity: group.similarity,
+      copies: group.filePaths.map(describeCopy).sort((a, b) => (b.bitrateKbps ?? 0) - (a.bitrateKbps ?? 0)),
+    }))
+    .sort((a, b) => a.copies[0].title.localeCompare(b.copies[0].title));
+}
+
+/** Move tags, connections, playlist items and moodboard nodes from the other copies onto the keeper, and take those copies out of the library */
+export async function onMergeDuplicates(keeperPath: string, duplicatePaths: string[]): Promise<MergeSummary> {
+  if (!getMP3CacheByPath(keeperPath)) throw new Error('Keeper is not in the library');
+  return mergeSongs(keeperPath, duplicatePaths.filter(p => p !== keeperPath));
+}
@@ -1,8 +1,10 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Paper, Group, Text, Box } from '@mantine/core';
 import { IconMusic } from '@tabler/icons-react';
 import { AudioPlayer } from './AudioPlayer';
 import type { MP3Metadata } from '../lib/mp3-metadata';
+import { mixPointCues } from '../lib/mix-points';
+import { onGetMixPoints } from './Analysis.telefunc';
 
 export interface GlobalAudioPlayerProps {
   currentTrack: MP3Metadata | null;
@@ -27,6 +29,20 @@ export function GlobalAudioPlayer({
   onError,
   onEnded
 }: GlobalAudioPlayerProps) {
+  const [cues, setCues] = useState<{ position: number; name: string }[]>([]);
+  const filePath = currentTrack?.filePath;
+
+  // Suggested mix points, marked on the progress bar once the track has been analysed
+  useEffect(() => {
+    setCues([]);
+    if (!filePath) return;
+    let cancelled = false;
+    onGetMixPoints(filePath)
+      .then(points => { if (!cancelled && points) setCues(mixPointCues(points)); })
+      .catch(() => { /* no markers */ });
+    return () => { cancelled = true; };
+  }, [filePath]);
+
   if (!currentTrack) {
     return (
       <Paper shadow="sm" p="md" mb="md" withBorder>
@@ -40,6 +56,7 @@ export function GlobalAudioPlayer({
 
   // Convert file path to audio URL
   const audioSrc = `/audio/${encodeURIComponent(currentTrack.filePath)}`;
+  const waveformSrc = `/waveform/${encodeURIComponent(currentTrack.filePath)}`;
   console.log('GlobalAudioPlayer rendering with:', {
     currentTrack: currentTrack.title || currentTrack.filePath,
     isPlaying,
@@ -53,6 +70,8 @@ export function GlobalAudioPlayer({
         <Text size="sm" c="dimmed" mb="xs">Now Playing</Text>
         <AudioPlayer
           src={audioSrc}
+          waveformSrc={waveformSrc}
+          cues={cues}
           title={currentTrack.title || 'Unknown Title'}
           artist={currentTrack.artist || 'Unknown Artist'}
           autoPlay={true} // Always autoplay when a new track is selected
@@ -0,0 +1,92 @@
+/**
+ * Telefunc API for hot cues and saved loops (see lib/hot-cues). Import and
+ * export are explicit per-song actions from the player, so they read and
+ * write Serato's tag and VirtualDJ's database.xml directly; database.xml is
+ * backed up first, as the review-based export does.
+ */
+import { getHotCues, setHotCues, deleteHotCue, type SongHotCue } from '../database/sqlite/queries/song-cues';
+import { readVdjDatabasePath } from '../database/sqlite/queries/library-settings';
+import {
+  isHotCueSlot, hotCuesFromSerato, hotCuesToSerato, hotCuesFromVdj, hotCuesToVdj, HOT_CUE_SLOTS,
+  type HotCue, type HotCueSource,
+} from '../lib/hot-cues';
+import { readSeratoMarkers, writeSeratoMarkers } from '../lib/serato-markers';
+import {
+  parseVdjDatabase, readVdjDatabase, backupVdjDatabase, writeVdjDatabase, normalizeVdjPath, replaceVdjHotCues,
+} from '../lib/vdj-database';
+
+function toHotCue(row: SongHotCue): HotCue {
+  return { slot: row.slot, position: row.position, name: row.name ?? '', loopEnd: row.loop_end };
+}
+
+function requireMp3(filePath: string): void {
+  if (!/\.mp3$/i.test(filePath)) throw new Error('Serato cues can only be read from and written to MP3 files');
+}
+
+function requireVdjDatabasePath(): string {
+  const dbPath = readVdjDatabasePath();
+  if (!dbPath) throw new Error('VirtualDJ database.xml path not set');
+  return dbPath;
+}
+
+export async function onGetHotCues(filePath: string): Promise<HotCue[]> {
+  return getHotCues(filePath).map(toHotCue);
+}
+
+/** Set one slot; returns all hot cues of the song */
+export async function onSetHotCue(filePath: string, cue: HotCue): Promise<HotCue[]> {
+  if (!isHotCueSlot(cue.slot)) throw new Error(`Hot cue slot must be 1 to ${HOT_CUE_SLOTS}`);
+  if (!Number.isFinite(cue.position) || cue.position < 0) throw new Error('Cue position must be a time in the song');
+  if (cue.loopEnd != null && !(cue.loopEnd > cue.position)) throw new Error('A loop must end after it starts');
+  setHotCues(filePath, [{ slot: cue.slot, position: cue.position, name: cue.name.trim(), loopEnd: cue.loopEnd }]);
+  return getHotCues(filePath).map(toHotCue);
+}
+
+export async function onDeleteHotCue(filePath: string, slot: number): Promise<HotCue[]> {
+  deleteHotCue(filePath, slot);
+  return getHotCues(filePath).map(toHotCue);
+}
+
+/**
+ * Copy the song's cues from Serato's tag or VirtualDJ's database onto their
+ * slots. Slots the source doesn't use keep their current cue.
+ */
+export async function onImportHotCues(filePath: string, source: HotCueSource): Promise<HotCue[]> {
+  let imported: HotCue[];
+  if (source === 'serato') {
+    requireMp3(filePath);
+    const markers = await readSeratoMarkers(filePath);
+    imported = markers ? hotCuesFromSerato(markers) : [];
+  } else {
+    const key = normalizeVdjPath(filePath);
+    const song = parseVdjDatabase(await readVdjDatabase(requireVdjDatabasePath()))
+      .find(s => normalizeVdjPath(s.filePath) === key);
+    if (!song) throw new Error('Song not in VirtualDJ database');
+    imported = hotCuesFromVdj(song.cues);
+  }
+  if (imported.length === 0) throw new Error(`No ${source === 'serato' ? 'Serato' : 'VirtualDJ'} hot cues found for this song`);
+
+  setHotCues(filePath, imported);
+  return getHotCues(filePath).map(toHotCue);
+}
+
+/**
+ * Write the song's hot cues to Serato's tag (cues and loops) or to
+ * VirtualDJ's database.xml (cues only). Returns how many were written.
+ */
+export async function onExportHotCues(filePath: string, target: HotCueSource): Promise<number> {
+  const cues = getHotCues(filePath).map(toHotCue);
+  if (target === 'serato') {
+    requireMp3(filePath);
+    await writeSeratoMarkers(filePath, hotCuesToSerato(cues));
+    return cues.length;
+  }
+
+  const dbPath = requireVdjDatabasePath();
+  const vdjCues = hotCuesToVdj(cues);
+  const result = replaceVdjHotCues(await readVdjDatabase(dbPath), normalizeVdjPath(filePath), vdjCues, HOT_CUE_SLOTS);
+  if (!result.found) throw new Error('Song not in VirtualDJ database');
+  await backupVdjDatabase(dbPath);
+  await writeVdjDatabase(dbPath, result.xml);
+  return vdjCues.length;
+}
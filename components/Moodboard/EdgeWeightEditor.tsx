@@ -1,5 +1,5 @@
-import { Box, Group, Text, Slider, ActionIcon, CloseButton, SegmentedControl } from '@mantine/core';
-import { IconTrash } from '@tabler/icons-react';
+import { Box, Group, Text, Slider, ActionIcon, CloseButton, SegmentedControl, Tooltip } from '@mantine/core';
+import { IconTrash, IconVinyl } from '@tabler/icons-react';
 import type { Edge } from '@xyflow/react';
 import { EDGE_MEANINGS, EDGE_COLORS, type EdgeType } from './moodboard-constants';
 
@@ -12,6 +12,8 @@ interface EdgeWeightEditorProps {
   onTypeChange?: (edgeId: string, newType: string) => void;
   onDelete: (edgeId: string) => void;
   onClose: () => void;
+  /** Load source → target into the two decks; only offered for song-to-song edges */
+  onAudition?: () => void;
 }
 
 function ColorDot({ color }: { color: string }) {
@@ -28,7 +30,7 @@ function ColorDot({ color }: { color: string }) {
   );
 }
 
-export function EdgeWeightEditor({ edge, position, onWeightChange, onTypeChange, onDelete, onClose }: EdgeWeightEditorProps) {
+export function EdgeWeightEditor({ edge, position, onWeightChange, onTypeChange, onDelete, onClose, onAudition }: EdgeWeightEditorProps) {
   const edgeType = ((edge.data as any)?.edgeType || 'custom') as EdgeType;
 
   return (
@@ -63,6 +65,13 @@ export function EdgeWeightEditor({ edge, position, onWeightChange, onTypeChange,
           {edgeType}
         </Text>
         <Group gap={4}>
+          {onAudition && (
+            <Tooltip label="Audition A → B on two decks">
+              <ActionIcon variant="subtle" color="violet" size="xs" onClick={onAudition} data-testid="edge-audition">
+                <IconVinyl size={12} />
+              </ActionIcon>
+            </Tooltip>
+          )}
           <ActionIcon variant="subtle" color="red" size="xs" onClick={() => { onDelete(edge.id); onClose(); }}>
             <IconTrash size={12} />
           </ActionIcon>
@@ -12,7 +12,7 @@ import {
 import '@xyflow/react/dist/style.css';
 import './Moodboard.css';
 import { Box, ActionIcon, Group, Tooltip, Text, Badge, SegmentedControl, Slider, Switch, Button } from '@mantine/core';
-import { IconTrash, IconSearch, IconLayoutDistributeHorizontal, IconGridDots, IconArrowMergeRight } from '@tabler/icons-react';
+import { IconTrash, IconSearch, IconLayoutDistributeHorizontal, IconGridDots, IconArrowMergeRight, IconPlaylistAdd } from '@tabler/icons-react';
 import { EdgeWeightEditor } from './EdgeWeightEditor';
 import { MoodboardConnectionLine } from './edges/MoodboardConnectionLine';
 import SongNode from './nodes/SongNode';
@@ -63,6 +63,10 @@ interface MoodboardCanvasProps {
   scrollToNodeRef?: React.MutableRefObject<((nodeId: string) => void) | null>;
   onMergeTags?: (keepNodeId: string, removeNodeId: string) => void;
   onReassignSongTag?: (filePath: string, newTagLabel: string, category: string) => void;
+  /** Load a song-to-song edge into the two-deck player, source on A */
+  onAuditionTransition?: (fromPath: string, toPath: string) => void;
+  /** Play the selected songs through the queue, ordered left to right */
+  onQueueSongs?: (filePaths: string[]) => void;
 }
 
 function injectCallbacks(
@@ -113,7 +117,7 @@ export function MoodboardCanvas({
   onConnect, onNodeDelete, onEdgeDelete, onEdgeWeightChange, onEdgeTypeChange,
   onSearchOpen, onAddTag, onPlaySong, onHoverPlaySong, onNodesUpdate, onAddSong,
   onSongSelect, onSelectedSongKeyChange,
-  scrollToNodeRef, onMergeTags, onReassignSongTag,
+  scrollToNodeRef, onMergeTags, onReassignSongTag, onAuditionTransition, onQueueSongs,
 }: MoodboardCanvasProps) {
   const containerRef = useRef<HTMLDivElement | null>(null);
   const pendingConnectionRef = useRef<PendingConnection | null>(null);
@@ -138,6 +142,16 @@ export function MoodboardCanvas({
     [edges, selectedEdgeId],
   );
 
+  // Both ends of the selected edge when they are songs, for the "A → B" audition
+  const selectedEdgeSongs = useMemo(() => {
+    if (!selectedEdge) return null;
+    const source = nodes.find(n => n.id === selectedEdge.source);
+    const target = nodes.find(n => n.id === selectedEdge.target);
+    const fromPath = source?.type === 'song' ? (source.data as { filePath?: string }).filePath : undefined;
+    const toPath = target?.type === 'song' ? (target.data as { filePath?: string }).filePath : undefined;
+    return fromPath && toPath ? { fromPath, toPath } : null;
+  }, [nodes, selectedEdge]);
+
   useEffect(() => {
     if (!selectedEdgeId) return;
     if (!edges.some((edge) => edge.id === selectedEdgeId)) {
@@ -279,6 +293,15 @@ export function MoodboardCanvas({
     return (a.data as any).category === (b.data as any).category;
   }, [selectedNodeIds, nodes, onMergeTags]);
 
+  // Selected songs in reading order, so a board laid out as a flow plays as one
+  const selectedSongPaths = useMemo(() => {
+    const selected = new Set(selectedNodeIds);
+    return nodes
+      .filter(n => selected.has(n.id) && n.type === 'song')
+      .sort((a, b) => a.position.x - b.position.x || a.position.y - b.position.y)
+      .map(n => (n.data as unknown as SongNodeData).filePath);
+  }, [selectedNodeIds, nodes]);
+
   // Notify parent about the selected song's Camelot key for library filtering
   useEffect(() => {
     if (!onSelectedSongKeyChange) return;
@@ -753,6 +776,23 @@ export function MoodboardCanvas({
           </Panel>
         )}
 
+        {/* Queue button — shown when several songs are selected */}
+        {onQueueSongs && !canMerge && selectedSongPaths.length > 1 && (
+          <Panel position="top-center">
+            <Button
+              size="xs"
+              variant="filled"
+              color="violet"
+              leftSection={<IconPlaylistAdd size={14} />}
+              data-testid="queue-selection-btn"
+              onClick={() => onQueueSongs(selectedSongPaths)}
+              style={{ background: 'rgba(30,30,30,0.95)', border: '1px solid #373A40' }}
+            >
+              Play {selectedSongPaths.length} songs
+            </Button>
+          </Panel>
+        )}
+
         {/* Edge settings — top-right */}
         <Panel position="top-right">
           <Box style={{ background: 'rgba(30,30,30,0.95)', padding: '8px 12px', borderRadius: 6, border: '1px solid #373A40', minWidth: 190 }}>
@@ -857,6 +897,9 @@ export function MoodboardCanvas({
             onEdgeWeightChange(id, w);
           }}
           onTypeChange={onEdgeTypeChange}
+          onAudition={onAuditionTransition && selectedEdgeSongs
+            ? () => onAuditionTransition(selectedEdgeSongs.fromPath, selectedEdgeSongs.toPath)
+            : undefined}
           onDelete={(id) => {
             onEdgeDelete(id);
             setSelectedEdgeId(null);
@@ -11,9 +11,11 @@ import type { Connection, Edge } from '@xyflow/react';
 interface MoodboardCanvasViewProps {
   currentPlayingPath?: string | null;
   onPlaySong: (filePath: string) => void;
+  onAuditionTransition?: (fromPath: string, toPath: string) => void;
+  onQueueSongs?: (filePaths: string[]) => void;
 }
 
-export function MoodboardCanvasView({ currentPlayingPath, onPlaySong }: MoodboardCanvasViewProps) {
+export function MoodboardCanvasView({ currentPlayingPath, onPlaySong, onAuditionTransition, onQueueSongs }: MoodboardCanvasViewProps) {
   const state = useMoodboardState(currentPlayingPath);
   const [searchOpen, setSearchOpen] = useState(false);
   const scrollToNodeRef = useRef<((nodeId: string) => void) | null>(null);
@@ -64,6 +66,8 @@ export function MoodboardCanvasView({ currentPlayingPath, onPlaySong }: Moodboar
           onMergeTags={state.mergeTags}
           onReassignSongTag={state.reassignSongTag}
           scrollToNodeRef={scrollToNodeRef}
+          onAuditionTransition={onAuditionTransition}
+          onQueueSongs={onQueueSongs}
         />
         {searchOpen && (
           <MoodboardSearch
@@ -7,16 +7,16 @@
 // --- Database queries ---
 import { saveBaseFolder, readBaseFolder } from '../../database/sqlite/queries/library-settings';
 import {
-  addSongTag, removeSongTag, getTagsForSong, getAllTags, searchTags, bulkSetSongTags,
+  addSongTag, removeSongTag, getTagsForSong, getAllTags, searchTags,
   getAllSongTags,
   type SongTag, type TagCount,
 } from '../../database/sqlite/queries/song-tags';
-import type { TagCategory } from '../../lib/types';
+import type { TagCategory, AnalysisSource, EnergySource } from '../../lib/types';
 import {
   addSongConnection as dbAddConnection,
   removeSongConnectionByPaths, updateConnectionWeight as dbUpdateWeight,
-  getConnectionsForSong, getAllConnections, bulkAddConnections,
-  type SongConnection, type ConnectionType, type ConnectionSource,
+  getConnectionsForSong, getAllConnections, getConnectionBetween,
+  type SongConnection, type ConnectionType,
 } from '../../database/sqlite/queries/song-connections';
 import {
   getPhaseEdges as dbGetPhaseEdges, addPhaseEdge as dbAddPhaseEdge,
@@ -34,9 +34,12 @@ import {
   removeNodePosition, getNodePosition,
 } from '../../database/sqlite/queries/canvas-state';
 import {
-  insertMP3Cache, searchMP3Cache, getMP3CacheByPath, deleteMP3Cache,
+  searchMP3Cache, getMP3CacheByPath, getMP3CacheIndex,
+  getDJSets, getDJSetById, getSetItems,
   type MP3CacheItem, type MP3SearchResult,
 } from '../../database/sqlite/queries/dj-sets';
+import { getLoudness, getMixPoints } from '../../database/sqlite/queries/audio-features';
+import { getSongFreshness } from '../../database/sqlite/queries/play-history';
 
 // --- Domain engines ---
 import {
@@ -48,16 +51,27 @@ import {
   type PhaseEdge as PhaseEdgeDomain,
 } from '../../lib/phase-graph';
 import {
-  generatePlaylist, type PlaylistOptions, type GeneratedPlaylist,
+  generatePlaylist, withEstimatedOverlaps, transitionRatingWeight, TRANSITION_RATING_MAX,
+  type PlaylistOptions, type GeneratedPlaylist,
 } from '../../lib/playlist-generator';
 import {
-  scanFolder, resolveAllConnections,
+  scanFolder, scanFolderIncremental, statAudioFiles, computeScanDiff,
+  computeIncrementalScanDiff, isInFolder,
+  type ScannedSong, type ScanDiff, type FileStat, type FileChanges, type CachedFileStat,
 } from '../../lib/scan-engine';
-import { MP3MetadataManager, type MusickTagData, MUSICK_TAG_PREFIX } from '../../lib/mp3-metadata';
+import { MP3MetadataManager } from '../../lib/mp3-metadata';
+import { buildHashtagString } from '../../lib/mp3-parsing';
+import type { MixPoints } from '../../lib/mix-points';
+import { FRESHNESS_WINDOW_DAYS } from '../../lib/play-history';
+import { camelotToStandard } from '../../lib/camelot';
+import { buildRekordboxXml, type RekordboxTrack } from '../../lib/rekordbox-xml';
 import {
-  addTagEdit,
-  clearPendingTagEditsByDirection,
-} from '../../database/sqlite/queries/mp3-tag-edits';
+  buildPlaylistFile, parseM3U8, resolveEntryPath, exportFilename, PLAYLIST_FILE_FORMATS,
+  type PlaylistFileFormat, type PlaylistPathOptions,
+} from '../../lib/playlist-files';
+import { fuzzyMatchSong, type FuzzyMatchMethod } from '../../lib/library-import';
+import { applyLibraryUpdate } from '../../lib/library-sync';
+import { watchLibrary } from '../../server/library-watcher';
 
 // Shared metadata manager instance
 const mp3Manager = new MP3MetadataManager();
@@ -79,6 +93,9 @@ interface LibrarySong {
   bpm?: number;
   energyLevel?: number;
   label?: string;
+  playCount?: number;
+  skipCount?: number;
+  lastPlayed?: string | null;
 }
 
 interface SongTagInfo {
@@ -126,6 +143,12 @@ interface PlaylistInfo {
   createdAt: string;
 }
 
+interface DJSetInfo {
+  id: number;
+  name: string;
+  itemCount: number;
+}
+
 interface PlaylistWithItems {
   id: number;
   name: string;
@@ -133,6 +156,20 @@ interface PlaylistWithItems {
   items: { filePath: string; position: number; phase: string | null; title: string; artist: string }[];
 }
 
+interface PlaylistExport {
+  filename: string;
+  content: string;
+}
+
+interface PlaylistFileImportResult {
+  playlistId: number;
+  name: string;
+  matched: number;
+  /** Entries whose path wasn't in the library but were matched another way */
+  fuzzy: { entryPath: string; filePath: string; matchedBy: FuzzyMatchMethod }[];
+  unmatched: string[];
+}
+
 interface MoodboardState {
   songs: { filePath: string; title: string; artist: string; x: number; y: number; tags: SongTagInfo[]; key?: string; camelotKey?: string; bpm?: number; energyLevel?: number }[];
   connections: { id: number; sourcePath: string; targetPath: string; type: string; weight: number }[];
@@ -145,7 +182,10 @@ interface MoodboardState {
 }
 
 interface GeneratedPlaylistResult {
-  entries: { filePath: string; title: string; artist: string; phase: string | null; position: number; reason: string }[];
+  entries: {
+    filePath: string; title: string; artist: string; phase: string | null; position: number; reason: string;
+    overlapSeconds: number | null;
+  }[];
   phases: string[];
   stats: { totalSongs: number; phaseCounts: Record<string, number>; untaggedCount: number; clusterCount: number };
 }
@@ -160,9 +200,23 @@ interface SongMetadata {
   artworkDataUrl: string | null;
   key?: string;
   camelotKey?: string;
+  /** Set when key/bpm are known: read from the tag, or estimated from the audio */
+  keySource?: AnalysisSource;
+  keyConfidence?: number;
   bpm?: number;
+  bpmSource?: AnalysisSource;
+  bpmConfidence?: number;
   energyLevel?: number;
+  energySource?: EnergySource;
   label?: string;
+  /** From audio analysis; absent until the song has been analysed */
+  integratedLufs?: number;
+  truePeakDb?: number;
+  mixPoints?: MixPoints;
+  /** From play history */
+  playCount: number;
+  skipCount: number;
+  lastPlayed: string | null;
 }
 
 interface DiscoveredConnection {
@@ -196,6 +250,32 @@ function cacheToLibrarySong(c: MP3CacheItem): LibrarySong {
     bpm: c.bpm ?? undefined,
     energyLevel: c.energy_level ?? undefined,
     label: c.label ?? undefined,
+    playCount: c.play_count ?? 0,
+    skipCount: c.skip_count ?? 0,
+    lastPlayed: c.last_played ?? null,
+  };
+}
+
+/** Collect a track's Rekordbox fields from the cache and its Musicky tags */
+function toRekordboxTrack(filePath: string, phase: string | null): RekordboxTrack {
+  const cached = getMP3CacheByPath(filePath);
+  const tags = getTagsForSong(filePath);
+  const genres = tags.filter(t => t.tag_category === 'genre').map(t => t.tag_label);
+  const tonality = cached?.key
+    ?? (cached?.camelot_key ? camelotToStandard(cached.camelot_key) ?? undefined : undefined);
+
+  return {
+    filePath,
+    title: cached?.title || filePath.split('/').pop() || filePath,
+    artist: cached?.artist ?? '',
+    album: cached?.album ?? '',
+    genre: genres.join(', '),
+    duration: cached?.duration ?? 0,
+    fileSize: cached?.file_size ?? 0,
+    bpm: cached?.bpm ?? undefined,
+    tonality,
+    comments: buildHashtagString(tags.map(t => ({ label: t.tag_label, category: t.tag_category }))),
+    phase: phase ?? tags.find(t => t.tag_category === 'phase')?.tag_label ?? null,
   };
 }
 
@@ -265,12 +345,19 @@ export async function onGetBaseFolder(): Promise<string | null> {
 
 export async function onSetBaseFolder(path: string): Promise<void> {
   saveBaseFolder(path);
+  watchLibrary(path);
 }
 
-export async function onScanLibrary(): Promise<{
+/**
+ * Bring the cache, tags and connections in line with the music folder. By
+ * default only files whose size or modification time changed are re-read;
+ * `deep` re-reads every file, catching edits that left both unchanged.
+ */
+export async function onScanLibrary({ deep = false }: { deep?: boolean } = {}): Promise<{
   totalFiles: number;
   newFiles: number;
   updatedFiles: number;
+  unchangedFiles: number;
   removedFiles: number;
   tagsDiscovered: number;
   connectionsDiscovered: number;
@@ -280,140 +367,42 @@ export async function onScanLibrary(): Promise<{
   const base = readBaseFolder();
   if (!base) throw new Error('Base folder not set');
 
-  // 1. Scan all MP3 files
-  const { songs, errors } = await scanFolder(base, mp3Manager);
-
-  let newFiles = 0;
-  let updatedFiles = 0;
-  let tagsDiscovered = 0;
-
-  // 2. Update mp3_file_cache and song_tags for each song
-  for (const song of songs) {
-    const existing = getMP3CacheByPath(song.filePath);
-    const filename = song.filePath.split('/').pop() ?? song.filePath;
-    const stat = await import('fs').then(fs => {
-      try {
-        const s = fs.statSync(song.filePath);
-        return { size: s.size, mtime: s.mtime.toISOString() };
-      } catch {
-        return { size: 0, mtime: new Date().toISOString() };
-      }
-    });
-
-    insertMP3Cache({
-      file_path: song.filePath,
-      filename,
-      artist: song.artist,
-      title: song.title,
-      album: song.album,
-      duration: song.duration,
-      file_size: stat.size,
-      last_modified: stat.mtime,
-    });
-
-    if (!existing) {
-      newFiles++;
-    } else {
-      updatedFiles++;
-    }
-
-    // Set tags from scan
-    if (song.tags.length > 0) {
-      bulkSetSongTags(song.filePath, song.tags.map(t => ({
-        label: t.label,
-        category: t.category as TagCategory,
-        source: 'id3_import' as const,
-      })));
-      tagsDiscovered += song.tags.length;
-    }
-  }
-
-  // 3. Resolve related-song references into file-path connections
-  const resolvedConnections = resolveAllConnections(songs);
-  if (resolvedConnections.length > 0) {
-    bulkAddConnections(resolvedConnections.map(c => ({
-      sourcePath: c.sourcePath,
-      targetPath: c.targetPath,
-      type: c.type as ConnectionType,
-      weight: c.weight,
-      source: 'id3_import' as ConnectionSource,
-    })));
+  const cached: CachedFileStat[] = getMP3CacheIndex()
+    .filter(c => isInFolder(c.file_path, base))
+    .map(c => ({ filePath: c.file_path, fileSize: c.file_size ?? null, lastModified: c.last_modified ?? null }));
+
+  // 1. Read tags from every file (deep) or only from new and changed ones
+  let songs: ScannedSong[];
+  let stats: FileStat[];
+  let diff: ScanDiff;
+  let errors: { filePath: string; error: string }[];
+  if (deep) {
+    stats = await statAudioFiles(base);
+    ({ songs, errors } = await scanFolder(base, mp3Manager));
+    const scanned = computeScanDiff(cached.map(c => c.filePath), songs, getAllSongTags());
+    // A file that's still there but failed to parse isn't removed
+    const onDisk = new Set(stats.map(st => st.filePath));
+    diff = { ...scanned, removedPaths: scanned.removedPaths.filter(p => !onDisk.has(p)) };
+  } else {
+    let changes: FileChanges;
+    ({ songs, changes, stats, errors } = await scanFolderIncremental(base, mp3Manager, cached));
+    diff = computeIncrementalScanDiff(changes, songs, getAllSongTags());
   }
 
-  // 4. Discover hidden connections (shared-tag edges)
-  const songNodes: SongNode[] = songs.map(s => ({
-    filePath: s.filePath,
-    title: s.title,
-    artist: s.artist,
-    tags: s.tags,
-  }));
-  const existingEdges: SongEdge[] = resolvedConnections.map(c => ({
-    sourceFilePath: c.sourcePath,
-    targetFilePath: c.targetPath,
-    type: c.type,
-    weight: c.weight,
-  }));
-  const discovered = discoverHiddenConnections(songNodes, existingEdges);
-  if (discovered.length > 0) {
-    bulkAddConnections(discovered.map(e => ({
-      sourcePath: e.sourceFilePath,
-      targetPath: e.targetFilePath,
-      type: e.type as ConnectionType,
-      weight: e.weight,
-      source: 'auto_discovered' as ConnectionSource,
-    })));
-  }
-
-  // 5. Auto-detect import suggestions: find songs with µ: tags that differ from song_tags
-  let importSuggestions = 0;
-  clearPendingTagEditsByDirection('import');
-
-  for (const song of songs) {
-    let id3Tags: MusickTagData | null;
-    try {
-      id3Tags = await mp3Manager.readMusickTags(song.filePath);
-    } catch { continue; }
-    if (!id3Tags) continue;
-
-    const dbTags = getTagsForSong(song.filePath);
-    const dbMusickData = MP3MetadataManager.tagsToMusickData(
-      dbTags.map(t => ({ label: t.tag_label, category: t.tag_category })),
-      [],
-    );
-
-    // Compare each field and create import suggestions where they differ
-    const fields: { name: string; id3Val: string[]; dbVal: string[] }[] = [
-      { name: `${MUSICK_TAG_PREFIX}genres`, id3Val: id3Tags.genres || [], dbVal: dbMusickData.genres || [] },
-      { name: `${MUSICK_TAG_PREFIX}phases`, id3Val: id3Tags.phases || [], dbVal: dbMusickData.phases || [] },
-      { name: `${MUSICK_TAG_PREFIX}moods`,  id3Val: id3Tags.moods  || [], dbVal: dbMusickData.moods  || [] },
-      { name: `${MUSICK_TAG_PREFIX}topics`, id3Val: id3Tags.topics || [], dbVal: dbMusickData.topics || [] },
-      { name: `${MUSICK_TAG_PREFIX}tags`,   id3Val: id3Tags.tags   || [], dbVal: dbMusickData.tags   || [] },
-    ];
-
-    for (const f of fields) {
-      const id3Norm = [...f.id3Val].sort().join(', ');
-      const dbNorm = [...f.dbVal].sort().join(', ');
-      if (id3Norm !== dbNorm && id3Norm !== '') {
-        addTagEdit(song.filePath, f.name, dbNorm || null, id3Norm, 'import');
-        importSuggestions++;
-      }
-    }
-
-    // Related songs
-    if (id3Tags.related && id3Tags.related.length > 0) {
-      const id3RelStr = JSON.stringify(id3Tags.related.sort((a, b) => `${a.title}${a.artist}`.localeCompare(`${b.title}${b.artist}`)));
-      addTagEdit(song.filePath, `${MUSICK_TAG_PREFIX}related`, null, id3RelStr, 'import');
-      importSuggestions++;
-    }
-  }
+  // 2. Write the cache, tags, connections and import suggestions
+  const { tagsDiscovered, connectionsDiscovered, importSuggestions } = await applyLibraryUpdate(
+    { songs, stats, removedPaths: diff.removedPaths, deep },
+    mp3Manager,
+  );
 
   return {
-    totalFiles: songs.length,
-    newFiles,
-    updatedFiles,
-    removedFiles: 0,
+    totalFiles: stats.length,
+    newFiles: diff.newSongs.length,
+    updatedFiles: songs.length - diff.newSongs.length,
+    unchangedFiles: stats.length - songs.length - errors.length,
+    removedFiles: diff.removedPaths.length,
     tagsDiscovered,
-    connectionsDiscovered: resolvedConnections.length + discovered.length,
+    connectionsDiscovered,
     importSuggestions,
     errors,
   };
@@ -437,6 +426,9 @@ export async function onGetLibrarySongs(): Promise<LibrarySong[]> {
     bpm: r.bpm ?? undefined,
     energyLevel: r.energy_level ?? undefined,
     label: r.label ?? undefined,
+    playCount: r.play_count ?? 0,
+    skipCount: r.skip_count ?? 0,
+    lastPlayed: r.last_played ?? null,
   }));
 }
 
@@ -470,6 +462,9 @@ export async function onGetLibrarySongsWithTags(): Promise<(LibrarySong & { tags
     bpm: r.bpm ?? undefined,
     energyLevel: r.energy_level ?? undefined,
     label: r.label ?? undefined,
+    playCount: r.play_count ?? 0,
+    skipCount: r.skip_count ?? 0,
+    lastPlayed: r.last_played ?? null,
     tags: tagsByPath.get(r.file_path) || [],
   }));
 }
@@ -489,6 +484,9 @@ export async function onSearchSongs(query: string, limit = 30): Promise<LibraryS
     bpm: r.bpm ?? undefined,
     energyLevel: r.energy_level ?? undefined,
     label: r.label ?? undefined,
+    playCount: r.play_count ?? 0,
+    skipCount: r.skip_count ?? 0,
+    lastPlayed: r.last_played ?? null,
   }));
 }
 
@@ -537,6 +535,28 @@ export async function onRemoveSongConnection(
   removeSongConnectionByPaths(sourcePath, targetPath, type as ConnectionType);
 }
 
+/**
+ * Store how a pair sounded mixed A → B (1–5) as a directed 'transition'
+ * connection, replacing any earlier rating, so playlist ordering learns from it.
+ */
+export async function onRateTransition(fromPath: string, toPath: string, rating: number): Promise<void> {
+  if (!Number.isInteger(rating) || rating < 1 || rating > TRANSITION_RATING_MAX) {
+    throw new Error(`Rating must be 1–${TRANSITION_RATING_MAX}`);
+  }
+  dbAddConnection(fromPath, toPath, 'transition', transitionRatingWeight(rating), 'audition');
+}
+
+/** Earlier ratings for A → B pairs, in order; null where a pair has no transition connection */
+export async function onGetTransitionRatings(
+  pairs: { fromPath: string; toPath: string }[],
+): Promise<(number | null)[]> {
+  return pairs.map(({ fromPath, toPath }) => {
+    const transition = getConnectionBetween(fromPath, toPath)
+      .find(c => c.connection_type === 'transition' && c.source_path === fromPath);
+    return transition ? 1 + Math.round(transition.weight * (TRANSITION_RATING_MAX - 1)) : null;
+  });
+}
+
 export async function onUpdateConnectionWeight(id: number, weight: number): Promise<void> {
   dbUpdateWeight(id, weight);
 }
@@ -660,7 +680,13 @@ export async function onGeneratePlaylist(options?: PlaylistOptions): Promise<Gen
     weight: e.weight,
   }));
 
-  const playlist: GeneratedPlaylist = generatePlaylist(songs, connections, phaseEdges, options);
+  const generated = generatePlaylist(songs, connections, phaseEdges, options, getSongFreshness(FRESHNESS_WINDOW_DAYS));
+  const mixPoints = new Map<string, MixPoints>();
+  for (const entry of generated.entries) {
+    const points = getMixPoints(entry.filePath);
+    if (points) mixPoints.set(entry.filePath, points);
+  }
+  const playlist: GeneratedPlaylist = withEstimatedOverlaps(generated, mixPoints);
 
   // Enrich entries with title/artist from cache
   const entries = playlist.entries.map(e => {
@@ -672,6 +698,7 @@ export async function onGeneratePlaylist(options?: PlaylistOptions): Promise<Gen
       phase: e.phase,
       position: e.position,
       reason: e.reason,
+      overlapSeconds: e.overlapSeconds ?? null,
     };
   });
 
@@ -726,6 +753,108 @@ export async function onGetPlaylistWithItems(id: number): Promise<PlaylistWithIt
   };
 }
 
+/** Export a saved playlist as Rekordbox DJ_PLAYLISTS XML */
+export async function onExportPlaylistRekordbox(id: number): Promise<PlaylistExport | null> {
+  const result = dbGetPlaylistWithItems(id);
+  if (!result) return null;
+  const tracks = result.items.map(item => toRekordboxTrack(item.file_path, item.phase));
+  return {
+    filename: exportFilename(result.playlist.name, 'xml'),
+    content: buildRekordboxXml([{ name: result.playlist.name, tracks }]),
+  };
+}
+
+export async function onGetDJSets(): Promise<DJSetInfo[]> {
+  return getDJSets().map(set => ({
+    id: set.id,
+    name: set.name,
+    itemCount: getSetItems(set.id).length,
+  }));
+}
+
+/** Export a DJ set as Rekordbox DJ_PLAYLISTS XML; phases come from each song's tags */
+export async function onExportDJSetRekordbox(setId: number): Promise<PlaylistExport | null> {
+  const set = getDJSetById(setId);
+  if (!set) return null;
+  const tracks = getSetItems(setId).map(item => toRekordboxTrack(item.file_path, null));
+  return {
+    filename: exportFilename(set.name, 'xml'),
+    content: buildRekordboxXml([{ name: set.name, tracks }]),
+  };
+}
+
+/**
+ * Export any list of songs (a saved or a freshly generated playlist) as M3U8, PLS or XSPF.
+ * Relative paths are computed against pathOptions.targetFolder — the folder the file will be saved in.
+ */
+export async function onExportPlaylistFile(
+  name: string,
+  filePaths: string[],
+  format: PlaylistFileFormat,
+  pathOptions: PlaylistPathOptions,
+): Promise<PlaylistExport> {
+  const tracks = filePaths.map(filePath => {
+    const cached = getMP3CacheByPath(filePath);
+    return {
+      filePath,
+      title: cached?.title ?? '',
+      artist: cached?.artist ?? '',
+      duration: cached?.duration ?? 0,
+    };
+  });
+  return {
+    filename: exportFilename(name, PLAYLIST_FILE_FORMATS[format].extension),
+    content: buildPlaylistFile(format, name, tracks, pathOptions),
+  };
+}
+
+/**
+ * Import an .m3u/.m3u8 as a new saved playlist. Entries that aren't in the library
+ * are matched by artist/title, file name or similarity; the rest are skipped and reported.
+ * Relative entries resolve against sourceFolder, falling back to the library base folder.
+ */
+export async function onImportM3U8(
+  content: string,
+  name: string,
+  sourceFolder?: string,
+): Promise<PlaylistFileImportResult> {
+  const parsed = parseM3U8(content);
+  if (parsed.entries.length === 0) throw new Error('No tracks found in playlist file');
+
+  const knownSongs = getMP3CacheIndex().map(c => ({
+    filePath: c.file_path,
+    title: c.title ?? undefined,
+    artist: c.artist ?? undefined,
+  }));
+  const baseFolder = sourceFolder?.trim() || readBaseFolder();
+
+  const filePaths: string[] = [];
+  const fuzzy: PlaylistFileImportResult['fuzzy'] = [];
+  const unmatched: string[] = [];
+  for (const entry of parsed.entries) {
+    const entryPath = resolveEntryPath(entry.path, baseFolder);
+    const match = fuzzyMatchSong({ filePath: entryPath, title: entry.title, artist: entry.artist }, knownSongs);
+    if (!match) {
+      unmatched.push(entry.path);
+      continue;
+    }
+    if (match.matchedBy !== 'location') fuzzy.push({ entryPath: entry.path, filePath: match.filePath, matchedBy: match.matchedBy });
+    filePaths.push(match.filePath);
+  }
+
+  const playlistName = name.trim() || parsed.name || 'Imported playlist';
+  const playlist = createPlaylist(playlistName, 'Imported from M3U8');
+  setPlaylistItems(playlist.id, filePaths.map((filePath, position) => ({ filePath, position })));
+
+  return {
+    playlistId: playlist.id,
+    name: playlistName,
+    matched: filePaths.length,
+    fuzzy,
+    unmatched,
+  };
+}
+
 export async function onDeletePlaylist(id: number): Promise<void> {
   dbDeletePlaylist(id);
 }
@@ -838,6 +967,14 @@ export async function onIsSongOnCanvas(filePath: string): Promise<boolean> {
 export async function onGetSongMetadata(filePath: string): Promise<SongMetadata | null> {
   try {
     const meta = await mp3Manager.readMetadata(filePath);
+    const cached = getMP3CacheByPath(filePath);
+    const detectedBpm = !meta.bpm && cached?.bpm_source === 'detected' ? cached : null;
+    const detectedKey = !meta.key && cached?.key_source === 'detected' ? cached : null;
+    // A manual override beats the tag; an estimate only fills in when there is no tag
+    const cachedEnergy = cached?.energy_source === 'manual' || (meta.energyLevel == null && cached?.energy_source === 'detected')
+      ? cached
+      : null;
+    const loudness = getLoudness(filePath);
     return {
       filePath: meta.filePath,
       title: meta.title ?? '',
@@ -846,11 +983,22 @@ export async function onGetSongMetadata(filePath: string): Promise<SongMetadata
       duration: meta.duration ?? 0,
       genre: meta.genre ?? [],
       artworkDataUrl: meta.artworkDataUrl ?? null,
-      key: meta.key ?? undefined,
-      camelotKey: meta.camelotKey ?? undefined,
-      bpm: meta.bpm ?? undefined,
-      energyLevel: meta.energyLevel ?? undefined,
+      key: meta.key ?? detectedKey?.key ?? undefined,
+      camelotKey: meta.camelotKey ?? detectedKey?.camelot_key ?? undefined,
+      keySource: meta.key ? 'tag' : detectedKey ? 'detected' : undefined,
+      keyConfidence: detectedKey?.key_confidence ?? undefined,
+      bpm: meta.bpm || (detectedBpm?.bpm ?? undefined),
+      bpmSource: meta.bpm ? 'tag' : detectedBpm ? 'detected' : undefined,
+      bpmConfidence: detectedBpm?.bpm_confidence ?? undefined,
+      energyLevel: cachedEnergy?.energy_level ?? meta.energyLevel ?? undefined,
+      energySource: cachedEnergy?.energy_source ?? (meta.energyLevel != null ? 'tag' : undefined),
       label: meta.label ?? undefined,
+      integratedLufs: loudness?.integratedLufs,
+      truePeakDb: loudness?.truePeakDb,
+      mixPoints: getMixPoints(filePath) ?? undefined,
+      playCount: cached?.play_count ?? 0,
+      skipCount: cached?.skip_count ?? 0,
+      lastPlayed: cached?.last_played ?? null,
     };
   } catch {
     return null;
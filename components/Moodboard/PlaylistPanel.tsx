@@ -1,11 +1,14 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Fragment, useState, useEffect, useCallback, useMemo } from 'react';
 import {
   Box, Group, Text, Badge, Button, ActionIcon, Tooltip, Stack,
   Modal, TextInput, Select, Slider, Switch, Popover, ScrollArea, Loader,
+  SegmentedControl, FileInput, Menu,
 } from '@mantine/core';
 import {
   IconPlayerPlay, IconDeviceFloppy, IconChevronDown, IconChevronUp,
-  IconSettings, IconPlaylist, IconGripVertical, IconTrash,
+  IconSettings, IconPlaylist, IconGripVertical, IconTrash, IconDownload,
+  IconFileExport, IconFileImport, IconDeviceUsb, IconVinyl, IconHeadphones,
+  IconDisc,
 } from '@tabler/icons-react';
 import {
   DndContext, closestCenter, PointerSensor, KeyboardSensor, useSensor, useSensors,
@@ -17,9 +20,14 @@ import {
 
 import {
   onGeneratePlaylist, onSavePlaylist, onGetPlaylists, onGetPlaylistWithItems, onDeletePlaylist,
+  onExportPlaylistRekordbox, onExportDJSetRekordbox, onGetDJSets, onExportPlaylistFile, onImportM3U8,
 } from './MoodboardPage.telefunc';
+import type { UsbExportRequest } from './UsbExport.telefunc';
 import { showSuccess, showError } from '../../lib/notifications';
 import type { PlaylistOptions } from '../../lib/playlist-generator';
+import type { PlaylistFileFormat } from '../../lib/playlist-files';
+import { UsbExportModal } from './UsbExportModal';
+import { TransitionAuditionModal } from './TransitionAuditionModal';
 
 import './PlaylistPanel.css';
 
@@ -34,6 +42,7 @@ interface PlaylistEntry {
   phase: string | null;
   position: number;
   reason: string;
+  overlapSeconds?: number | null;
 }
 
 interface PlaylistStats {
@@ -57,12 +66,20 @@ interface SavedPlaylistInfo {
   createdAt: string;
 }
 
+interface DJSetInfo {
+  id: number;
+  name: string;
+  itemCount: number;
+}
+
 export interface PlaylistPanelProps {
   isOpen: boolean;
   onToggle: () => void;
   onSongClick?: (filePath: string) => void;
   onSongDoubleClick?: (filePath: string) => void;
   onPlayAll?: (filePaths: string[]) => void;
+  /** Load the previous entry and this one into the two-deck player as A → B */
+  onAuditionTransition?: (fromPath: string, toPath: string) => void;
 }
 
 // Phase → color mapping
@@ -74,11 +91,34 @@ const PHASE_COLORS: Record<string, string> = {
   closer: 'grape',
 };
 
+const FRESHNESS_DAY_OPTIONS = [
+  { value: '0', label: 'Off' },
+  { value: '1', label: '1 day' },
+  { value: '7', label: '7 days' },
+  { value: '14', label: '14 days' },
+  { value: '30', label: '30 days' },
+];
+
+const MAX_PER_PHASE_OPTIONS = [
+  { value: '0', label: 'All' },
+  ...[5, 10, 15, 20, 30].map(n => ({ value: String(n), label: String(n) })),
+];
+
 function phaseColor(phase: string | null): string {
   if (!phase) return 'gray';
   return PHASE_COLORS[phase.toLowerCase()] ?? 'violet';
 }
 
+function downloadFile(filename: string, content: string, type: string): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
 function formatDuration(totalSongs: number): string {
   // Estimate ~3.5 min per song
   const totalMinutes = Math.round(totalSongs * 3.5);
@@ -96,9 +136,12 @@ interface SortableSongProps {
   globalPosition: number;
   onClick?: (filePath: string) => void;
   onDoubleClick?: (filePath: string) => void;
+  /** The entry played before this one, if any */
+  previousPath?: string;
+  onAudition?: (fromPath: string, toPath: string) => void;
 }
 
-function SortableSong({ entry, globalPosition, onClick, onDoubleClick }: SortableSongProps) {
+function SortableSong({ entry, globalPosition, onClick, onDoubleClick, previousPath, onAudition }: SortableSongProps) {
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
     id: entry.filePath,
   });
@@ -124,6 +167,26 @@ function SortableSong({ entry, globalPosition, onClick, onDoubleClick }: Sortabl
         {entry.title || 'Untitled'}
         {entry.artist ? <span className="playlist-song-artist"> – {entry.artist}</span> : null}
       </span>
+      {entry.overlapSeconds != null && (
+        <Tooltip label="Estimated overlap with the previous song (its outro over this intro)">
+          <span className="playlist-song-overlap">⇄ {entry.overlapSeconds}s</span>
+        </Tooltip>
+      )}
+      {previousPath && onAudition && (
+        <Tooltip label="Audition the transition from the previous song on two decks">
+          <ActionIcon
+            size="xs"
+            variant="subtle"
+            color="violet"
+            className="playlist-song-audition"
+            onClick={e => { e.stopPropagation(); onAudition(previousPath, entry.filePath); }}
+            onDoubleClick={e => e.stopPropagation()}
+            aria-label="Audition transition"
+          >
+            <IconVinyl size={12} />
+          </ActionIcon>
+        </Tooltip>
+      )}
     </div>
   );
 }
@@ -138,6 +201,7 @@ export function PlaylistPanel({
   onSongClick,
   onSongDoubleClick,
   onPlayAll,
+  onAuditionTransition,
 }: PlaylistPanelProps) {
   // Playlist data
   const [playlist, setPlaylist] = useState<GeneratedPlaylistResult | null>(null);
@@ -152,6 +216,27 @@ export function PlaylistPanel({
   const [saveName, setSaveName] = useState('');
   const [saving, setSaving] = useState(false);
 
+  // Export modal (M3U8 / PLS / XSPF)
+  const [exportModalOpen, setExportModalOpen] = useState(false);
+  const [exportFormat, setExportFormat] = useState<PlaylistFileFormat>('m3u8');
+  const [exportPathMode, setExportPathMode] = useState<'absolute' | 'relative'>('absolute');
+  const [exportTargetFolder, setExportTargetFolder] = useState('');
+  const [exportPrefixFrom, setExportPrefixFrom] = useState('');
+  const [exportPrefixTo, setExportPrefixTo] = useState('');
+  const [exporting, setExporting] = useState(false);
+
+  // Import modal (M3U8)
+  const [importModalOpen, setImportModalOpen] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importName, setImportName] = useState('');
+  const [importing, setImporting] = useState(false);
+
+  // DJ sets (exported from the menu, not loaded into the panel)
+  const [djSets, setDJSets] = useState<DJSetInfo[]>([]);
+
+  const [usbSource, setUsbSource] = useState<UsbExportRequest['source'] | null>(null);
+  const [auditionOpen, setAuditionOpen] = useState(false);
+
   // Options popover
   const [optionsOpen, setOptionsOpen] = useState(false);
   const [options, setOptions] = useState<PlaylistOptions>({
@@ -171,6 +256,7 @@ export function PlaylistPanel({
   useEffect(() => {
     if (isOpen) {
       onGetPlaylists().then(setSavedPlaylists).catch(() => {});
+      onGetDJSets().then(setDJSets).catch(() => {});
     }
   }, [isOpen]);
 
@@ -286,6 +372,80 @@ export function PlaylistPanel({
     }
   }, [selectedSavedId]);
 
+  const handleExportRekordbox = useCallback(async () => {
+    if (!selectedSavedId) return;
+    const id = parseInt(selectedSavedId, 10);
+    if (isNaN(id)) return;
+    try {
+      const result = await onExportPlaylistRekordbox(id);
+      if (!result) return;
+      downloadFile(result.filename, result.content, 'application/xml');
+    } catch (err) {
+      console.error('Failed to export playlist:', err);
+      showError({ message: 'Failed to export Rekordbox XML' });
+    }
+  }, [selectedSavedId]);
+
+  const handleExportDJSetRekordbox = useCallback(async (setId: number) => {
+    try {
+      const result = await onExportDJSetRekordbox(setId);
+      if (!result) return;
+      downloadFile(result.filename, result.content, 'application/xml');
+    } catch (err) {
+      console.error('Failed to export DJ set:', err);
+      showError({ message: 'Failed to export Rekordbox XML' });
+    }
+  }, []);
+
+  const handleExportFile = useCallback(async () => {
+    if (!playlist) return;
+    const saved = savedPlaylists.find(p => String(p.id) === selectedSavedId);
+    setExporting(true);
+    try {
+      const result = await onExportPlaylistFile(
+        saved?.name ?? 'Generated playlist',
+        playlist.entries.map(e => e.filePath),
+        exportFormat,
+        {
+          mode: exportPathMode,
+          targetFolder: exportTargetFolder.trim() || undefined,
+          prefixFrom: exportPrefixFrom.trim() || undefined,
+          prefixTo: exportPrefixTo.trim(),
+        },
+      );
+      downloadFile(result.filename, result.content, 'text/plain');
+      setExportModalOpen(false);
+    } catch (err) {
+      console.error('Failed to export playlist:', err);
+      showError({ message: `Failed to export ${exportFormat.toUpperCase()}` });
+    } finally {
+      setExporting(false);
+    }
+  }, [playlist, savedPlaylists, selectedSavedId, exportFormat, exportPathMode, exportTargetFolder, exportPrefixFrom, exportPrefixTo]);
+
+  const handleImportM3U8 = useCallback(async () => {
+    if (!importFile) return;
+    setImporting(true);
+    try {
+      const name = importName.trim() || importFile.name.replace(/\.m3u8?$/i, '');
+      const result = await onImportM3U8(await importFile.text(), name);
+      setImportModalOpen(false);
+      setImportFile(null);
+      setImportName('');
+      const parts = [`${result.matched} songs`];
+      if (result.fuzzy.length > 0) parts.push(`${result.fuzzy.length} matched by name`);
+      if (result.unmatched.length > 0) parts.push(`${result.unmatched.length} not found`);
+      showSuccess({ title: 'Playlist Imported', message: `"${result.name}": ${parts.join(', ')}` });
+      setSavedPlaylists(await onGetPlaylists());
+      await handleLoadSaved(String(result.playlistId));
+    } catch (err) {
+      console.error('Failed to import playlist:', err);
+      showError({ message: err instanceof Error ? err.message : 'Failed to import M3U8' });
+    } finally {
+      setImporting(false);
+    }
+  }, [importFile, importName, handleLoadSaved]);
+
   const handlePlayAll = useCallback(() => {
     if (!playlist || !onPlayAll) return;
     onPlayAll(playlist.entries.map(e => e.filePath));
@@ -343,6 +503,83 @@ export function PlaylistPanel({
               </ActionIcon>
             </Tooltip>
           )}
+          {selectedSavedId && (
+            <Tooltip label="Download Rekordbox XML" position="bottom">
+              <ActionIcon
+                size="xs"
+                variant="subtle"
+                onClick={handleExportRekordbox}
+                data-testid="playlist-export-rekordbox"
+              >
+                <IconDownload size={12} />
+              </ActionIcon>
+            </Tooltip>
+          )}
+
+          {selectedSavedId && (
+            <Tooltip label="Prepare USB" position="bottom">
+              <ActionIcon
+                size="xs"
+                variant="subtle"
+                onClick={() => setUsbSource({ type: 'playlist', id: parseInt(selectedSavedId, 10) })}
+                data-testid="playlist-prepare-usb"
+              >
+                <IconDeviceUsb size={12} />
+              </ActionIcon>
+            </Tooltip>
+          )}
+          {playlist && (
+            <Tooltip label="Export M3U8 / PLS / XSPF" position="bottom">
+              <ActionIcon
+                size="xs"
+                variant="subtle"
+                onClick={() => setExportModalOpen(true)}
+                data-testid="playlist-export-file"
+              >
+                <IconFileExport size={12} />
+              </ActionIcon>
+            </Tooltip>
+          )}
+          {djSets.length > 0 && (
+            <Menu position="top-end" withinPortal>
+              <Menu.Target>
+                <Tooltip label="Export a DJ set" position="bottom">
+                  <ActionIcon size="xs" variant="subtle" data-testid="playlist-dj-sets">
+                    <IconDisc size={12} />
+                  </ActionIcon>
+                </Tooltip>
+              </Menu.Target>
+              <Menu.Dropdown>
+                {djSets.map(set => (
+                  <Fragment key={set.id}>
+                    <Menu.Label>{set.name} ({set.itemCount})</Menu.Label>
+                    <Menu.Item
+                      leftSection={<IconDownload size={12} />}
+                      onClick={() => handleExportDJSetRekordbox(set.id)}
+                    >
+                      Rekordbox XML
+                    </Menu.Item>
+                    <Menu.Item
+                      leftSection={<IconDeviceUsb size={12} />}
+                      onClick={() => setUsbSource({ type: 'dj_set', id: set.id })}
+                    >
+                      Prepare USB
+                    </Menu.Item>
+                  </Fragment>
+                ))}
+              </Menu.Dropdown>
+            </Menu>
+          )}
+          <Tooltip label="Import M3U8" position="bottom">
+            <ActionIcon
+              size="xs"
+              variant="subtle"
+              onClick={() => setImportModalOpen(true)}
+              data-testid="playlist-import-m3u8"
+            >
+              <IconFileImport size={12} />
+            </ActionIcon>
+          </Tooltip>
 
           {/* Options popover */}
           <Popover opened={optionsOpen} onChange={setOptionsOpen} position="top-end" withArrow withinPortal>
@@ -386,7 +623,43 @@ export function PlaylistPanel({
                 label="Use longest path"
                 checked={options.useLongestPath ?? false}
                 onChange={(e) => setOptions(o => ({ ...o, useLongestPath: e.currentTarget.checked }))}
+                mb={8}
               />
+              <Text size="xs" c="dimmed" mb={4}>Skip songs played in the last</Text>
+              <Select
+                size="xs"
+                data={FRESHNESS_DAY_OPTIONS}
+                value={String(options.skipPlayedWithinDays ?? 0)}
+                onChange={(v) => setOptions(o => ({ ...o, skipPlayedWithinDays: Number(v ?? 0) }))}
+                allowDeselect={false}
+                comboboxProps={{ withinPortal: false }}
+                mb={8}
+                data-testid="playlist-skip-played"
+              />
+              <Text size="xs" c="dimmed" mb={4}>Songs per phase</Text>
+              <Select
+                size="xs"
+                data={MAX_PER_PHASE_OPTIONS}
+                value={String(options.maxPerPhase ?? 0)}
+                onChange={(v) => setOptions(o => ({ ...o, maxPerPhase: Number(v ?? 0) }))}
+                allowDeselect={false}
+                comboboxProps={{ withinPortal: false }}
+                mb={8}
+                data-testid="playlist-max-per-phase"
+              />
+              <Text size="xs" c="dimmed" mb={4}>
+                Freshness: {options.freshnessWeight?.toFixed(1) ?? '0.0'}
+              </Text>
+              <Slider
+                size="xs"
+                min={0} max={1} step={0.1}
+                value={options.freshnessWeight ?? 0}
+                onChange={(v) => setOptions(o => ({ ...o, freshnessWeight: v }))}
+                disabled={!options.maxPerPhase}
+              />
+              <Text size="xs" c="dimmed" mt={4}>
+                With a per-phase limit, prefer songs not played much lately
+              </Text>
             </Popover.Dropdown>
           </Popover>
 
@@ -414,6 +687,15 @@ export function PlaylistPanel({
             </Tooltip>
           )}
 
+          {/* Audition transitions */}
+          {playlist && playlist.entries.length > 1 && (
+            <Tooltip label="Audition transitions" position="bottom">
+              <ActionIcon size="sm" variant="light" color="violet" onClick={() => setAuditionOpen(true)} data-testid="playlist-audition">
+                <IconHeadphones size={14} />
+              </ActionIcon>
+            </Tooltip>
+          )}
+
           {/* Save */}
           {playlist && (
             <Tooltip label="Save playlist" position="bottom">
@@ -476,6 +758,8 @@ export function PlaylistPanel({
                                 globalPosition={entry.position}
                                 onClick={onSongClick}
                                 onDoubleClick={onSongDoubleClick}
+                                previousPath={entry.position > 0 ? allFilePaths[entry.position - 1] : undefined}
+                                onAudition={onAuditionTransition}
                               />
                             ))}
                           </div>
@@ -529,6 +813,115 @@ export function PlaylistPanel({
           </Button>
         </Group>
       </Modal>
+
+      {/* Export modal */}
+      <Modal opened={exportModalOpen} onClose={() => setExportModalOpen(false)} title="Export Playlist" size="md">
+        <Stack gap="sm">
+          <SegmentedControl
+            size="xs"
+            value={exportFormat}
+            onChange={(v) => setExportFormat(v as PlaylistFileFormat)}
+            data={[
+              { value: 'm3u8', label: 'M3U8' },
+              { value: 'pls', label: 'PLS' },
+              { value: 'xspf', label: 'XSPF' },
+            ]}
+          />
+          <SegmentedControl
+            size="xs"
+            value={exportPathMode}
+            onChange={(v) => setExportPathMode(v as 'absolute' | 'relative')}
+            data={[
+              { value: 'absolute', label: 'Absolute paths' },
+              { value: 'relative', label: 'Relative paths' },
+            ]}
+          />
+          {exportPathMode === 'relative' && (
+            <TextInput
+              size="xs"
+              label="Target folder"
+              description="Folder the playlist file will be saved in"
+              placeholder="/Volumes/USB/Music"
+              value={exportTargetFolder}
+              onChange={(e) => setExportTargetFolder(e.currentTarget.value)}
+            />
+          )}
+          <Group grow>
+            <TextInput
+              size="xs"
+              label="Replace path prefix"
+              placeholder="/Users/me/Music"
+              value={exportPrefixFrom}
+              onChange={(e) => setExportPrefixFrom(e.currentTarget.value)}
+            />
+            <TextInput
+              size="xs"
+              label="With"
+              placeholder="D:/Music"
+              value={exportPrefixTo}
+              onChange={(e) => setExportPrefixTo(e.currentTarget.value)}
+            />
+          </Group>
+          <Group justify="flex-end">
+            <Button variant="subtle" onClick={() => setExportModalOpen(false)}>Cancel</Button>
+            <Button
+              color="violet"
+              onClick={handleExportFile}
+              loading={exporting}
+              disabled={exportPathMode === 'relative' && !exportTargetFolder.trim()}
+              leftSection={<IconFileExport size={14} />}
+            >
+              Download
+            </Button>
+          </Group>
+        </Stack>
+      </Modal>
+
+      <UsbExportModal
+        opened={usbSource !== null}
+        onClose={() => setUsbSource(null)}
+        source={usbSource}
+      />
+
+      <TransitionAuditionModal
+        opened={auditionOpen}
+        onClose={() => setAuditionOpen(false)}
+        entries={playlist?.entries ?? []}
+      />
+
+      {/* Import modal */}
+      <Modal opened={importModalOpen} onClose={() => setImportModalOpen(false)} title="Import M3U8" size="sm">
+        <Stack gap="sm">
+          <FileInput
+            size="xs"
+            label="Playlist file"
+            placeholder="Choose .m3u8 file"
+            accept=".m3u8,.m3u"
+            value={importFile}
+            onChange={setImportFile}
+            clearable
+          />
+          <TextInput
+            size="xs"
+            label="Playlist name"
+            placeholder={importFile?.name.replace(/\.m3u8?$/i, '') ?? 'Imported playlist'}
+            value={importName}
+            onChange={(e) => setImportName(e.currentTarget.value)}
+          />
+          <Group justify="flex-end">
+            <Button variant="subtle" onClick={() => setImportModalOpen(false)}>Cancel</Button>
+            <Button
+              color="violet"
+              onClick={handleImportM3U8}
+              loading={importing}
+              disabled={!importFile}
+              leftSection={<IconFileImport size={14} />}
+            >
+              Import
+            </Button>
+          </Group>
+        </Stack>
+      </Modal>
     </Box>
   );
 }
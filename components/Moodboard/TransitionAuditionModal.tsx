@@ -0,0 +1,293 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  Modal, Stack, Group, Text, Button, SegmentedControl, Rating, Progress, ScrollArea, Kbd,
+} from '@mantine/core';
+import { IconPlayerPlay, IconPlayerStop } from '@tabler/icons-react';
+
+import { onRateTransition, onGetTransitionRatings } from './MoodboardPage.telefunc';
+import { crossfaderGains } from '../../lib/audio-state';
+import { TRANSITION_RATING_MAX } from '../../lib/playlist-generator';
+import { showError } from '../../lib/notifications';
+
+export interface AuditionEntry {
+  filePath: string;
+  title: string;
+  artist: string;
+}
+
+export interface TransitionAuditionModalProps {
+  opened: boolean;
+  onClose: () => void;
+  /** Songs in playlist order; every adjacent pair is auditioned */
+  entries: AuditionEntry[];
+}
+
+const WINDOW_OPTIONS = ['8', '16', '32'];
+/** Time after a crossfade to rate it before the next pair starts */
+const RATING_GRACE_MS = 2500;
+/** Points in the scheduled gain curves; plenty for a smooth fade */
+const CURVE_POINTS = 64;
+
+interface AuditionGraph {
+  context: AudioContext;
+  decks: { element: HTMLAudioElement; gain: GainNode }[];
+}
+
+/** Resolve on `event`, reject if the element reports an error first */
+function waitFor(audio: HTMLAudioElement, event: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const done = () => { cleanup(); resolve(); };
+    const fail = () => { cleanup(); reject(new Error(audio.error?.message || 'Could not load audio')); };
+    const cleanup = () => {
+      audio.removeEventListener(event, done);
+      audio.removeEventListener('error', fail);
+    };
+    audio.addEventListener(event, done);
+    audio.addEventListener('error', fail);
+  });
+}
+
+/** Load a song through the `/audio/*` route and seek to `startAt(duration)` */
+async function loadAt(audio: HTMLAudioElement, filePath: string, startAt: (duration: number) => number) {
+  const loaded = waitFor(audio, 'loadedmetadata');
+  audio.src = `/audio/${encodeURIComponent(filePath)}`;
+  audio.load();
+  await loaded;
+  const seeked = waitFor(audio, 'seeked');
+  audio.currentTime = startAt(audio.duration || 0);
+  await seeked;
+}
+
+function fadeCurve(gain: (position: number) => number): Float32Array {
+  return Float32Array.from({ length: CURVE_POINTS }, (_, i) => gain(i / (CURVE_POINTS - 1)));
+}
+
+function describe(entry: AuditionEntry): string {
+  return entry.artist ? `${entry.artist} – ${entry.title || 'Untitled'}` : entry.title || 'Untitled';
+}
+
+/**
+ * Plays each adjacent pair of a playlist as a short mix — the last N seconds
+ * of A crossfaded into the first N seconds of B — and moves on to the next
+ * pair. Number keys rate the pair; ratings become 'transition' connections.
+ */
+export function TransitionAuditionModal({ opened, onClose, entries }: TransitionAuditionModalProps) {
+  const [windowSeconds, setWindowSeconds] = useState('16');
+  const [pairIndex, setPairIndex] = useState(0);
+  const [status, setStatus] = useState<'idle' | 'loading' | 'playing'>('idle');
+  const [progress, setProgress] = useState(0);
+  const [ratings, setRatings] = useState<(number | null)[]>([]);
+  const graphRef = useRef<AuditionGraph | null>(null);
+  const runRef = useRef(0);
+  const timersRef = useRef<ReturnType<typeof setTimeout>[]>([]);
+
+  const pairCount = Math.max(0, entries.length - 1);
+
+  useEffect(() => {
+    if (!opened || pairCount === 0) return;
+    setPairIndex(0);
+    onGetTransitionRatings(entries.slice(1).map((to, i) => ({ fromPath: entries[i].filePath, toPath: to.filePath })))
+      .then(setRatings)
+      .catch(() => setRatings([]));
+  }, [opened, entries, pairCount]);
+
+  const clearTimers = useCallback(() => {
+    timersRef.current.forEach(clearTimeout);
+    timersRef.current = [];
+  }, []);
+
+  const stop = useCallback(() => {
+    runRef.current++;
+    clearTimers();
+    graphRef.current?.decks.forEach(deck => deck.element.pause());
+    setStatus('idle');
+    setProgress(0);
+  }, [clearTimers]);
+
+  // Release the audio graph when the dialog closes
+  useEffect(() => {
+    if (opened) return;
+    stop();
+    void graphRef.current?.context.close();
+    graphRef.current = null;
+  }, [opened, stop]);
+
+  // Created on the first Start click, since browsers need a gesture to start audio
+  const ensureGraph = useCallback((): AuditionGraph => {
+    if (graphRef.current) return graphRef.current;
+    const context = new AudioContext();
+    const decks = [0, 1].map(() => {
+      const element = new Audio();
+      element.preload = 'auto';
+      const gain = context.createGain();
+      context.createMediaElementSource(element).connect(gain).connect(context.destination);
+      return { element, gain };
+    });
+    graphRef.current = { context, decks };
+    return graphRef.current;
+  }, []);
+
+  const playPair = useCallback(async (index: number) => {
+    const run = ++runRef.current;
+    clearTimers();
+    const graph = ensureGraph();
+    const [deckA, deckB] = graph.decks;
+    const seconds = Number(windowSeconds);
+    deckA.element.pause();
+    deckB.element.pause();
+    setPairIndex(index);
+    setProgress(0);
+    setStatus('loading');
+
+    try {
+      await Promise.all([
+        loadAt(deckA.element, entries[index].filePath, duration => Math.max(0, duration - seconds)),
+        loadAt(deckB.element, entries[index + 1].filePath, () => 0),
+      ]);
+    } catch (e) {
+      if (run !== runRef.current) return;
+      showError({ message: e instanceof Error ? e.message : 'Could not load this pair' });
+      setStatus('idle');
+      return;
+    }
+    if (run !== runRef.current) return;
+
+    if (graph.context.state === 'suspended') await graph.context.resume();
+    const now = graph.context.currentTime;
+    for (const [deck, gain] of [[deckA, (p: number) => crossfaderGains(p).a], [deckB, (p: number) => crossfaderGains(p).b]] as const) {
+      deck.gain.gain.cancelScheduledValues(now);
+      deck.gain.gain.setValueCurveAtTime(fadeCurve(gain), now, seconds);
+    }
+    await Promise.all([deckA.element.play(), deckB.element.play()]);
+    setStatus('playing');
+
+    const startedAt = performance.now();
+    const ticker = setInterval(() => {
+      if (run !== runRef.current) { clearInterval(ticker); return; }
+      setProgress(Math.min(1, (performance.now() - startedAt) / (seconds * 1000)));
+    }, 100);
+    timersRef.current.push(
+      setTimeout(() => clearInterval(ticker), seconds * 1000),
+      setTimeout(() => {
+        if (run !== runRef.current) return;
+        if (index + 1 < pairCount) {
+          void playPair(index + 1);
+        } else {
+          stop();
+        }
+      }, seconds * 1000 + RATING_GRACE_MS),
+    );
+  }, [clearTimers, ensureGraph, entries, pairCount, stop, windowSeconds]);
+
+  const rate = useCallback(async (index: number, rating: number) => {
+    const from = entries[index];
+    const to = entries[index + 1];
+    if (!from || !to) return;
+    setRatings(prev => {
+      const next = [...prev];
+      next[index] = rating;
+      return next;
+    });
+    try {
+      await onRateTransition(from.filePath, to.filePath, rating);
+    } catch (e) {
+      showError({ message: e instanceof Error ? e.message : 'Could not save rating' });
+    }
+  }, [entries]);
+
+  useEffect(() => {
+    if (!opened) return;
+    const handler = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      const digit = Number(e.key);
+      if (Number.isInteger(digit) && digit >= 1 && digit <= TRANSITION_RATING_MAX) {
+        e.preventDefault();
+        void rate(pairIndex, digit);
+      } else if (e.key === 'ArrowRight' && pairIndex + 1 < pairCount) {
+        e.preventDefault();
+        void playPair(pairIndex + 1);
+      } else if (e.key === 'ArrowLeft' && pairIndex > 0) {
+        e.preventDefault();
+        void playPair(pairIndex - 1);
+      } else if (e.key === ' ') {
+        e.preventDefault();
+        if (status === 'idle') void playPair(pairIndex);
+        else stop();
+      }
+    };
+    window.addEventListener('keydown', handler);
+    return () => window.removeEventListener('keydown', handler);
+  }, [opened, pairIndex, pairCount, status, rate, playPair, stop]);
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Audition transitions" size="lg">
+      {pairCount === 0 ? (
+        <Text size="sm" c="dimmed">The playlist needs at least two songs.</Text>
+      ) : (
+        <Stack gap="sm" data-testid="transition-audition">
+          <Group justify="space-between">
+            <Group gap="xs">
+              <Text size="xs" c="dimmed">Overlap</Text>
+              <SegmentedControl
+                size="xs"
+                value={windowSeconds}
+                onChange={setWindowSeconds}
+                disabled={status !== 'idle'}
+                data={WINDOW_OPTIONS.map(s => ({ label: `${s}s`, value: s }))}
+              />
+            </Group>
+            {status === 'idle' ? (
+              <Button size="xs" leftSection={<IconPlayerPlay size={14} />} onClick={() => void playPair(pairIndex)}>
+                {pairIndex > 0 ? `Resume at pair ${pairIndex + 1}` : 'Start'}
+              </Button>
+            ) : (
+              <Button size="xs" variant="light" color="red" leftSection={<IconPlayerStop size={14} />} onClick={stop}>
+                Stop
+              </Button>
+            )}
+          </Group>
+
+          <Progress value={progress * 100} size="sm" animated={status === 'loading'} />
+
+          <ScrollArea.Autosize mah={360}>
+            <Stack gap={2}>
+              {entries.slice(1).map((to, i) => (
+                <Group
+                  key={`${entries[i].filePath}\n${to.filePath}`}
+                  justify="space-between"
+                  wrap="nowrap"
+                  px={6}
+                  py={4}
+                  style={{
+                    borderRadius: 4,
+                    cursor: 'pointer',
+                    background: i === pairIndex ? 'var(--mantine-color-violet-light)' : undefined,
+                  }}
+                  onClick={() => void playPair(i)}
+                  data-testid="audition-pair"
+                >
+                  <Text size="xs" truncate="end" style={{ minWidth: 0 }}>
+                    {i + 1}. {describe(entries[i])} <Text span c="dimmed">→</Text> {describe(to)}
+                  </Text>
+                  <Rating
+                    size="xs"
+                    count={TRANSITION_RATING_MAX}
+                    value={ratings[i] ?? 0}
+                    onChange={value => void rate(i, value)}
+                    onClick={e => e.stopPropagation()}
+                  />
+                </Group>
+              ))}
+            </Stack>
+          </ScrollArea.Autosize>
+
+          <Text size="xs" c="dimmed">
+            <Kbd size="xs">1</Kbd>–<Kbd size="xs">{TRANSITION_RATING_MAX}</Kbd> rate the current pair ·{' '}
+            <Kbd size="xs">←</Kbd> <Kbd size="xs">→</Kbd> previous / next ·{' '}
+            <Kbd size="xs">Space</Kbd> start / stop. Ratings steer future playlist ordering.
+          </Text>
+        </Stack>
+      )}
+    </Modal>
+  );
+}
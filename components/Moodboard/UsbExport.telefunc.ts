@@ -0,0 +1,205 @@
+/**
+ * Telefunc API for "Prepare USB": copy a saved playlist or DJ set to a stick.
+ * The copy runs in the background; the client polls onGetUsbExportJob for progress.
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash, randomUUID } from 'crypto';
+
+import { getPlaylistWithItems } from '../../database/sqlite/queries/playlists';
+import { getDJSetById, getSetItems, getMP3CacheByPath } from '../../database/sqlite/queries/dj-sets';
+import { getTagsForSong } from '../../database/sqlite/queries/song-tags';
+import { getTagEditsForFile } from '../../database/sqlite/queries/mp3-tag-edits';
+import {
+  planUsbCopies, estimateUsbExport, runUsbExport,
+  type UsbLayout, type UsbCompareMode, type UsbExportTrack, type UsbCopyPlan, type UsbExportProgress,
+} from '../../lib/usb-export';
+import { buildM3U8, exportFilename } from '../../lib/playlist-files';
+import { mergeMusickTagEdits, isAnalysisField, writeAnalysisField } from '../../lib/tag-sync-engine';
+import { MP3MetadataManager } from '../../lib/mp3-metadata';
+import { VDJ_FIELD_PREFIX } from '../../lib/vdj-database';
+
+const mp3Manager = new MP3MetadataManager();
+
+export interface UsbExportRequest {
+  source: { type: 'playlist' | 'dj_set'; id: number };
+  destination: string;
+  layout: UsbLayout;
+  compare: UsbCompareMode;
+  /** Write pending tag exports (µ: fields and analysis results) into the copies; the library files stay untouched */
+  applyPendingTags: boolean;
+}
+
+export interface UsbExportJob {
+  id: string;
+  name: string;
+  status: 'checking' | 'copying' | 'done' | 'failed';
+  error: string | null;
+  requiredBytes: number;
+  freeBytes: number;
+  progress: UsbExportProgress;
+  playlistFile: string | null;
+}
+
+// Finished jobs are kept this long after they end, so a client that polls late still sees the result
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+const jobs = new Map<string, UsbExportJob>();
+/** When each finished job ended, keyed by job id */
+const finishedAt = new Map<string, number>();
+
+// ─── Helpers ─────────────────────────────────────────────────────────────
+
+function loadSource(source: UsbExportRequest['source']): { name: string; tracks: UsbExportTrack[] } {
+  const genreOf = (filePath: string) =>
+    getTagsForSong(filePath).find(t => t.tag_category === 'genre')?.tag_label ?? null;
+  const phaseOf = (filePath: string) =>
+    getTagsForSong(filePath).find(t => t.tag_category === 'phase')?.tag_label ?? null;
+
+  if (source.type === 'playlist') {
+    const result = getPlaylistWithItems(source.id);
+    if (!result) throw new Error('Playlist not found');
+    return {
+      name: result.playlist.name,
+      tracks: result.items.map(item => ({
+        filePath: item.file_path,
+        phase: item.phase ?? phaseOf(item.file_path),
+        genre: genreOf(item.file_path),
+      })),
+    };
+  }
+
+  const set = getDJSetById(source.id);
+  if (!set) throw new Error('DJ set not found');
+  return {
+    name: set.name,
+    tracks: getSetItems(source.id).map(item => ({
+      filePath: item.file_path,
+      phase: phaseOf(item.file_path),
+      genre: genreOf(item.file_path),
+    })),
+  };
+}
+
+/** The source file's pending file-tag export edits (database.xml edits don't apply to copies) */
+function pendingFileEdits(filePath: string) {
+  return getTagEditsForFile(filePath).filter(e =>
+    e.status === 'pending' && e.direction === 'export' && !e.fieldName.startsWith(VDJ_FIELD_PREFIX));
+}
+
+/** Signature of the edits a copy will get, so a copy made with other edits is re-made */
+function pendingTagsVariant(filePath: string): string | undefined {
+  const edits = pendingFileEdits(filePath);
+  if (edits.length === 0) return undefined;
+  const signature = edits.map(e => `${e.fieldName}=${e.newValue}`).sort().join('\n');
+  return createHash('sha1').update(signature).digest('hex');
+}
+
+/** Write the source file's pending edits into the copy */
+async function applyPendingTagsToCopy(plan: UsbCopyPlan): Promise<void> {
+  const edits = pendingFileEdits(plan.sourcePath);
+  const musickEdits = edits.filter(e => !isAnalysisField(e.fieldName));
+  if (musickEdits.length > 0) {
+    const currentTags = await mp3Manager.readMusickTags(plan.targetPath) || {};
+    await mp3Manager.writeTags(plan.targetPath, mergeMusickTagEdits(currentTags, musickEdits));
+  }
+  for (const edit of edits) {
+    if (isAnalysisField(edit.fieldName)) await writeAnalysisField(plan.targetPath, edit.fieldName, edit.newValue);
+  }
+}
+
+async function writePlaylistFile(name: string, destination: string, plans: UsbCopyPlan[]): Promise<string> {
+  const tracks = plans.map(plan => {
+    const cached = getMP3CacheByPath(plan.sourcePath);
+    return {
+      filePath: plan.targetPath,
+      title: cached?.title ?? '',
+      artist: cached?.artist ?? '',
+      duration: cached?.duration ?? 0,
+    };
+  });
+  const playlistPath = path.join(destination, exportFilename(name, 'm3u8'));
+  await fs.writeFile(playlistPath, buildM3U8(name, tracks, { mode: 'relative', targetFolder: destination }), 'utf8');
+  return playlistPath;
+}
+
+async function runJob(job: UsbExportJob, request: UsbExportRequest, plans: UsbCopyPlan[]): Promise<void> {
+  try {
+    const estimate = await estimateUsbExport(plans, request.destination, request.compare);
+    job.requiredBytes = estimate.requiredBytes;
+    job.freeBytes = estimate.freeBytes;
+    if (estimate.requiredBytes > estimate.freeBytes) {
+      throw new Error(
+        `Not enough space: ${Math.ceil(estimate.requiredBytes / 1e6)} MB needed, ${Math.floor(estimate.freeBytes / 1e6)} MB free`);
+    }
+
+    job.status = 'copying';
+    job.progress = await runUsbExport(plans, {
+      destination: request.destination,
+      compare: request.compare,
+      identical: estimate.identical,
+      failed: estimate.failed,
+      manifest: estimate.manifest,
+      afterCopy: request.applyPendingTags ? applyPendingTagsToCopy : undefined,
+      onProgress: progress => { job.progress = progress; },
+    });
+
+    const failedSources = new Set(job.progress.failed.map(f => f.filePath));
+    job.playlistFile = await writePlaylistFile(
+      job.name, request.destination, plans.filter(p => !failedSources.has(p.sourcePath)));
+    job.status = 'done';
+  } catch (error) {
+    job.status = 'failed';
+    job.error = error instanceof Error ? error.message : 'USB export failed';
+  } finally {
+    finishedAt.set(job.id, Date.now());
+  }
+}
+
+function forgetExpiredJobs(): void {
+  const now = Date.now();
+  for (const [id, endedAt] of finishedAt) {
+    if (now - endedAt < FINISHED_JOB_TTL_MS) continue;
+    jobs.delete(id);
+    finishedAt.delete(id);
+  }
+}
+
+// ─── Telefuncs ───────────────────────────────────────────────────────────
+
+/** Start copying a playlist or DJ set; returns immediately with the job to poll */
+export async function onStartUsbExport(request: UsbExportRequest): Promise<UsbExportJob> {
+  const destination = request.destination.trim();
+  if (!destination) throw new Error('Destination folder is required');
+  if (!path.isAbsolute(destination)) throw new Error('Destination must be an absolute path');
+
+  const { name, tracks } = loadSource(request.source);
+  if (tracks.length === 0) throw new Error('Nothing to copy — the list is empty');
+
+  const plans = planUsbCopies(tracks, destination, request.layout)
+    .map(plan => request.applyPendingTags ? { ...plan, variant: pendingTagsVariant(plan.sourcePath) } : plan);
+  const job: UsbExportJob = {
+    id: randomUUID(),
+    name,
+    status: 'checking',
+    error: null,
+    requiredBytes: 0,
+    freeBytes: 0,
+    progress: {
+      total: plans.length, done: 0, copied: 0, skipped: 0, failed: [], currentFile: null, bytesCopied: 0,
+    },
+    playlistFile: null,
+  };
+
+  forgetExpiredJobs();
+  jobs.set(job.id, job);
+
+  void runJob(job, { ...request, destination }, plans);
+  return { ...job };
+}
+
+export async function onGetUsbExportJob(jobId: string): Promise<UsbExportJob | null> {
+  forgetExpiredJobs();
+  const job = jobs.get(jobId);
+  return job ? { ...job, progress: { ...job.progress, failed: [...job.progress.failed] } } : null;
+}
@@ -0,0 +1,160 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Modal, Stack, Group, Text, TextInput, SegmentedControl, Switch, Button, Progress, Alert,
+} from '@mantine/core';
+import { IconDeviceUsb } from '@tabler/icons-react';
+
+import { onStartUsbExport, onGetUsbExportJob, type UsbExportJob, type UsbExportRequest } from './UsbExport.telefunc';
+import type { UsbLayout, UsbCompareMode } from '../../lib/usb-export';
+
+export interface UsbExportModalProps {
+  opened: boolean;
+  onClose: () => void;
+  source: UsbExportRequest['source'] | null;
+}
+
+const POLL_INTERVAL_MS = 500;
+
+function formatMB(bytes: number): string {
+  return `${(bytes / 1e6).toFixed(0)} MB`;
+}
+
+/**
+ * "Prepare USB" dialog: choose a destination and layout, then follow the
+ * background copy job until it finishes.
+ */
+export function UsbExportModal({ opened, onClose, source }: UsbExportModalProps) {
+  const [destination, setDestination] = useState('');
+  const [layout, setLayout] = useState<UsbLayout>('flat');
+  const [compare, setCompare] = useState<UsbCompareMode>('size_mtime');
+  const [applyPendingTags, setApplyPendingTags] = useState(false);
+  const [job, setJob] = useState<UsbExportJob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [starting, setStarting] = useState(false);
+
+  const running = job?.status === 'checking' || job?.status === 'copying';
+  const jobId = job?.id;
+
+  useEffect(() => {
+    if (!jobId || !running) return;
+    const timer = setInterval(() => {
+      onGetUsbExportJob(jobId)
+        .then(next => { if (next) setJob(next); })
+        .catch(() => {});
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [jobId, running]);
+
+  const handleStart = useCallback(async () => {
+    if (!source) return;
+    setStarting(true);
+    setError(null);
+    try {
+      setJob(await onStartUsbExport({ source, destination, layout, compare, applyPendingTags }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start USB export');
+    } finally {
+      setStarting(false);
+    }
+  }, [source, destination, layout, compare, applyPendingTags]);
+
+  const handleClose = useCallback(() => {
+    // A running job keeps going on the server; only the dialog state is reset
+    setJob(null);
+    setError(null);
+    onClose();
+  }, [onClose]);
+
+  const progress = job?.progress;
+
+  return (
+    <Modal opened={opened} onClose={handleClose} title="Prepare USB" size="md">
+      <Stack gap="sm">
+        <TextInput
+          size="xs"
+          label="Destination folder"
+          placeholder="/Volumes/DJSTICK/Music"
+          value={destination}
+          onChange={(e) => setDestination(e.currentTarget.value)}
+          disabled={running}
+        />
+        <div>
+          <Text size="xs" fw={500} mb={4}>Folder layout</Text>
+          <SegmentedControl
+            size="xs"
+            fullWidth
+            value={layout}
+            onChange={(v) => setLayout(v as UsbLayout)}
+            disabled={running}
+            data={[
+              { value: 'flat', label: 'Flat' },
+              { value: 'phase', label: 'By phase' },
+              { value: 'genre', label: 'By genre' },
+            ]}
+          />
+        </div>
+        <div>
+          <Text size="xs" fw={500} mb={4}>Skip files already on the stick when</Text>
+          <SegmentedControl
+            size="xs"
+            fullWidth
+            value={compare}
+            onChange={(v) => setCompare(v as UsbCompareMode)}
+            disabled={running}
+            data={[
+              { value: 'size_mtime', label: 'Size + date match' },
+              { value: 'hash', label: 'Content matches (slower)' },
+            ]}
+          />
+        </div>
+        <Switch
+          size="xs"
+          label="Write pending tag exports into the copies"
+          description="Library files stay untouched"
+          checked={applyPendingTags}
+          onChange={(e) => setApplyPendingTags(e.currentTarget.checked)}
+          disabled={running}
+        />
+
+        {error && <Alert color="red" withCloseButton onClose={() => setError(null)}>{error}</Alert>}
+
+        {job && progress && (
+          <Stack gap={4}>
+            <Progress
+              value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0}
+              size="sm"
+              color={job.status === 'failed' ? 'red' : 'green'}
+              animated={running}
+            />
+            <Text size="xs" c="dimmed">
+              {job.status === 'checking' && 'Checking free space…'}
+              {job.status === 'copying' && `Copying ${progress.done + 1} of ${progress.total}`}
+              {job.status === 'done' && `Done: ${progress.copied} copied (${formatMB(progress.bytesCopied)}), ${progress.skipped} already up to date`}
+              {job.status === 'failed' && job.error}
+            </Text>
+            {progress.currentFile && (
+              <Text size="xs" c="dimmed" truncate>{progress.currentFile.split('/').pop()}</Text>
+            )}
+            {progress.failed.length > 0 && (
+              <Text size="xs" c="red">{progress.failed.length} file(s) failed: {progress.failed[0].error}</Text>
+            )}
+            {job.playlistFile && <Text size="xs" c="dimmed">Wrote {job.playlistFile}</Text>}
+          </Stack>
+        )}
+
+        <Group justify="flex-end">
+          <Button variant="subtle" onClick={handleClose}>Close</Button>
+          <Button
+            color="violet"
+            onClick={handleStart}
+            loading={starting || running}
+            disabled={!source || !destination.trim()}
+            leftSection={<IconDeviceUsb size={14} />}
+          >
+            Copy to USB
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
@@ -11,6 +11,7 @@ import {
   onRemoveCanvasNode, onIsSongOnCanvas,
   onSearchSongs, onGetSongMetadata, onGetSongTags,
 } from '../MoodboardPage.telefunc';
+import { onLibraryChange, changedPaths } from '../../../lib/library-events';
 import type { SongNodeData } from '../nodes/SongNode';
 import type { TagNodeData } from '../nodes/TagNode';
 import type { TagCategory, MP3SearchResult } from '../../../lib/types';
@@ -36,6 +37,12 @@ export function useMoodboardState(currentPlayingPath?: string | null) {
     loadState();
   }, []);
 
+  // Reload when the folder watcher re-read, renamed or removed a song on the canvas
+  useEffect(() => onLibraryChange(change => {
+    const onCanvas = new Set(nodes.map(n => n.id));
+    if (changedPaths(change).some(p => onCanvas.has(`song:${p}`))) loadState();
+  }), [nodes]);
+
   // Update isPlaying on song nodes when currentPlayingPath changes
   useEffect(() => {
     setNodes(nds => nds.map(n => {
@@ -0,0 +1,20 @@
+/**
+ * Telefunc API for play history. The player reports each listen once it
+ * counts as a play or once the track is left early; the server decides which
+ * (see lib/play-history), so the threshold lives in one place.
+ */
+import { recordListen, getPlayStats } from '../database/sqlite/queries/play-history';
+import { classifyListen, type ListenOutcome, type SongPlayStats } from '../lib/play-history';
+
+/** Record a listen of `listenedSeconds`; returns how it counted, or null when too short to count */
+export async function onRecordListen(filePath: string, listenedSeconds: number, duration: number): Promise<ListenOutcome | null> {
+  if (!filePath) throw new Error('No song given');
+  if (!Number.isFinite(listenedSeconds) || listenedSeconds < 0) throw new Error('Listened time must be a positive number of seconds');
+  const outcome = classifyListen(listenedSeconds, Number.isFinite(duration) ? duration : 0);
+  if (outcome) recordListen(filePath, Math.round(listenedSeconds * 10) / 10, outcome);
+  return outcome;
+}
+
+export async function onGetPlayStats(filePath: string): Promise<SongPlayStats> {
+  return getPlayStats(filePath);
+}
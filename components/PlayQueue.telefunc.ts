@@ -0,0 +1,34 @@
+/**
+ * Telefunc API for the player queue, which is kept in SQLite so it survives
+ * reloads and is the same queue whichever view is showing.
+ */
+import { getMP3CacheByPath } from '../database/sqlite/queries/dj-sets';
+import { getPlayQueue, savePlayQueue, type PersistedPlayQueue } from '../database/sqlite/queries/play-queue';
+import type { MP3Metadata } from '../lib/mp3-metadata';
+
+export interface PlayQueueSnapshot {
+  current: MP3Metadata | null;
+  upcoming: MP3Metadata[];
+  history: MP3Metadata[];
+}
+
+/** Songs still in the library, with the title and artist the player shows */
+function toTracks(filePaths: string[]): MP3Metadata[] {
+  return filePaths.flatMap(filePath => {
+    const cached = getMP3CacheByPath(filePath);
+    return cached ? [{ filePath, title: cached.title, artist: cached.artist, duration: cached.duration }] : [];
+  });
+}
+
+export async function onLoadPlayQueue(): Promise<PlayQueueSnapshot> {
+  const queue = getPlayQueue();
+  return {
+    current: queue.current ? toTracks([queue.current])[0] ?? null : null,
+    upcoming: toTracks(queue.upcoming),
+    history: toTracks(queue.history),
+  };
+}
+
+export async function onSavePlayQueue(queue: PersistedPlayQueue): Promise<void> {
+  savePlayQueue(queue);
+}
@@ -0,0 +1,79 @@
+/**
+ * Telefunc API for the library quality audit: decode each song, compare its
+ * spectrum and levels with what the container claims, and store a verdict
+ * that LibraryPanel can filter on.
+ */
+import {
+  saveQualityReport, getQualityVerdicts, getUnauditedPaths, countQualityAudits,
+} from '../database/sqlite/queries/audio-features';
+import { analyzeAudioFile } from '../lib/audio-analysis';
+import type { QualityReport } from '../lib/quality-audit';
+import { MP3MetadataManager } from '../lib/mp3-metadata';
+import type { QualityIssue, QualityVerdict } from '../lib/types';
+
+const mp3Manager = new MP3MetadataManager();
+
+export interface QualityAuditProgress {
+  audited: number;
+  total: number;
+  /** Songs with a 'warning' or 'bad' verdict */
+  flagged: number;
+}
+
+export interface QualityAuditResult extends QualityReport {
+  filePath: string;
+}
+
+export async function onGetQualityAuditProgress(): Promise<QualityAuditProgress> {
+  return countQualityAudits();
+}
+
+/** Audit one song and store the verdict. A file that can't be decoded is itself a 'bad' verdict. */
+export async function onAuditQuality(filePath: string): Promise<QualityAuditResult> {
+  const metadata = await mp3Manager.readMetadata(filePath);
+  const declared = { bitrate: metadata.bitrate, sampleRate: metadata.sampleRate, format: metadata.format };
+  let report: QualityReport;
+  try {
+    const { quality } = await analyzeAudioFile(filePath, { quality: declared });
+    if (!quality) throw new Error('Analysis returned no quality report');
+    report = quality;
+  } catch (error) {
+    report = {
+      verdict: 'bad',
+      issues: [{ kind: 'unreadable', severity: 'bad', message: error instanceof Error ? error.message : 'Could not decode' }],
+      cutoffHz: null,
+      clippedRunsPerMinute: 0,
+      channels: 0,
+    };
+  }
+  saveQualityReport(filePath, report, declared);
+  return { filePath, ...report };
+}
+
+/**
+ * Audit up to `batchSize` songs that haven't been audited yet. Each song is a
+ * full decode, so the client calls this repeatedly and shows progress.
+ */
+export async function onAuditQualityBatch(batchSize = 10): Promise<QualityAuditProgress> {
+  for (const filePath of getUnauditedPaths(batchSize)) {
+    try {
+      await onAuditQuality(filePath);
+    } catch (error) {
+      // Metadata unreadable too (e.g. the file is gone); rescanning will drop it from the library
+      console.warn('[QualityAudit] Failed to audit', filePath, error);
+      saveQualityReport(filePath, {
+        verdict: 'bad',
+        issues: [{ kind: 'unreadable', severity: 'bad', message: 'File could not be read' }],
+        cutoffHz: null,
+        clippedRunsPerMinute: 0,
+        channels: 0,
+      }, {});
+    }
+  }
+  return countQualityAudits();
+}
+
+/** Stored verdicts, keyed by path, for songs that have been audited */
+export async function onGetQualityVerdicts(): Promise<Record<string, { verdict: QualityVerdict; issues: QualityIssue[] }>> {
+  return Object.fromEntries(getQualityVerdicts());
+}
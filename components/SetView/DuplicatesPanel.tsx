@@ -0,0 +1,184 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Stack, Group, Table, Radio, Button, Text, Badge, Loader, Progress, Paper } from '@mantine/core';
+import { IconCheck, IconFingerprint } from '@tabler/icons-react';
+import {
+  onGetFingerprintProgress, onFingerprintBatch, onFindDuplicates, onMergeDuplicates,
+  type DuplicateGroup, type FingerprintProgress,
+} from '../Duplicates.telefunc';
+import { formatDuration, formatFileSize } from '../../lib/format-utils';
+import { showSuccess, showError } from '../../lib/notifications';
+
+interface DuplicatesPanelProps {
+  /** Called after a merge so views showing tags and connections can reload */
+  onMerged?: () => void;
+}
+
+export function DuplicatesPanel({ onMerged }: DuplicatesPanelProps) {
+  const [progress, setProgress] = useState<FingerprintProgress | null>(null);
+  const [fingerprinting, setFingerprinting] = useState(false);
+  const [groups, setGroups] = useState<DuplicateGroup[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [keepers, setKeepers] = useState<Map<number, string>>(new Map());
+  const [merging, setMerging] = useState<number | null>(null);
+
+  const findDuplicates = useCallback(async () => {
+    setSearching(true);
+    try {
+      const found = await onFindDuplicates();
+      setGroups(found);
+      // Default keeper: the highest-bitrate copy, which the server lists first
+      setKeepers(new Map(found.map((group, i) => [i, group.copies[0].filePath])));
+    } catch (e) {
+      showError({ message: e instanceof Error ? e.message : 'Duplicate search failed' });
+    } finally {
+      setSearching(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    onGetFingerprintProgress().then(setProgress).catch(console.error);
+  }, []);
+
+  const fingerprintLibrary = useCallback(async () => {
+    setFingerprinting(true);
+    const failed: string[] = [];
+    try {
+      let current = await onFingerprintBatch();
+      failed.push(...current.failed);
+      setProgress(current);
+      while (current.fingerprinted < current.total) {
+        const before = current.fingerprinted;
+        current = await onFingerprintBatch();
+        if (current.fingerprinted === before) break;
+        failed.push(...current.failed);
+        setProgress(current);
+      }
+      if (failed.length > 0) showError({ message: `${failed.length} file(s) could not be decoded` });
+      await findDuplicates();
+    } catch (e) {
+      showError({ message: e instanceof Error ? e.message : 'Fingerprinting failed' });
+    } finally {
+      setFingerprinting(false);
+    }
+  }, [findDuplicates]);
+
+  const merge = useCallback(async (index: number) => {
+    const group = groups?.[index];
+    const keeper = keepers.get(index);
+    if (!group || !keeper) return;
+    setMerging(index);
+    try {
+      const others = group.copies.map(c => c.filePath).filter(p => p !== keeper);
+      const summary = await onMergeDuplicates(keeper, others);
+      showSuccess({
+        message: `Merged ${others.length} cop${others.length === 1 ? 'y' : 'ies'}: ${summary.tags} tags, `
+          + `${summary.connections} connections, ${summary.playlistItems} playlist items, ${summary.moodboardNodes} board nodes`,
+      });
+      setGroups(prev => prev?.filter((_, i) => i !== index) ?? null);
+      setKeepers(prev => new Map([...prev].filter(([i]) => i !== index).map(([i, p]) => [i > index ? i - 1 : i, p])));
+      onMerged?.();
+    } catch (e) {
+      showError({ message: e instanceof Error ? e.message : 'Merge failed' });
+    } finally {
+      setMerging(null);
+    }
+  }, [groups, keepers, onMerged]);
+
+  const remaining = progress ? progress.total - progress.fingerprinted : 0;
+
+  return (
+    <Stack data-testid="duplicates-panel" p="xs" gap="sm">
+      <Group justify="space-between">
+        <Text size="sm" c="dimmed">
+          {progress ? `${progress.fingerprinted} of ${progress.total} songs fingerprinted` : 'Loading…'}
+        </Text>
+        <Group gap="xs">
+          {remaining > 0 && (
+            <Button
+              size="xs"
+              leftSection={<IconFingerprint size={14} />}
+              loading={fingerprinting}
+              onClick={fingerprintLibrary}
+            >
+              Fingerprint {remaining} song{remaining !== 1 ? 's' : ''}
+            </Button>
+          )}
+          <Button size="xs" variant="light" loading={searching} disabled={fingerprinting} onClick={findDuplicates}>
+            Find duplicates
+          </Button>
+        </Group>
+      </Group>
+      {fingerprinting && progress && progress.total > 0 && (
+        <Progress value={(100 * progress.fingerprinted) / progress.total} size="sm" animated />
+      )}
+
+      {searching && (
+        <Stack align="center" justify="center" h={120}>
+          <Loader />
+        </Stack>
+      )}
+
+      {!searching && groups?.length === 0 && (
+        <Stack align="center" justify="center" h={160}>
+          <IconCheck size={48} color="var(--mantine-color-green-6)" />
+          <Text c="dimmed">No duplicates among the fingerprinted songs</Text>
+        </Stack>
+      )}
+
+      {!searching && groups?.map((group, index) => (
+        <Paper key={group.copies.map(c => c.filePath).join('\n')} withBorder p="xs" data-testid="duplicate-group">
+          <Group justify="space-between" mb={4}>
+            <Text size="sm" fw={600} truncate>{group.copies[0].artist} — {group.copies[0].title}</Text>
+            <Badge size="sm" variant="light">{Math.round(group.similarity * 100)}% match</Badge>
+          </Group>
+          <Radio.Group
+            value={keepers.get(index) ?? null}
+            onChange={value => setKeepers(prev => new Map(prev).set(index, value))}
+          >
+            <Table>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th w={40}>Keep</Table.Th>
+                  <Table.Th>File</Table.Th>
+                  <Table.Th>Format</Table.Th>
+                  <Table.Th>Bitrate</Table.Th>
+                  <Table.Th>Size</Table.Th>
+                  <Table.Th>Length</Table.Th>
+                  <Table.Th>Tags</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {group.copies.map(copy => (
+                  <Table.Tr key={copy.filePath}>
+                    <Table.Td><Radio value={copy.filePath} aria-label={`Keep ${copy.filePath}`} /></Table.Td>
+                    <Table.Td>
+                      <Text size="xs" style={{ wordBreak: 'break-all' }}>{copy.filePath}</Text>
+                    </Table.Td>
+                    <Table.Td><Text size="xs">{copy.format}</Text></Table.Td>
+                    <Table.Td><Text size="xs">{copy.bitrateKbps != null ? `${copy.bitrateKbps} kbps` : '—'}</Text></Table.Td>
+                    <Table.Td><Text size="xs">{copy.fileSize != null ? formatFileSize(copy.fileSize) : '—'}</Text></Table.Td>
+                    <Table.Td><Text size="xs">{formatDuration(copy.duration ?? undefined)}</Text></Table.Td>
+                    <Table.Td>
+                      <Text size="xs">{copy.tagCount} / {copy.connectionCount} links</Text>
+                    </Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          </Radio.Group>
+          <Group justify="space-between" mt={4}>
+            <Text size="xs" c="dimmed">Files stay on disk; only library data moves to the keeper.</Text>
+            <Button
+              size="xs"
+              loading={merging === index}
+              disabled={merging !== null || !keepers.get(index)}
+              onClick={() => merge(index)}
+            >
+              Merge into keeper
+            </Button>
+          </Group>
+        </Paper>
+      ))}
+    </Stack>
+  );
+}
@@ -1,5 +1,6 @@
 import React, { useState, useCallback } from 'react';
-import { Stack, Text, Group, Badge, Box, ScrollArea, Menu } from '@mantine/core';
+import { Stack, Text, Group, Badge, Box, ScrollArea, Menu, ActionIcon, Tooltip } from '@mantine/core';
+import { IconPlayerPlay } from '@tabler/icons-react';
 import { SongCard, type SongCardData } from './SongCard';
 
 interface PhaseColumnProps {
@@ -21,6 +22,8 @@ interface PhaseColumnProps {
   onNewVersion?: () => void;
   onViewVersion?: (version: number) => void;
   isReadOnly?: boolean;
+  /** Play the column top to bottom through the queue */
+  onPlayAll?: (filePaths: string[]) => void;
 }
 
 const PHASE_COLORS: Record<string, string> = {
@@ -32,7 +35,7 @@ function PhaseColumnInner({
   phase, songs, selectedSong, selectedSongs, focusedSong, isLocked: columnLocked,
   playingSong, groupBy,
   onSongClick, onSongDoubleClick, onDrop, color,
-  activeVersion, versions, viewingVersion, onNewVersion, onViewVersion, isReadOnly,
+  activeVersion, versions, viewingVersion, onNewVersion, onViewVersion, isReadOnly, onPlayAll,
 }: PhaseColumnProps) {
   const [isDragOver, setIsDragOver] = useState(false);
   const phaseColor = color || PHASE_COLORS[phase.toLowerCase()] || 'gray';
@@ -205,6 +208,20 @@ function PhaseColumnInner({
         {isReadOnly && (
           <Badge size="xs" variant="outline" color="yellow">Read-only</Badge>
         )}
+        {onPlayAll && songs.length > 0 && (
+          <Tooltip label="Play column">
+            <ActionIcon
+              size="xs"
+              variant="subtle"
+              color={phaseColor}
+              ml="auto"
+              onClick={() => onPlayAll(songs.map(s => s.filePath))}
+              data-testid={`play-column-${phase}`}
+            >
+              <IconPlayerPlay size={12} />
+            </ActionIcon>
+          </Tooltip>
+        )}
       </Group>
 
       {/* Song list */}
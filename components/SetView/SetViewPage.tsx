@@ -1,6 +1,6 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { Box, Group, Drawer, SegmentedControl, Text, ActionIcon, Tooltip, Badge, TextInput, Skeleton } from '@mantine/core';
-import { IconLayoutSidebar, IconSettings, IconChecklist, IconKeyboard, IconPlus } from '@tabler/icons-react';
+import { IconLayoutSidebar, IconSettings, IconChecklist, IconKeyboard, IconPlus, IconCopy, IconVinyl, IconPlaylist, IconListDetails } from '@tabler/icons-react';
 import { onAddSongTag, onRemoveSongTag } from '../Moodboard/MoodboardPage.telefunc';
 import { onGetAllPhaseVersions, onGetPhaseVersions, onCreatePhaseVersion, onGetSongsForVersion } from '../Moodboard/PhaseVersions.telefunc';
 import { PhaseColumn } from './PhaseColumn';
@@ -10,9 +10,13 @@ import { LibraryPanel } from '../Shared/LibraryPanel';
 import { SongDetailPanel } from '../Shared/SongDetailPanel';
 import { SettingsDrawer } from '../Shared/SettingsDrawer';
 import { ExportReviewTable } from './ExportReviewTable';
+import { DuplicatesPanel } from './DuplicatesPanel';
 import { AudioPlayerBar } from '../Shared/AudioPlayerBar';
+import { DualDeckPlayer, type DeckTrack } from '../Shared/DualDeckPlayer';
+import { QueuePanel } from '../Shared/QueuePanel';
 import { MoodboardCanvasView } from '../Moodboard/MoodboardCanvasView';
 import { BoardManager } from '../Moodboard/BoardManager';
+import { PlaylistPanel } from '../Moodboard/PlaylistPanel';
 import { useAudioQueue } from '../../hooks/useAudioQueue';
 import { useSetViewData } from './hooks/useSetViewData';
 import { useSetViewUI } from './hooks/useSetViewUI';
@@ -20,6 +24,7 @@ import { useKeyboardNavigation } from './hooks/useKeyboardNavigation';
 import { useTagManagement } from './hooks/useTagManagement';
 import type { SongCardData } from './SongCard';
 import type { MP3Metadata } from '../../lib/mp3-metadata';
+import { onPlayerControl } from '../../lib/player-controls';
 
 import './SetView.css';
 
@@ -40,15 +45,53 @@ export function SetViewPage() {
   const audioQueue = useAudioQueue();
   const { songs, loading, genres: allGenres, moods: allMoods, phases, phaseColumns, loadSongs, addExplicitPhase, updateSongPhase, updateSongTags } = useSetViewData();
 
-  // Handle tray actions from Tauri system tray
-  useEffect(() => {
-    const handler = (e: Event) => {
-      const action = (e as CustomEvent<string>).detail;
-      if (action === 'play_pause') audioQueue.togglePlayPause();
-    };
-    window.addEventListener('musicky:tray-action', handler);
-    return () => window.removeEventListener('musicky:tray-action', handler);
-  }, [audioQueue.togglePlayPause]);
+  // Two-deck mode replaces the player bar; null means the single player is showing
+  const [decks, setDecks] = useState<{ a: DeckTrack | null; b: DeckTrack | null } | null>(null);
+  const [playlistOpen, setPlaylistOpen] = useState(false);
+
+  const toDeckTrack = useCallback((filePath: string): DeckTrack => {
+    const song = songs.find(s => s.filePath === filePath);
+    return { filePath, title: song?.title ?? '', artist: song?.artist ?? '' };
+  }, [songs]);
+
+  const handleAuditionTransition = useCallback((fromPath: string, toPath: string) => {
+    audioQueue.setIsPlaying(false);
+    setDecks({ a: toDeckTrack(fromPath), b: toDeckTrack(toPath) });
+  }, [audioQueue.setIsPlaying, toDeckTrack]);
+
+  const toggleDecks = useCallback(() => {
+    if (decks) {
+      setDecks(null);
+      return;
+    }
+    audioQueue.setIsPlaying(false);
+    const current = audioQueue.currentTrack;
+    setDecks({ a: current ? toDeckTrack(current.filePath) : null, b: null });
+  }, [decks, audioQueue.setIsPlaying, audioQueue.currentTrack, toDeckTrack]);
+
+  const toQueueTracks = useCallback((filePaths: string[]): MP3Metadata[] => (
+    filePaths
+      .map(fp => songs.find(s => s.filePath === fp))
+      .filter((s): s is SongCardData => !!s)
+      .map(s => ({ filePath: s.filePath, title: s.title, artist: s.artist }) as MP3Metadata)
+  ), [songs]);
+
+  const handlePlayAll = useCallback((filePaths: string[]) => {
+    audioQueue.playAll(toQueueTracks(filePaths));
+  }, [audioQueue.playAll, toQueueTracks]);
+
+  // Transport controls from the tray, global shortcuts and media keys; seeks go to the player bar
+  const canGoNext = audioQueue.upcoming.length > 0;
+  const canGoBack = audioQueue.history.length > 0;
+  useEffect(() => onPlayerControl(control => {
+    switch (control.type) {
+      case 'play_pause': audioQueue.togglePlayPause(); break;
+      case 'play': audioQueue.setIsPlaying(true); break;
+      case 'pause': audioQueue.setIsPlaying(false); break;
+      case 'next': if (canGoNext) audioQueue.next(); break;
+      case 'prev': if (canGoBack) audioQueue.previous(); break;
+    }
+  }), [audioQueue.togglePlayPause, audioQueue.setIsPlaying, audioQueue.next, audioQueue.previous, canGoNext, canGoBack]);
 
   // Load phase version data whenever songs change
   useEffect(() => {
@@ -222,6 +265,27 @@ export function SetViewPage() {
           </Badge>
         )}
         <Tooltip label="Export Tags"><ActionIcon size="sm" variant="subtle" onClick={ui.openReview}><IconChecklist size={14} /></ActionIcon></Tooltip>
+        <Tooltip label="Duplicates"><ActionIcon size="sm" variant="subtle" onClick={ui.openDuplicates}><IconCopy size={14} /></ActionIcon></Tooltip>
+        <Tooltip label="Play queue">
+          <ActionIcon size="sm" variant="subtle" onClick={ui.openQueue} data-testid="queue-toggle">
+            <IconPlaylist size={14} />
+          </ActionIcon>
+        </Tooltip>
+        <Tooltip label="Playlist generator">
+          <ActionIcon
+            size="sm"
+            variant={playlistOpen ? 'light' : 'subtle'}
+            onClick={() => setPlaylistOpen(o => !o)}
+            data-testid="toolbar-toggle-playlist"
+          >
+            <IconListDetails size={14} />
+          </ActionIcon>
+        </Tooltip>
+        <Tooltip label={decks ? 'Single player' : 'Two decks'}>
+          <ActionIcon size="sm" variant={decks ? 'light' : 'subtle'} onClick={toggleDecks} data-testid="dual-deck-toggle">
+            <IconVinyl size={14} />
+          </ActionIcon>
+        </Tooltip>
         <Tooltip label="Settings"><ActionIcon size="sm" variant="subtle" onClick={ui.openSettings}><IconSettings size={14} /></ActionIcon></Tooltip>
         <Tooltip label="Keyboard shortcuts (?)">
           <ActionIcon size="sm" variant="subtle" onClick={ui.openHelp}>
@@ -238,6 +302,8 @@ export function SetViewPage() {
             const song = songs.find(s => s.filePath === fp);
             if (song) audioQueue.playTrack({ filePath: fp, title: song.title, artist: song.artist } as MP3Metadata);
           }}
+          onAuditionTransition={handleAuditionTransition}
+          onQueueSongs={handlePlayAll}
         />
       ) : (
       <Box className="set-view-main">
@@ -279,6 +345,7 @@ export function SetViewPage() {
                 onNewVersion={() => handleNewVersion(phase)}
                 onViewVersion={(v) => handleViewVersion(phase, v)}
                 isReadOnly={isViewingOld}
+                onPlayAll={handlePlayAll}
               />
             );
           })}
@@ -295,6 +362,7 @@ export function SetViewPage() {
             onSongDoubleClick={handleSongDoubleClick}
             onDrop={(fp) => handleDrop(fp, '__unassigned__')}
             color="gray"
+            onPlayAll={handlePlayAll}
           />
           <Box style={{ minWidth: 160, display: 'flex', alignItems: 'flex-start', justifyContent: 'center', paddingTop: 40 }}>
             {ui.addingPhase ? (
@@ -333,6 +401,15 @@ export function SetViewPage() {
       </Box>
       )}
 
+      <PlaylistPanel
+        isOpen={playlistOpen}
+        onToggle={() => setPlaylistOpen(o => !o)}
+        onSongClick={handleSongClick}
+        onSongDoubleClick={handleSongDoubleClick}
+        onPlayAll={handlePlayAll}
+        onAuditionTransition={handleAuditionTransition}
+      />
+
       {/* Drawers */}
       <Drawer opened={ui.detailOpen} onClose={ui.closeDrawer} position="right" size="md" title="Song Detail">
         <SongDetailPanel
@@ -348,18 +425,31 @@ export function SetViewPage() {
       <Drawer opened={ui.reviewOpen} onClose={ui.closeDrawer} position="right" size="lg" title="Export Tags to Files">
         <ExportReviewTable onClose={ui.closeDrawer} />
       </Drawer>
+      <Drawer opened={ui.duplicatesOpen} onClose={ui.closeDrawer} position="right" size="xl" title="Duplicates">
+        <DuplicatesPanel onMerged={loadSongs} />
+      </Drawer>
+      <Drawer opened={ui.queueOpen} onClose={ui.closeDrawer} position="right" size="sm" title="Play Queue">
+        <QueuePanel audioQueue={audioQueue} />
+      </Drawer>
 
       <Box className="set-view-player">
+        {decks ? (
+          <DualDeckPlayer deckA={decks.a} deckB={decks.b} onClose={() => setDecks(null)} />
+        ) : (
         <AudioPlayerBar
           currentTrack={audioQueue.currentTrack}
           isPlaying={audioQueue.isPlaying}
+          autoPlay={audioQueue.autoPlay}
           volume={audioQueue.volume}
           onPlayStateChange={audioQueue.setIsPlaying}
           onVolumeChange={audioQueue.setVolume}
           onTimeUpdate={audioQueue.setCurrentTime}
-          onEnded={() => audioQueue.setIsPlaying(false)}
+          onEnded={audioQueue.next}
           onTogglePlayPause={audioQueue.togglePlayPause}
+          onNext={canGoNext ? audioQueue.next : undefined}
+          onPrevious={canGoBack ? audioQueue.previous : undefined}
         />
+        )}
       </Box>
 
       <ShortcutHelpModal opened={ui.helpOpen} onClose={ui.closeDrawer} />
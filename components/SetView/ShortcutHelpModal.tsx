@@ -48,6 +48,8 @@ export function ShortcutHelpModal({ opened, onClose }: ShortcutHelpProps) {
             <Row keys="Space" desc="Play / pause" />
             <Row keys="Alt + ←→" desc="Seek ±5 seconds" />
             <Row keys="Alt + ↑↓" desc="Volume up / down" />
+            <Row keys="Alt + 1-8" desc="Jump to hot cue (sets an empty one)" />
+            <Row keys="Alt + Shift + 1-8" desc="Set hot cue at the playhead" />
           </Table.Tbody>
         </Table>
 
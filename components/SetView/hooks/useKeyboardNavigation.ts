@@ -9,6 +9,7 @@ import {
   type NavigationState,
   type NavigationAction,
 } from './useNavigationReducer';
+import { sendPlayerControl, SEEK_STEP_SECONDS } from '../../../lib/player-controls';
 
 export interface UseKeyboardNavigationParams {
   phases: string[];
@@ -81,24 +82,20 @@ export function useKeyboardNavigation(params: UseKeyboardNavigationParams): UseK
             e.preventDefault();
             p.audioQueue.setVolume(Math.max(0, p.audioQueue.volume - 0.1));
             return;
-          case 'ArrowLeft': {
+          case 'ArrowLeft':
             e.preventDefault();
-            const audio = document.querySelector('audio');
-            if (audio) audio.currentTime = Math.max(0, audio.currentTime - 5);
+            sendPlayerControl({ type: 'seek_by', offset: -SEEK_STEP_SECONDS });
             return;
-          }
-          case 'ArrowRight': {
+          case 'ArrowRight':
             e.preventDefault();
-            const audio = document.querySelector('audio');
-            if (audio) audio.currentTime = Math.min(audio.duration || 0, audio.currentTime + 5);
+            sendPlayerControl({ type: 'seek_by', offset: SEEK_STEP_SECONDS });
             return;
-          }
         }
       }
 
-      // Number keys 1-9: toggle genre (plain) or mood (shift)
+      // Number keys 1-9: toggle genre (plain) or mood (shift); Alt+digits are the player's hot cues
       const digitMatch = e.code?.match(/^Digit([1-9])$/);
-      if (digitMatch && selectedSongs.size > 0) {
+      if (digitMatch && !e.altKey && selectedSongs.size > 0) {
         e.preventDefault();
         const idx = parseInt(digitMatch[1]) - 1;
         if (e.shiftKey) {
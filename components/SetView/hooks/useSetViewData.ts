@@ -3,6 +3,7 @@ import {
   onGetLibrarySongsWithTags, onGetAllTags,
 } from '../../Moodboard/MoodboardPage.telefunc';
 import { standardToCamelot } from '../../../lib/camelot';
+import { onLibraryChange } from '../../../lib/library-events';
 import type { SongCardData } from '../SongCard';
 
 // ─── State Machine ──────────────────────────────────────────────────────────
@@ -107,8 +108,9 @@ function computePhaseColumns(songs: SongCardData[], explicitPhases: string[]): {
 export function useSetViewData() {
   const [state, dispatch] = useReducer(setViewDataReducer, initialState);
 
-  const loadSongs = useCallback(async () => {
-    dispatch({ type: 'LOAD_START' });
+  /** `quiet` refreshes in place instead of showing the loading state */
+  const loadSongs = useCallback(async ({ quiet = false }: { quiet?: boolean } = {}) => {
+    if (!quiet) dispatch({ type: 'LOAD_START' });
     try {
       const [songsWithTags, genres, moods] = await Promise.all([
         onGetLibrarySongsWithTags(),
@@ -138,6 +140,9 @@ export function useSetViewData() {
   // Load on mount
   useEffect(() => { loadSongs(); }, [loadSongs]);
 
+  // The folder watcher added, changed or removed songs
+  useEffect(() => onLibraryChange(() => { loadSongs({ quiet: true }); }), [loadSongs]);
+
   // Pure calculations derived from state
   const { phases, phaseColumns } = useMemo(
     () => computePhaseColumns(state.songs, state.explicitPhases),
@@ -8,12 +8,16 @@ type DrawerState =
   | { drawer: 'detail'; songPath: string }
   | { drawer: 'settings' }
   | { drawer: 'review' }
+  | { drawer: 'duplicates' }
+  | { drawer: 'queue' }
   | { drawer: 'help' };
 
 type DrawerEvent =
   | { type: 'OPEN_DETAIL'; songPath: string }
   | { type: 'OPEN_SETTINGS' }
   | { type: 'OPEN_REVIEW' }
+  | { type: 'OPEN_DUPLICATES' }
+  | { type: 'OPEN_QUEUE' }
   | { type: 'OPEN_HELP' }
   | { type: 'CLOSE_DRAWER' };
 
@@ -22,6 +26,8 @@ function drawerReducer(_state: DrawerState, event: DrawerEvent): DrawerState {
     case 'OPEN_DETAIL': return { drawer: 'detail', songPath: event.songPath };
     case 'OPEN_SETTINGS': return { drawer: 'settings' };
     case 'OPEN_REVIEW': return { drawer: 'review' };
+    case 'OPEN_DUPLICATES': return { drawer: 'duplicates' };
+    case 'OPEN_QUEUE': return { drawer: 'queue' };
     case 'OPEN_HELP': return { drawer: 'help' };
     case 'CLOSE_DRAWER': return { drawer: 'none' };
   }
@@ -64,12 +70,16 @@ export function useSetViewUI() {
     detailSongPath: drawerState.drawer === 'detail' ? drawerState.songPath : null,
     settingsOpen: drawerState.drawer === 'settings',
     reviewOpen: drawerState.drawer === 'review',
+    duplicatesOpen: drawerState.drawer === 'duplicates',
+    queueOpen: drawerState.drawer === 'queue',
     helpOpen: drawerState.drawer === 'help',
 
     // Drawer actions
     openDetail: useCallback((songPath: string) => dispatchDrawer({ type: 'OPEN_DETAIL', songPath }), []),
     openSettings: useCallback(() => dispatchDrawer({ type: 'OPEN_SETTINGS' }), []),
     openReview: useCallback(() => dispatchDrawer({ type: 'OPEN_REVIEW' }), []),
+    openDuplicates: useCallback(() => dispatchDrawer({ type: 'OPEN_DUPLICATES' }), []),
+    openQueue: useCallback(() => dispatchDrawer({ type: 'OPEN_QUEUE' }), []),
     openHelp: useCallback(() => dispatchDrawer({ type: 'OPEN_HELP' }), []),
     closeDrawer: useCallback(() => dispatchDrawer({ type: 'CLOSE_DRAWER' }), []),
 
@@ -1,4 +1,17 @@
-import { saveKeepPlayHead, readKeepPlayHead } from '../database/sqlite/queries/library-settings';
+import {
+  saveKeepPlayHead,
+  readKeepPlayHead,
+  saveTraktorTagField,
+  readTraktorTagField,
+  saveVdjDatabasePath,
+  readVdjDatabasePath,
+  saveVdjDatabaseOnly,
+  readVdjDatabaseOnly,
+  saveMediaShortcuts,
+  readMediaShortcuts,
+} from '../database/sqlite/queries/library-settings';
+import type { TraktorTagField } from '../lib/traktor-nml';
+import { normalizeMediaShortcuts, duplicateShortcut, type MediaShortcuts } from '../lib/player-controls';
 
 export async function onGetKeepPlayHead(): Promise<boolean> {
   return readKeepPlayHead();
@@ -7,3 +20,36 @@ export async function onGetKeepPlayHead(): Promise<boolean> {
 export async function onSetKeepPlayHead(enabled: boolean): Promise<void> {
   saveKeepPlayHead(enabled);
 }
+
+export async function onGetTraktorTagField(): Promise<TraktorTagField> {
+  return readTraktorTagField();
+}
+
+export async function onSetTraktorTagField(field: TraktorTagField): Promise<void> {
+  saveTraktorTagField(field === 'LABEL' ? 'LABEL' : 'COMMENT2');
+}
+
+export async function onGetVdjDatabaseSettings(): Promise<{ path: string | null; databaseOnly: boolean }> {
+  return { path: readVdjDatabasePath(), databaseOnly: readVdjDatabaseOnly() };
+}
+
+export async function onSetVdjDatabasePath(dbPath: string): Promise<void> {
+  saveVdjDatabasePath(dbPath.trim() || null);
+}
+
+export async function onSetVdjDatabaseOnly(enabled: boolean): Promise<void> {
+  saveVdjDatabaseOnly(enabled);
+}
+
+export async function onGetMediaShortcuts(): Promise<MediaShortcuts> {
+  return readMediaShortcuts();
+}
+
+/** Save the global shortcut bindings; returns them as stored */
+export async function onSetMediaShortcuts(shortcuts: MediaShortcuts): Promise<MediaShortcuts> {
+  const normalized = normalizeMediaShortcuts(shortcuts);
+  const duplicate = duplicateShortcut(normalized);
+  if (duplicate) throw new Error(`${duplicate} is bound to more than one action`);
+  saveMediaShortcuts(normalized);
+  return normalized;
+}
@@ -1,11 +1,14 @@
 import { useState, useEffect } from 'react';
 import { onGetKeepPlayHead, onSetKeepPlayHead } from './Settings.telefunc';
+import { onRecalibrateEnergy } from './Analysis.telefunc';
 import './Settings.css';
 
 export function Settings() {
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [keepPlayHead, setKeepPlayHead] = useState(false);
+  const [isRecalibrating, setIsRecalibrating] = useState(false);
+  const [calibrationStatus, setCalibrationStatus] = useState<string | null>(null);
 
   useEffect(() => {
     loadSettings();
@@ -35,6 +38,21 @@ export function Settings() {
     }
   };
 
+  const handleRecalibrateEnergy = async () => {
+    try {
+      setIsRecalibrating(true);
+      const { calibration, updated } = await onRecalibrateEnergy();
+      setCalibrationStatus(calibration.sampleCount > 0
+        ? `Fitted to ${calibration.sampleCount} tagged songs (typical error ±${calibration.rmse?.toFixed(1)}), ${updated} estimates updated`
+        : `Not enough analysed MIK-tagged songs yet — using the defaults, ${updated} estimates updated`);
+    } catch (error) {
+      console.error('Failed to recalibrate energy:', error);
+      setCalibrationStatus('Recalibration failed');
+    } finally {
+      setIsRecalibrating(false);
+    }
+  };
+
   if (isLoading) {
     return <div className="settings-loading">Loading settings...</div>;
   }
@@ -63,6 +81,25 @@ export function Settings() {
           </p>
         </div>
       </div>
+
+      <div className="analysis-section">
+        <h3>Audio Analysis</h3>
+        <div className="setting-item">
+          <button
+            className="setting-button"
+            onClick={handleRecalibrateEnergy}
+            disabled={isRecalibrating}
+          >
+            {isRecalibrating ? 'Recalibrating…' : 'Recalibrate energy estimates'}
+          </button>
+          <p className="setting-description">
+            Estimated energy levels are fitted to songs that already carry a Mixed In Key
+            energy. After analysing more of those, recalibrate so every estimate uses the
+            same scale.
+          </p>
+          {calibrationStatus && <p className="setting-description">{calibrationStatus}</p>}
+        </div>
+      </div>
     </div>
   );
 }
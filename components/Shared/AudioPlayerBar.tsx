@@ -10,6 +10,9 @@ import {
   IconVolume3,
   IconVolumeOff,
   IconMusic,
+  IconMetronome,
+  IconLock,
+  IconLockOpen,
 } from '@tabler/icons-react';
 import { audioReducer, initialAudioState } from '../../lib/audio-state';
 import {
@@ -23,9 +26,20 @@ import {
   useAudioEventListeners,
   useExternalSync,
   useCallbackNotifications,
+  usePlaybackGain,
+  useMediaSession,
 } from '../../lib/audio-effects';
 import { formatTime } from '../../lib/format-utils';
+import { Waveform } from '../AudioPlayer/Waveform';
 import type { MP3Metadata } from '../../lib/mp3-metadata';
+import { onGetPreviewGain, onGetMixPoints, onGetTempoKey } from '../Analysis.telefunc';
+import { mixPointCues } from '../../lib/mix-points';
+import { matchTempo, formatTempoMatch, type TempoKeyInfo } from '../../lib/tempo-match';
+import { hotCueMarkers } from '../../lib/hot-cues';
+import { useHotCues } from '../../hooks/useHotCues';
+import { usePlayHistory } from '../../hooks/usePlayHistory';
+import { HotCuePads } from './HotCuePads';
+import { onPlayerControl } from '../../lib/player-controls';
 import './AudioPlayerBar.css';
 
 export interface AudioPlayerBarProps {
@@ -40,6 +54,8 @@ export interface AudioPlayerBarProps {
   onNext?: () => void;
   onPrevious?: () => void;
   playlistPosition?: { current: number; total: number };
+  /** Start each newly loaded track by itself (default); off for a track restored on reload */
+  autoPlay?: boolean;
 }
 
 function VolumeIcon({ volume }: { volume: number }) {
@@ -61,6 +77,7 @@ export function AudioPlayerBar({
   onNext,
   onPrevious,
   playlistPosition,
+  autoPlay = true,
 }: AudioPlayerBarProps) {
   const audioRef = useRef<HTMLAudioElement>(null);
   const autoPlayAttemptedSrcRef = useRef<string | null>(null);
@@ -68,6 +85,15 @@ export function AudioPlayerBar({
   const [state, dispatch] = useReducer(audioReducer, initialAudioState);
   const [artworkError, setArtworkError] = useState(false);
   const [seekingTo, setSeekingTo] = useState<number | null>(null);
+  const [gainDb, setGainDb] = useState<number | null>(null);
+  const [cues, setCues] = useState<{ position: number; name: string }[]>([]);
+  const [trackBpm, setTrackBpm] = useState<number | null>(null);
+  // The track played before this one is the tempo reference, like the deck you mix out of
+  const previousTrackRef = useRef<MP3Metadata | null>(null);
+  const [referenceTrack, setReferenceTrack] = useState<MP3Metadata | null>(null);
+  const [tempoInfo, setTempoInfo] = useState<{ track: TempoKeyInfo; reference: TempoKeyInfo } | null>(null);
+  const [tempoMatchOn, setTempoMatchOn] = useState(false);
+  const [preservePitch, setPreservePitch] = useState(true);
 
   const audioSrc = currentTrack
     ? `/audio/${encodeURIComponent(currentTrack.filePath)}`
@@ -75,6 +101,9 @@ export function AudioPlayerBar({
   const artworkSrc = currentTrack
     ? `/artwork/${encodeURIComponent(currentTrack.filePath)}`
     : '';
+  const waveformSrc = currentTrack
+    ? `/waveform/${encodeURIComponent(currentTrack.filePath)}`
+    : '';
 
   // Sync external play state
   const { setUserActionInProgress } = useExternalSync(
@@ -84,12 +113,85 @@ export function AudioPlayerBar({
     state.isLoading,
   );
 
+  const playFromCue = useCallback(() => {
+    setUserActionInProgress(true);
+    void executeCommand(audioRef.current, createPlayCommand());
+  }, [setUserActionInProgress]);
+
+  const hotCues = useHotCues(audioRef, currentTrack?.filePath ?? null, trackBpm, playFromCue);
+
   // Audio event listeners
   useAudioEventListeners(audioRef, dispatch, onTimeUpdate, onEnded);
 
   // Notify parent of internal state changes
   useCallbackNotifications(state.isPlaying, state.volume, onPlayStateChange, onVolumeChange);
 
+  usePlayHistory(audioRef, currentTrack?.filePath ?? null);
+
+  // Level-match previews once a track's loudness has been measured
+  usePlaybackGain(audioRef, gainDb, state.isPlaying);
+
+  useMediaSession(
+    audioRef,
+    currentTrack
+      ? {
+          title: currentTrack.title || 'Unknown Title',
+          artist: currentTrack.artist || 'Unknown Artist',
+          album: currentTrack.album ?? '',
+          artworkSrc,
+        }
+      : null,
+    state.isPlaying,
+    state.duration,
+    { canNext: !!onNext, canPrevious: !!onPrevious },
+  );
+
+  useEffect(() => {
+    setGainDb(null);
+    setCues([]);
+    setTrackBpm(null);
+    if (!currentTrack) return;
+    let cancelled = false;
+    onGetPreviewGain(currentTrack.filePath)
+      .then(gain => { if (!cancelled) setGainDb(gain); })
+      .catch(() => { /* play at unity gain */ });
+    onGetMixPoints(currentTrack.filePath)
+      .then(points => { if (!cancelled && points) setCues(mixPointCues(points)); })
+      .catch(() => { /* no markers */ });
+    onGetTempoKey(currentTrack.filePath)
+      .then(info => { if (!cancelled) setTrackBpm(info.bpm); })
+      .catch(() => { /* loops can't be sized */ });
+    return () => { cancelled = true; };
+  }, [currentTrack]);
+
+  useEffect(() => {
+    const previous = previousTrackRef.current;
+    if (currentTrack && previous && previous.filePath !== currentTrack.filePath) setReferenceTrack(previous);
+    if (currentTrack) previousTrackRef.current = currentTrack;
+  }, [currentTrack]);
+
+  useEffect(() => {
+    setTempoInfo(null);
+    if (!currentTrack || !referenceTrack) return;
+    let cancelled = false;
+    Promise.all([onGetTempoKey(currentTrack.filePath), onGetTempoKey(referenceTrack.filePath)])
+      .then(([track, reference]) => { if (!cancelled) setTempoInfo({ track, reference }); })
+      .catch(() => { /* no tempo match offered */ });
+    return () => { cancelled = true; };
+  }, [currentTrack, referenceTrack]);
+
+  const tempoMatch = tempoInfo ? matchTempo(tempoInfo.reference, tempoInfo.track, preservePitch) : null;
+  const playbackRate = tempoMatchOn && tempoMatch ? tempoMatch.rate : 1;
+
+  // Loading a source resets playbackRate to the default, so set both and reapply after each load
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.preservesPitch = preservePitch;
+    audio.defaultPlaybackRate = playbackRate;
+    audio.playbackRate = playbackRate;
+  }, [playbackRate, preservePitch, state.isLoading]);
+
   // Load new track
   useEffect(() => {
     if (!currentTrack) return;
@@ -104,6 +206,7 @@ export function AudioPlayerBar({
   useEffect(() => {
     if (
       currentTrack &&
+      autoPlay &&
       !state.isLoading &&
       !state.error &&
       !state.isPlaying &&
@@ -113,7 +216,7 @@ export function AudioPlayerBar({
       setUserActionInProgress(true);
       void executeCommand(audioRef.current, createPlayCommand());
     }
-  }, [currentTrack, state.isLoading, state.error, state.isPlaying, audioSrc, setUserActionInProgress]);
+  }, [currentTrack, autoPlay, state.isLoading, state.error, state.isPlaying, audioSrc, setUserActionInProgress]);
 
   // Sync external volume
   useEffect(() => {
@@ -141,6 +244,25 @@ export function AudioPlayerBar({
     [state.duration],
   );
 
+  const handleWaveformSeek = useCallback(
+    (value: number) => {
+      setSeekingTo(value);
+      void executeCommand(audioRef.current, createSeekCommand(value, state.duration));
+    },
+    [state.duration],
+  );
+
+  // Seeks from the player control bus (media keys, tray, global shortcuts)
+  useEffect(() => onPlayerControl(control => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (control.type === 'seek') {
+      void executeCommand(audio, createSeekCommand(control.time, state.duration));
+    } else if (control.type === 'seek_by') {
+      void executeCommand(audio, createSeekCommand(audio.currentTime + control.offset, state.duration));
+    }
+  }), [state.duration]);
+
   // Clear seeking state when currentTime catches up
   useEffect(() => {
     if (seekingTo !== null && Math.abs(state.currentTime - seekingTo) < 0.5) {
@@ -172,6 +294,7 @@ export function AudioPlayerBar({
   }
 
   const displayTime = seekingTo ?? state.currentTime;
+  const markers = [...cues, ...hotCueMarkers(hotCues.cues)];
 
   return (
     <Box className={`audio-player-bar${isPlaying ? ' audio-player-bar--playing' : ''}`}>
@@ -244,6 +367,15 @@ export function AudioPlayerBar({
 
       {/* Progress bar */}
       <Box className="audio-player-bar__progress">
+        <Waveform
+          src={waveformSrc}
+          currentTime={displayTime}
+          duration={state.duration}
+          onSeek={handleWaveformSeek}
+          height={18}
+          disabled={state.isLoading || state.duration === 0}
+          cues={markers}
+        />
         <Slider
           value={seekingTo ?? state.currentTime}
           min={0}
@@ -256,6 +388,7 @@ export function AudioPlayerBar({
           size="xs"
           thumbSize={12}
           label={formatTime}
+          marks={markers.filter(c => c.position < state.duration).map(c => ({ value: c.position }))}
           styles={{
             root: { padding: 0 },
             track: { height: 4 },
@@ -269,6 +402,55 @@ export function AudioPlayerBar({
         {formatTime(displayTime)}&nbsp;/&nbsp;{formatTime(state.duration)}
       </Text>
 
+      {/* Hot cues and saved loops */}
+      <HotCuePads
+        {...hotCues}
+        canLoop={trackBpm != null}
+        disabled={state.isLoading || state.duration === 0}
+      />
+
+      {/* Tempo match to the previous track */}
+      {referenceTrack && (
+        <Group gap={2} wrap="nowrap" className="audio-player-bar__tempo">
+          <Tooltip
+            position="top"
+            label={tempoMatch && tempoInfo?.reference.bpm
+              ? `Match tempo to ${referenceTrack.title || 'the previous track'} (${tempoInfo.reference.bpm.toFixed(1)} BPM)`
+              : 'Tempo match needs both BPMs, within 16%'}
+          >
+            <ActionIcon
+              size="sm"
+              variant={tempoMatchOn && tempoMatch ? 'light' : 'subtle'}
+              color="violet"
+              onClick={() => setTempoMatchOn(on => !on)}
+              disabled={!tempoMatch}
+              aria-label="Match tempo to previous track"
+              data-testid="audio-tempo-match"
+            >
+              <IconMetronome size={16} />
+            </ActionIcon>
+          </Tooltip>
+          {tempoMatchOn && tempoMatch && (
+            <>
+              <Tooltip label={preservePitch ? 'Key lock on: pitch kept' : 'Key lock off: pitch follows tempo'} position="top">
+                <ActionIcon
+                  size="sm"
+                  variant="subtle"
+                  color={preservePitch ? 'violet' : 'orange'}
+                  onClick={() => setPreservePitch(on => !on)}
+                  aria-label="Toggle key lock"
+                >
+                  {preservePitch ? <IconLock size={14} /> : <IconLockOpen size={14} />}
+                </ActionIcon>
+              </Tooltip>
+              <Text size="xs" c={tempoMatch.effectiveKey !== tempoMatch.key ? 'orange' : 'dimmed'} className="audio-player-bar__tempo-label">
+                {formatTempoMatch(tempoMatch)}
+              </Text>
+            </>
+          )}
+        </Group>
+      )}
+
       {/* Playlist position indicator */}
       {playlistPosition && (
         <Text size="xs" c="dimmed" className="audio-player-bar__playlist-pos">
@@ -0,0 +1,245 @@
+import { useRef, useEffect, useCallback, useReducer, useState } from 'react';
+import { Box, Group, Stack, Text, ActionIcon, Tooltip, Slider, Badge, CloseButton } from '@mantine/core';
+import { IconPlayerPlay, IconPlayerPause, IconMusic } from '@tabler/icons-react';
+import { audioReducer, initialAudioState, crossfaderGains } from '../../lib/audio-state';
+import {
+  createPlayCommand,
+  createPauseCommand,
+  createSeekCommand,
+  createLoadCommand,
+  executeCommand,
+} from '../../lib/audio-commands';
+import { useAudioEventListeners, useDeckGraph } from '../../lib/audio-effects';
+import { formatTime } from '../../lib/format-utils';
+import { mixPointCues } from '../../lib/mix-points';
+import { Waveform } from '../AudioPlayer/Waveform';
+import { onGetPreviewGain, onGetMixPoints } from '../Analysis.telefunc';
+import './DualDeckPlayer.css';
+
+export interface DeckTrack {
+  filePath: string;
+  title: string;
+  artist: string;
+}
+
+export interface DualDeckPlayerProps {
+  deckA: DeckTrack | null;
+  deckB: DeckTrack | null;
+  onClose: () => void;
+}
+
+const EQ_BANDS = [
+  { key: 'lowDb', label: 'LOW' },
+  { key: 'midDb', label: 'MID' },
+  { key: 'highDb', label: 'HI' },
+] as const;
+
+type EqSettings = Record<(typeof EQ_BANDS)[number]['key'], number>;
+
+const FLAT_EQ: EqSettings = { lowDb: 0, midDb: 0, highDb: 0 };
+/** EQ range in dB; the bottom is close enough to a kill for auditioning */
+const EQ_MIN_DB = -24;
+const EQ_MAX_DB = 6;
+
+interface DeckProps {
+  label: 'A' | 'B';
+  track: DeckTrack | null;
+  /** Crossfader share for this deck, 0–1 */
+  crossfade: number;
+  getContext: () => AudioContext;
+}
+
+function Deck({ label, track, crossfade, getContext }: DeckProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [state, dispatch] = useReducer(audioReducer, initialAudioState);
+  const [volume, setVolume] = useState(1);
+  const [eq, setEq] = useState<EqSettings>(FLAT_EQ);
+  const [gainDb, setGainDb] = useState<number | null>(null);
+  const [cues, setCues] = useState<{ position: number; name: string }[]>([]);
+
+  const audioSrc = track ? `/audio/${encodeURIComponent(track.filePath)}` : '';
+
+  useAudioEventListeners(audioRef, dispatch);
+
+  useDeckGraph(audioRef, getContext, state.isPlaying, {
+    gain: volume * crossfade * Math.pow(10, (gainDb ?? 0) / 20),
+    ...eq,
+  });
+
+  useEffect(() => {
+    setGainDb(null);
+    setCues([]);
+    if (!track) return;
+    let cancelled = false;
+    onGetPreviewGain(track.filePath)
+      .then(gain => { if (!cancelled) setGainDb(gain); })
+      .catch(() => { /* play at unity gain */ });
+    onGetMixPoints(track.filePath)
+      .then(points => { if (!cancelled && points) setCues(mixPointCues(points)); })
+      .catch(() => { /* no markers */ });
+    return () => { cancelled = true; };
+  }, [track]);
+
+  // Load a new track paused; the user starts each deck when the mix calls for it
+  useEffect(() => {
+    if (!audioSrc) return;
+    dispatch({ type: 'RESET' });
+    void executeCommand(audioRef.current, createLoadCommand(audioSrc));
+  }, [audioSrc]);
+
+  const handlePlayPause = useCallback(() => {
+    void executeCommand(audioRef.current, state.isPlaying ? createPauseCommand() : createPlayCommand());
+  }, [state.isPlaying]);
+
+  const handleSeek = useCallback((time: number) => {
+    void executeCommand(audioRef.current, createSeekCommand(time, state.duration));
+  }, [state.duration]);
+
+  const disabled = state.isLoading || state.duration === 0;
+
+  return (
+    <Box className={`dual-deck__deck${state.isPlaying ? ' dual-deck__deck--playing' : ''}`} data-testid={`deck-${label.toLowerCase()}`}>
+      <audio ref={audioRef} preload="metadata" style={{ display: 'none' }} />
+      <Group gap={6} wrap="nowrap">
+        <Badge size="sm" variant="filled" color={label === 'A' ? 'violet' : 'cyan'}>{label}</Badge>
+        <ActionIcon
+          size="sm"
+          variant="filled"
+          color="violet"
+          onClick={handlePlayPause}
+          disabled={!track || state.isLoading}
+          aria-label={state.isPlaying ? `Pause deck ${label}` : `Play deck ${label}`}
+        >
+          {state.isPlaying ? <IconPlayerPause size={14} /> : <IconPlayerPlay size={14} />}
+        </ActionIcon>
+        <Box className="dual-deck__track-info">
+          {track ? (
+            <Text size="xs" fw={600} truncate="end">
+              {track.title || 'Unknown Title'}
+              <Text span size="xs" c="dimmed"> – {track.artist || 'Unknown Artist'}</Text>
+            </Text>
+          ) : (
+            <Group gap={4}>
+              <IconMusic size={12} style={{ opacity: 0.4 }} />
+              <Text size="xs" c="dimmed">Empty deck</Text>
+            </Group>
+          )}
+        </Box>
+        <Text size="xs" c="dimmed" className="dual-deck__time">
+          {formatTime(state.currentTime)}&nbsp;/&nbsp;{formatTime(state.duration)}
+        </Text>
+      </Group>
+
+      {state.error && <Text size="xs" c="red">{state.error}</Text>}
+
+      {track ? (
+        <Waveform
+          src={`/waveform/${encodeURIComponent(track.filePath)}`}
+          currentTime={state.currentTime}
+          duration={state.duration}
+          onSeek={handleSeek}
+          height={28}
+          disabled={disabled}
+          cues={cues}
+        />
+      ) : (
+        <Box h={28} />
+      )}
+
+      <Group gap="xs" wrap="nowrap" className="dual-deck__mixer">
+        <Text size="xs" c="dimmed" w={24}>VOL</Text>
+        <Slider
+          value={volume * 100}
+          min={0}
+          max={100}
+          onChange={v => setVolume(v / 100)}
+          size="xs"
+          color="violet"
+          thumbSize={10}
+          label={null}
+          className="dual-deck__slider"
+          aria-label={`Deck ${label} volume`}
+        />
+        {EQ_BANDS.map(band => (
+          <Tooltip key={band.key} label="Double-click to reset" openDelay={600}>
+            <Group gap={4} wrap="nowrap" onDoubleClick={() => setEq(prev => ({ ...prev, [band.key]: 0 }))}>
+              <Text size="xs" c="dimmed" w={24}>{band.label}</Text>
+              <Slider
+                value={eq[band.key]}
+                min={EQ_MIN_DB}
+                max={EQ_MAX_DB}
+                step={1}
+                onChange={v => setEq(prev => ({ ...prev, [band.key]: v }))}
+                size="xs"
+                color={eq[band.key] < 0 ? 'orange' : 'violet'}
+                thumbSize={10}
+                label={v => `${v > 0 ? '+' : ''}${v} dB`}
+                marks={[{ value: 0 }]}
+                className="dual-deck__slider"
+                aria-label={`Deck ${label} ${band.label} EQ`}
+              />
+            </Group>
+          </Tooltip>
+        ))}
+      </Group>
+    </Box>
+  );
+}
+
+/**
+ * Two-deck preview for auditioning transitions: each deck has its own
+ * `<audio>` element and audioReducer, and both mix through one AudioContext
+ * so the crossfader and EQ behave like a mixer rather than two volume knobs.
+ */
+export function DualDeckPlayer({ deckA, deckB, onClose }: DualDeckPlayerProps) {
+  const contextRef = useRef<AudioContext | null>(null);
+  const [crossfader, setCrossfader] = useState(0);
+
+  const getContext = useCallback(() => {
+    contextRef.current ??= new AudioContext();
+    return contextRef.current;
+  }, []);
+
+  useEffect(() => () => {
+    void contextRef.current?.close();
+    contextRef.current = null;
+  }, []);
+
+  // Start each new pair on A so the transition can be played from the top
+  useEffect(() => {
+    setCrossfader(0);
+  }, [deckA, deckB]);
+
+  const gains = crossfaderGains(crossfader);
+
+  return (
+    <Box className="dual-deck" data-testid="dual-deck-player">
+      <Deck label="A" track={deckA} crossfade={gains.a} getContext={getContext} />
+      <Stack gap={2} align="center" justify="center" className="dual-deck__crossfader">
+        <CloseButton size="xs" onClick={onClose} aria-label="Back to single player" className="dual-deck__close" />
+        <Group gap={4} wrap="nowrap" w="100%">
+          <Text size="xs" fw={700} c="violet">A</Text>
+          <Slider
+            value={crossfader}
+            min={0}
+            max={1}
+            step={0.01}
+            onChange={setCrossfader}
+            onDoubleClick={() => setCrossfader(0.5)}
+            size="sm"
+            color="gray"
+            thumbSize={16}
+            label={null}
+            marks={[{ value: 0.5 }]}
+            style={{ flex: 1 }}
+            aria-label="Crossfader"
+            data-testid="crossfader"
+          />
+          <Text size="xs" fw={700} c="cyan">B</Text>
+        </Group>
+        <Text size="xs" c="dimmed">Crossfader</Text>
+      </Stack>
+      <Deck label="B" track={deckB} crossfade={gains.b} getContext={getContext} />
+    </Box>
+  );
+}
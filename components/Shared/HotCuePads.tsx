@@ -0,0 +1,127 @@
+import { Group, Stack, Text, ActionIcon, Tooltip, Popover, TextInput, Select, Button, UnstyledButton, Divider } from '@mantine/core';
+import { IconAdjustmentsHorizontal, IconTrash, IconDownload, IconUpload } from '@tabler/icons-react';
+import { HOT_CUE_SLOTS, HOT_CUE_COLORS, LOOP_BEATS, hotCueLabel, type HotCue } from '../../lib/hot-cues';
+import { formatTime } from '../../lib/format-utils';
+import type { HotCueActions } from '../../hooks/useHotCues';
+
+interface HotCuePadsProps extends HotCueActions {
+  cues: HotCue[];
+  activeLoop: number | null;
+  /** Loops are sized in beats, so they need a tempo */
+  canLoop: boolean;
+  disabled?: boolean;
+}
+
+const SLOTS = Array.from({ length: HOT_CUE_SLOTS }, (_, i) => i + 1);
+
+function describeCue(cue: HotCue): string {
+  const range = cue.loopEnd != null ? `${formatTime(cue.position)}–${formatTime(cue.loopEnd)}` : formatTime(cue.position);
+  return `${hotCueLabel(cue)} · ${range}`;
+}
+
+/**
+ * Eight pads in the player bar: click to jump (or set an empty pad),
+ * Shift+click to set at the playhead. The popover names cues, turns them
+ * into loops and moves them to and from Serato and VirtualDJ.
+ */
+export function HotCuePads({
+  cues, activeLoop, canLoop, disabled, trigger, set, setLoop, rename, remove, importFrom, exportTo,
+}: HotCuePadsProps) {
+  const bySlot = new Map(cues.map(c => [c.slot, c]));
+
+  return (
+    <Group gap={2} wrap="nowrap" className="audio-player-bar__cues" data-testid="hot-cue-pads">
+      {SLOTS.map(slot => {
+        const cue = bySlot.get(slot);
+        const color = `#${HOT_CUE_COLORS[slot - 1]}`;
+        return (
+          <Tooltip
+            key={slot}
+            position="top"
+            label={cue ? `${describeCue(cue)} (Alt+${slot})` : `Set cue ${slot} (Alt+${slot})`}
+          >
+            <UnstyledButton
+              className={`audio-player-bar__cue${cue?.loopEnd != null ? ' audio-player-bar__cue--loop' : ''}${activeLoop === slot ? ' audio-player-bar__cue--active' : ''}`}
+              style={cue ? { background: color, borderColor: color } : undefined}
+              disabled={disabled}
+              onClick={e => (e.shiftKey ? set(slot) : trigger(slot))}
+              aria-label={cue ? `Jump to ${hotCueLabel(cue)}` : `Set hot cue ${slot}`}
+            >
+              {slot}
+            </UnstyledButton>
+          </Tooltip>
+        );
+      })}
+
+      <Popover position="top-end" width={320} withinPortal shadow="md">
+        <Popover.Target>
+          <ActionIcon size="sm" variant="subtle" disabled={disabled} aria-label="Edit hot cues">
+            <IconAdjustmentsHorizontal size={14} />
+          </ActionIcon>
+        </Popover.Target>
+        <Popover.Dropdown>
+          <Stack gap={4}>
+            {SLOTS.map(slot => {
+              const cue = bySlot.get(slot);
+              return (
+                <Group key={slot} gap={4} wrap="nowrap">
+                  <Text size="xs" fw={700} w={14} style={{ color: `#${HOT_CUE_COLORS[slot - 1]}` }}>{slot}</Text>
+                  {cue ? (
+                    <>
+                      <TextInput
+                        key={`${cue.position}-${cue.name}`}
+                        size="xs"
+                        defaultValue={cue.name}
+                        placeholder={hotCueLabel(cue)}
+                        onBlur={e => rename(slot, e.currentTarget.value)}
+                        onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                        style={{ flex: 1 }}
+                        aria-label={`Name of cue ${slot}`}
+                      />
+                      <Text size="xs" c="dimmed" w={40}>{formatTime(cue.position)}</Text>
+                      <Select
+                        size="xs"
+                        w={72}
+                        placeholder="Loop"
+                        disabled={!canLoop}
+                        value={null}
+                        data={LOOP_BEATS.map(b => ({ value: String(b), label: `${b} beat${b === 1 ? '' : 's'}` }))}
+                        onChange={v => { if (v) setLoop(slot, Number(v)); }}
+                        aria-label={`Loop from cue ${slot}`}
+                      />
+                      <ActionIcon size="sm" variant="subtle" color="red" onClick={() => remove(slot)} aria-label={`Delete cue ${slot}`}>
+                        <IconTrash size={12} />
+                      </ActionIcon>
+                    </>
+                  ) : (
+                    <Button size="compact-xs" variant="subtle" onClick={() => set(slot)}>Set at playhead</Button>
+                  )}
+                </Group>
+              );
+            })}
+            <Divider my={4} />
+            <Group gap={4} grow>
+              <Button size="compact-xs" variant="light" leftSection={<IconDownload size={12} />} onClick={() => importFrom('serato')}>
+                From Serato
+              </Button>
+              <Button size="compact-xs" variant="light" leftSection={<IconDownload size={12} />} onClick={() => importFrom('vdj')}>
+                From VirtualDJ
+              </Button>
+            </Group>
+            <Group gap={4} grow>
+              <Button size="compact-xs" variant="light" leftSection={<IconUpload size={12} />} onClick={() => exportTo('serato')}>
+                To Serato
+              </Button>
+              <Button size="compact-xs" variant="light" leftSection={<IconUpload size={12} />} onClick={() => exportTo('vdj')}>
+                To VirtualDJ
+              </Button>
+            </Group>
+            <Text size="xs" c="dimmed">
+              Serato keeps cues and loops in MP3 tags; VirtualDJ gets the cues only.
+            </Text>
+          </Stack>
+        </Popover.Dropdown>
+      </Popover>
+    </Group>
+  );
+}
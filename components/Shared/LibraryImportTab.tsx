@@ -0,0 +1,225 @@
+import { useState, useCallback } from 'react';
+import {
+  Stack, Group, Text, Button, Badge, Card, ScrollArea, Alert, Checkbox, FileInput,
+} from '@mantine/core';
+import { IconCheck, IconFileMusic, IconPlaylist, IconArrowRight, IconUpload } from '@tabler/icons-react';
+import type { LibraryImportDiff } from '../../lib/library-import';
+import type { LibraryImportSelection, LibraryImportResult } from '../TagSync.telefunc';
+import './ReviewPanel.css';
+
+export interface LibraryImportTabProps {
+  /** Display name of the source application, e.g. "Rekordbox" */
+  sourceName: string;
+  accept: string;
+  onPreview: (content: string) => Promise<LibraryImportDiff>;
+  onApply: (selection: LibraryImportSelection) => Promise<LibraryImportResult>;
+  onChangesApplied?: () => void;
+  testId?: string;
+}
+
+function fileName(filePath: string): string {
+  return filePath.split('/').pop() || filePath;
+}
+
+const connectionKey = (c: { sourcePath: string; targetPath: string }) => `${c.sourcePath}\u0000${c.targetPath}`;
+
+/** Selected-by-default keys: everything except playlists that would replace an existing one */
+function defaultSelection(diff: LibraryImportDiff): Set<string> {
+  return new Set([
+    ...diff.tags.map(t => `tag:${t.filePath}`),
+    ...diff.playlists.filter(p => !p.exists).map(p => `playlist:${p.name}`),
+    ...diff.connections.map(c => `conn:${connectionKey(c)}`),
+  ]);
+}
+
+/**
+ * Review tab for importing another DJ application's library file.
+ * The file is previewed into a diff; only checked items are applied.
+ */
+export function LibraryImportTab({ sourceName, accept, onPreview, onApply, onChangesApplied, testId }: LibraryImportTabProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [diff, setDiff] = useState<LibraryImportDiff | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [previewing, setPreviewing] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<LibraryImportResult | null>(null);
+
+  const handlePreview = useCallback(async () => {
+    if (!file) return;
+    setPreviewing(true);
+    setError(null);
+    setResult(null);
+    try {
+      const next = await onPreview(await file.text());
+      setDiff(next);
+      setSelected(defaultSelection(next));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `${sourceName} preview failed`);
+    } finally {
+      setPreviewing(false);
+    }
+  }, [file, onPreview, sourceName]);
+
+  const toggle = useCallback((key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  }, []);
+
+  const handleApply = useCallback(async () => {
+    if (!diff) return;
+    setApplying(true);
+    setError(null);
+    try {
+      const applied = await onApply({
+        tags: diff.tags
+          .filter(t => selected.has(`tag:${t.filePath}`))
+          .map(t => ({ filePath: t.filePath, tags: t.newTags })),
+        playlists: diff.playlists
+          .filter(p => selected.has(`playlist:${p.name}`))
+          .map(p => ({ name: p.name, filePaths: p.filePaths })),
+        connections: diff.connections
+          .filter(c => selected.has(`conn:${connectionKey(c)}`))
+          .map(c => ({ sourcePath: c.sourcePath, targetPath: c.targetPath })),
+      });
+      setResult(applied);
+      setDiff(null);
+      setSelected(new Set());
+      onChangesApplied?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `${sourceName} import failed`);
+    } finally {
+      setApplying(false);
+    }
+  }, [diff, selected, onApply, onChangesApplied, sourceName]);
+
+  const isEmpty = diff && diff.tags.length === 0 && diff.playlists.length === 0 && diff.connections.length === 0;
+
+  return (
+    <Stack gap="sm" data-testid={testId}>
+      <Text size="sm" c="dimmed">
+        {sourceName} library → Dashboard tags, playlists and transitions. Nothing is written until you apply.
+      </Text>
+
+      <Group align="flex-end" gap="xs">
+        <FileInput
+          size="xs"
+          style={{ flex: 1 }}
+          label={`${sourceName} library file`}
+          placeholder={`Choose ${accept} file`}
+          accept={accept}
+          value={file}
+          onChange={setFile}
+          clearable
+        />
+        <Button
+          size="xs"
+          variant="light"
+          leftSection={<IconUpload size={14} />}
+          onClick={handlePreview}
+          loading={previewing}
+          disabled={!file}
+        >
+          Preview
+        </Button>
+      </Group>
+
+      {error && (
+        <Alert color="red" withCloseButton onClose={() => setError(null)}>{error}</Alert>
+      )}
+
+      {result && (
+        <Alert color="green" withCloseButton onClose={() => setResult(null)}>
+          Added {result.tagsAdded} tag{result.tagsAdded !== 1 ? 's' : ''} and {result.connectionsAdded} transition{result.connectionsAdded !== 1 ? 's' : ''};
+          {' '}created {result.playlistsCreated} and updated {result.playlistsUpdated} playlist{result.playlistsUpdated !== 1 ? 's' : ''}.
+        </Alert>
+      )}
+
+      {isEmpty && (
+        <Stack align="center" py="xl" gap="xs">
+          <Text size="sm" c="dimmed">Nothing new to import.</Text>
+          {diff.unmatched.length > 0 && (
+            <Text size="xs" c="dimmed">{diff.unmatched.length} track(s) did not match any library song.</Text>
+          )}
+        </Stack>
+      )}
+
+      {diff && !isEmpty && (
+        <Stack gap="xs">
+          <Group gap="xs">
+            <Badge size="sm" variant="light">{diff.tags.length} songs with new tags</Badge>
+            <Badge size="sm" variant="light" color="cyan">{diff.playlists.length} playlists</Badge>
+            <Badge size="sm" variant="light" color="orange">{diff.connections.length} transitions</Badge>
+            {diff.unmatched.length > 0 && (
+              <Badge size="sm" variant="light" color="gray">{diff.unmatched.length} unmatched</Badge>
+            )}
+          </Group>
+
+          <ScrollArea.Autosize mah="calc(100vh - 460px)">
+            <Stack gap="xs">
+              {diff.tags.map(t => (
+                <Card key={t.filePath} className="review-diff-card" padding="sm" withBorder>
+                  <Group gap="xs" mb={4}>
+                    <Checkbox size="xs" checked={selected.has(`tag:${t.filePath}`)} onChange={() => toggle(`tag:${t.filePath}`)} />
+                    <IconFileMusic size={16} />
+                    <Text fw={600} size="sm" className="review-file-name">{fileName(t.filePath)}</Text>
+                    {t.matchedBy === 'artist_title' && (
+                      <Badge size="xs" variant="outline" color="yellow">matched by artist/title</Badge>
+                    )}
+                  </Group>
+                  <Group gap={4}>
+                    {t.newTags.map(tag => (
+                      <Badge key={`${tag.category}:${tag.label}`} size="xs" variant="light">
+                        {tag.category}: {tag.label}
+                      </Badge>
+                    ))}
+                  </Group>
+                </Card>
+              ))}
+
+              {diff.playlists.map(p => (
+                <Card key={p.name} className="review-diff-card" padding="sm" withBorder>
+                  <Group gap="xs">
+                    <Checkbox size="xs" checked={selected.has(`playlist:${p.name}`)} onChange={() => toggle(`playlist:${p.name}`)} />
+                    <IconPlaylist size={16} />
+                    <Text fw={600} size="sm">{p.name}</Text>
+                    <Text size="xs" c="dimmed">
+                      {p.filePaths.length} tracks{p.unmatchedCount > 0 ? `, ${p.unmatchedCount} unmatched` : ''}
+                    </Text>
+                    {p.exists && <Badge size="xs" variant="outline" color="red">replaces existing</Badge>}
+                  </Group>
+                </Card>
+              ))}
+
+              {diff.connections.map(c => {
+                const key = `conn:${connectionKey(c)}`;
+                return (
+                  <div key={key} className="review-diff-field">
+                    <Checkbox size="xs" checked={selected.has(key)} onChange={() => toggle(key)} />
+                    <span className="review-value-new">{fileName(c.sourcePath)}</span>
+                    <IconArrowRight size={12} color="var(--mantine-color-dimmed)" />
+                    <span className="review-value-new">{fileName(c.targetPath)}</span>
+                    <Text size="xs" c="dimmed">({c.playlistName})</Text>
+                  </div>
+                );
+              })}
+            </Stack>
+          </ScrollArea.Autosize>
+
+          <Button
+            leftSection={<IconCheck size={14} />}
+            onClick={handleApply}
+            loading={applying}
+            disabled={selected.size === 0}
+          >
+            Import {selected.size} item{selected.size !== 1 ? 's' : ''}
+          </Button>
+        </Stack>
+      )}
+    </Stack>
+  );
+}
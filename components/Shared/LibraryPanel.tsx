@@ -1,12 +1,16 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import {
   TextInput, Select, ScrollArea, Box, Group, Stack, Text, Badge, Skeleton,
-  ActionIcon, Tooltip,
+  ActionIcon, Tooltip, Loader,
 } from '@mantine/core';
 import { useDebouncedValue } from '@mantine/hooks';
-import { IconSearch, IconMusic, IconFilter, IconPlus } from '@tabler/icons-react';
+import { IconSearch, IconMusic, IconFilter, IconPlus, IconShieldCheck } from '@tabler/icons-react';
 import { onGetLibrarySongs, onSearchSongs, onGetAllTags } from '../Moodboard/MoodboardPage.telefunc';
+import { onGetQualityVerdicts, onAuditQualityBatch } from '../QualityAudit.telefunc';
+import type { QualityIssue, QualityVerdict } from '../../lib/types';
 import { getCamelotColor, getCompatibleCamelotKeys } from '../../lib/camelot';
+import { formatLastPlayed } from '../../lib/play-history';
+import { onLibraryChange, changedPaths } from '../../lib/library-events';
 
 import './LibraryPanel.css';
 
@@ -32,6 +36,9 @@ interface LibrarySong {
   bpm?: number;
   energyLevel?: number;
   label?: string;
+  playCount?: number;
+  skipCount?: number;
+  lastPlayed?: string | null;
 }
 
 interface SongTagInfo {
@@ -47,6 +54,35 @@ interface TagInfo {
   count: number;
 }
 
+type QualityMap = Record<string, { verdict: QualityVerdict; issues: QualityIssue[] }>;
+
+const QUALITY_FILTER_OPTIONS = [
+  { value: 'flagged', label: 'Any issue' },
+  { value: 'bad', label: 'Bad only' },
+  { value: 'transcode', label: 'Transcodes' },
+  { value: 'low_bitrate', label: 'Low bitrate' },
+  { value: 'clipping', label: 'Clipping' },
+  { value: 'mono', label: 'Mono' },
+  { value: 'sample_rate', label: 'Sample rate' },
+  { value: 'unreadable', label: 'Unreadable' },
+  { value: 'unaudited', label: 'Not audited' },
+];
+
+/** Pure calculation: whether a song's audit result passes the quality filter */
+function matchesQualityFilter(quality: QualityMap[string] | undefined, filter: string): boolean {
+  if (filter === 'unaudited') return !quality;
+  if (!quality) return false;
+  if (filter === 'flagged') return quality.verdict !== 'ok';
+  if (filter === 'bad') return quality.verdict === 'bad';
+  return quality.issues.some(i => i.kind === filter);
+}
+
+function playStatsLabel(song: LibrarySong): string {
+  const parts = [`Played ${song.playCount ?? 0}×`, `last ${formatLastPlayed(song.lastPlayed ?? null)}`];
+  if (song.skipCount) parts.push(`skipped ${song.skipCount}×`);
+  return parts.join(' · ');
+}
+
 export function LibraryPanel({ onSongSelect, onSongDoubleClick, onSongDragStart, onAddAllSongs, searchInputRef: externalSearchRef, selectedCanvasKey }: LibraryPanelProps) {
   const [songs, setSongs] = useState<LibrarySong[]>([]);
   const [tags, setTags] = useState<TagInfo[]>([]);
@@ -58,6 +94,11 @@ export function LibraryPanel({ onSongSelect, onSongDoubleClick, onSongDragStart,
   const [phaseFilter, setPhaseFilter] = useState<string | null>(null);
   const [genreFilter, setGenreFilter] = useState<string | null>(null);
   const [moodFilter, setMoodFilter] = useState<string | null>(null);
+  const [qualityFilter, setQualityFilter] = useState<string | null>(null);
+
+  // Quality audit verdicts, keyed by path
+  const [quality, setQuality] = useState<QualityMap>({});
+  const [auditing, setAuditing] = useState(false);
 
   // Harmonic compatibility filter
   const [compatibleFilterActive, setCompatibleFilterActive] = useState(false);
@@ -77,11 +118,12 @@ export function LibraryPanel({ onSongSelect, onSongDoubleClick, onSongDragStart,
     let cancelled = false;
     setLoading(true);
 
-    Promise.all([onGetLibrarySongs(), onGetAllTags()])
-      .then(([songList, tagList]) => {
+    Promise.all([onGetLibrarySongs(), onGetAllTags(), onGetQualityVerdicts()])
+      .then(([songList, tagList, verdicts]) => {
         if (cancelled) return;
         setSongs(songList);
         setTags(tagList);
+        setQuality(verdicts);
         setLoading(false);
       })
       .catch(() => {
@@ -119,6 +161,20 @@ export function LibraryPanel({ onSongSelect, onSongDoubleClick, onSongDragStart,
     }
   }, [debouncedSearch, loading]);
 
+  // The folder watcher changed the library: reload what's showing
+  useEffect(() => onLibraryChange(change => {
+    const query = debouncedSearch.trim();
+    if (query) onSearchSongs(query, 500).then(setSongs).catch(console.error);
+    else onGetLibrarySongs().then(setSongs).catch(console.error);
+    onGetAllTags().then(setTags).catch(console.error);
+    // Touched files get their tags loaded again
+    setSongTagsMap(prev => {
+      const next = new Map(prev);
+      for (const filePath of changedPaths(change)) next.delete(filePath);
+      return next;
+    });
+  }), [debouncedSearch]);
+
   // Compute compatible Camelot keys based on canvas selection
   const compatibleKeys = useMemo(() => {
     if (!selectedCanvasKey || !compatibleFilterActive) return null;
@@ -146,6 +202,10 @@ export function LibraryPanel({ onSongSelect, onSongDoubleClick, onSongDragStart,
       });
     }
 
+    if (qualityFilter) {
+      result = result.filter(song => matchesQualityFilter(quality[song.filePath], qualityFilter));
+    }
+
     // Harmonic compatibility filter
     if (compatibleKeys) {
       result = result.filter(song => {
@@ -155,7 +215,27 @@ export function LibraryPanel({ onSongSelect, onSongDoubleClick, onSongDragStart,
     }
 
     return result;
-  }, [songs, phaseFilter, genreFilter, moodFilter, songTagsMap, compatibleKeys]);
+  }, [songs, phaseFilter, genreFilter, moodFilter, qualityFilter, quality, songTagsMap, compatibleKeys]);
+
+  const unauditedCount = useMemo(() => songs.filter(s => !quality[s.filePath]).length, [songs, quality]);
+
+  // Audit in batches: every song is a full decode on the server
+  const handleAuditQuality = useCallback(async () => {
+    setAuditing(true);
+    try {
+      let progress = await onAuditQualityBatch();
+      while (progress.audited < progress.total) {
+        const before = progress.audited;
+        progress = await onAuditQualityBatch();
+        if (progress.audited === before) break;
+      }
+    } catch (err) {
+      console.error('[LibraryPanel] Quality audit failed:', err);
+    } finally {
+      setAuditing(false);
+    }
+    onGetQualityVerdicts().then(setQuality).catch(console.error);
+  }, []);
 
   // Lazily load tags for songs when filters are active
   useEffect(() => {
@@ -345,6 +425,36 @@ export function LibraryPanel({ onSongSelect, onSongDoubleClick, onSongDragStart,
         </Box>
       )}
 
+      {/* Quality audit filter */}
+      <Box className="library-panel-filters" style={{ paddingTop: 2 }}>
+        <Group gap={4} wrap="nowrap">
+          <Select
+            size="xs"
+            placeholder="Quality: All"
+            data={QUALITY_FILTER_OPTIONS}
+            value={qualityFilter}
+            onChange={setQualityFilter}
+            clearable
+            comboboxProps={{ withinPortal: true }}
+            style={{ flex: 1 }}
+            data-testid="library-quality-filter"
+          />
+          {unauditedCount > 0 && (
+            <Tooltip label={`Audit quality of ${unauditedCount} song${unauditedCount !== 1 ? 's' : ''}`} position="top">
+              <ActionIcon
+                size="md"
+                variant="subtle"
+                onClick={handleAuditQuality}
+                disabled={auditing}
+                data-testid="library-audit-quality"
+              >
+                {auditing ? <Loader size={12} /> : <IconShieldCheck size={14} />}
+              </ActionIcon>
+            </Tooltip>
+          )}
+        </Group>
+      </Box>
+
       {/* Harmonic compatibility filter */}
       {selectedCanvasKey && (
         <Box className="library-panel-filters" style={{ paddingTop: 2, paddingBottom: 4 }}>
@@ -457,6 +567,31 @@ export function LibraryPanel({ onSongSelect, onSongDoubleClick, onSongDragStart,
                       {formatDuration(song.duration)}
                     </Text>
                   )}
+                  {!!song.playCount && (
+                    <Tooltip label={playStatsLabel(song)} position="top" withinPortal>
+                      <Text size="xs" c="dimmed" data-testid="song-play-count" style={{ flexShrink: 0, fontSize: 10 }}>
+                        {song.playCount}×
+                      </Text>
+                    </Tooltip>
+                  )}
+                  {quality[song.filePath] && quality[song.filePath].verdict !== 'ok' && (
+                    <Tooltip
+                      label={quality[song.filePath].issues.map(i => i.message).join(' · ')}
+                      multiline
+                      maw={260}
+                      withinPortal
+                    >
+                      <Badge
+                        size="xs"
+                        variant="light"
+                        color={quality[song.filePath].verdict === 'bad' ? 'red' : 'yellow'}
+                        data-testid="song-quality-badge"
+                        style={{ flexShrink: 0, fontSize: 9, padding: '0 4px', height: 16 }}
+                      >
+                        {quality[song.filePath].issues.some(i => i.kind === 'transcode') ? 'FAKE' : 'QC'}
+                      </Badge>
+                    </Tooltip>
+                  )}
                 </Group>
               </div>
 
@@ -0,0 +1,108 @@
+import { Stack, Group, Text, ActionIcon, Button, Tooltip, Divider, UnstyledButton } from '@mantine/core';
+import { IconArrowUp, IconArrowDown, IconX, IconPlayerPlay, IconVolume } from '@tabler/icons-react';
+import type { AudioQueueState, AudioQueueActions } from '../../hooks/useAudioQueue';
+import type { MP3Metadata } from '../../lib/mp3-metadata';
+
+interface QueuePanelProps {
+  audioQueue: AudioQueueState & AudioQueueActions;
+}
+
+/** Most recent played tracks listed; the queue itself keeps more for "previous" */
+const HISTORY_SHOWN = 20;
+
+function TrackLabel({ track, dimmed }: { track: MP3Metadata; dimmed?: boolean }) {
+  return (
+    <Text size="xs" truncate="end" c={dimmed ? 'dimmed' : undefined} style={{ minWidth: 0, flex: 1 }}>
+      {track.title || track.filePath.split(/[\\/]/).pop()}
+      {track.artist && <Text span size="xs" c="dimmed"> – {track.artist}</Text>}
+    </Text>
+  );
+}
+
+export function QueuePanel({ audioQueue }: QueuePanelProps) {
+  const { currentTrack, upcoming, history } = audioQueue;
+  const recent = history.slice(-HISTORY_SHOWN).reverse();
+
+  return (
+    <Stack gap="sm" p="xs" data-testid="queue-panel">
+      <div>
+        <Text size="xs" fw={700} tt="uppercase" c="dimmed" mb={4}>Now playing</Text>
+        {currentTrack ? (
+          <Group gap={6} wrap="nowrap">
+            <IconVolume size={14} color="var(--mantine-color-violet-5)" />
+            <TrackLabel track={currentTrack} />
+          </Group>
+        ) : (
+          <Text size="xs" c="dimmed">Nothing</Text>
+        )}
+      </div>
+
+      <div>
+        <Group justify="space-between" mb={4}>
+          <Text size="xs" fw={700} tt="uppercase" c="dimmed">Up next ({upcoming.length})</Text>
+          {upcoming.length > 0 && (
+            <Button size="compact-xs" variant="subtle" color="red" onClick={audioQueue.clearQueue}>
+              Clear
+            </Button>
+          )}
+        </Group>
+        {upcoming.length === 0 ? (
+          <Text size="xs" c="dimmed">
+            Queue songs from a phase column, a moodboard selection or a playlist.
+          </Text>
+        ) : (
+          <Stack gap={2}>
+            {upcoming.map((track, i) => (
+              <Group key={track.filePath} gap={4} wrap="nowrap" data-testid="queue-item">
+                <Text size="xs" c="dimmed" w={20} ta="right">{i + 1}.</Text>
+                <TrackLabel track={track} />
+                <Tooltip label="Play now">
+                  <ActionIcon size="xs" variant="subtle" onClick={() => audioQueue.playTrack(track)} aria-label="Play now">
+                    <IconPlayerPlay size={12} />
+                  </ActionIcon>
+                </Tooltip>
+                <ActionIcon
+                  size="xs"
+                  variant="subtle"
+                  disabled={i === 0}
+                  onClick={() => audioQueue.moveInQueue(i, i - 1)}
+                  aria-label="Move up"
+                >
+                  <IconArrowUp size={12} />
+                </ActionIcon>
+                <ActionIcon
+                  size="xs"
+                  variant="subtle"
+                  disabled={i === upcoming.length - 1}
+                  onClick={() => audioQueue.moveInQueue(i, i + 1)}
+                  aria-label="Move down"
+                >
+                  <IconArrowDown size={12} />
+                </ActionIcon>
+                <ActionIcon size="xs" variant="subtle" color="red" onClick={() => audioQueue.removeFromQueue(i)} aria-label="Remove from queue">
+                  <IconX size={12} />
+                </ActionIcon>
+              </Group>
+            ))}
+          </Stack>
+        )}
+      </div>
+
+      {recent.length > 0 && (
+        <>
+          <Divider />
+          <div>
+            <Text size="xs" fw={700} tt="uppercase" c="dimmed" mb={4}>Played</Text>
+            <Stack gap={2}>
+              {recent.map((track, i) => (
+                <UnstyledButton key={`${track.filePath}-${i}`} onClick={() => audioQueue.playTrack(track)}>
+                  <TrackLabel track={track} dimmed />
+                </UnstyledButton>
+              ))}
+            </Stack>
+          </div>
+        </>
+      )}
+    </Stack>
+  );
+}
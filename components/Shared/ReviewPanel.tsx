@@ -7,7 +7,7 @@ import {
 import {
   IconCheck, IconX, IconRefresh, IconUpload, IconDownload,
   IconArrowRight, IconFileMusic, IconAlertCircle, IconHistory,
-  IconVinyl,
+  IconVinyl, IconDisc, IconDeviceSpeaker,
 } from '@tabler/icons-react';
 import {
   onPreviewExport,
@@ -20,8 +20,16 @@ import {
   onGetTagEditHistory,
   onPreviewVDJExport,
   onApplyVDJExport,
+  onPreviewVDJDatabaseExport,
+  onPreviewVDJDatabaseImport,
+  onPreviewRekordboxImport,
+  onApplyRekordboxImport,
+  onPreviewTraktorImport,
+  onApplyTraktorImport,
+  onExportTraktorNml,
 } from '../TagSync.telefunc';
-import type { PendingTagEdit, TagEditHistory } from '../../lib/types';
+import { LibraryImportTab } from './LibraryImportTab';
+import { ANALYSIS_TAG_FIELDS, type PendingTagEdit, type TagEditHistory } from '../../lib/types';
 import type { FileDiffSummary, TagDiff } from '../../lib/tag-sync-engine';
 import './ReviewPanel.css';
 
@@ -42,7 +50,8 @@ function groupEditsByFile(edits: PendingTagEdit[]): Map<string, PendingTagEdit[]
 }
 
 function formatFieldName(name: string): string {
-  return name.startsWith('µ:') ? name : `µ:${name}`;
+  if ((ANALYSIS_TAG_FIELDS as readonly string[]).includes(name)) return name;
+  return name.startsWith('µ:') || name.startsWith('vdj:') ? name : `µ:${name}`;
 }
 
 function truncateValue(value: string, max = 50): string {
@@ -197,6 +206,12 @@ export function ReviewPanel({ onClose: _onClose, onChangesApplied }: ReviewPanel
     preserveExistingComment: true,
   });
 
+  const [traktorExporting, setTraktorExporting] = useState(false);
+
+  // VDJ database.xml state
+  const [vdjDbScanning, setVdjDbScanning] = useState(false);
+  const [vdjDbMessage, setVdjDbMessage] = useState<string | null>(null);
+
   const loadPending = useCallback(async () => {
     setLoading(true);
     try {
@@ -281,6 +296,47 @@ export function ReviewPanel({ onClose: _onClose, onChangesApplied }: ReviewPanel
     if (ids.length > 0) handleReject(ids, direction);
   }, [exportEdits, importEdits, handleReject]);
 
+  const handleTraktorExport = useCallback(async () => {
+    setTraktorExporting(true);
+    setError(null);
+    try {
+      const result = await onExportTraktorNml();
+      const blob = new Blob([result.content], { type: 'application/xml' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = result.filename;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Traktor export failed');
+    } finally {
+      setTraktorExporting(false);
+    }
+  }, []);
+
+  const handleVDJDatabasePreview = useCallback(async (direction: 'export' | 'import') => {
+    setVdjDbScanning(true);
+    setError(null);
+    setVdjDbMessage(null);
+    try {
+      if (direction === 'export') {
+        const result = await onPreviewVDJDatabaseExport();
+        setVdjDbMessage(`${result.editCount} database.xml change(s) queued for review`
+          + (result.missing > 0 ? `; ${result.missing} tagged song(s) are not in VirtualDJ's database yet` : ''));
+      } else {
+        const result = await onPreviewVDJDatabaseImport();
+        setVdjDbMessage(`${result.editCount} cue point / play count update(s) queued for review`);
+      }
+      await loadPending();
+      setActiveTab(direction);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'VirtualDJ database scan failed');
+    } finally {
+      setVdjDbScanning(false);
+    }
+  }, [loadPending]);
+
   // VDJ Export handlers
   const handleVDJScan = useCallback(async () => {
     setVdjScanning(true);
@@ -454,6 +510,12 @@ export function ReviewPanel({ onClose: _onClose, onChangesApplied }: ReviewPanel
               <Badge size="xs" ml="xs" variant="filled" color="orange">{vdjDiffs.length}</Badge>
             )}
           </Tabs.Tab>
+          <Tabs.Tab value="rekordbox" leftSection={<IconDisc size={14} />} data-testid="rekordbox-import-tab">
+            Rekordbox
+          </Tabs.Tab>
+          <Tabs.Tab value="traktor" leftSection={<IconDeviceSpeaker size={14} />} data-testid="traktor-tab">
+            Traktor
+          </Tabs.Tab>
         </Tabs.List>
 
         <Tabs.Panel value="export" pt="sm">
@@ -536,6 +598,43 @@ export function ReviewPanel({ onClose: _onClose, onChangesApplied }: ReviewPanel
               </Stack>
             </Card>
 
+            {/* database.xml */}
+            <Card padding="xs" withBorder className="review-diff-card">
+              <Stack gap={6}>
+                <Text size="xs" fw={600}>VirtualDJ database.xml</Text>
+                <Text size="xs" c="dimmed">
+                  Queue Genre, Comment, User1 (phases), User2 (moods) and Grouping for the
+                  database set in Settings, or pull cue points and play counts back. A backup is
+                  taken before every write.
+                </Text>
+                <Group gap="xs">
+                  <Button
+                    size="xs"
+                    variant="light"
+                    color="orange"
+                    leftSection={<IconUpload size={14} />}
+                    onClick={() => handleVDJDatabasePreview('export')}
+                    loading={vdjDbScanning}
+                    data-testid="vdj-db-export-btn"
+                  >
+                    Preview database export
+                  </Button>
+                  <Button
+                    size="xs"
+                    variant="light"
+                    color="cyan"
+                    leftSection={<IconDownload size={14} />}
+                    onClick={() => handleVDJDatabasePreview('import')}
+                    loading={vdjDbScanning}
+                    data-testid="vdj-db-import-btn"
+                  >
+                    Preview cues &amp; play counts
+                  </Button>
+                </Group>
+                {vdjDbMessage && <Text size="xs" c="dimmed">{vdjDbMessage}</Text>}
+              </Stack>
+            </Card>
+
             {/* Scan button */}
             <Group justify="flex-end">
               <Button
@@ -623,6 +722,44 @@ export function ReviewPanel({ onClose: _onClose, onChangesApplied }: ReviewPanel
             )}
           </Stack>
         </Tabs.Panel>
+
+        <Tabs.Panel value="rekordbox" pt="sm">
+          <LibraryImportTab
+            sourceName="Rekordbox"
+            accept=".xml"
+            onPreview={onPreviewRekordboxImport}
+            onApply={onApplyRekordboxImport}
+            onChangesApplied={onChangesApplied}
+            testId="rekordbox-import-panel"
+          />
+        </Tabs.Panel>
+
+        <Tabs.Panel value="traktor" pt="sm">
+          <Stack gap="sm">
+            <Group justify="space-between">
+              <Text size="xs" c="dimmed">Saved playlists → Traktor NML collection</Text>
+              <Button
+                size="xs"
+                variant="light"
+                leftSection={<IconDownload size={14} />}
+                onClick={handleTraktorExport}
+                loading={traktorExporting}
+                data-testid="traktor-export-btn"
+              >
+                Export NML
+              </Button>
+            </Group>
+            <Divider />
+            <LibraryImportTab
+              sourceName="Traktor"
+              accept=".nml"
+              onPreview={onPreviewTraktorImport}
+              onApply={onApplyTraktorImport}
+              onChangesApplied={onChangesApplied}
+              testId="traktor-import-panel"
+            />
+          </Stack>
+        </Tabs.Panel>
       </Tabs>
 
       {/* History Section */}
@@ -1,13 +1,21 @@
 import { useState, useEffect, useCallback } from 'react';
 import {
   Stack, Group, TextInput, Button, Switch,
-  Divider, Text, Badge, Loader, Alert,
+  Divider, Text, Badge, Loader, Alert, SegmentedControl, Tooltip,
 } from '@mantine/core';
 import {
   IconFolderOpen, IconRefresh,
 } from '@tabler/icons-react';
 
-import { onGetKeepPlayHead, onSetKeepPlayHead } from '../Settings.telefunc';
+import {
+  onGetKeepPlayHead, onSetKeepPlayHead,
+  onGetTraktorTagField, onSetTraktorTagField,
+  onGetVdjDatabaseSettings, onSetVdjDatabasePath, onSetVdjDatabaseOnly,
+  onGetMediaShortcuts, onSetMediaShortcuts,
+} from '../Settings.telefunc';
+import type { TraktorTagField } from '../../lib/traktor-nml';
+import { MEDIA_SHORTCUT_ACTIONS, DEFAULT_MEDIA_SHORTCUTS, type MediaShortcuts } from '../../lib/player-controls';
+import { applyMediaShortcuts } from '../../hooks/useTauriIntegration';
 import { onGetBaseFolder, onSetBaseFolder, onScanLibrary } from '../Moodboard/MoodboardPage.telefunc';
 import { showSuccess, showError } from '../../lib/notifications';
 import './SettingsDrawer.css';
@@ -34,6 +42,7 @@ interface ScanResult {
   totalFiles: number;
   newFiles: number;
   updatedFiles: number;
+  unchangedFiles: number;
   removedFiles: number;
 }
 
@@ -44,12 +53,18 @@ export function SettingsDrawer({ onClose: _onClose, onScanComplete }: SettingsDr
   const [folderEditing, setFolderEditing] = useState(false);
 
   // Scan
-  const [scanning, setScanning] = useState(false);
+  const [scanning, setScanning] = useState<'quick' | 'deep' | null>(null);
   const [scanResult, setScanResult] = useState<ScanResult | null>(null);
   const [scanError, setScanError] = useState<string | null>(null);
 
   // Playback
   const [keepPlayHead, setKeepPlayHead] = useState(false);
+  const [mediaShortcuts, setMediaShortcuts] = useState<MediaShortcuts>(DEFAULT_MEDIA_SHORTCUTS);
+
+  // DJ software
+  const [traktorTagField, setTraktorTagField] = useState<TraktorTagField>('COMMENT2');
+  const [vdjDatabasePath, setVdjDatabasePath] = useState('');
+  const [vdjDatabaseOnly, setVdjDatabaseOnly] = useState(true);
 
   // General
   const [loading, setLoading] = useState(true);
@@ -59,11 +74,18 @@ export function SettingsDrawer({ onClose: _onClose, onScanComplete }: SettingsDr
     Promise.all([
       onGetBaseFolder(),
       onGetKeepPlayHead(),
+      onGetTraktorTagField(),
+      onGetVdjDatabaseSettings(),
+      onGetMediaShortcuts(),
     ])
-      .then(([folder, kph]) => {
+      .then(([folder, kph, ttf, vdj, shortcuts]) => {
         setBaseFolder(folder);
         setFolderInput(folder ?? '');
         setKeepPlayHead(kph);
+        setTraktorTagField(ttf);
+        setVdjDatabasePath(vdj.path ?? '');
+        setVdjDatabaseOnly(vdj.databaseOnly);
+        setMediaShortcuts(shortcuts);
       })
       .catch(console.error)
       .finally(() => setLoading(false));
@@ -89,16 +111,17 @@ export function SettingsDrawer({ onClose: _onClose, onScanComplete }: SettingsDr
   }, []);
 
   // ---- Scan ----
-  const handleScan = async () => {
-    setScanning(true);
+  const handleScan = async (deep: boolean) => {
+    setScanning(deep ? 'deep' : 'quick');
     setScanError(null);
     setScanResult(null);
     try {
-      const result = await onScanLibrary();
+      const result = await onScanLibrary({ deep });
       setScanResult({
         totalFiles: result.totalFiles,
         newFiles: result.newFiles,
         updatedFiles: result.updatedFiles,
+        unchangedFiles: result.unchangedFiles,
         removedFiles: result.removedFiles,
       });
       showSuccess({
@@ -111,7 +134,7 @@ export function SettingsDrawer({ onClose: _onClose, onScanComplete }: SettingsDr
       setScanError(msg);
       showError({ title: 'Scan Failed', message: msg });
     } finally {
-      setScanning(false);
+      setScanning(null);
     }
   };
 
@@ -121,6 +144,35 @@ export function SettingsDrawer({ onClose: _onClose, onScanComplete }: SettingsDr
     try { await onSetKeepPlayHead(checked); } catch (err) { console.error(err); }
   };
 
+  const handleMediaShortcutsSave = async () => {
+    try {
+      const saved = await onSetMediaShortcuts(mediaShortcuts);
+      setMediaShortcuts(saved);
+      const failed = await applyMediaShortcuts(saved);
+      if (failed.length > 0) {
+        showError({ title: 'Shortcut Unavailable', message: `Already in use or not recognised: ${failed.join(', ')}` });
+      }
+    } catch (err) {
+      showError({ message: err instanceof Error ? err.message : 'Could not save shortcuts' });
+    }
+  };
+
+  // ---- DJ software ----
+  const handleTraktorTagFieldChange = async (value: string) => {
+    const field: TraktorTagField = value === 'LABEL' ? 'LABEL' : 'COMMENT2';
+    setTraktorTagField(field);
+    try { await onSetTraktorTagField(field); } catch (err) { console.error(err); }
+  };
+
+  const handleVdjDatabasePathSave = async () => {
+    try { await onSetVdjDatabasePath(vdjDatabasePath); } catch (err) { console.error(err); }
+  };
+
+  const handleVdjDatabaseOnlyChange = async (checked: boolean) => {
+    setVdjDatabaseOnly(checked);
+    try { await onSetVdjDatabaseOnly(checked); } catch (err) { console.error(err); }
+  };
+
   if (loading) {
     return (
       <Stack align="center" justify="center" py="xl">
@@ -178,14 +230,27 @@ export function SettingsDrawer({ onClose: _onClose, onScanComplete }: SettingsDr
                 size="xs"
                 variant="filled"
                 color="violet"
-                leftSection={scanning ? <Loader size={14} color="white" /> : <IconRefresh size={14} />}
-                onClick={handleScan}
-                disabled={!baseFolder || scanning}
-                loading={scanning}
+                leftSection={scanning === 'quick' ? <Loader size={14} color="white" /> : <IconRefresh size={14} />}
+                onClick={() => handleScan(false)}
+                disabled={!baseFolder || scanning !== null}
+                loading={scanning === 'quick'}
                 data-testid="settings-scan-library"
               >
                 Scan Library
               </Button>
+              <Tooltip label="Re-read tags from every file, not just new and changed ones" withinPortal>
+                <Button
+                  size="xs"
+                  variant="subtle"
+                  color="violet"
+                  onClick={() => handleScan(true)}
+                  disabled={!baseFolder || scanning !== null}
+                  loading={scanning === 'deep'}
+                  data-testid="settings-deep-scan"
+                >
+                  Deep scan
+                </Button>
+              </Tooltip>
             </Group>
           </>
         )}
@@ -197,6 +262,7 @@ export function SettingsDrawer({ onClose: _onClose, onScanComplete }: SettingsDr
             <Badge size="sm" color="teal" variant="light">{scanResult.totalFiles} songs</Badge>
             {scanResult.newFiles > 0 && <Badge size="sm" color="green" variant="light">{scanResult.newFiles} new</Badge>}
             {scanResult.updatedFiles > 0 && <Badge size="sm" color="yellow" variant="light">{scanResult.updatedFiles} updated</Badge>}
+            {scanResult.unchangedFiles > 0 && <Badge size="sm" color="gray" variant="light">{scanResult.unchangedFiles} unchanged</Badge>}
             {scanResult.removedFiles > 0 && <Badge size="sm" color="red" variant="light">{scanResult.removedFiles} removed</Badge>}
           </Group>
         )}
@@ -213,6 +279,62 @@ export function SettingsDrawer({ onClose: _onClose, onScanComplete }: SettingsDr
           onChange={e => handleKeepPlayHeadChange(e.currentTarget.checked)}
           size="sm"
         />
+        <Text size="sm" mt="xs">Global shortcuts</Text>
+        {MEDIA_SHORTCUT_ACTIONS.map(({ action, label }) => (
+          <TextInput
+            key={action}
+            size="xs"
+            label={label}
+            placeholder="Not bound"
+            value={mediaShortcuts[action]}
+            onChange={e => {
+              const value = e.currentTarget.value;
+              setMediaShortcuts(prev => ({ ...prev, [action]: value }));
+            }}
+            onBlur={handleMediaShortcutsSave}
+            onKeyDown={e => e.key === 'Enter' && handleMediaShortcutsSave()}
+            data-testid={`media-shortcut-${action}`}
+          />
+        ))}
+        <Text size="xs" c="dimmed">
+          Desktop app only, active while other apps have focus. Use keys like CommandOrControl+Alt+Right,
+          or MediaPlayPause, MediaTrackNext and MediaTrackPrevious. Leave empty to unbind.
+        </Text>
+      </Stack>
+
+      {/* ── DJ Software ── */}
+      <Stack gap="xs">
+        <Text className="section-title" c="dimmed">DJ Software</Text>
+        <Divider />
+        <Text size="sm">Traktor field for phases &amp; moods</Text>
+        <SegmentedControl
+          size="xs"
+          value={traktorTagField}
+          onChange={handleTraktorTagFieldChange}
+          data={[
+            { label: 'Comment 2', value: 'COMMENT2' },
+            { label: 'Label', value: 'LABEL' },
+          ]}
+          data-testid="traktor-tag-field"
+        />
+        <Text size="xs" c="dimmed">Used for Traktor NML export and import</Text>
+        <TextInput
+          size="xs"
+          label="VirtualDJ database.xml"
+          placeholder="/path/to/VirtualDJ/database.xml"
+          value={vdjDatabasePath}
+          onChange={e => setVdjDatabasePath(e.currentTarget.value)}
+          onBlur={handleVdjDatabasePathSave}
+          onKeyDown={e => e.key === 'Enter' && handleVdjDatabasePathSave()}
+          data-testid="vdj-database-path"
+        />
+        <Switch
+          label="Database only"
+          description="Write VirtualDJ fields to database.xml and leave audio files untouched"
+          checked={vdjDatabaseOnly}
+          onChange={e => handleVdjDatabaseOnlyChange(e.currentTarget.checked)}
+          size="sm"
+        />
       </Stack>
 
       {/* ── About ── */}
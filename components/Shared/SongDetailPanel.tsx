@@ -1,19 +1,26 @@
 import { useState, useEffect, useCallback } from 'react';
 import {
   Stack, Text, Image, Badge, Button, TextInput, Group, Divider,
-  Skeleton, ScrollArea, ActionIcon, Tooltip, Box, Progress, Loader,
+  Skeleton, ScrollArea, ActionIcon, Tooltip, Box, Progress, Loader, Select,
 } from '@mantine/core';
 import {
   IconPlayerPlay, IconX, IconPlus, IconLink, IconMusic,
-  IconArrowRight, IconArrowLeft, IconSearch, IconSparkles,
+  IconArrowRight, IconArrowLeft, IconSearch, IconSparkles, IconWaveSine,
 } from '@tabler/icons-react';
 import {
   onGetSongMetadata, onGetSongTags, onGetSongConnections,
   onAddSongTag, onRemoveSongTag, onFindSimilarSongs,
   onGetTagSuggestions,
 } from '../Moodboard/MoodboardPage.telefunc';
+import {
+  onDetectBpm, onDetectKey, onEstimateEnergy, onSetEnergyOverride, onMeasureLoudness, onDetectMixPoints,
+} from '../Analysis.telefunc';
+import type { AnalysisSource, EnergySource } from '../../lib/types';
+import type { MixPoints } from '../../lib/mix-points';
+import { formatTime } from '../../lib/format-utils';
 import { getCamelotColor } from '../../lib/camelot';
-import { showSuccess } from '../../lib/notifications';
+import { formatLastPlayed } from '../../lib/play-history';
+import { showSuccess, showError, showWarning } from '../../lib/notifications';
 
 import './SongDetailPanel.css';
 
@@ -34,9 +41,20 @@ interface SongMeta {
   artworkDataUrl: string | null;
   key?: string;
   camelotKey?: string;
+  keySource?: AnalysisSource;
+  keyConfidence?: number;
   bpm?: number;
+  bpmSource?: AnalysisSource;
+  bpmConfidence?: number;
   energyLevel?: number;
+  energySource?: EnergySource;
   label?: string;
+  integratedLufs?: number;
+  truePeakDb?: number;
+  mixPoints?: MixPoints;
+  playCount: number;
+  skipCount: number;
+  lastPlayed: string | null;
 }
 
 interface TagInfo {
@@ -83,7 +101,41 @@ function formatDuration(seconds: number): string {
 }
 
 function fileName(filePath: string): string {
-  return filePath.split('/').pop()?.replace(/\.mp3$/i, '') ?? filePath;
+  return filePath.split('/').pop()?.replace(/\.(mp3|flac|m4a)$/i, '') ?? filePath;
+}
+
+const ENERGY_OVERRIDE_OPTIONS = [
+  { value: 'auto', label: 'Auto' },
+  ...Array.from({ length: 10 }, (_, i) => ({ value: String(i + 1), label: String(i + 1) })),
+];
+
+/** "tagged" for values read from the file, "detected · 82%" for audio-analysis estimates */
+function SourceBadge({ source, confidence }: { source?: AnalysisSource | EnergySource; confidence?: number }) {
+  if (!source) return null;
+  if (source === 'tag') return <Badge size="xs" variant="outline" color="gray">tagged</Badge>;
+  if (source === 'manual') return <Badge size="xs" variant="light" color="violet">manual</Badge>;
+  return (
+    <Tooltip label="Estimated from the audio">
+      <Badge size="xs" variant="light" color="gray">
+        detected{confidence != null && ` · ${Math.round(confidence * 100)}%`}
+      </Badge>
+    </Tooltip>
+  );
+}
+
+function DetectButton({ label, loading, onClick }: { label: string; loading: boolean; onClick: () => void }) {
+  return (
+    <Button
+      size="compact-xs"
+      variant="subtle"
+      color="violet"
+      leftSection={loading ? <Loader size={10} /> : <IconWaveSine size={12} />}
+      onClick={onClick}
+      disabled={loading}
+    >
+      {label}
+    </Button>
+  );
 }
 
 export function SongDetailPanel({ filePath, onSongSelect, onPlay, onTagsChanged }: SongDetailPanelProps) {
@@ -101,6 +153,11 @@ export function SongDetailPanel({ filePath, onSongSelect, onPlay, onTagsChanged
   // AI suggestion state
   const [suggestions, setSuggestions] = useState<{ genres: string[]; moods: string[]; phases: string[] } | null>(null);
   const [suggestingTags, setSuggestingTags] = useState(false);
+  const [detectingBpm, setDetectingBpm] = useState(false);
+  const [detectingKey, setDetectingKey] = useState(false);
+  const [estimatingEnergy, setEstimatingEnergy] = useState(false);
+  const [measuringLoudness, setMeasuringLoudness] = useState(false);
+  const [detectingMixPoints, setDetectingMixPoints] = useState(false);
   const loadData = useCallback(async (path: string) => {
     setLoading(true);
     setMetadata(null);
@@ -185,6 +242,136 @@ export function SongDetailPanel({ filePath, onSongSelect, onPlay, onTagsChanged
     });
   }, [filePath, refreshTags]);
 
+  const handleDetectBpm = useCallback(async () => {
+    if (!filePath) return;
+    setDetectingBpm(true);
+    try {
+      const result = await onDetectBpm(filePath);
+      if (!result) {
+        showWarning({ message: 'No steady tempo found in this track' });
+        return;
+      }
+      if (result.stored) {
+        setMetadata(prev => prev && prev.filePath === result.filePath
+          ? { ...prev, bpm: result.bpm, bpmSource: 'detected', bpmConfidence: result.confidence }
+          : prev);
+        if (result.pendingEditId != null) {
+          showSuccess({ message: `Detected ${result.bpm} BPM — TBPM write-back queued for review` });
+        } else {
+          const alternatives = result.alternatives.length > 0 ? ` (or ${result.alternatives.join(' / ')})` : '';
+          showWarning({ message: `Detected ${result.bpm} BPM${alternatives} — too uncertain to write to the tag` });
+        }
+      } else {
+        showSuccess({ message: `Detected ${result.bpm} BPM (tag kept)` });
+      }
+    } catch (e) {
+      showError({ message: e instanceof Error ? e.message : 'BPM detection failed' });
+    } finally {
+      setDetectingBpm(false);
+    }
+  }, [filePath]);
+
+  const handleDetectKey = useCallback(async () => {
+    if (!filePath) return;
+    setDetectingKey(true);
+    try {
+      const result = await onDetectKey(filePath);
+      if (!result) {
+        showWarning({ message: 'No clear key found in this track' });
+        return;
+      }
+      if (result.stored) {
+        setMetadata(prev => prev && prev.filePath === result.filePath
+          ? { ...prev, key: result.key, camelotKey: result.camelotKey, keySource: 'detected', keyConfidence: result.confidence }
+          : prev);
+        showSuccess({ message: `Detected ${result.camelotKey} (${result.key}) — TKEY write-back queued for review` });
+      } else {
+        showSuccess({ message: `Detected ${result.camelotKey} (${result.key}) (tag kept)` });
+      }
+    } catch (e) {
+      showError({ message: e instanceof Error ? e.message : 'Key detection failed' });
+    } finally {
+      setDetectingKey(false);
+    }
+  }, [filePath]);
+
+  const handleEstimateEnergy = useCallback(async () => {
+    if (!filePath) return;
+    setEstimatingEnergy(true);
+    try {
+      const result = await onEstimateEnergy(filePath);
+      setMetadata(prev => prev && prev.filePath === result.filePath
+        ? { ...prev, energyLevel: result.energyLevel, energySource: result.energySource }
+        : prev);
+      const calibrated = result.calibration.sampleCount > 0
+        ? `calibrated on ${result.calibration.sampleCount} MIK-tagged songs`
+        : 'not yet calibrated against MIK-tagged songs';
+      showSuccess({ message: `Estimated energy ${result.estimate} (${calibrated})` });
+    } catch (e) {
+      showError({ message: e instanceof Error ? e.message : 'Energy estimation failed' });
+    } finally {
+      setEstimatingEnergy(false);
+    }
+  }, [filePath]);
+
+  const handleEnergyOverride = useCallback(async (value: string | null) => {
+    if (!filePath || !value) return;
+    try {
+      const result = await onSetEnergyOverride(filePath, value === 'auto' ? null : Number(value));
+      setMetadata(prev => prev && prev.filePath === filePath
+        ? { ...prev, energyLevel: result.energyLevel ?? undefined, energySource: result.energySource ?? undefined }
+        : prev);
+    } catch (e) {
+      showError({ message: e instanceof Error ? e.message : 'Failed to set energy' });
+    }
+  }, [filePath]);
+
+  const handleMeasureLoudness = useCallback(async () => {
+    if (!filePath) return;
+    setMeasuringLoudness(true);
+    try {
+      const result = await onMeasureLoudness(filePath);
+      if (!result) {
+        showWarning({ message: 'Track is too short or silent to measure' });
+        return;
+      }
+      setMetadata(prev => prev && prev.filePath === result.filePath
+        ? { ...prev, integratedLufs: result.integratedLufs, truePeakDb: result.truePeakDb }
+        : prev);
+      showSuccess({
+        message: result.pendingEditId != null
+          ? `${result.integratedLufs} LUFS — ReplayGain ${result.replayGainDb} dB queued for review`
+          : `${result.integratedLufs} LUFS (ReplayGain tag already matches)`,
+      });
+    } catch (e) {
+      showError({ message: e instanceof Error ? e.message : 'Loudness measurement failed' });
+    } finally {
+      setMeasuringLoudness(false);
+    }
+  }, [filePath]);
+
+  const handleDetectMixPoints = useCallback(async () => {
+    if (!filePath) return;
+    setDetectingMixPoints(true);
+    try {
+      const points = await onDetectMixPoints(filePath);
+      if (!points) {
+        showWarning({ message: 'Track is silent — no mix points found' });
+        return;
+      }
+      setMetadata(prev => prev && prev.filePath === filePath ? { ...prev, mixPoints: points } : prev);
+      showSuccess({
+        message: points.introEnd != null && points.outroStart != null
+          ? `Mix in at ${formatTime(points.introEnd)}, out at ${formatTime(points.outroStart)}`
+          : 'No full-energy phrase found; only silence bounds saved',
+      });
+    } catch (e) {
+      showError({ message: e instanceof Error ? e.message : 'Mix point detection failed' });
+    } finally {
+      setDetectingMixPoints(false);
+    }
+  }, [filePath]);
+
   const handleFindMore = useCallback(async () => {
     if (!filePath) return;
     const newLimit = similarLimit + 5;
@@ -282,62 +469,126 @@ export function SongDetailPanel({ filePath, onSongSelect, onPlay, onTagsChanged
           </Button>
         )}
 
-        {/* Analysis Section (MIK) */}
-        {(metadata.key || metadata.camelotKey || metadata.bpm || metadata.energyLevel) && (
-          <>
-            <Divider label="Analysis" labelPosition="left" />
-            <Stack gap={8} data-testid="song-analysis-section">
-              {(metadata.key || metadata.camelotKey) && (
-                <Group gap="xs" data-testid="song-detail-key">
-                  <Text size="xs" c="dimmed" w={50}>Key</Text>
-                  {metadata.camelotKey && (
-                    <Badge
-                      data-testid="song-detail-key-badge"
-                      size="sm"
-                      variant="filled"
-                      style={{
-                        backgroundColor: getCamelotColor(metadata.camelotKey),
-                        color: '#fff',
-                        fontWeight: 700,
-                      }}
-                    >
-                      {metadata.camelotKey}
-                    </Badge>
-                  )}
-                  {metadata.key && (
-                    <Text size="xs" c="dimmed">({metadata.key})</Text>
-                  )}
-                </Group>
-              )}
-              {metadata.bpm && (
-                <Group gap="xs" data-testid="song-detail-bpm">
-                  <Text size="xs" c="dimmed" w={50}>BPM</Text>
-                  <Text size="sm" fw={600}>{Math.round(metadata.bpm)}</Text>
-                </Group>
-              )}
-              {metadata.energyLevel && (
-                <Group gap="xs" data-testid="song-detail-energy">
-                  <Text size="xs" c="dimmed" w={50}>Energy</Text>
-                  <Text size="sm" fw={700} style={{ color: `hsl(${(metadata.energyLevel / 10) * 120}, 80%, 50%)` }}>
-                    {metadata.energyLevel}
-                  </Text>
-                  <Progress
-                    value={metadata.energyLevel * 10}
-                    size="sm"
-                    style={{ flex: 1 }}
-                    color={`hsl(${(metadata.energyLevel / 10) * 120}, 80%, 50%)`}
-                  />
-                </Group>
+        {/* Analysis Section (MIK tags, or estimated from the audio) */}
+        <Divider label="Analysis" labelPosition="left" />
+        <Stack gap={8} data-testid="song-analysis-section">
+          {(metadata.key || metadata.camelotKey) ? (
+            <Group gap="xs" data-testid="song-detail-key">
+              <Text size="xs" c="dimmed" w={50}>Key</Text>
+              {metadata.camelotKey && (
+                <Badge
+                  data-testid="song-detail-key-badge"
+                  size="sm"
+                  variant="filled"
+                  style={{
+                    backgroundColor: getCamelotColor(metadata.camelotKey),
+                    color: '#fff',
+                    fontWeight: 700,
+                  }}
+                >
+                  {metadata.camelotKey}
+                </Badge>
               )}
-              {metadata.label && (
-                <Group gap="xs" data-testid="song-detail-label">
-                  <Text size="xs" c="dimmed" w={50}>Label</Text>
-                  <Text size="xs">{metadata.label}</Text>
-                </Group>
+              {metadata.key && (
+                <Text size="xs" c="dimmed">({metadata.key})</Text>
               )}
-            </Stack>
-          </>
-        )}
+              <SourceBadge source={metadata.keySource} confidence={metadata.keyConfidence} />
+            </Group>
+          ) : (
+            <Group gap="xs" data-testid="song-detail-key">
+              <Text size="xs" c="dimmed" w={50}>Key</Text>
+              <DetectButton label="Detect key" loading={detectingKey} onClick={handleDetectKey} />
+            </Group>
+          )}
+          {metadata.bpm ? (
+            <Group gap="xs" data-testid="song-detail-bpm">
+              <Text size="xs" c="dimmed" w={50}>BPM</Text>
+              <Text size="sm" fw={600}>{Math.round(metadata.bpm)}</Text>
+              <SourceBadge source={metadata.bpmSource} confidence={metadata.bpmConfidence} />
+            </Group>
+          ) : (
+            <Group gap="xs" data-testid="song-detail-bpm">
+              <Text size="xs" c="dimmed" w={50}>BPM</Text>
+              <DetectButton label="Detect BPM" loading={detectingBpm} onClick={handleDetectBpm} />
+            </Group>
+          )}
+          <Group gap="xs" data-testid="song-detail-energy">
+            <Text size="xs" c="dimmed" w={50}>Energy</Text>
+            {metadata.energyLevel ? (
+              <>
+                <Text size="sm" fw={700} style={{ color: `hsl(${(metadata.energyLevel / 10) * 120}, 80%, 50%)` }}>
+                  {metadata.energyLevel}
+                </Text>
+                <Progress
+                  value={metadata.energyLevel * 10}
+                  size="sm"
+                  style={{ flex: 1 }}
+                  color={`hsl(${(metadata.energyLevel / 10) * 120}, 80%, 50%)`}
+                />
+                <SourceBadge source={metadata.energySource} />
+              </>
+            ) : (
+              <Box style={{ flex: 1 }}>
+                <DetectButton label="Estimate energy" loading={estimatingEnergy} onClick={handleEstimateEnergy} />
+              </Box>
+            )}
+            <Tooltip label="Override energy for this song">
+              <Select
+                size="xs"
+                w={72}
+                data={ENERGY_OVERRIDE_OPTIONS}
+                value={metadata.energySource === 'manual' && metadata.energyLevel ? String(metadata.energyLevel) : 'auto'}
+                onChange={handleEnergyOverride}
+                allowDeselect={false}
+                data-testid="song-detail-energy-override"
+              />
+            </Tooltip>
+          </Group>
+          <Group gap="xs" data-testid="song-detail-loudness">
+            <Text size="xs" c="dimmed" w={50}>Loudness</Text>
+            {metadata.integratedLufs != null && (
+              <Tooltip label={`True peak ${metadata.truePeakDb?.toFixed(1)} dBTP`}>
+                <Text size="sm" fw={600}>{metadata.integratedLufs.toFixed(1)} LUFS</Text>
+              </Tooltip>
+            )}
+            <DetectButton
+              label={metadata.integratedLufs != null ? 'Write ReplayGain' : 'Measure loudness'}
+              loading={measuringLoudness}
+              onClick={handleMeasureLoudness}
+            />
+          </Group>
+          <Group gap="xs" data-testid="song-detail-mix-points">
+            <Text size="xs" c="dimmed" w={50}>Mix</Text>
+            {metadata.mixPoints?.introEnd != null && metadata.mixPoints.outroStart != null && (
+              <Tooltip
+                label={`Audio ${formatTime(metadata.mixPoints.audioStart)}–${formatTime(metadata.mixPoints.audioEnd)}`}
+              >
+                <Text size="sm" fw={600}>
+                  in {formatTime(metadata.mixPoints.introEnd)} · out {formatTime(metadata.mixPoints.outroStart)}
+                </Text>
+              </Tooltip>
+            )}
+            <DetectButton
+              label={metadata.mixPoints ? 'Re-detect mix points' : 'Detect mix points'}
+              loading={detectingMixPoints}
+              onClick={handleDetectMixPoints}
+            />
+          </Group>
+          <Group gap="xs" data-testid="song-detail-plays">
+            <Text size="xs" c="dimmed" w={50}>Plays</Text>
+            <Text size="sm" fw={600}>{metadata.playCount}</Text>
+            <Text size="xs" c="dimmed">
+              last {formatLastPlayed(metadata.lastPlayed)}
+              {metadata.skipCount > 0 && ` · skipped ${metadata.skipCount}×`}
+            </Text>
+          </Group>
+          {metadata.label && (
+            <Group gap="xs" data-testid="song-detail-label">
+              <Text size="xs" c="dimmed" w={50}>Label</Text>
+              <Text size="xs">{metadata.label}</Text>
+            </Group>
+          )}
+        </Stack>
 
         {/* Tags Section */}
         <Divider label={
@@ -1,4 +1,4 @@
-import { MP3MetadataManager, type MusickTagData, type MusickRelatedSong, MUSICK_TAG_PREFIX } from '../lib/mp3-metadata';
+import { MP3MetadataManager, type MusickTagData, type MusickRelatedSong, type VDJTagData, MUSICK_TAG_PREFIX } from '../lib/mp3-metadata';
 import { buildHashtagString, parseHashtags } from '../lib/mp3-parsing';
 import { categorizeHashtags, type CategorizedTags } from '../lib/hashtag-categorizer';
 import {
@@ -7,6 +7,10 @@ import {
   generateBulkExportDiff,
   generateBulkImportDiff,
   generateBulkVDJExportDiff,
+  buildVDJDatabaseFields,
+  mergeMusickTagEdits,
+  isAnalysisField,
+  writeAnalysisField,
   getMoodboardTagsForSong,
   getMoodboardRelatedSongs,
   type FileDiffSummary,
@@ -23,6 +27,7 @@ import {
   addTagHistory,
   fetchTagHistory,
   clearPendingTagEditsByDirection,
+  clearPendingTagEditsByFieldPrefix,
   type PendingTagEdit,
   type TagEditHistory,
 } from '../database/sqlite/queries/mp3-tag-edits';
@@ -32,16 +37,19 @@ import {
   clearSongTags,
   bulkSetSongTags,
   getAllTags,
+  getAllSongTags,
   type TagCategory,
 } from '../database/sqlite/queries/song-tags';
 import {
   getConnectionsForSong,
+  getConnectionBetween,
   addSongConnection,
   clearConnectionsForSong,
   type ConnectionType,
 } from '../database/sqlite/queries/song-connections';
 import {
   getMP3CacheByPath,
+  getMP3CacheIndex,
   searchMP3Cache,
 } from '../database/sqlite/queries/dj-sets';
 import {
@@ -52,8 +60,46 @@ import {
   getNodes,
 } from '../database/sqlite/queries/moodboard';
 import { resolveRelatedSong as resolveRelated } from '../lib/scan-engine';
+import { ANALYSIS_TAG_FIELDS } from '../lib/types';
 import { MP3Library } from '../lib/mp3-library';
-import { readBaseFolder } from '../database/sqlite/queries/library-settings';
+import {
+  readBaseFolder,
+  readTraktorTagField,
+  readVdjDatabasePath,
+  readVdjDatabaseOnly,
+} from '../database/sqlite/queries/library-settings';
+import {
+  getCuePointsForSong,
+  replaceCuePoints,
+  getPlayCount,
+  setPlayCount,
+} from '../database/sqlite/queries/song-cues';
+import {
+  createPlaylist,
+  getPlaylists,
+  getPlaylistItems,
+  setPlaylistItems,
+} from '../database/sqlite/queries/playlists';
+import { parseRekordboxXml, rekordboxColourToPhase } from '../lib/rekordbox-xml';
+import { buildTraktorNml, parseTraktorNml, traktorTagText, type TraktorTrack } from '../lib/traktor-nml';
+import {
+  VDJ_DATABASE_FIELDS,
+  VDJ_FIELD_PREFIX,
+  normalizeVdjPath,
+  parseVdjDatabase,
+  updateVdjDatabase,
+  readVdjDatabase,
+  backupVdjDatabase,
+  writeVdjDatabase,
+  type VdjDatabaseField,
+  type VdjFieldUpdates,
+} from '../lib/vdj-database';
+import {
+  buildLibraryImportDiff,
+  type ExternalTrack,
+  type ExternalPlaylist,
+  type LibraryImportDiff,
+} from '../lib/library-import';
 
 const mp3Manager = new MP3MetadataManager();
 const library = new MP3Library();
@@ -70,8 +116,8 @@ export async function onPreviewExport(filePaths?: string[]): Promise<{
   summaries: FileDiffSummary[];
   editCount: number;
 }> {
-  // Clear previous pending exports
-  clearPendingTagEditsByDirection('export');
+  // Clear previous pending exports; analysis write-backs aren't regenerated here
+  clearPendingTagEditsByDirection('export', ANALYSIS_TAG_FIELDS);
 
   const paths = filePaths || await getLibraryFilePaths();
 
@@ -92,7 +138,7 @@ export async function onPreviewExport(filePaths?: string[]): Promise<{
       const otherPath = c.source_path === fp ? c.target_path : c.source_path;
       const cached = getMP3CacheByPath(otherPath);
       return {
-        targetTitle: cached?.title || otherPath.split('/').pop()?.replace(/\.mp3$/i, '') || 'Unknown',
+        targetTitle: cached?.title || otherPath.split('/').pop()?.replace(/\.(mp3|flac|m4a)$/i, '') || 'Unknown',
         targetArtist: cached?.artist || 'Unknown',
         type: c.connection_type,
         weight: c.weight,
@@ -161,55 +207,57 @@ export async function onApplyExport(editIds: number[]): Promise<{
   let successCount = 0;
   const failed: { id: number; error: string; filePath: string }[] = [];
 
-  // Group edits by file so we can batch-write
+  // Group edits by file so we can batch-write; database.xml edits are written in one pass
   const editsByFile = new Map<string, PendingTagEdit[]>();
+  const vdjEdits: PendingTagEdit[] = [];
   for (const id of editIds) {
     const edit = getTagEditById(id);
     if (!edit || edit.status !== 'pending') continue;
+    if (edit.fieldName.startsWith(VDJ_FIELD_PREFIX)) {
+      vdjEdits.push(edit);
+      continue;
+    }
     const group = editsByFile.get(edit.filePath) || [];
     group.push(edit);
     editsByFile.set(edit.filePath, group);
   }
 
-  for (const [filePath, edits] of editsByFile) {
-    try {
-      // Read current Musicky tags to merge
-      const currentTags = await mp3Manager.readMusickTags(filePath) || {};
-      const newTags: Partial<MusickTagData> = { ...currentTags };
-
-      for (const edit of edits) {
-        const field = edit.fieldName.startsWith(MUSICK_TAG_PREFIX)
-          ? edit.fieldName.slice(MUSICK_TAG_PREFIX.length)
-          : edit.fieldName;
-
-        switch (field) {
-          case 'genres':
-          case 'phases':
-          case 'moods':
-          case 'topics':
-          case 'tags':
-            newTags[field] = edit.newValue.split(',').map(s => s.trim()).filter(Boolean);
-            break;
-          case 'related':
-            try { newTags.related = JSON.parse(edit.newValue); } catch { /* skip */ }
-            break;
-          // 'genre' (standard field) is handled automatically by writeTags when genres is set
-        }
-      }
+  if (vdjEdits.length > 0) {
+    const result = await applyVDJDatabaseEdits(vdjEdits);
+    successCount += result.success;
+    failed.push(...result.failed);
+  }
 
-      await mp3Manager.writeTags(filePath, newTags);
+  const markApplied = (edit: PendingTagEdit) => {
+    updateTagEditStatus(edit.id, 'applied');
+    addTagHistory(edit.filePath, edit.fieldName, edit.originalValue, edit.newValue, 'export');
+    successCount++;
+  };
+  const markFailed = (edit: PendingTagEdit, error: unknown) => {
+    updateTagEditStatus(edit.id, 'failed');
+    failed.push({ id: edit.id, error: error instanceof Error ? error.message : 'Unknown error', filePath: edit.filePath });
+  };
 
-      // Mark all edits for this file as applied
-      for (const edit of edits) {
-        updateTagEditStatus(edit.id, 'applied');
-        addTagHistory(edit.filePath, edit.fieldName, edit.originalValue, edit.newValue, 'export');
-        successCount++;
+  // Each write stands on its own: a failed TBPM write leaves the µ: fields already written applied
+  for (const [filePath, edits] of editsByFile) {
+    const musickEdits = edits.filter(e => !isAnalysisField(e.fieldName));
+    if (musickEdits.length > 0) {
+      try {
+        // Read current Musicky tags to merge
+        const currentTags = await mp3Manager.readMusickTags(filePath) || {};
+        await mp3Manager.writeTags(filePath, mergeMusickTagEdits(currentTags, musickEdits));
+        musickEdits.forEach(markApplied);
+      } catch (error) {
+        musickEdits.forEach(edit => markFailed(edit, error));
       }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      for (const edit of edits) {
-        updateTagEditStatus(edit.id, 'failed');
-        failed.push({ id: edit.id, error: errorMessage, filePath: edit.filePath });
+    }
+    for (const edit of edits) {
+      if (!isAnalysisField(edit.fieldName)) continue;
+      try {
+        await writeAnalysisField(filePath, edit.fieldName, edit.newValue);
+        markApplied(edit);
+      } catch (error) {
+        markFailed(edit, error);
       }
     }
   }
@@ -378,6 +426,15 @@ export async function onApplyImport(editIds: number[]): Promise<{
             }
             break;
           }
+          case `${VDJ_FIELD_PREFIX}cues`: {
+            let cues: { position: number; name?: string; cueNumber?: number }[];
+            try { cues = JSON.parse(edit.newValue); } catch { cues = []; }
+            replaceCuePoints(filePath, 'vdj_import', cues);
+            break;
+          }
+          case `${VDJ_FIELD_PREFIX}playcount`:
+            setPlayCount(filePath, 'vdj', parseInt(edit.newValue, 10) || 0);
+            break;
           // 'genre' (standard field) — map to genre category tags
           case 'genre': {
             const labels = edit.newValue.split(',').map(s => s.trim()).filter(Boolean);
@@ -797,15 +854,16 @@ export async function onApplyVDJExport(filePaths: string[]): Promise<{
       const moodboardTags = getMoodboardTagsForSong(filePath);
       const relatedSongs = getMoodboardRelatedSongs(filePath);
 
-      // Read existing metadata for energy/key (preserved from file)
+      // Read existing metadata for energy/key (preserved from file); the cache adds estimated energy
       const metadata = await mp3Manager.readMetadata(filePath);
+      const cachedEnergy = getMP3CacheByPath(filePath)?.energy_level;
 
       await mp3Manager.writeVDJTags(filePath, {
         genres: moodboardTags.genres,
         phases: moodboardTags.phases,
         moods: moodboardTags.moods,
         tags: moodboardTags.custom,
-        energyLevel: metadata.energyLevel,
+        energyLevel: cachedEnergy ?? metadata.energyLevel,
         camelotKey: metadata.camelotKey,
         relatedSongs: relatedSongs.map(r => ({ artist: r.artist, title: r.title })),
       }, DEFAULT_VDJ_OPTIONS);
@@ -827,6 +885,182 @@ export async function onApplyVDJExport(filePaths: string[]): Promise<{
   return { success, failed, errors };
 }
 
+// ─── VirtualDJ database.xml ───────────────────────────────────────────────
+
+function requireVdjDatabasePath(): string {
+  const dbPath = readVdjDatabasePath();
+  if (!dbPath) throw new Error('VirtualDJ database.xml path not set');
+  return dbPath;
+}
+
+/** Musicky's view of a song in VDJ terms, from song_tags, song_connections and the cache */
+function vdjTagDataForSong(filePath: string): VDJTagData {
+  const tags = getTagsForSong(filePath);
+  const labels = (category: TagCategory) => tags.filter(t => t.tag_category === category).map(t => t.tag_label);
+  const cached = getMP3CacheByPath(filePath);
+  const relatedSongs = getConnectionsForSong(filePath).map(c => {
+    const other = getMP3CacheByPath(c.source_path === filePath ? c.target_path : c.source_path);
+    return { artist: other?.artist || 'Unknown', title: other?.title || 'Unknown' };
+  });
+
+  return {
+    genres: labels('genre'),
+    phases: labels('phase'),
+    moods: labels('mood'),
+    tags: labels('custom'),
+    energyLevel: cached?.energy_level ?? undefined,
+    camelotKey: cached?.camelot_key ?? undefined,
+    relatedSongs,
+  };
+}
+
+/** Map normalized VDJ paths to cached Musicky paths */
+function cachedPathsByVdjKey(): Map<string, string> {
+  return new Map(getMP3CacheIndex().map(c => [normalizeVdjPath(c.file_path), c.file_path]));
+}
+
+/**
+ * Preview export to VirtualDJ's database.xml: queue pending "vdj:<Field>" edits
+ * for Genre, Comment, User1 (phases), User2 (moods) and Grouping.
+ * Songs VirtualDJ hasn't scanned yet are counted as missing.
+ */
+export async function onPreviewVDJDatabaseExport(): Promise<{ editCount: number; missing: number }> {
+  const songs = parseVdjDatabase(await readVdjDatabase(requireVdjDatabasePath()));
+  const byPath = new Map(songs.map(s => [normalizeVdjPath(s.filePath), s]));
+
+  clearPendingTagEditsByFieldPrefix('export', VDJ_FIELD_PREFIX);
+
+  const taggedPaths = [...new Set(getAllSongTags().map(t => t.file_path))];
+  let editCount = 0;
+  let missing = 0;
+  for (const filePath of taggedPaths) {
+    const song = byPath.get(normalizeVdjPath(filePath));
+    if (!song) { missing++; continue; }
+    const proposed = buildVDJDatabaseFields(vdjTagDataForSong(filePath));
+    for (const field of VDJ_DATABASE_FIELDS) {
+      const value = proposed[field];
+      if (value && value !== song.fields[field]) {
+        addTagEdit(filePath, `${VDJ_FIELD_PREFIX}${field}`, song.fields[field], value, 'export');
+        editCount++;
+      }
+    }
+  }
+
+  return { editCount, missing };
+}
+
+/**
+ * Preview import from VirtualDJ's database.xml: queue pending "vdj:cues" and
+ * "vdj:playcount" edits for library songs whose cue points or play count changed.
+ */
+export async function onPreviewVDJDatabaseImport(): Promise<{ editCount: number }> {
+  const songs = parseVdjDatabase(await readVdjDatabase(requireVdjDatabasePath()));
+  const cachedPaths = cachedPathsByVdjKey();
+
+  clearPendingTagEditsByFieldPrefix('import', VDJ_FIELD_PREFIX);
+
+  let editCount = 0;
+  for (const song of songs) {
+    const filePath = cachedPaths.get(normalizeVdjPath(song.filePath));
+    if (!filePath) continue;
+
+    if (song.cues.length > 0) {
+      const current = getCuePointsForSong(filePath)
+        .filter(c => c.source === 'vdj_import')
+        .map(c => ({ position: c.position, name: c.name ?? '', cueNumber: c.cue_number ?? undefined }));
+      const proposed = song.cues
+        .map(c => ({ position: c.position, name: c.name, cueNumber: c.num }))
+        .sort((a, b) => a.position - b.position);
+      if (JSON.stringify(current) !== JSON.stringify(proposed)) {
+        addTagEdit(filePath, `${VDJ_FIELD_PREFIX}cues`, current.length ? JSON.stringify(current) : null, JSON.stringify(proposed), 'import');
+        editCount++;
+      }
+    }
+
+    const currentCount = getPlayCount(filePath, 'vdj');
+    if (song.playCount > 0 && song.playCount !== currentCount) {
+      addTagEdit(filePath, `${VDJ_FIELD_PREFIX}playcount`, String(currentCount), String(song.playCount), 'import');
+      editCount++;
+    }
+  }
+
+  return { editCount };
+}
+
+/**
+ * Write approved "vdj:" export edits into database.xml after taking a backup.
+ * Unless "database only" mode is on, Genre/Comment/Grouping also go to the audio files.
+ */
+async function applyVDJDatabaseEdits(edits: PendingTagEdit[]): Promise<{
+  success: number;
+  failed: { id: number; error: string; filePath: string }[];
+}> {
+  const failed: { id: number; error: string; filePath: string }[] = [];
+  const markFailed = (list: PendingTagEdit[], error: string) => {
+    for (const edit of list) {
+      updateTagEditStatus(edit.id, 'failed');
+      failed.push({ id: edit.id, error, filePath: edit.filePath });
+    }
+  };
+
+  const updates = new Map<string, VdjFieldUpdates>();
+  for (const edit of edits) {
+    const key = normalizeVdjPath(edit.filePath);
+    const fields = updates.get(key) ?? {};
+    fields[edit.fieldName.slice(VDJ_FIELD_PREFIX.length) as VdjDatabaseField] = edit.newValue;
+    updates.set(key, fields);
+  }
+
+  let missing: Set<string>;
+  try {
+    const dbPath = requireVdjDatabasePath();
+    const xml = await readVdjDatabase(dbPath);
+    await backupVdjDatabase(dbPath);
+    const result = updateVdjDatabase(xml, updates);
+    await writeVdjDatabase(dbPath, result.xml);
+    missing = new Set(result.missing);
+  } catch (error) {
+    markFailed(edits, error instanceof Error ? error.message : 'Unknown error');
+    return { success: 0, failed };
+  }
+
+  const written = edits.filter(e => !missing.has(normalizeVdjPath(e.filePath)));
+  markFailed(edits.filter(e => missing.has(normalizeVdjPath(e.filePath))), 'Song not in VirtualDJ database');
+
+  const writtenByFile = new Map<string, PendingTagEdit[]>();
+  for (const edit of written) {
+    writtenByFile.set(edit.filePath, [...(writtenByFile.get(edit.filePath) ?? []), edit]);
+  }
+
+  let success = 0;
+  const databaseOnly = readVdjDatabaseOnly();
+  for (const [filePath, fileEdits] of writtenByFile) {
+    if (!databaseOnly) {
+      const fields = new Set(fileEdits.map(e => e.fieldName.slice(VDJ_FIELD_PREFIX.length)));
+      try {
+        await mp3Manager.writeVDJTags(filePath, vdjTagDataForSong(filePath), {
+          ...DEFAULT_VDJ_OPTIONS,
+          writeGenre: fields.has('Genre'),
+          writeComment: fields.has('Comment'),
+          writeGrouping: fields.has('Grouping'),
+          writeMusickTags: false,
+        });
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : 'Unknown error';
+        markFailed(fileEdits, `database.xml updated, file write failed: ${msg}`);
+        continue;
+      }
+    }
+    for (const edit of fileEdits) {
+      updateTagEditStatus(edit.id, 'applied');
+      addTagHistory(edit.filePath, edit.fieldName, edit.originalValue, edit.newValue, 'export');
+      success++;
+    }
+  }
+
+  return { success, failed };
+}
+
 /**
  * Debug: check what the server sees in the moodboard tables.
  */
@@ -966,3 +1200,176 @@ export async function onImportHashtagsForSong(filePath: string): Promise<Categor
 
   return categorized;
 }
+
+// ─── Library Import: Rekordbox XML / Traktor NML → Dashboard ─────────────
+
+/** Approved parts of a library import diff, sent back by the review UI */
+export interface LibraryImportSelection {
+  tags: { filePath: string; tags: { label: string; category: TagCategory }[] }[];
+  playlists: { name: string; filePaths: string[] }[];
+  connections: { sourcePath: string; targetPath: string }[];
+}
+
+export interface LibraryImportResult {
+  tagsAdded: number;
+  playlistsCreated: number;
+  playlistsUpdated: number;
+  connectionsAdded: number;
+}
+
+type LibraryImportSource = 'rekordbox_import' | 'traktor_import';
+
+const IMPORT_SOURCE_NAMES: Record<LibraryImportSource, string> = {
+  rekordbox_import: 'Rekordbox',
+  traktor_import: 'Traktor',
+};
+
+/** Diff external tracks/playlists against the cache, song_tags, playlists and song_connections */
+function diffAgainstDatabase(tracks: ExternalTrack[], playlists: ExternalPlaylist[]): LibraryImportDiff {
+  const knownSongs = getMP3CacheIndex().map(c => ({
+    filePath: c.file_path,
+    title: c.title ?? undefined,
+    artist: c.artist ?? undefined,
+  }));
+  const playlistNames = new Set(getPlaylists().map(p => p.name));
+
+  return buildLibraryImportDiff(tracks, playlists, {
+    knownSongs,
+    tagsForSong: filePath => getTagsForSong(filePath).map(t => ({ label: t.tag_label, category: t.tag_category })),
+    playlistExists: name => playlistNames.has(name),
+    connectionExists: (sourcePath, targetPath) =>
+      getConnectionBetween(sourcePath, targetPath).some(c =>
+        c.connection_type === 'transition' && c.source_path === sourcePath),
+    knownGenres: new Set(getAllTags('genre').map(t => t.tag_label)),
+    knownMoods: new Set(getAllTags('mood').map(t => t.tag_label)),
+    knownPhases: new Set(getAllTags('phase').map(t => t.tag_label)),
+  });
+}
+
+/** Write the approved parts of a library import. Playlists with an existing name get their items replaced. */
+function applyLibraryImport(selection: LibraryImportSelection, source: LibraryImportSource): LibraryImportResult {
+  const result: LibraryImportResult = { tagsAdded: 0, playlistsCreated: 0, playlistsUpdated: 0, connectionsAdded: 0 };
+
+  for (const entry of selection.tags) {
+    for (const tag of entry.tags) {
+      if (addSongTag(entry.filePath, tag.label, tag.category, source)) result.tagsAdded++;
+    }
+  }
+
+  const existing = new Map(getPlaylists().map(p => [p.name, p.id]));
+  for (const playlist of selection.playlists) {
+    const items = playlist.filePaths.map((filePath, position) => ({ filePath, position }));
+    const existingId = existing.get(playlist.name);
+    if (existingId !== undefined) {
+      setPlaylistItems(existingId, items);
+      result.playlistsUpdated++;
+    } else {
+      const created = createPlaylist(playlist.name, `Imported from ${IMPORT_SOURCE_NAMES[source]}`);
+      setPlaylistItems(created.id, items);
+      existing.set(created.name, created.id);
+      result.playlistsCreated++;
+    }
+  }
+
+  for (const conn of selection.connections) {
+    if (addSongConnection(conn.sourcePath, conn.targetPath, 'transition', 1.0, source)) result.connectionsAdded++;
+  }
+
+  return result;
+}
+
+/**
+ * Preview what a Rekordbox collection XML would add: tags from comment hashtags
+ * and track colours, playlists, and transitions between adjacent playlist tracks.
+ * Nothing is written — the review UI sends the approved parts to onApplyRekordboxImport.
+ */
+export async function onPreviewRekordboxImport(xml: string): Promise<LibraryImportDiff> {
+  const parsed = parseRekordboxXml(xml);
+
+  const tracks: ExternalTrack[] = parsed.tracks.map(t => {
+    const hashtags = parseHashtags(t.comments);
+    const phase = rekordboxColourToPhase(t.colour);
+    if (phase && !hashtags.includes(phase)) hashtags.push(phase);
+    return { id: t.trackId, filePath: t.filePath, title: t.title, artist: t.artist, hashtags };
+  });
+
+  return diffAgainstDatabase(tracks, parsed.playlists);
+}
+
+/**
+ * Apply the approved parts of a Rekordbox import preview.
+ */
+export async function onApplyRekordboxImport(selection: LibraryImportSelection): Promise<LibraryImportResult> {
+  return applyLibraryImport(selection, 'rekordbox_import');
+}
+
+/**
+ * Preview what a Traktor NML collection would add. Hashtags are read from the
+ * INFO field chosen in settings (COMMENT2 or LABEL); nothing is written.
+ */
+export async function onPreviewTraktorImport(nml: string): Promise<LibraryImportDiff> {
+  const parsed = parseTraktorNml(nml);
+  const tagField = readTraktorTagField();
+
+  const tracks: ExternalTrack[] = parsed.tracks.map(t => ({
+    id: t.primaryKey,
+    filePath: t.filePath,
+    title: t.title,
+    artist: t.artist,
+    hashtags: parseHashtags(traktorTagText(t, tagField)),
+  }));
+
+  return diffAgainstDatabase(tracks, parsed.playlists.map(p => ({ name: p.name, trackIds: p.trackKeys })));
+}
+
+/**
+ * Apply the approved parts of a Traktor import preview.
+ */
+export async function onApplyTraktorImport(selection: LibraryImportSelection): Promise<LibraryImportResult> {
+  return applyLibraryImport(selection, 'traktor_import');
+}
+
+// ─── Library Export: Playlists → Traktor NML ─────────────────────────────
+
+/** Playlist item phases take precedence over the song's phase tags */
+function toTraktorTrack(filePath: string, phase: string | null): TraktorTrack {
+  const cached = getMP3CacheByPath(filePath);
+  const tags = getTagsForSong(filePath);
+  const byCategory = (category: TagCategory) => tags
+    .filter(t => t.tag_category === category)
+    .map(t => ({ label: t.tag_label, category }));
+
+  return {
+    filePath,
+    title: cached?.title || filePath.split('/').pop() || filePath,
+    artist: cached?.artist ?? '',
+    album: cached?.album ?? '',
+    genre: byCategory('genre').map(t => t.label).join(', '),
+    duration: cached?.duration ?? 0,
+    bpm: cached?.bpm ?? undefined,
+    camelotKey: cached?.camelot_key ?? undefined,
+    hashtags: buildHashtagString([
+      ...(phase ? [{ label: phase, category: 'phase' }] : byCategory('phase')),
+      ...byCategory('mood'),
+    ]),
+  };
+}
+
+/**
+ * Export saved playlists (all of them when no ids are given) as a Traktor NML collection.
+ * Phases and moods go into the INFO field chosen in settings.
+ */
+export async function onExportTraktorNml(playlistIds?: number[]): Promise<{ filename: string; content: string }> {
+  const wanted = playlistIds ? new Set(playlistIds) : null;
+  const playlists = getPlaylists()
+    .filter(p => !wanted || wanted.has(p.id))
+    .map(p => ({
+      name: p.name,
+      tracks: getPlaylistItems(p.id).map(item => toTraktorTrack(item.file_path, item.phase)),
+    }));
+
+  return {
+    filename: 'musicky-collection.nml',
+    content: buildTraktorNml(playlists, readTraktorTagField()),
+  };
+}
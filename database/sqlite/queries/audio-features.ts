@@ -0,0 +1,217 @@
+import { db } from '../db';
+import type { EnergyFeatures } from '../../../lib/energy-estimation';
+import type { LoudnessMeasurement } from '../../../lib/loudness';
+import type { MixPoints } from '../../../lib/mix-points';
+import type { Fingerprint } from '../../../lib/fingerprint';
+import type { QualityReport } from '../../../lib/quality-audit';
+import type { QualityIssue, QualityVerdict } from '../../../lib/types';
+
+const client = db();
+
+interface AudioFeaturesRow {
+  file_path: string;
+  loudness_db: number;
+  onset_flux: number;
+  onset_density: number;
+  bpm: number | null;
+}
+
+function toFeatures(row: AudioFeaturesRow): EnergyFeatures {
+  return {
+    loudnessDb: row.loudness_db,
+    flux: row.onset_flux,
+    onsetDensity: row.onset_density,
+    bpm: row.bpm,
+  };
+}
+
+export function saveAudioFeatures(filePath: string, features: EnergyFeatures): void {
+  client.prepare(`
+    INSERT INTO song_audio_features (file_path, loudness_db, onset_flux, onset_density, bpm, analyzed_at)
+    VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(file_path) DO UPDATE SET
+      loudness_db = excluded.loudness_db,
+      onset_flux = excluded.onset_flux,
+      onset_density = excluded.onset_density,
+      bpm = excluded.bpm,
+      analyzed_at = CURRENT_TIMESTAMP
+  `).run(filePath, features.loudnessDb, features.flux, features.onsetDensity, features.bpm);
+}
+
+export function getAudioFeatures(filePath: string): EnergyFeatures | null {
+  const row = client.prepare(
+    'SELECT * FROM song_audio_features WHERE file_path = ?'
+  ).get(filePath) as AudioFeaturesRow | undefined;
+  return row ? toFeatures(row) : null;
+}
+
+/** Analysed songs whose energy came from a Mixed In Key tag: the calibration set */
+export function getTaggedEnergySamples(): { features: EnergyFeatures; energy: number }[] {
+  const rows = client.prepare(`
+    SELECT f.*, c.energy_level
+    FROM song_audio_features f
+    JOIN mp3_file_cache c ON c.file_path = f.file_path
+    WHERE COALESCE(c.energy_source, 'tag') = 'tag' AND c.energy_level IS NOT NULL
+  `).all() as (AudioFeaturesRow & { energy_level: number })[];
+  return rows.map(row => ({ features: toFeatures(row), energy: row.energy_level }));
+}
+
+/** Analysed songs that carry an estimated energy, to re-estimate after recalibration */
+export function getEstimatedEnergySongs(): { filePath: string; features: EnergyFeatures }[] {
+  const rows = client.prepare(`
+    SELECT f.*
+    FROM song_audio_features f
+    JOIN mp3_file_cache c ON c.file_path = f.file_path
+    WHERE c.energy_source = 'detected'
+  `).all() as AudioFeaturesRow[];
+  return rows.map(row => ({ filePath: row.file_path, features: toFeatures(row) }));
+}
+
+export function saveLoudness(filePath: string, loudness: LoudnessMeasurement): void {
+  client.prepare(`
+    INSERT INTO song_loudness (file_path, integrated_lufs, true_peak_db, analyzed_at)
+    VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(file_path) DO UPDATE SET
+      integrated_lufs = excluded.integrated_lufs,
+      true_peak_db = excluded.true_peak_db,
+      analyzed_at = CURRENT_TIMESTAMP
+  `).run(filePath, loudness.integratedLufs, loudness.truePeakDb);
+}
+
+export function getLoudness(filePath: string): LoudnessMeasurement | null {
+  const row = client.prepare(
+    'SELECT integrated_lufs, true_peak_db FROM song_loudness WHERE file_path = ?'
+  ).get(filePath) as { integrated_lufs: number; true_peak_db: number } | undefined;
+  return row ? { integratedLufs: row.integrated_lufs, truePeakDb: row.true_peak_db } : null;
+}
+
+/** Store a song's mix points, or forget them when the analysis found none */
+export function saveMixPoints(filePath: string, points: MixPoints | null): void {
+  if (!points) {
+    client.prepare('DELETE FROM song_mix_points WHERE file_path = ?').run(filePath);
+    return;
+  }
+  client.prepare(`
+    INSERT INTO song_mix_points (file_path, audio_start, audio_end, intro_end, outro_start, analyzed_at)
+    VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(file_path) DO UPDATE SET
+      audio_start = excluded.audio_start,
+      audio_end = excluded.audio_end,
+      intro_end = excluded.intro_end,
+      outro_start = excluded.outro_start,
+      analyzed_at = CURRENT_TIMESTAMP
+  `).run(filePath, points.audioStart, points.audioEnd, points.introEnd, points.outroStart);
+}
+
+export function getMixPoints(filePath: string): MixPoints | null {
+  const row = client.prepare(
+    'SELECT audio_start, audio_end, intro_end, outro_start FROM song_mix_points WHERE file_path = ?'
+  ).get(filePath) as { audio_start: number; audio_end: number; intro_end: number | null; outro_start: number | null } | undefined;
+  return row
+    ? { audioStart: row.audio_start, audioEnd: row.audio_end, introEnd: row.intro_end, outroStart: row.outro_start }
+    : null;
+}
+
+export function saveFingerprint(filePath: string, fingerprint: Fingerprint): void {
+  const blob = Buffer.from(fingerprint.words.buffer, fingerprint.words.byteOffset, fingerprint.words.byteLength);
+  client.prepare(`
+    INSERT INTO song_fingerprints (file_path, fingerprint, duration, analyzed_at)
+    VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(file_path) DO UPDATE SET
+      fingerprint = excluded.fingerprint,
+      duration = excluded.duration,
+      analyzed_at = CURRENT_TIMESTAMP
+  `).run(filePath, blob, fingerprint.duration);
+}
+
+/** Fingerprints of every song still in the library, merged duplicates excluded */
+export function getLibraryFingerprints(): { filePath: string; fingerprint: Fingerprint }[] {
+  const rows = client.prepare(`
+    SELECT f.file_path, f.fingerprint, f.duration
+    FROM song_fingerprints f
+    JOIN mp3_file_cache c ON c.file_path = f.file_path
+    WHERE c.merged_into IS NULL
+  `).all() as { file_path: string; fingerprint: Buffer; duration: number }[];
+  return rows.map(row => ({
+    filePath: row.file_path,
+    fingerprint: {
+      // Copy out of the Buffer: its offset into Node's pool needn't be 4-byte aligned
+      words: new Uint32Array(new Uint8Array(row.fingerprint).buffer),
+      duration: row.duration,
+    },
+  }));
+}
+
+/** Library songs that have no fingerprint yet */
+export function getUnfingerprintedPaths(limit: number): string[] {
+  const rows = client.prepare(`
+    SELECT c.file_path
+    FROM mp3_file_cache c
+    LEFT JOIN song_fingerprints f ON f.file_path = c.file_path
+    WHERE f.file_path IS NULL AND c.merged_into IS NULL
+    ORDER BY c.file_path
+    LIMIT ?
+  `).all(limit) as { file_path: string }[];
+  return rows.map(row => row.file_path);
+}
+
+export function countFingerprints(): { fingerprinted: number; total: number } {
+  return client.prepare(`
+    SELECT COUNT(f.file_path) AS fingerprinted, COUNT(*) AS total
+    FROM mp3_file_cache c
+    LEFT JOIN song_fingerprints f ON f.file_path = c.file_path
+    WHERE c.merged_into IS NULL
+  `).get() as { fingerprinted: number; total: number };
+}
+
+export function saveQualityReport(
+  filePath: string,
+  report: QualityReport,
+  declared: { bitrate?: number; sampleRate?: number },
+): void {
+  client.prepare(`
+    INSERT INTO song_quality (file_path, verdict, issues, cutoff_hz, bitrate, sample_rate, channels, clipped_runs_per_minute, analyzed_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(file_path) DO UPDATE SET
+      verdict = excluded.verdict,
+      issues = excluded.issues,
+      cutoff_hz = excluded.cutoff_hz,
+      bitrate = excluded.bitrate,
+      sample_rate = excluded.sample_rate,
+      channels = excluded.channels,
+      clipped_runs_per_minute = excluded.clipped_runs_per_minute,
+      analyzed_at = CURRENT_TIMESTAMP
+  `).run(
+    filePath, report.verdict, JSON.stringify(report.issues), report.cutoffHz,
+    declared.bitrate ?? null, declared.sampleRate ?? null, report.channels, report.clippedRunsPerMinute,
+  );
+}
+
+/** Verdicts for every audited song, keyed by path */
+export function getQualityVerdicts(): Map<string, { verdict: QualityVerdict; issues: QualityIssue[] }> {
+  const rows = client.prepare(
+    'SELECT file_path, verdict, issues FROM song_quality'
+  ).all() as { file_path: string; verdict: QualityVerdict; issues: string }[];
+  return new Map(rows.map(row => [row.file_path, { verdict: row.verdict, issues: JSON.parse(row.issues) as QualityIssue[] }]));
+}
+
+/** Library songs that haven't been audited yet */
+export function getUnauditedPaths(limit: number): string[] {
+  const rows = client.prepare(`
+    SELECT c.file_path
+    FROM mp3_file_cache c
+    LEFT JOIN song_quality q ON q.file_path = c.file_path
+    WHERE q.file_path IS NULL
+    ORDER BY c.file_path
+    LIMIT ?
+  `).all(limit) as { file_path: string }[];
+  return rows.map(row => row.file_path);
+}
+
+export function countQualityAudits(): { audited: number; total: number; flagged: number } {
+  return client.prepare(`
+    SELECT COUNT(q.file_path) AS audited, COUNT(*) AS total, COUNT(CASE WHEN q.verdict != 'ok' THEN 1 END) AS flagged
+    FROM mp3_file_cache c
+    LEFT JOIN song_quality q ON q.file_path = c.file_path
+  `).get() as { audited: number; total: number; flagged: number };
+}
@@ -1,5 +1,6 @@
 import { db } from '../db';
 import * as queries from '../schema/dj-sets';
+import type { AnalysisSource, EnergySource } from '../../../lib/types';
 
 const client = db();
 
@@ -33,6 +34,15 @@ export interface MP3CacheItem {
   bpm?: number;
   energy_level?: number;
   label?: string;
+  bpm_source?: AnalysisSource;
+  bpm_confidence?: number;
+  key_source?: AnalysisSource;
+  key_confidence?: number;
+  energy_source?: EnergySource;
+  /** Counted plays and skips from play_history */
+  play_count?: number;
+  skip_count?: number;
+  last_played?: string | null;
 }
 
 export interface MP3SearchResult {
@@ -47,6 +57,15 @@ export interface MP3SearchResult {
   bpm?: number;
   energy_level?: number;
   label?: string;
+  bpm_source?: AnalysisSource;
+  bpm_confidence?: number;
+  key_source?: AnalysisSource;
+  key_confidence?: number;
+  energy_source?: EnergySource;
+  /** Counted plays and skips from play_history */
+  play_count?: number;
+  skip_count?: number;
+  last_played?: string | null;
 }
 
 // DJ Sets operations
@@ -111,10 +130,28 @@ export function insertMP3Cache(item: MP3CacheItem): void {
     item.camelot_key || null,
     item.bpm || null,
     item.energy_level || null,
-    item.label || null
+    item.label || null,
+    // Whatever the scan read came from the file's tags
+    item.bpm ? 'tag' : null,
+    item.key ? 'tag' : null,
+    item.energy_level ? 'tag' : null,
   );
 }
 
+/** Store an analysed BPM; a later rescan keeps it unless the file gains a TBPM */
+export function setDetectedBpm(filePath: string, bpm: number, confidence: number): void {
+  client.prepare(queries.setDetectedBpm).run(bpm, confidence, filePath);
+}
+
+/** Store an analysed key; a later rescan keeps it unless the file gains a TKEY */
+export function setDetectedKey(filePath: string, key: string, camelotKey: string, confidence: number): void {
+  client.prepare(queries.setDetectedKey).run(key, camelotKey, confidence, filePath);
+}
+
+export function setEnergyLevel(filePath: string, level: number | null, source: EnergySource | null): void {
+  client.prepare(queries.setEnergyLevel).run(level, source, filePath);
+}
+
 export function searchMP3Cache(query: string, limit: number = 50): MP3SearchResult[] {
   const searchTerm = `%${query}%`;
   const priorityTerm = `${query}%`;
@@ -130,6 +167,10 @@ export function getMP3CacheByPath(filePath: string): MP3CacheItem | null {
   return client.prepare(queries.getMP3CacheByPath).get(filePath) as MP3CacheItem | null;
 }
 
+export function getMP3CacheIndex(): Pick<MP3CacheItem, 'file_path' | 'file_size' | 'last_modified' | 'title' | 'artist'>[] {
+  return client.prepare(queries.getMP3CacheIndex).all() as Pick<MP3CacheItem, 'file_path' | 'file_size' | 'last_modified' | 'title' | 'artist'>[];
+}
+
 export function deleteMP3Cache(filePath: string): void {
   client.prepare(queries.deleteMP3Cache).run(filePath);
 }
@@ -5,9 +5,19 @@ import {
   setPhases,
   getPhases,
   setKeepPlayHead,
-  getKeepPlayHead
+  getKeepPlayHead,
+  setTraktorTagField,
+  getTraktorTagField,
+  setVdjDatabasePath,
+  getVdjDatabasePath,
+  setVdjDatabaseOnly,
+  getVdjDatabaseOnly,
+  setMediaShortcuts,
+  getMediaShortcuts
 } from '../schema/library-settings.js';
 import { type SetPhase, migratePhases, stringToSetPhase } from '../../../lib/set-phase.js';
+import { type TraktorTagField, DEFAULT_TRAKTOR_TAG_FIELD } from '../../../lib/traktor-nml.js';
+import { type MediaShortcuts, DEFAULT_MEDIA_SHORTCUTS, normalizeMediaShortcuts } from '../../../lib/player-controls.js';
 
 const DEFAULT_PHASES: SetPhase[] = ['starter', 'buildup', 'peak', 'release', 'feature'].map(stringToSetPhase);
 
@@ -57,3 +67,54 @@ export function readKeepPlayHead(): boolean {
   const row = stmt.get() as any;
   return row ? Boolean(row.keep_play_head) : false;
 }
+
+export function saveTraktorTagField(field: TraktorTagField): void {
+  const stmt = db().prepare(setTraktorTagField);
+  stmt.run(field);
+}
+
+export function readTraktorTagField(): TraktorTagField {
+  const stmt = db().prepare(getTraktorTagField);
+  const row = stmt.get() as { traktor_tag_field: string | null } | undefined;
+  return row?.traktor_tag_field === 'LABEL' ? 'LABEL' : DEFAULT_TRAKTOR_TAG_FIELD;
+}
+
+export function saveVdjDatabasePath(dbPath: string | null): void {
+  const stmt = db().prepare(setVdjDatabasePath);
+  stmt.run(dbPath);
+}
+
+export function readVdjDatabasePath(): string | null {
+  const stmt = db().prepare(getVdjDatabasePath);
+  const row = stmt.get() as { vdj_database_path: string | null } | undefined;
+  return row?.vdj_database_path || null;
+}
+
+/** "Database only" mode: VirtualDJ edits go to database.xml and never touch audio files */
+export function saveVdjDatabaseOnly(enabled: boolean): void {
+  const stmt = db().prepare(setVdjDatabaseOnly);
+  stmt.run(enabled ? 1 : 0);
+}
+
+export function readVdjDatabaseOnly(): boolean {
+  const stmt = db().prepare(getVdjDatabaseOnly);
+  const row = stmt.get() as { vdj_database_only: number | null } | undefined;
+  return row?.vdj_database_only == null ? true : Boolean(row.vdj_database_only);
+}
+
+/** Global shortcut bindings for the desktop app's player controls */
+export function saveMediaShortcuts(shortcuts: MediaShortcuts): void {
+  const stmt = db().prepare(setMediaShortcuts);
+  stmt.run(JSON.stringify(shortcuts));
+}
+
+export function readMediaShortcuts(): MediaShortcuts {
+  const stmt = db().prepare(getMediaShortcuts);
+  const row = stmt.get() as { media_shortcuts: string | null } | undefined;
+  if (!row?.media_shortcuts) return DEFAULT_MEDIA_SHORTCUTS;
+  try {
+    return normalizeMediaShortcuts(JSON.parse(row.media_shortcuts));
+  } catch {
+    return DEFAULT_MEDIA_SHORTCUTS;
+  }
+}
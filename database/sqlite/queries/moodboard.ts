@@ -75,6 +75,15 @@ export function deleteNode(nodeId: string): void {
   client.prepare('DELETE FROM moodboard_nodes WHERE id = ?').run(nodeId);
 }
 
+/** Remove a song from every board, with its edges */
+export function deleteSongNodes(songPath: string): void {
+  client.prepare(`
+    DELETE FROM moodboard_edges WHERE source_node_id IN (SELECT id FROM moodboard_nodes WHERE song_path = ?)
+      OR target_node_id IN (SELECT id FROM moodboard_nodes WHERE song_path = ?)
+  `).run(songPath, songPath);
+  client.prepare('DELETE FROM moodboard_nodes WHERE song_path = ?').run(songPath);
+}
+
 export function isSongOnBoard(boardId: number, songPath: string): boolean {
   const row = client.prepare('SELECT 1 FROM moodboard_nodes WHERE board_id = ? AND song_path = ? LIMIT 1').get(boardId, songPath);
   return !!row;
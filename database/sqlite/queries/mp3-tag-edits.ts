@@ -122,15 +122,32 @@ export function markTagHistoryReverted(id: number): void {
 }
 
 /**
- * Remove all pending tag edits for a file (used when regenerating diffs)
+ * Remove all pending tag edits for a file (used when regenerating diffs),
+ * or only those of one direction
  */
-export function clearPendingTagEditsForFile(filePath: string): void {
+export function clearPendingTagEditsForFile(filePath: string, direction?: 'export' | 'import'): void {
+  if (direction) {
+    db().prepare("DELETE FROM mp3_pending_tag_edits WHERE file_path = ? AND direction = ? AND status = 'pending'").run(filePath, direction);
+    return;
+  }
   db().prepare("DELETE FROM mp3_pending_tag_edits WHERE file_path = ? AND status = 'pending'").run(filePath);
 }
 
 /**
- * Remove all pending tag edits with a given direction (used before bulk re-generation)
+ * Remove all pending tag edits with a given direction (used before bulk re-generation).
+ * Edits for `keepFields` survive, e.g. analysis results that regeneration can't recreate.
  */
-export function clearPendingTagEditsByDirection(direction: 'export' | 'import'): void {
-  db().prepare("DELETE FROM mp3_pending_tag_edits WHERE direction = ? AND status = 'pending'").run(direction);
+export function clearPendingTagEditsByDirection(direction: 'export' | 'import', keepFields: readonly string[] = []): void {
+  const keep = keepFields.length > 0 ? ` AND field_name NOT IN (${keepFields.map(() => '?').join(', ')})` : '';
+  db().prepare(`DELETE FROM mp3_pending_tag_edits WHERE direction = ? AND status = 'pending'${keep}`).run(direction, ...keepFields);
+}
+
+/**
+ * Remove pending tag edits of one direction whose field name starts with a prefix
+ * (e.g. "vdj:"), leaving other pending edits of that direction in place
+ */
+export function clearPendingTagEditsByFieldPrefix(direction: 'export' | 'import', prefix: string): void {
+  db().prepare(
+    "DELETE FROM mp3_pending_tag_edits WHERE direction = ? AND status = 'pending' AND substr(field_name, 1, ?) = ?"
+  ).run(direction, prefix.length, prefix);
 }
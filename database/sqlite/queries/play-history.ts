@@ -0,0 +1,32 @@
+import { db } from '../db';
+import type { ListenOutcome, SongPlayStats, SongFreshness } from '../../../lib/play-history';
+
+const client = db();
+
+export function recordListen(filePath: string, listenedSeconds: number, outcome: ListenOutcome): void {
+  client.prepare(
+    'INSERT INTO play_history (file_path, listened_seconds, skipped) VALUES (?, ?, ?)'
+  ).run(filePath, listenedSeconds, outcome === 'skip' ? 1 : 0);
+}
+
+export function getPlayStats(filePath: string): SongPlayStats {
+  const row = client.prepare(`
+    SELECT COALESCE(SUM(skipped = 0), 0) AS play_count, COALESCE(SUM(skipped), 0) AS skip_count,
+      MAX(CASE WHEN skipped = 0 THEN played_at END) AS last_played
+    FROM play_history WHERE file_path = ?
+  `).get(filePath) as { play_count: number; skip_count: number; last_played: string | null };
+  return { playCount: row.play_count, skipCount: row.skip_count, lastPlayed: row.last_played };
+}
+
+/** Days since the last play and plays within the last `windowDays`, for every song ever played */
+export function getSongFreshness(windowDays: number): Map<string, SongFreshness> {
+  const rows = client.prepare(`
+    SELECT file_path,
+      julianday('now') - julianday(MAX(played_at)) AS days_since,
+      SUM(played_at >= datetime('now', '-' || ? || ' days')) AS recent_plays
+    FROM play_history
+    WHERE skipped = 0
+    GROUP BY file_path
+  `).all(windowDays) as { file_path: string; days_since: number; recent_plays: number }[];
+  return new Map(rows.map(r => [r.file_path, { daysSincePlayed: r.days_since, recentPlays: r.recent_plays }]));
+}
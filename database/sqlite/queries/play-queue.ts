@@ -0,0 +1,33 @@
+import { db } from '../db';
+
+const client = db();
+
+/** File paths of the saved queue; history is oldest first */
+export interface PersistedPlayQueue {
+  current: string | null;
+  upcoming: string[];
+  history: string[];
+}
+
+export function getPlayQueue(): PersistedPlayQueue {
+  const rows = client.prepare(
+    'SELECT list, file_path FROM play_queue ORDER BY list, position'
+  ).all() as { list: 'current' | 'upcoming' | 'history'; file_path: string }[];
+  const queue: PersistedPlayQueue = { current: null, upcoming: [], history: [] };
+  for (const row of rows) {
+    if (row.list === 'current') queue.current = row.file_path;
+    else queue[row.list].push(row.file_path);
+  }
+  return queue;
+}
+
+/** Replace the saved queue */
+export function savePlayQueue(queue: PersistedPlayQueue): void {
+  const insert = client.prepare('INSERT INTO play_queue (list, position, file_path) VALUES (?, ?, ?)');
+  client.transaction(() => {
+    client.prepare('DELETE FROM play_queue').run();
+    if (queue.current) insert.run('current', 0, queue.current);
+    queue.upcoming.forEach((filePath, i) => insert.run('upcoming', i, filePath));
+    queue.history.forEach((filePath, i) => insert.run('history', i, filePath));
+  })();
+}
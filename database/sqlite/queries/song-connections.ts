@@ -4,7 +4,7 @@ import * as queries from '../schema/song-connections';
 const client = db();
 
 export type ConnectionType = 'similarity' | 'transition' | 'remix' | 'custom';
-export type ConnectionSource = 'manual' | 'id3_import' | 'auto_discovered';
+export type ConnectionSource = 'manual' | 'id3_import' | 'auto_discovered' | 'rekordbox_import' | 'traktor_import' | 'audition';
 
 export interface SongConnection {
   id: number;
@@ -0,0 +1,92 @@
+import { db } from '../db';
+
+const client = db();
+
+export type CueSource = 'manual' | 'vdj_import';
+
+export interface SongCuePoint {
+  id: number;
+  file_path: string;
+  position: number;
+  name: string | null;
+  cue_number: number | null;
+  source: CueSource;
+  created_at: string;
+}
+
+export interface SongHotCue {
+  file_path: string;
+  slot: number;
+  position: number;
+  name: string | null;
+  loop_end: number | null;
+  created_at: string;
+}
+
+export function getCuePointsForSong(filePath: string): SongCuePoint[] {
+  return client.prepare(
+    'SELECT * FROM song_cue_points WHERE file_path = ? ORDER BY position'
+  ).all(filePath) as SongCuePoint[];
+}
+
+/** Replace all cue points of one source for a song (e.g. on re-import) */
+export function replaceCuePoints(
+  filePath: string,
+  source: CueSource,
+  cues: { position: number; name?: string; cueNumber?: number }[],
+): void {
+  const remove = client.prepare('DELETE FROM song_cue_points WHERE file_path = ? AND source = ?');
+  const insert = client.prepare(
+    'INSERT OR IGNORE INTO song_cue_points (file_path, position, name, cue_number, source) VALUES (?, ?, ?, ?, ?)'
+  );
+  client.transaction(() => {
+    remove.run(filePath, source);
+    for (const cue of cues) {
+      insert.run(filePath, cue.position, cue.name ?? null, cue.cueNumber ?? null, source);
+    }
+  })();
+}
+
+/** Hot cues and saved loops of a song, in slot order */
+export function getHotCues(filePath: string): SongHotCue[] {
+  return client.prepare(
+    'SELECT * FROM song_hot_cues WHERE file_path = ? ORDER BY slot'
+  ).all(filePath) as SongHotCue[];
+}
+
+/** Put cues on their slots, replacing whatever was there; other slots are left alone */
+export function setHotCues(
+  filePath: string,
+  cues: { slot: number; position: number; name: string; loopEnd: number | null }[],
+): void {
+  const upsert = client.prepare(`
+    INSERT INTO song_hot_cues (file_path, slot, position, name, loop_end)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(file_path, slot) DO UPDATE SET
+      position = excluded.position, name = excluded.name, loop_end = excluded.loop_end, created_at = CURRENT_TIMESTAMP
+  `);
+  client.transaction(() => {
+    for (const cue of cues) {
+      upsert.run(filePath, cue.slot, cue.position, cue.name || null, cue.loopEnd);
+    }
+  })();
+}
+
+export function deleteHotCue(filePath: string, slot: number): void {
+  client.prepare('DELETE FROM song_hot_cues WHERE file_path = ? AND slot = ?').run(filePath, slot);
+}
+
+export function getPlayCount(filePath: string, source: string): number {
+  const row = client.prepare(
+    'SELECT play_count FROM song_play_counts WHERE file_path = ? AND source = ?'
+  ).get(filePath, source) as { play_count: number } | undefined;
+  return row?.play_count ?? 0;
+}
+
+export function setPlayCount(filePath: string, source: string, playCount: number): void {
+  client.prepare(`
+    INSERT INTO song_play_counts (file_path, source, play_count, updated_at)
+    VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(file_path, source) DO UPDATE SET play_count = excluded.play_count, updated_at = CURRENT_TIMESTAMP
+  `).run(filePath, source, playCount);
+}
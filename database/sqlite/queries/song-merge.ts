@@ -0,0 +1,115 @@
+import { db } from '../db';
+import { songNodeId } from './canvas-state';
+
+const client = db();
+
+export interface MergeSummary {
+  tags: number;
+  connections: number;
+  playlistItems: number;
+  moodboardNodes: number;
+}
+
+/**
+ * Move tags, connections, playlist and set items, and moodboard nodes from
+ * `fromPath` onto `toPath`. Where the target already has the same tag,
+ * connection or board node, or already sits in the same playlist or set,
+ * the target's wins and the copy's is dropped.
+ */
+function moveSongReferences(toPath: string, fromPath: string, summary: MergeSummary): void {
+  summary.tags += client.prepare(`
+    INSERT OR IGNORE INTO song_tags (file_path, tag_label, tag_category, source, created_at)
+    SELECT ?, tag_label, tag_category, source, created_at FROM song_tags WHERE file_path = ?
+  `).run(toPath, fromPath).changes;
+  client.prepare('DELETE FROM song_tags WHERE file_path = ?').run(fromPath);
+
+  summary.connections += client.prepare('UPDATE OR IGNORE song_connections SET source_path = ? WHERE source_path = ?').run(toPath, fromPath).changes;
+  summary.connections += client.prepare('UPDATE OR IGNORE song_connections SET target_path = ? WHERE target_path = ?').run(toPath, fromPath).changes;
+  // Left over: connections the target already had, and links between the two copies
+  client.prepare('DELETE FROM song_connections WHERE source_path = ? OR target_path = ?').run(fromPath, fromPath);
+  client.prepare('DELETE FROM song_connections WHERE source_path = ? AND target_path = ?').run(toPath, toPath);
+
+  // A playlist or set holding both copies would otherwise end up with the song twice
+  client.prepare(`
+    DELETE FROM playlist_items
+    WHERE file_path = ? AND playlist_id IN (SELECT playlist_id FROM playlist_items WHERE file_path = ?)
+  `).run(fromPath, toPath);
+  client.prepare(`
+    DELETE FROM dj_set_items
+    WHERE file_path = ? AND set_id IN (SELECT set_id FROM dj_set_items WHERE file_path = ?)
+  `).run(fromPath, toPath);
+  summary.playlistItems += client.prepare('UPDATE playlist_items SET file_path = ? WHERE file_path = ?').run(toPath, fromPath).changes;
+  summary.playlistItems += client.prepare('UPDATE dj_set_items SET file_path = ? WHERE file_path = ?').run(toPath, fromPath).changes;
+
+  const nodes = client.prepare('SELECT id, board_id FROM moodboard_nodes WHERE song_path = ?').all(fromPath) as { id: string; board_id: number }[];
+  for (const node of nodes) {
+    const existing = client.prepare(
+      'SELECT id FROM moodboard_nodes WHERE board_id = ? AND song_path = ? LIMIT 1'
+    ).get(node.board_id, toPath) as { id: string } | undefined;
+    if (existing) {
+      // The target is already on this board: hand its edges over and drop the copy's node
+      client.prepare('UPDATE moodboard_edges SET source_node_id = ? WHERE source_node_id = ?').run(existing.id, node.id);
+      client.prepare('UPDATE moodboard_edges SET target_node_id = ? WHERE target_node_id = ?').run(existing.id, node.id);
+      client.prepare('DELETE FROM moodboard_edges WHERE source_node_id = ? AND target_node_id = ?').run(existing.id, existing.id);
+      client.prepare('DELETE FROM moodboard_nodes WHERE id = ?').run(node.id);
+    } else {
+      client.prepare('UPDATE moodboard_nodes SET song_path = ? WHERE id = ?').run(toPath, node.id);
+    }
+    summary.moodboardNodes++;
+  }
+}
+
+/**
+ * Move everything the library knows about `duplicatePaths` onto `keeperPath`
+ * (see moveSongReferences). The duplicate files themselves are left on disk;
+ * their cache rows are marked merged so they drop out of search and the
+ * duplicate finder, and stay out when the next scan finds them again.
+ */
+export function mergeSongs(keeperPath: string, duplicatePaths: string[]): MergeSummary {
+  const summary: MergeSummary = { tags: 0, connections: 0, playlistItems: 0, moodboardNodes: 0 };
+  client.transaction(() => {
+    for (const duplicate of duplicatePaths) {
+      if (duplicate === keeperPath) continue;
+      moveSongReferences(keeperPath, duplicate, summary);
+      client.prepare('UPDATE mp3_file_cache SET merged_into = ? WHERE file_path = ?').run(keeperPath, duplicate);
+      client.prepare('DELETE FROM song_fingerprints WHERE file_path = ?').run(duplicate);
+    }
+  })();
+  return summary;
+}
+
+/** Tables with one row per song, keyed by file_path, that a rename carries over whole */
+const PER_SONG_TABLES = [
+  'song_mix_points', 'song_audio_features', 'song_loudness', 'song_fingerprints', 'song_quality',
+];
+
+/**
+ * A file was renamed or moved: carry everything over to the new path. On
+ * top of what a merge moves this carries the canvas position, cue points,
+ * hot cues, analysis results, play history, tag edits still waiting to be
+ * written and the cache row itself — so a detected BPM or key and a manual
+ * energy level survive the rescan of the new path (see insertMP3Cache).
+ */
+export function renameSong(fromPath: string, toPath: string): void {
+  client.transaction(() => {
+    moveSongReferences(toPath, fromPath, { tags: 0, connections: 0, playlistItems: 0, moodboardNodes: 0 });
+    client.prepare('UPDATE OR IGNORE canvas_positions SET node_id = ? WHERE node_id = ?').run(songNodeId(toPath), songNodeId(fromPath));
+    client.prepare('DELETE FROM canvas_positions WHERE node_id = ?').run(songNodeId(fromPath));
+    client.prepare('UPDATE OR IGNORE song_cue_points SET file_path = ? WHERE file_path = ?').run(toPath, fromPath);
+    client.prepare('DELETE FROM song_cue_points WHERE file_path = ?').run(fromPath);
+    client.prepare('UPDATE OR IGNORE song_hot_cues SET file_path = ? WHERE file_path = ?').run(toPath, fromPath);
+    client.prepare('DELETE FROM song_hot_cues WHERE file_path = ?').run(fromPath);
+    for (const table of PER_SONG_TABLES) {
+      client.prepare(`UPDATE OR IGNORE ${table} SET file_path = ? WHERE file_path = ?`).run(toPath, fromPath);
+      client.prepare(`DELETE FROM ${table} WHERE file_path = ?`).run(fromPath);
+    }
+    client.prepare('UPDATE OR IGNORE song_play_counts SET file_path = ? WHERE file_path = ?').run(toPath, fromPath);
+    client.prepare('DELETE FROM song_play_counts WHERE file_path = ?').run(fromPath);
+    client.prepare('UPDATE play_history SET file_path = ? WHERE file_path = ?').run(toPath, fromPath);
+    client.prepare("UPDATE mp3_pending_edits SET file_path = ? WHERE file_path = ? AND status = 'pending'").run(toPath, fromPath);
+    client.prepare("UPDATE mp3_pending_tag_edits SET file_path = ? WHERE file_path = ? AND status = 'pending'").run(toPath, fromPath);
+    // Left behind when the new path is already cached; the removed-file cleanup drops it
+    client.prepare('UPDATE OR IGNORE mp3_file_cache SET file_path = ? WHERE file_path = ?').run(toPath, fromPath);
+    client.prepare('UPDATE mp3_file_cache SET merged_into = ? WHERE merged_into = ?').run(toPath, fromPath);
+  })();
+}
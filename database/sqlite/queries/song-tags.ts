@@ -4,7 +4,7 @@ import * as queries from '../schema/song-tags';
 const client = db();
 
 export type TagCategory = 'genre' | 'phase' | 'mood' | 'topic' | 'custom';
-export type TagSource = 'manual' | 'id3_import' | 'auto_discovered';
+export type TagSource = 'manual' | 'id3_import' | 'auto_discovered' | 'rekordbox_import' | 'traktor_import';
 
 export interface SongTag {
   id: number;
@@ -11,4 +11,8 @@ import './playlists';
 import './song-tags';
 import './phase-edges';
 import './phase-versions';
+import './song-cues';
+import './audio-features';
+import './play-queue';
+import './play-history';
 import './migrate-legacy';
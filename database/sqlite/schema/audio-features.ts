@@ -0,0 +1,75 @@
+import { db } from '../db';
+
+const client = db();
+
+/**
+ * Measurements from audio analysis, one row per song. Kept so models that
+ * are fitted to the library (energy) can be refitted without decoding again.
+ */
+client.exec(`
+  CREATE TABLE IF NOT EXISTS song_audio_features (
+    file_path TEXT PRIMARY KEY,
+    loudness_db REAL,
+    onset_flux REAL,
+    onset_density REAL,
+    bpm REAL,
+    analyzed_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+`);
+
+/**
+ * BS.1770 loudness per song, for level-matched previews and ReplayGain.
+ * Separate from song_audio_features: every analysis records it, not just energy.
+ */
+client.exec(`
+  CREATE TABLE IF NOT EXISTS song_loudness (
+    file_path TEXT PRIMARY KEY,
+    integrated_lufs REAL NOT NULL,
+    true_peak_db REAL NOT NULL,
+    analyzed_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+`);
+
+/**
+ * Suggested mix-in/mix-out points per song (lib/mix-points). A row of its own
+ * rather than cues: two points may fall on the same second, e.g. a track that
+ * is full-energy from its first phrase.
+ */
+client.exec(`
+  CREATE TABLE IF NOT EXISTS song_mix_points (
+    file_path TEXT PRIMARY KEY,
+    audio_start REAL NOT NULL,
+    audio_end REAL NOT NULL,
+    intro_end REAL,
+    outro_start REAL,
+    analyzed_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+`);
+
+/**
+ * Acoustic fingerprint per song (little-endian uint32 words, see lib/fingerprint),
+ * used to find the same recording filed under several paths.
+ */
+client.exec(`
+  CREATE TABLE IF NOT EXISTS song_fingerprints (
+    file_path TEXT PRIMARY KEY,
+    fingerprint BLOB NOT NULL,
+    duration REAL NOT NULL,
+    analyzed_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+`);
+
+/** Quality audit verdict per song (lib/quality-audit); issues is a JSON array of QualityIssue */
+client.exec(`
+  CREATE TABLE IF NOT EXISTS song_quality (
+    file_path TEXT PRIMARY KEY,
+    verdict TEXT NOT NULL CHECK(verdict IN ('ok', 'warning', 'bad')),
+    issues TEXT NOT NULL DEFAULT '[]',
+    cutoff_hz REAL,
+    bitrate INTEGER,
+    sample_rate INTEGER,
+    channels INTEGER,
+    clipped_runs_per_minute REAL,
+    analyzed_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+`);
@@ -49,7 +49,12 @@ client.exec(`
     camelot_key TEXT,
     bpm REAL,
     energy_level INTEGER,
-    label TEXT
+    label TEXT,
+    bpm_source TEXT,
+    bpm_confidence REAL,
+    key_source TEXT,
+    key_confidence REAL,
+    energy_source TEXT
   );
 `);
 
@@ -60,6 +65,16 @@ if (!cacheColumns.includes('camelot_key')) client.exec('ALTER TABLE mp3_file_cac
 if (!cacheColumns.includes('bpm')) client.exec('ALTER TABLE mp3_file_cache ADD COLUMN bpm REAL');
 if (!cacheColumns.includes('energy_level')) client.exec('ALTER TABLE mp3_file_cache ADD COLUMN energy_level INTEGER');
 if (!cacheColumns.includes('label')) client.exec('ALTER TABLE mp3_file_cache ADD COLUMN label TEXT');
+// 'tag' when bpm came from the file's TBPM, 'detected' when it came from audio analysis
+if (!cacheColumns.includes('bpm_source')) client.exec('ALTER TABLE mp3_file_cache ADD COLUMN bpm_source TEXT');
+if (!cacheColumns.includes('bpm_confidence')) client.exec('ALTER TABLE mp3_file_cache ADD COLUMN bpm_confidence REAL');
+// Same for key/camelot_key: 'tag' (TKEY) or 'detected'
+if (!cacheColumns.includes('key_source')) client.exec('ALTER TABLE mp3_file_cache ADD COLUMN key_source TEXT');
+if (!cacheColumns.includes('key_confidence')) client.exec('ALTER TABLE mp3_file_cache ADD COLUMN key_confidence REAL');
+// energy_level: 'tag' (MIK EnergyLevel), 'detected', or 'manual' (a per-song override that beats both)
+if (!cacheColumns.includes('energy_source')) client.exec('ALTER TABLE mp3_file_cache ADD COLUMN energy_source TEXT');
+// Set on a duplicate copy merged onto another song: the file stays on disk but leaves the library
+if (!cacheColumns.includes('merged_into')) client.exec('ALTER TABLE mp3_file_cache ADD COLUMN merged_into TEXT');
 
 // Create indexes for performance
 client.exec(`
@@ -129,16 +144,89 @@ export const reorderSetItems = `
 `;
 
 // SQL queries for MP3 file cache
+// A rescan refreshes tag data but keeps a detected BPM, key or energy when the file still
+// has no tag for it, and always keeps a manual energy override
 export const insertMP3Cache = `
-  INSERT OR REPLACE INTO mp3_file_cache 
-  (file_path, filename, artist, title, album, duration, file_size, last_modified, key, camelot_key, bpm, energy_level, label)
-  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);
+  INSERT INTO mp3_file_cache 
+  (file_path, filename, artist, title, album, duration, file_size, last_modified, key, camelot_key, bpm, energy_level, label, bpm_source, key_source, energy_source)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  ON CONFLICT(file_path) DO UPDATE SET
+    filename = excluded.filename,
+    artist = excluded.artist,
+    title = excluded.title,
+    album = excluded.album,
+    duration = excluded.duration,
+    file_size = excluded.file_size,
+    last_modified = excluded.last_modified,
+    indexed_at = CURRENT_TIMESTAMP,
+    label = excluded.label,
+    bpm = CASE
+      WHEN excluded.bpm IS NOT NULL THEN excluded.bpm
+      WHEN mp3_file_cache.bpm_source = 'detected' THEN mp3_file_cache.bpm
+    END,
+    bpm_source = CASE
+      WHEN excluded.bpm IS NOT NULL THEN 'tag'
+      WHEN mp3_file_cache.bpm_source = 'detected' THEN 'detected'
+    END,
+    bpm_confidence = CASE
+      WHEN excluded.bpm IS NULL AND mp3_file_cache.bpm_source = 'detected' THEN mp3_file_cache.bpm_confidence
+    END,
+    key = CASE
+      WHEN excluded.key IS NOT NULL THEN excluded.key
+      WHEN mp3_file_cache.key_source = 'detected' THEN mp3_file_cache.key
+    END,
+    camelot_key = CASE
+      WHEN excluded.key IS NOT NULL THEN excluded.camelot_key
+      WHEN mp3_file_cache.key_source = 'detected' THEN mp3_file_cache.camelot_key
+    END,
+    key_source = CASE
+      WHEN excluded.key IS NOT NULL THEN 'tag'
+      WHEN mp3_file_cache.key_source = 'detected' THEN 'detected'
+    END,
+    key_confidence = CASE
+      WHEN excluded.key IS NULL AND mp3_file_cache.key_source = 'detected' THEN mp3_file_cache.key_confidence
+    END,
+    energy_level = CASE
+      WHEN mp3_file_cache.energy_source = 'manual' THEN mp3_file_cache.energy_level
+      WHEN excluded.energy_level IS NOT NULL THEN excluded.energy_level
+      WHEN mp3_file_cache.energy_source = 'detected' THEN mp3_file_cache.energy_level
+    END,
+    energy_source = CASE
+      WHEN mp3_file_cache.energy_source = 'manual' THEN 'manual'
+      WHEN excluded.energy_level IS NOT NULL THEN 'tag'
+      WHEN mp3_file_cache.energy_source = 'detected' THEN 'detected'
+    END;
+`;
+
+export const setDetectedBpm = `
+  UPDATE mp3_file_cache
+  SET bpm = ?, bpm_source = 'detected', bpm_confidence = ?
+  WHERE file_path = ?;
+`;
+
+export const setDetectedKey = `
+  UPDATE mp3_file_cache
+  SET key = ?, camelot_key = ?, key_source = 'detected', key_confidence = ?
+  WHERE file_path = ?;
+`;
+
+export const setEnergyLevel = `
+  UPDATE mp3_file_cache
+  SET energy_level = ?, energy_source = ?
+  WHERE file_path = ?;
 `;
 
+// Play counts per cache row, looked up through idx_play_history_path so only
+// that song's history is read rather than grouping the whole table
+const playStatsColumns = `(SELECT COUNT(*) FROM play_history h WHERE h.file_path = mp3_file_cache.file_path AND h.skipped = 0) AS play_count,
+    (SELECT COUNT(*) FROM play_history h WHERE h.file_path = mp3_file_cache.file_path AND h.skipped = 1) AS skip_count,
+    (SELECT MAX(h.played_at) FROM play_history h WHERE h.file_path = mp3_file_cache.file_path AND h.skipped = 0) AS last_played`;
+
 export const searchMP3Cache = `
-  SELECT file_path, filename, artist, title, album, duration, key, camelot_key, bpm, energy_level, label
+  SELECT file_path, filename, artist, title, album, duration, key, camelot_key, bpm, energy_level, label, bpm_source, bpm_confidence, key_source, key_confidence, energy_source,
+    ${playStatsColumns}
   FROM mp3_file_cache
-  WHERE (artist LIKE ? OR title LIKE ? OR filename LIKE ?)
+  WHERE merged_into IS NULL AND (artist LIKE ? OR title LIKE ? OR filename LIKE ?)
   ORDER BY 
     CASE 
       WHEN title LIKE ? THEN 1
@@ -150,11 +238,18 @@ export const searchMP3Cache = `
 `;
 
 export const getMP3CacheByPath = `
-  SELECT file_path, filename, artist, title, album, duration, last_modified, key, camelot_key, bpm, energy_level, label
+  SELECT file_path, filename, artist, title, album, duration, file_size, last_modified, key, camelot_key, bpm, energy_level, label, bpm_source, bpm_confidence, key_source, key_confidence, energy_source,
+    ${playStatsColumns}
   FROM mp3_file_cache
   WHERE file_path = ?;
 `;
 
+// What the incremental scan compares against, plus title/artist for resolving related songs
+export const getMP3CacheIndex = `
+  SELECT file_path, file_size, last_modified, title, artist
+  FROM mp3_file_cache;
+`;
+
 export const deleteMP3Cache = `
   DELETE FROM mp3_file_cache
   WHERE file_path = ?;
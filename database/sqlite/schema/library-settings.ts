@@ -28,6 +28,32 @@ try {
   // Column might already exist, ignore the error
 }
 
+// Add traktor_tag_field column if it doesn't exist (for existing databases)
+try {
+  client.exec(`ALTER TABLE library_settings ADD COLUMN traktor_tag_field TEXT DEFAULT 'COMMENT2';`);
+} catch {
+  // Column might already exist, ignore the error
+}
+
+// Add VirtualDJ database columns if they don't exist (for existing databases)
+try {
+  client.exec(`ALTER TABLE library_settings ADD COLUMN vdj_database_path TEXT;`);
+} catch {
+  // Column might already exist, ignore the error
+}
+try {
+  client.exec(`ALTER TABLE library_settings ADD COLUMN vdj_database_only INTEGER DEFAULT 1;`);
+} catch {
+  // Column might already exist, ignore the error
+}
+
+// Add media_shortcuts column if it doesn't exist (for existing databases)
+try {
+  client.exec(`ALTER TABLE library_settings ADD COLUMN media_shortcuts TEXT;`);
+} catch {
+  // Column might already exist, ignore the error
+}
+
 export const setBaseFolder = `
   INSERT INTO library_settings (id, base_folder)
   VALUES (1, ?)
@@ -57,3 +83,43 @@ export const setKeepPlayHead = `
 export const getKeepPlayHead = `
   SELECT keep_play_head FROM library_settings WHERE id = 1;
 `;
+
+export const setTraktorTagField = `
+  INSERT INTO library_settings (id, traktor_tag_field)
+  VALUES (1, ?)
+  ON CONFLICT(id) DO UPDATE SET traktor_tag_field = excluded.traktor_tag_field;
+`;
+
+export const getTraktorTagField = `
+  SELECT traktor_tag_field FROM library_settings WHERE id = 1;
+`;
+
+export const setVdjDatabasePath = `
+  INSERT INTO library_settings (id, vdj_database_path)
+  VALUES (1, ?)
+  ON CONFLICT(id) DO UPDATE SET vdj_database_path = excluded.vdj_database_path;
+`;
+
+export const getVdjDatabasePath = `
+  SELECT vdj_database_path FROM library_settings WHERE id = 1;
+`;
+
+export const setVdjDatabaseOnly = `
+  INSERT INTO library_settings (id, vdj_database_only)
+  VALUES (1, ?)
+  ON CONFLICT(id) DO UPDATE SET vdj_database_only = excluded.vdj_database_only;
+`;
+
+export const getVdjDatabaseOnly = `
+  SELECT vdj_database_only FROM library_settings WHERE id = 1;
+`;
+
+export const setMediaShortcuts = `
+  INSERT INTO library_settings (id, media_shortcuts)
+  VALUES (1, ?)
+  ON CONFLICT(id) DO UPDATE SET media_shortcuts = excluded.media_shortcuts;
+`;
+
+export const getMediaShortcuts = `
+  SELECT media_shortcuts FROM library_settings WHERE id = 1;
+`;
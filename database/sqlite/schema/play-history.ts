@@ -0,0 +1,19 @@
+import { db } from '../db';
+
+const client = db();
+
+/**
+ * One row per listen the player reported: a counted play, or a skip when the
+ * track was left before the listen threshold (see lib/play-history).
+ */
+client.exec(`
+  CREATE TABLE IF NOT EXISTS play_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    file_path TEXT NOT NULL,
+    played_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    listened_seconds REAL NOT NULL,
+    skipped INTEGER NOT NULL DEFAULT 0
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_play_history_path ON play_history(file_path, played_at);
+`);
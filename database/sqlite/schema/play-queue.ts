@@ -0,0 +1,16 @@
+import { db } from '../db';
+
+const client = db();
+
+/**
+ * The player's queue, saved so it survives a reload: the current track, the
+ * songs coming up and the ones already played, each in order.
+ */
+client.exec(`
+  CREATE TABLE IF NOT EXISTS play_queue (
+    list TEXT NOT NULL CHECK(list IN ('current', 'upcoming', 'history')),
+    position INTEGER NOT NULL,
+    file_path TEXT NOT NULL,
+    PRIMARY KEY (list, position)
+  );
+`);
@@ -3,21 +3,44 @@ import { db } from '../db';
 
 const client = db();
 
+/** Allowed values of song_connections.source */
+export const CONNECTION_SOURCES = ['manual', 'id3_import', 'auto_discovered', 'rekordbox_import', 'traktor_import', 'audition'] as const;
+
+function createSongConnectionsTable(name: string): string {
+  return `
+    CREATE TABLE IF NOT EXISTS ${name} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      source_path TEXT NOT NULL,
+      target_path TEXT NOT NULL,
+      connection_type TEXT NOT NULL CHECK(connection_type IN ('similarity', 'transition', 'remix', 'custom')),
+      weight REAL DEFAULT 1.0 CHECK(weight >= 0 AND weight <= 1),
+      source TEXT DEFAULT 'manual' CHECK(source IN (${CONNECTION_SOURCES.map(s => `'${s}'`).join(', ')})),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(source_path, target_path, connection_type)
+    );
+  `;
+}
+
 /**
  * SQLite Schema for Song Connections
  */
-client.exec(`
-  CREATE TABLE IF NOT EXISTS song_connections (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    source_path TEXT NOT NULL,
-    target_path TEXT NOT NULL,
-    connection_type TEXT NOT NULL CHECK(connection_type IN ('similarity', 'transition', 'remix', 'custom')),
-    weight REAL DEFAULT 1.0 CHECK(weight >= 0 AND weight <= 1),
-    source TEXT DEFAULT 'manual' CHECK(source IN ('manual', 'id3_import', 'auto_discovered')),
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    UNIQUE(source_path, target_path, connection_type)
-  );
-`);
+client.exec(createSongConnectionsTable('song_connections'));
+
+// SQLite can't alter a CHECK constraint — rebuild tables created with an older source list
+const songConnectionsSql = (client.prepare(
+  "SELECT sql FROM sqlite_master WHERE type='table' AND name='song_connections'"
+).get() as { sql: string }).sql;
+if (!CONNECTION_SOURCES.every(s => songConnectionsSql.includes(`'${s}'`))) {
+  client.transaction(() => {
+    client.exec(createSongConnectionsTable('song_connections_new'));
+    client.exec(`
+      INSERT INTO song_connections_new (id, source_path, target_path, connection_type, weight, source, created_at)
+      SELECT id, source_path, target_path, connection_type, weight, source, created_at FROM song_connections;
+    `);
+    client.exec('DROP TABLE song_connections');
+    client.exec('ALTER TABLE song_connections_new RENAME TO song_connections');
+  })();
+}
 
 // Create indexes for performance
 client.exec(`
@@ -0,0 +1,52 @@
+import { db } from '../db';
+import { HOT_CUE_SLOTS } from '../../../lib/hot-cues';
+
+const client = db();
+
+/**
+ * Cue points per song. Imported cues keep their origin in `source`
+ * so a re-import can replace them without touching manual ones.
+ */
+client.exec(`
+  CREATE TABLE IF NOT EXISTS song_cue_points (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    file_path TEXT NOT NULL,
+    position REAL NOT NULL,
+    name TEXT,
+    cue_number INTEGER,
+    source TEXT DEFAULT 'manual' CHECK(source IN ('manual', 'vdj_import')),
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(file_path, position, source)
+  );
+`);
+
+client.exec(`CREATE INDEX IF NOT EXISTS idx_song_cue_points_file ON song_cue_points(file_path);`);
+
+/**
+ * Hot cues and saved loops (lib/hot-cues): one row per numbered pad of a
+ * song, so two pads may hold the same position. `loop_end` makes a pad a loop.
+ */
+client.exec(`
+  CREATE TABLE IF NOT EXISTS song_hot_cues (
+    file_path TEXT NOT NULL,
+    slot INTEGER NOT NULL CHECK(slot BETWEEN 1 AND ${HOT_CUE_SLOTS}),
+    position REAL NOT NULL,
+    name TEXT,
+    loop_end REAL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (file_path, slot)
+  );
+`);
+
+/**
+ * Play counts reported by other DJ software, one row per song and source.
+ */
+client.exec(`
+  CREATE TABLE IF NOT EXISTS song_play_counts (
+    file_path TEXT NOT NULL,
+    source TEXT NOT NULL,
+    play_count INTEGER NOT NULL DEFAULT 0,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (file_path, source)
+  );
+`);
@@ -3,20 +3,43 @@ import { db } from '../db';
 
 const client = db();
 
+/** Allowed values of song_tags.source */
+export const TAG_SOURCES = ['manual', 'id3_import', 'auto_discovered', 'rekordbox_import', 'traktor_import'] as const;
+
+function createSongTagsTable(name: string): string {
+  return `
+    CREATE TABLE IF NOT EXISTS ${name} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      file_path TEXT NOT NULL,
+      tag_label TEXT NOT NULL,
+      tag_category TEXT NOT NULL CHECK(tag_category IN ('genre', 'phase', 'mood', 'topic', 'custom')),
+      source TEXT DEFAULT 'manual' CHECK(source IN (${TAG_SOURCES.map(s => `'${s}'`).join(', ')})),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(file_path, tag_label, tag_category)
+    );
+  `;
+}
+
 /**
  * SQLite Schema for Song Tags
  */
-client.exec(`
-  CREATE TABLE IF NOT EXISTS song_tags (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    file_path TEXT NOT NULL,
-    tag_label TEXT NOT NULL,
-    tag_category TEXT NOT NULL CHECK(tag_category IN ('genre', 'phase', 'mood', 'topic', 'custom')),
-    source TEXT DEFAULT 'manual' CHECK(source IN ('manual', 'id3_import', 'auto_discovered')),
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    UNIQUE(file_path, tag_label, tag_category)
-  );
-`);
+client.exec(createSongTagsTable('song_tags'));
+
+// SQLite can't alter a CHECK constraint — rebuild tables created with an older source list
+const songTagsSql = (client.prepare(
+  "SELECT sql FROM sqlite_master WHERE type='table' AND name='song_tags'"
+).get() as { sql: string }).sql;
+if (!TAG_SOURCES.every(s => songTagsSql.includes(`'${s}'`))) {
+  client.transaction(() => {
+    client.exec(createSongTagsTable('song_tags_new'));
+    client.exec(`
+      INSERT INTO song_tags_new (id, file_path, tag_label, tag_category, source, created_at)
+      SELECT id, file_path, tag_label, tag_category, source, created_at FROM song_tags;
+    `);
+    client.exec('DROP TABLE song_tags');
+    client.exec('ALTER TABLE song_tags_new RENAME TO song_tags');
+  })();
+}
 
 // Create indexes for performance
 client.exec(`
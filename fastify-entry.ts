@@ -5,11 +5,17 @@ import { createReadStream } from "node:fs";
 import { stat } from "node:fs/promises";
 import { parseFile } from "music-metadata";
 import { fetchInternetCoverArt } from './lib/cover-art-fetcher';
+import { audioContentType } from './lib/mp3-metadata';
+import { waveformCache } from './lib/waveform-cache';
+import { pickWaveformLevel } from './lib/waveform';
 import { vikeHandler } from "./server/vike-handler";
 import { telefuncHandler } from "./server/telefunc-handler";
 import Fastify from "fastify";
 import { createHandler, createMiddleware } from "@universal-middleware/fastify";
 import { dbMiddleware } from "./server/db-middleware";
+import { watchLibrary, subscribeLibraryChanges } from "./server/library-watcher";
+import { readBaseFolder } from "./database/sqlite/queries/library-settings";
+import { LIBRARY_EVENTS_PATH } from "./lib/library-events";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -66,7 +72,7 @@ async function startServer() {
       const fileSize = stats.size;
 
       // Set content type
-      reply.header('Content-Type', 'audio/mpeg');
+      reply.header('Content-Type', audioContentType(filePath));
       reply.header('Accept-Ranges', 'bytes');
 
       // Handle range requests for seeking support
@@ -95,6 +101,29 @@ async function startServer() {
     }
   });
 
+  // Waveform peaks — decoded once per file version, then served from .waveform-cache
+  app.get<{ Params: { '*': string }; Querystring: { points?: string } }>('/waveform/*', async (request, reply) => {
+    const filePath = request.params['*'];
+    if (!filePath) return reply.code(400).send({ error: 'File path required' });
+
+    try {
+      await stat(filePath);
+    } catch {
+      return reply.code(404).send({ error: 'File not found' });
+    }
+
+    try {
+      const waveform = await waveformCache.getOrGenerate(filePath);
+      const points = parseInt(request.query.points ?? '', 10);
+      const level = pickWaveformLevel(waveform, Number.isFinite(points) ? points : 0);
+      reply.header('Cache-Control', 'public, max-age=3600');
+      return reply.send({ duration: waveform.duration, ...level });
+    } catch (error) {
+      console.error('Error generating waveform:', error);
+      return reply.code(422).send({ error: error instanceof Error ? error.message : 'Failed to generate waveform' });
+    }
+  });
+
   // Artwork serving — embedded MP3 art → MusicBrainz/CAA → placeholder
   app.get<{ Params: { '*': string } }>('/artwork/*', async (request, reply) => {
     const filePath = request.params['*'];
@@ -145,6 +174,26 @@ async function startServer() {
     return reply.send(makePlaceholder(filename));
   });
 
+  // Library changes from the folder watcher, pushed to open windows as server-sent events
+  app.get(LIBRARY_EVENTS_PATH, (request, reply) => {
+    reply.hijack();
+    reply.raw.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    });
+    reply.raw.write(': connected\n\n');
+    const unsubscribe = subscribeLibraryChanges((change) => {
+      reply.raw.write(`data: ${JSON.stringify(change)}\n\n`);
+    });
+    // Comment lines keep idle proxies from closing the stream
+    const heartbeat = setInterval(() => reply.raw.write(': ping\n\n'), 30_000);
+    request.raw.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
   app.post<{ Body: string }>("/_telefunc", createHandler(telefuncHandler)());
 
   /**
@@ -159,6 +208,8 @@ async function startServer() {
 
 const app = await startServer();
 
+watchLibrary(readBaseFolder());
+
 app.listen(
   {
     port: port,
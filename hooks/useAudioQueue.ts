@@ -1,10 +1,17 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import type { MP3Metadata } from '../lib/mp3-metadata';
+import { onLoadPlayQueue, onSavePlayQueue } from '../components/PlayQueue.telefunc';
 
 interface AudioQueueStateBase {
   volume: number;
   keepPlayHead: boolean;
   savedPosition: number;
+  /** Songs to play after the current one, in order */
+  upcoming: MP3Metadata[];
+  /** Songs played before the current one, oldest first */
+  history: MP3Metadata[];
+  /** False for a track restored from a saved queue, which waits for the play button */
+  autoPlay: boolean;
 }
 
 interface AudioQueueIdle extends AudioQueueStateBase {
@@ -28,6 +35,31 @@ export interface AudioQueueActions {
   clearTrack: () => void;
   setKeepPlayHead: (enabled: boolean) => void;
   setCurrentTime: (time: number) => void;
+  /** Play the first track now and queue the rest in its place */
+  playAll: (tracks: MP3Metadata[]) => void;
+  /** Add tracks to the end of the queue */
+  enqueue: (tracks: MP3Metadata[]) => void;
+  /** Put a track at the front of the queue */
+  playNext: (track: MP3Metadata) => void;
+  removeFromQueue: (index: number) => void;
+  moveInQueue: (from: number, to: number) => void;
+  clearQueue: () => void;
+  /** Advance to the next queued track; stops when the queue is empty */
+  next: () => void;
+  /** Go back to the last played track */
+  previous: () => void;
+}
+
+/** Played tracks kept for "previous"; older ones are dropped */
+const MAX_HISTORY = 100;
+const SAVE_DELAY_MS = 500;
+
+function withoutPath(tracks: MP3Metadata[], filePath: string): MP3Metadata[] {
+  return tracks.filter(t => t.filePath !== filePath);
+}
+
+function pushHistory(history: MP3Metadata[], track: MP3Metadata | null): MP3Metadata[] {
+  return track ? [...history, track].slice(-MAX_HISTORY) : history;
 }
 
 export function useAudioQueue(): AudioQueueState & AudioQueueActions {
@@ -36,8 +68,47 @@ export function useAudioQueue(): AudioQueueState & AudioQueueActions {
     isPlaying: false,
     volume: 1,
     keepPlayHead: false,
-    savedPosition: 0
+    savedPosition: 0,
+    upcoming: [],
+    history: [],
+    autoPlay: true,
   });
+  const restoredRef = useRef(false);
+
+  // Restore the saved queue once; the current track comes back paused
+  useEffect(() => {
+    let cancelled = false;
+    onLoadPlayQueue()
+      .then(saved => {
+        if (cancelled) return;
+        setState(prev => {
+          // Something was played before the saved queue arrived — keep that
+          if (prev.currentTrack || prev.upcoming.length > 0) return prev;
+          return saved.current
+            ? { ...prev, currentTrack: saved.current, isPlaying: false, autoPlay: false, upcoming: saved.upcoming, history: saved.history }
+            : { ...prev, upcoming: saved.upcoming, history: saved.history };
+        });
+      })
+      .catch(error => console.warn('[useAudioQueue] Could not restore the queue', error))
+      .finally(() => { restoredRef.current = true; });
+    return () => { cancelled = true; };
+  }, []);
+
+  // Save whenever the queue changes, but not the empty queue we start with
+  const currentPath = state.currentTrack?.filePath ?? null;
+  const upcomingPaths = state.upcoming.map(t => t.filePath).join('\n');
+  const historyPaths = state.history.map(t => t.filePath).join('\n');
+  useEffect(() => {
+    if (!restoredRef.current) return;
+    const timer = setTimeout(() => {
+      onSavePlayQueue({
+        current: currentPath,
+        upcoming: upcomingPaths ? upcomingPaths.split('\n') : [],
+        history: historyPaths ? historyPaths.split('\n') : [],
+      }).catch(error => console.warn('[useAudioQueue] Could not save the queue', error));
+    }, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [currentPath, upcomingPaths, historyPaths]);
 
   const playTrack = useCallback((track: MP3Metadata) => {
     setState(prev => {
@@ -50,6 +121,9 @@ export function useAudioQueue(): AudioQueueState & AudioQueueActions {
         ...prev,
         currentTrack: track,
         isPlaying: false,
+        autoPlay: true,
+        history: pushHistory(prev.history, prev.currentTrack),
+        upcoming: withoutPath(prev.upcoming, track.filePath),
         savedPosition: prev.keepPlayHead ? prev.savedPosition : 0
       } as AudioQueueState;
     });
@@ -90,6 +164,85 @@ export function useAudioQueue(): AudioQueueState & AudioQueueActions {
     setState(prev => ({ ...prev, savedPosition: time }) as AudioQueueState);
   }, []);
 
+  const playAll = useCallback((tracks: MP3Metadata[]) => {
+    const [first, ...rest] = tracks;
+    if (!first) return;
+    setState(prev => ({
+      ...prev,
+      currentTrack: first,
+      isPlaying: false,
+      autoPlay: true,
+      savedPosition: 0,
+      history: prev.currentTrack?.filePath === first.filePath ? prev.history : pushHistory(prev.history, prev.currentTrack),
+      upcoming: rest,
+    }) as AudioQueueState);
+  }, []);
+
+  const enqueue = useCallback((tracks: MP3Metadata[]) => {
+    setState(prev => {
+      const queued = new Set(prev.upcoming.map(t => t.filePath));
+      const added = tracks.filter(t => !queued.has(t.filePath) && t.filePath !== prev.currentTrack?.filePath);
+      return { ...prev, upcoming: [...prev.upcoming, ...added] } as AudioQueueState;
+    });
+  }, []);
+
+  const playNext = useCallback((track: MP3Metadata) => {
+    setState(prev => {
+      if (prev.currentTrack?.filePath === track.filePath) return prev;
+      return { ...prev, upcoming: [track, ...withoutPath(prev.upcoming, track.filePath)] } as AudioQueueState;
+    });
+  }, []);
+
+  const removeFromQueue = useCallback((index: number) => {
+    setState(prev => ({ ...prev, upcoming: prev.upcoming.filter((_, i) => i !== index) }) as AudioQueueState);
+  }, []);
+
+  const moveInQueue = useCallback((from: number, to: number) => {
+    setState(prev => {
+      if (from === to || !prev.upcoming[from] || to < 0 || to >= prev.upcoming.length) return prev;
+      const upcoming = [...prev.upcoming];
+      const [moved] = upcoming.splice(from, 1);
+      upcoming.splice(to, 0, moved);
+      return { ...prev, upcoming } as AudioQueueState;
+    });
+  }, []);
+
+  const clearQueue = useCallback(() => {
+    setState(prev => ({ ...prev, upcoming: [] }) as AudioQueueState);
+  }, []);
+
+  const next = useCallback(() => {
+    setState(prev => {
+      const [nextTrack, ...rest] = prev.upcoming;
+      if (!nextTrack) return { ...prev, isPlaying: false } as AudioQueueState;
+      return {
+        ...prev,
+        currentTrack: nextTrack,
+        isPlaying: false,
+        autoPlay: true,
+        savedPosition: 0,
+        history: pushHistory(prev.history, prev.currentTrack),
+        upcoming: rest,
+      } as AudioQueueState;
+    });
+  }, []);
+
+  const previous = useCallback(() => {
+    setState(prev => {
+      const last = prev.history[prev.history.length - 1];
+      if (!last) return prev;
+      return {
+        ...prev,
+        currentTrack: last,
+        isPlaying: false,
+        autoPlay: true,
+        savedPosition: 0,
+        history: prev.history.slice(0, -1),
+        upcoming: prev.currentTrack ? [prev.currentTrack, ...prev.upcoming] : prev.upcoming,
+      } as AudioQueueState;
+    });
+  }, []);
+
   return {
     ...state,
     playTrack,
@@ -98,6 +251,14 @@ export function useAudioQueue(): AudioQueueState & AudioQueueActions {
     setVolume,
     clearTrack,
     setKeepPlayHead,
-    setCurrentTime
+    setCurrentTime,
+    playAll,
+    enqueue,
+    playNext,
+    removeFromQueue,
+    moveInQueue,
+    clearQueue,
+    next,
+    previous
   };
 }
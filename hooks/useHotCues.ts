@@ -0,0 +1,167 @@
+import { useState, useCallback, useEffect, type RefObject } from 'react';
+import {
+  onGetHotCues, onSetHotCue, onDeleteHotCue, onImportHotCues, onExportHotCues,
+} from '../components/HotCues.telefunc';
+import { isHotCueSlot, loopEndForBeats, type HotCue, type HotCueSource } from '../lib/hot-cues';
+import { showError, showSuccess } from '../lib/notifications';
+
+export interface HotCueActions {
+  /** Jump to a slot and play; an empty slot is set at the playhead, a loop toggles */
+  trigger: (slot: number) => void;
+  /** Set a slot to the playhead, replacing what was there */
+  set: (slot: number) => void;
+  /** Turn a slot into a loop of `beats`, from its cue or the playhead */
+  setLoop: (slot: number, beats: number) => void;
+  rename: (slot: number, name: string) => void;
+  remove: (slot: number) => void;
+  importFrom: (source: HotCueSource) => void;
+  exportTo: (target: HotCueSource) => void;
+}
+
+/** Past a loop's end by more than this, the listener seeked away rather than played through */
+const LOOP_EXIT_SECONDS = 0.5;
+const SOURCE_NAMES: Record<HotCueSource, string> = { serato: 'Serato', vdj: 'VirtualDJ' };
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback;
+}
+
+/**
+ * Hot cues of the loaded song, bound to its `<audio>` element: Alt+1–8
+ * triggers a slot and Alt+Shift+1–8 sets it. Alt rather than bare digits:
+ * the player stays mounted over the Set View, where plain and shifted digits
+ * toggle genre and mood tags on the selected songs and the playback keys
+ * (seek, volume) are on Alt already.
+ */
+export function useHotCues(
+  audioRef: RefObject<HTMLAudioElement | null>,
+  filePath: string | null,
+  bpm: number | null,
+  play: () => void,
+): { cues: HotCue[]; activeLoop: number | null } & HotCueActions {
+  const [cues, setCues] = useState<HotCue[]>([]);
+  const [activeLoop, setActiveLoop] = useState<number | null>(null);
+
+  useEffect(() => {
+    setCues([]);
+    setActiveLoop(null);
+    if (!filePath) return;
+    let cancelled = false;
+    onGetHotCues(filePath)
+      .then(loaded => { if (!cancelled) setCues(loaded); })
+      .catch(() => { /* no cues */ });
+    return () => { cancelled = true; };
+  }, [filePath]);
+
+  // Hold the playhead inside the active loop; seeking out of it ends the loop
+  useEffect(() => {
+    const loop = cues.find(c => c.slot === activeLoop);
+    const audio = audioRef.current;
+    if (!loop || loop.loopEnd == null || !audio) return;
+    const end = loop.loopEnd;
+    let frame = 0;
+    const tick = () => {
+      const time = audio.currentTime;
+      if (time < loop.position - LOOP_EXIT_SECONDS || time > end + LOOP_EXIT_SECONDS) {
+        setActiveLoop(null);
+        return;
+      }
+      if (time >= end) audio.currentTime = loop.position;
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [audioRef, cues, activeLoop]);
+
+  const save = useCallback(async (cue: HotCue) => {
+    if (!filePath) return;
+    try {
+      setCues(await onSetHotCue(filePath, cue));
+    } catch (error) {
+      showError({ message: errorMessage(error, 'Could not save the cue') });
+    }
+  }, [filePath]);
+
+  const playhead = useCallback(() => Math.round((audioRef.current?.currentTime ?? 0) * 1000) / 1000, [audioRef]);
+
+  const set = useCallback((slot: number) => {
+    void save({ slot, position: playhead(), name: '', loopEnd: null });
+  }, [save, playhead]);
+
+  const trigger = useCallback((slot: number) => {
+    const audio = audioRef.current;
+    const cue = cues.find(c => c.slot === slot);
+    if (!audio) return;
+    if (!cue) {
+      set(slot);
+      return;
+    }
+    if (cue.loopEnd != null && activeLoop === slot) {
+      setActiveLoop(null);
+      return;
+    }
+    audio.currentTime = cue.position;
+    setActiveLoop(cue.loopEnd != null ? slot : null);
+    if (audio.paused) play();
+  }, [audioRef, cues, activeLoop, set, play]);
+
+  const setLoop = useCallback((slot: number, beats: number) => {
+    const start = cues.find(c => c.slot === slot)?.position ?? playhead();
+    const loopEnd = loopEndForBeats(start, beats, bpm);
+    if (loopEnd == null) {
+      showError({ message: 'Saving a loop needs the song\'s BPM' });
+      return;
+    }
+    const name = cues.find(c => c.slot === slot)?.name ?? '';
+    void save({ slot, position: start, name, loopEnd });
+  }, [cues, playhead, bpm, save]);
+
+  const rename = useCallback((slot: number, name: string) => {
+    const cue = cues.find(c => c.slot === slot);
+    if (cue && cue.name !== name) void save({ ...cue, name });
+  }, [cues, save]);
+
+  const remove = useCallback((slot: number) => {
+    if (!filePath) return;
+    if (activeLoop === slot) setActiveLoop(null);
+    onDeleteHotCue(filePath, slot)
+      .then(setCues)
+      .catch(error => showError({ message: errorMessage(error, 'Could not delete the cue') }));
+  }, [filePath, activeLoop]);
+
+  const importFrom = useCallback((source: HotCueSource) => {
+    if (!filePath) return;
+    onImportHotCues(filePath, source)
+      .then(imported => {
+        setCues(imported);
+        showSuccess({ title: 'Cues Imported', message: `Hot cues loaded from ${SOURCE_NAMES[source]}` });
+      })
+      .catch(error => showError({ message: errorMessage(error, 'Could not import cues') }));
+  }, [filePath]);
+
+  const exportTo = useCallback((target: HotCueSource) => {
+    if (!filePath) return;
+    onExportHotCues(filePath, target)
+      .then(count => showSuccess({ title: 'Cues Exported', message: `${count} cue${count === 1 ? '' : 's'} written to ${SOURCE_NAMES[target]}` }))
+      .catch(error => showError({ message: errorMessage(error, 'Could not export cues') }));
+  }, [filePath]);
+
+  useEffect(() => {
+    if (!filePath) return;
+    const handler = (e: KeyboardEvent) => {
+      if (!e.altKey || e.ctrlKey || e.metaKey) return;
+      const tag = (e.target as HTMLElement)?.tagName;
+      if (tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT') return;
+      // e.code, since Alt+digit types a symbol on macOS
+      const slot = Number(/^Digit(\d)$/.exec(e.code)?.[1]);
+      if (!isHotCueSlot(slot)) return;
+      e.preventDefault();
+      if (e.shiftKey) set(slot);
+      else trigger(slot);
+    };
+    document.addEventListener('keydown', handler);
+    return () => document.removeEventListener('keydown', handler);
+  }, [filePath, set, trigger]);
+
+  return { cues, activeLoop, trigger, set, setLoop, rename, remove, importFrom, exportTo };
+}
@@ -0,0 +1,22 @@
+import { useEffect } from 'react';
+import { LIBRARY_EVENTS_PATH, dispatchLibraryChange, type LibraryChange } from '../lib/library-events';
+
+/**
+ * Opens the server's library change stream for this window and re-dispatches
+ * each change for views to pick up with onLibraryChange. EventSource
+ * reconnects by itself after a server restart.
+ */
+export function useLibraryEventStream() {
+  useEffect(() => {
+    if (typeof EventSource === 'undefined') return;
+    const source = new EventSource(LIBRARY_EVENTS_PATH);
+    source.onmessage = (e) => {
+      try {
+        dispatchLibraryChange(JSON.parse(e.data) as LibraryChange);
+      } catch (error) {
+        console.error('Bad library change event:', error);
+      }
+    };
+    return () => source.close();
+  }, []);
+}
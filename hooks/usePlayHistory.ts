@@ -0,0 +1,65 @@
+import { useEffect, useRef, type RefObject } from 'react';
+import { onRecordListen } from '../components/PlayHistory.telefunc';
+import { playThreshold } from '../lib/play-history';
+
+/** Playhead moves bigger than this between time updates are seeks or loop jumps, not listening */
+const MAX_TICK_SECONDS = 1.5;
+
+interface Listen {
+  filePath: string;
+  listened: number;
+  lastTime: number | null;
+  counted: boolean;
+}
+
+function report(listen: Listen, duration: number): void {
+  if (listen.listened <= 0) return;
+  onRecordListen(listen.filePath, listen.listened, duration).catch(console.error);
+}
+
+/**
+ * Measure how long the loaded track is actually heard and report it to play
+ * history: as a play once it passes the listen threshold, or, if the track
+ * is left or ends before that, for the server to count as a skip.
+ */
+export function usePlayHistory(audioRef: RefObject<HTMLAudioElement | null>, filePath: string | null) {
+  const listenRef = useRef<Listen | null>(null);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !filePath) return;
+    const start = (): Listen => ({ filePath, listened: 0, lastTime: null, counted: false });
+    listenRef.current = start();
+
+    const onTimeUpdate = () => {
+      const listen = listenRef.current;
+      if (!listen) return;
+      const time = audio.currentTime;
+      if (!audio.paused && listen.lastTime !== null) {
+        const delta = time - listen.lastTime;
+        if (delta > 0 && delta < MAX_TICK_SECONDS) listen.listened += delta;
+      }
+      listen.lastTime = time;
+      if (!listen.counted && listen.listened >= playThreshold(audio.duration || 0)) {
+        listen.counted = true;
+        report(listen, audio.duration);
+      }
+    };
+    const onEnded = () => {
+      const listen = listenRef.current;
+      if (listen && !listen.counted) report(listen, audio.duration);
+      // Playing it again is another listen
+      listenRef.current = start();
+    };
+
+    audio.addEventListener('timeupdate', onTimeUpdate);
+    audio.addEventListener('ended', onEnded);
+    return () => {
+      audio.removeEventListener('timeupdate', onTimeUpdate);
+      audio.removeEventListener('ended', onEnded);
+      const listen = listenRef.current;
+      if (listen && !listen.counted) report(listen, audio.duration);
+      listenRef.current = null;
+    };
+  }, [audioRef, filePath]);
+}
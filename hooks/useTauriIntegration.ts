@@ -1,13 +1,25 @@
 import { useEffect } from 'react';
+import {
+  sendPlayerControl,
+  controlForTrayAction,
+  controlForShortcut,
+  MEDIA_SHORTCUT_ACTIONS,
+  type MediaShortcuts,
+} from '../lib/player-controls';
+import { onGetMediaShortcuts } from '../components/Settings.telefunc';
+
+function isTauri(): boolean {
+  return typeof window !== 'undefined' && '__TAURI_INTERNALS__' in window;
+}
 
 /**
- * Listens for Tauri tray menu actions and dispatches them
- * to the audio player via custom DOM events.
+ * Listens for Tauri tray menu actions and sends them
+ * to the audio player over the player control bus.
  */
 export function useTauriTrayActions() {
   useEffect(() => {
     // Only run in Tauri environment
-    if (typeof window === 'undefined' || !('__TAURI_INTERNALS__' in window)) {
+    if (!isTauri()) {
       return;
     }
 
@@ -17,7 +29,8 @@ export function useTauriTrayActions() {
       try {
         const { listen } = await import('@tauri-apps/api/event');
         const unlistenFn = await listen<string>('tray-action', (event) => {
-          window.dispatchEvent(new CustomEvent('musicky:tray-action', { detail: event.payload }));
+          const control = controlForTrayAction(event.payload);
+          if (control) sendPlayerControl(control);
         });
         unlisten = unlistenFn;
       } catch {
@@ -30,3 +43,42 @@ export function useTauriTrayActions() {
     };
   }, []);
 }
+
+/**
+ * Register the desktop app's global player shortcuts, replacing the previous
+ * set. Bindings another app already holds are skipped and returned.
+ */
+export async function applyMediaShortcuts(shortcuts: MediaShortcuts): Promise<string[]> {
+  if (!isTauri()) return [];
+  const { register, unregisterAll } = await import('@tauri-apps/plugin-global-shortcut');
+
+  // These are the app's only global shortcuts; registrations outlive a page reload
+  await unregisterAll();
+
+  const failed: string[] = [];
+  for (const { action } of MEDIA_SHORTCUT_ACTIONS) {
+    const accelerator = shortcuts[action];
+    if (!accelerator) continue;
+    try {
+      await register(accelerator, (event) => {
+        if (event.state === 'Pressed') sendPlayerControl(controlForShortcut(action));
+      });
+    } catch {
+      failed.push(accelerator);
+    }
+  }
+  return failed;
+}
+
+/** Registers the saved global shortcuts when the desktop app starts */
+export function useGlobalMediaShortcuts() {
+  useEffect(() => {
+    if (!isTauri()) return;
+    onGetMediaShortcuts()
+      .then(applyMediaShortcuts)
+      .then(failed => {
+        if (failed.length > 0) console.warn('Global shortcuts already in use:', failed.join(', '));
+      })
+      .catch(console.error);
+  }, []);
+}
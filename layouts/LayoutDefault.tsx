@@ -6,7 +6,8 @@ import { Notifications } from "@mantine/notifications";
 import { useEffect } from "react";
 import theme from "./theme.js";
 import { StatusProvider } from "../contexts/StatusContext";
-import { useTauriTrayActions } from "../hooks/useTauriIntegration";
+import { useTauriTrayActions, useGlobalMediaShortcuts } from "../hooks/useTauriIntegration";
+import { useLibraryEventStream } from "../hooks/useLibraryEvents";
 
 export default function LayoutDefault({ children }: { children: React.ReactNode }) {
   useEffect(() => {
@@ -16,6 +17,8 @@ export default function LayoutDefault({ children }: { children: React.ReactNode
   }, []);
 
   useTauriTrayActions();
+  useGlobalMediaShortcuts();
+  useLibraryEventStream();
 
   return (
     <MantineProvider theme={theme} defaultColorScheme="dark">
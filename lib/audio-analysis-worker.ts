@@ -0,0 +1,18 @@
+import { parentPort } from 'worker_threads';
+import { decodeAudioFile } from './audio-decoder';
+import { runAnalysis, type AnalysisJob, type AnalysisReply } from './audio-analysis';
+
+/**
+ * Worker thread entry for audio analysis (see audio-analysis): decodes each
+ * file it's sent and replies with the measurements. The PCM never leaves
+ * this thread.
+ */
+parentPort?.on('message', async ({ id, filePath, request }: AnalysisJob) => {
+  let reply: AnalysisReply;
+  try {
+    reply = { id, result: runAnalysis(await decodeAudioFile(filePath), request) };
+  } catch (error) {
+    reply = { id, error: error instanceof Error ? error.message : 'Analysis failed' };
+  }
+  parentPort?.postMessage(reply);
+});
@@ -0,0 +1,145 @@
+import { Worker } from 'worker_threads';
+import type { DecodedAudio } from './audio-decoder';
+import { detectBpm, type BpmEstimate } from './bpm-detection';
+import { detectKey, type KeyEstimate } from './key-detection';
+import { energyFeatures, type EnergyFeatures } from './energy-estimation';
+import { measureLoudness, type LoudnessMeasurement } from './loudness';
+import { detectMixPoints, type MixPoints } from './mix-points';
+import { computeFingerprint, type Fingerprint } from './fingerprint';
+import { auditQuality, type DeclaredFormat, type QualityReport } from './quality-audit';
+import { computeWaveform, type WaveformData } from './waveform';
+
+/**
+ * Audio analysis off the server's main thread. Decoding a song and running
+ * the DSP over it takes seconds of CPU, which inline would stall every other
+ * request and the library watcher. A worker thread (audio-analysis-worker)
+ * decodes and measures; only the results come back.
+ */
+
+/** What to measure in one decode. Loudness always comes along: it's cheap next to the decode. */
+export interface AnalysisRequest {
+  bpm?: boolean;
+  key?: boolean;
+  /** Energy features; a null bpm is detected first */
+  energy?: { bpm: number | null };
+  /** Mix-point suggestions; a null bpm is detected first */
+  mixPoints?: { bpm: number | null };
+  fingerprint?: boolean;
+  /** Quality audit against what the container claims */
+  quality?: DeclaredFormat;
+  waveform?: boolean;
+}
+
+export interface AnalysisResult {
+  duration: number;
+  loudness: LoudnessMeasurement | null;
+  bpm?: BpmEstimate | null;
+  key?: KeyEstimate | null;
+  energy?: EnergyFeatures;
+  mixPoints?: MixPoints | null;
+  fingerprint?: Fingerprint;
+  quality?: QualityReport;
+  waveform?: WaveformData;
+}
+
+export interface AnalysisJob {
+  id: number;
+  filePath: string;
+  request: AnalysisRequest;
+}
+
+export type AnalysisReply = { id: number; result: AnalysisResult } | { id: number; error: string };
+
+// ─── Measurements (pure) ─────────────────────────────────────────────────
+
+/** Pure calculation: everything `request` asks for, from one decoded file */
+export function runAnalysis(audio: DecodedAudio, request: AnalysisRequest): AnalysisResult {
+  const result: AnalysisResult = {
+    duration: audio.duration,
+    loudness: measureLoudness(audio.channels, audio.sampleRate),
+  };
+  let detected: BpmEstimate | null | undefined;
+  const detectOnce = () => (detected === undefined ? (detected = detectBpm(audio.samples, audio.sampleRate)) : detected);
+
+  if (request.bpm) result.bpm = detectOnce();
+  if (request.key) result.key = detectKey(audio.samples, audio.sampleRate);
+  if (request.energy) {
+    result.energy = energyFeatures(audio.samples, audio.sampleRate, request.energy.bpm ?? detectOnce()?.bpm ?? null);
+  }
+  if (request.mixPoints) {
+    result.mixPoints = detectMixPoints(audio.samples, audio.sampleRate, request.mixPoints.bpm ?? detectOnce()?.bpm ?? null);
+  }
+  if (request.fingerprint) result.fingerprint = computeFingerprint(audio.samples, audio.sampleRate);
+  if (request.quality) result.quality = auditQuality(audio.samples, audio.channels, audio.sampleRate, request.quality);
+  if (request.waveform) result.waveform = computeWaveform(audio.samples, audio.sampleRate);
+  return result;
+}
+
+// ─── Worker ──────────────────────────────────────────────────────────────
+
+let worker: Worker | null = null;
+let nextJobId = 1;
+const pending = new Map<number, { resolve: (result: AnalysisResult) => void; reject: (error: Error) => void }>();
+/** One decode at a time: a whole song's PCM is hundreds of MB for a long mix */
+let queue: Promise<unknown> = Promise.resolve();
+
+function failPending(error: Error): void {
+  for (const job of pending.values()) job.reject(error);
+  pending.clear();
+}
+
+function startWorker(): Worker {
+  const entry = new URL('./audio-analysis-worker.ts', import.meta.url).href;
+  // Node 20 workers don't pick up tsx's loader from execArgv, so the entry goes through tsx's API
+  const started = new Worker(
+    `import('tsx/esm/api').then(({ tsImport }) => tsImport(${JSON.stringify(entry)}, ${JSON.stringify(import.meta.url)}))`,
+    { eval: true },
+  );
+  started.on('message', (reply: AnalysisReply) => {
+    const job = pending.get(reply.id);
+    if (!job) return;
+    pending.delete(reply.id);
+    if ('error' in reply) job.reject(new Error(reply.error));
+    else job.resolve(reply.result);
+    if (pending.size === 0) started.unref();
+  });
+  // A crashed worker takes its jobs with it; the next request starts a fresh one
+  started.on('error', (error) => {
+    if (worker === started) worker = null;
+    failPending(error);
+  });
+  started.on('exit', (code) => {
+    if (worker === started) worker = null;
+    failPending(new Error(`Analysis worker stopped (exit code ${code})`));
+  });
+  return started;
+}
+
+function postJob(filePath: string, request: AnalysisRequest): Promise<AnalysisResult> {
+  worker ??= startWorker();
+  const current = worker;
+  const job: AnalysisJob = { id: nextJobId++, filePath, request };
+  return new Promise<AnalysisResult>((resolve, reject) => {
+    pending.set(job.id, { resolve, reject });
+    // Held open only while a job runs, so an idle worker never keeps the process alive
+    current.ref();
+    current.postMessage(job);
+  });
+}
+
+/**
+ * Decode `filePath` in the analysis worker and measure what `request` asks
+ * for. Jobs run one after another in the order they were asked for.
+ */
+export function analyzeAudioFile(filePath: string, request: AnalysisRequest = {}): Promise<AnalysisResult> {
+  const run = queue.then(() => postJob(filePath, request));
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+/** Stop the worker; the next analysis starts a new one */
+export async function stopAnalysisWorker(): Promise<void> {
+  const running = worker;
+  worker = null;
+  await running?.terminate();
+}
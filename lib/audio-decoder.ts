@@ -0,0 +1,32 @@
+import { promises as fs } from 'fs';
+import decode from 'audio-decode';
+import { mixToMono } from './audio-dsp';
+
+/**
+ * Decode audio files to PCM for analysis, entirely in JS/WASM (no ffmpeg).
+ * Handles every format Musicky scans (MP3, FLAC, M4A/AAC) plus WAV/AIFF/OGG.
+ */
+
+export interface DecodedAudio {
+  /** Mono mixdown in [-1, 1] */
+  samples: Float32Array;
+  /** The original channels, for measurements defined per channel (loudness) */
+  channels: Float32Array[];
+  sampleRate: number;
+  duration: number;     // seconds
+}
+
+export async function decodeAudioFile(filePath: string): Promise<DecodedAudio> {
+  const bytes = await fs.readFile(filePath);
+  let decoded: { channelData: Float32Array[]; sampleRate: number };
+  try {
+    decoded = await decode(new Uint8Array(bytes.buffer, bytes.byteOffset, bytes.byteLength));
+  } catch (error) {
+    throw new Error(`Failed to decode audio: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  if (decoded.channelData.length === 0 || decoded.sampleRate <= 0) {
+    throw new Error('Failed to decode audio: no samples');
+  }
+  const samples = mixToMono(decoded.channelData);
+  return { samples, channels: decoded.channelData, sampleRate: decoded.sampleRate, duration: samples.length / decoded.sampleRate };
+}
@@ -0,0 +1,108 @@
+/**
+ * Small DSP toolkit for server-side audio analysis.
+ * Pure calculation — no I/O. Operates on mono Float32Array PCM in [-1, 1].
+ */
+
+// ─── Sample preparation ──────────────────────────────────────────────────
+
+/** Pure calculation: average all channels into one */
+export function mixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+  const length = Math.min(...channels.map(c => c.length));
+  const mono = new Float32Array(length);
+  for (const channel of channels) {
+    for (let i = 0; i < length; i++) mono[i] += channel[i];
+  }
+  for (let i = 0; i < length; i++) mono[i] /= channels.length;
+  return mono;
+}
+
+/**
+ * Pure calculation: reduce the sample rate by an integer factor (box-filter average),
+ * getting as close to `targetRate` as possible without going below it.
+ */
+export function downsample(samples: Float32Array, sampleRate: number, targetRate: number): { samples: Float32Array; sampleRate: number } {
+  const factor = Math.max(1, Math.floor(sampleRate / targetRate));
+  if (factor === 1) return { samples, sampleRate };
+  const out = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < out.length; i++) {
+    let sum = 0;
+    const start = i * factor;
+    for (let j = 0; j < factor; j++) sum += samples[start + j];
+    out[i] = sum / factor;
+  }
+  return { samples: out, sampleRate: sampleRate / factor };
+}
+
+// ─── Spectral ────────────────────────────────────────────────────────────
+
+const windowCache = new Map<number, Float32Array>();
+
+/** Pure calculation: Hann window of the given size (cached) */
+export function hannWindow(size: number): Float32Array {
+  let window = windowCache.get(size);
+  if (!window) {
+    window = new Float32Array(size);
+    for (let i = 0; i < size; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+    windowCache.set(size, window);
+  }
+  return window;
+}
+
+/** In-place iterative radix-2 FFT; `re.length` must be a power of two */
+export function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const aRe = re[i + k];
+        const aIm = im[i + k];
+        const bRe = re[i + k + len / 2] * curRe - im[i + k + len / 2] * curIm;
+        const bIm = re[i + k + len / 2] * curIm + im[i + k + len / 2] * curRe;
+        re[i + k] = aRe + bRe;
+        im[i + k] = aIm + bIm;
+        re[i + k + len / 2] = aRe - bRe;
+        im[i + k + len / 2] = aIm - bIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
+
+/**
+ * Pure calculation: magnitude spectra of Hann-windowed frames.
+ * Each returned frame has frameSize / 2 bins; bin k is k * sampleRate / frameSize Hz.
+ */
+export function stft(samples: Float32Array, frameSize: number, hopSize: number): Float32Array[] {
+  const window = hannWindow(frameSize);
+  const frames: Float32Array[] = [];
+  const re = new Float64Array(frameSize);
+  const im = new Float64Array(frameSize);
+  for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
+    for (let i = 0; i < frameSize; i++) {
+      re[i] = samples[start + i] * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    const magnitudes = new Float32Array(frameSize / 2);
+    for (let k = 0; k < magnitudes.length; k++) magnitudes[k] = Math.hypot(re[k], im[k]);
+    frames.push(magnitudes);
+  }
+  return frames;
+}
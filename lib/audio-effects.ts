@@ -1,5 +1,6 @@
 import { useEffect, useRef } from 'react';
 import { AudioAction } from './audio-state';
+import { sendPlayerControl, SEEK_STEP_SECONDS } from './player-controls';
 
 export function useAudioEventListeners(
   audioRef: React.RefObject<HTMLAudioElement | null>,
@@ -129,4 +130,215 @@ export function useCallbackNotifications(
       prevVolumeRef.current = volume;
     }
   }, [volume, onVolumeChange]);
-}
\ No newline at end of file
+}
+/**
+ * Route the audio element through a Web Audio GainNode and apply `gainDb`
+ * (null means unity). The graph is built on first play, since browsers only
+ * start an AudioContext after a user gesture, and rebuilt if the element changes.
+ */
+export function usePlaybackGain(
+  audioRef: React.RefObject<HTMLAudioElement | null>,
+  gainDb: number | null,
+  isPlaying: boolean
+) {
+  const graphRef = useRef<{ element: HTMLAudioElement; context: AudioContext; gain: GainNode } | null>(null);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !isPlaying) return;
+
+    if (graphRef.current?.element !== audio) {
+      void graphRef.current?.context.close();
+      const context = new AudioContext();
+      const gain = context.createGain();
+      context.createMediaElementSource(audio).connect(gain).connect(context.destination);
+      graphRef.current = { element: audio, context, gain };
+    }
+    if (graphRef.current.context.state === 'suspended') {
+      void graphRef.current.context.resume();
+    }
+  }, [audioRef, isPlaying]);
+
+  useEffect(() => {
+    const graph = graphRef.current;
+    if (!graph) return;
+    // A short ramp avoids a click when the next track's gain differs
+    graph.gain.gain.setTargetAtTime(Math.pow(10, (gainDb ?? 0) / 20), graph.context.currentTime, 0.05);
+  }, [gainDb, isPlaying]);
+
+  useEffect(() => () => {
+    void graphRef.current?.context.close();
+    graphRef.current = null;
+  }, []);
+}
+
+export interface MediaSessionTrack {
+  title: string;
+  artist: string;
+  album: string;
+  artworkSrc: string;
+}
+
+/**
+ * Publish the loaded track to the browser's Media Session, so OS media
+ * overlays show it and media keys and headset buttons reach the player.
+ * The actions go out on the player control bus rather than to the element,
+ * so they behave like the tray and global shortcuts.
+ */
+export function useMediaSession(
+  audioRef: React.RefObject<HTMLAudioElement | null>,
+  track: MediaSessionTrack | null,
+  isPlaying: boolean,
+  duration: number,
+  { canNext, canPrevious }: { canNext: boolean; canPrevious: boolean }
+) {
+  const supported = typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+
+  useEffect(() => {
+    if (!supported) return;
+    navigator.mediaSession.metadata = track
+      ? new MediaMetadata({
+          title: track.title,
+          artist: track.artist,
+          album: track.album,
+          artwork: [{ src: track.artworkSrc }],
+        })
+      : null;
+  }, [supported, track?.title, track?.artist, track?.album, track?.artworkSrc]);
+
+  const hasTrack = track !== null;
+  useEffect(() => {
+    if (!supported) return;
+    navigator.mediaSession.playbackState = !hasTrack ? 'none' : isPlaying ? 'playing' : 'paused';
+  }, [supported, hasTrack, isPlaying]);
+
+  useEffect(() => {
+    if (!supported) return;
+    const handlers: [MediaSessionAction, MediaSessionActionHandler | null][] = [
+      ['play', () => sendPlayerControl({ type: 'play' })],
+      ['pause', () => sendPlayerControl({ type: 'pause' })],
+      ['nexttrack', canNext ? () => sendPlayerControl({ type: 'next' }) : null],
+      ['previoustrack', canPrevious ? () => sendPlayerControl({ type: 'prev' }) : null],
+      ['seekto', (details) => {
+        if (details.seekTime != null) sendPlayerControl({ type: 'seek', time: details.seekTime });
+      }],
+      ['seekbackward', (details) => sendPlayerControl({ type: 'seek_by', offset: -(details.seekOffset ?? SEEK_STEP_SECONDS) })],
+      ['seekforward', (details) => sendPlayerControl({ type: 'seek_by', offset: details.seekOffset ?? SEEK_STEP_SECONDS })],
+    ];
+    for (const [action, handler] of handlers) {
+      try {
+        navigator.mediaSession.setActionHandler(action, handler);
+      } catch {
+        // Action not supported by this browser
+      }
+    }
+    return () => {
+      for (const [action] of handlers) {
+        try {
+          navigator.mediaSession.setActionHandler(action, null);
+        } catch {
+          // Action not supported by this browser
+        }
+      }
+    };
+  }, [supported, canNext, canPrevious]);
+
+  // The browser extrapolates the position, so it only needs resyncing on seeks and state changes
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!supported || !audio) return;
+    const update = () => {
+      if (!Number.isFinite(duration) || duration <= 0) return;
+      try {
+        navigator.mediaSession.setPositionState({
+          duration,
+          position: Math.min(audio.currentTime, duration),
+          playbackRate: audio.playbackRate || 1,
+        });
+      } catch {
+        // Position outside the duration while a new track loads
+      }
+    };
+    update();
+    audio.addEventListener('seeked', update);
+    audio.addEventListener('ratechange', update);
+    return () => {
+      audio.removeEventListener('seeked', update);
+      audio.removeEventListener('ratechange', update);
+    };
+  }, [supported, audioRef, duration, isPlaying]);
+}
+
+/** Settings for one deck of the two-deck player */
+export interface DeckMix {
+  /** Linear output gain: deck volume × crossfader × level match */
+  gain: number;
+  lowDb: number;
+  midDb: number;
+  highDb: number;
+}
+
+/** Corner frequencies of the 3-band EQ, roughly where DJ mixers put them */
+const EQ_LOW_HZ = 250;
+const EQ_MID_HZ = 1000;
+const EQ_HIGH_HZ = 4000;
+
+/**
+ * Route a deck's audio element through a 3-band EQ and a GainNode on a shared
+ * AudioContext, so both decks mix into one output. Like usePlaybackGain the
+ * graph is built on first play; the context belongs to the caller.
+ */
+export function useDeckGraph(
+  audioRef: React.RefObject<HTMLAudioElement | null>,
+  getContext: () => AudioContext,
+  isPlaying: boolean,
+  mix: DeckMix
+) {
+  const graphRef = useRef<{
+    element: HTMLAudioElement;
+    context: AudioContext;
+    low: BiquadFilterNode;
+    mid: BiquadFilterNode;
+    high: BiquadFilterNode;
+    gain: GainNode;
+  } | null>(null);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !isPlaying) return;
+
+    if (graphRef.current?.element !== audio) {
+      const context = getContext();
+      const low = context.createBiquadFilter();
+      low.type = 'lowshelf';
+      low.frequency.value = EQ_LOW_HZ;
+      const mid = context.createBiquadFilter();
+      mid.type = 'peaking';
+      mid.frequency.value = EQ_MID_HZ;
+      mid.Q.value = 0.7;
+      const high = context.createBiquadFilter();
+      high.type = 'highshelf';
+      high.frequency.value = EQ_HIGH_HZ;
+      const gain = context.createGain();
+      gain.gain.value = 0;
+      context.createMediaElementSource(audio)
+        .connect(low).connect(mid).connect(high).connect(gain)
+        .connect(context.destination);
+      graphRef.current = { element: audio, context, low, mid, high, gain };
+    }
+    if (graphRef.current.context.state === 'suspended') {
+      void graphRef.current.context.resume();
+    }
+  }, [audioRef, getContext, isPlaying]);
+
+  useEffect(() => {
+    const graph = graphRef.current;
+    if (!graph) return;
+    const now = graph.context.currentTime;
+    // Short ramps so dragging the crossfader or an EQ knob doesn't zipper
+    graph.gain.gain.setTargetAtTime(mix.gain, now, 0.02);
+    graph.low.gain.setTargetAtTime(mix.lowDb, now, 0.02);
+    graph.mid.gain.setTargetAtTime(mix.midDb, now, 0.02);
+    graph.high.gain.setTargetAtTime(mix.highDb, now, 0.02);
+  }, [mix.gain, mix.lowDb, mix.midDb, mix.highDb, isPlaying]);
+}
@@ -1,3 +1,5 @@
+import { clamp } from './math-utils';
+
 export interface AudioState {
   isPlaying: boolean;
   currentTime: number;
@@ -63,4 +65,13 @@ export function audioReducer(state: AudioState, action: AudioAction): AudioState
     default:
       return state;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Pure calculation: deck gains for a crossfader position from 0 (all A) to 1
+ * (all B). Constant-power, so the mix doesn't dip in the middle.
+ */
+export function crossfaderGains(position: number): { a: number; b: number } {
+  const p = clamp(position, 0, 1);
+  return { a: Math.cos((p * Math.PI) / 2), b: Math.sin((p * Math.PI) / 2) };
+}
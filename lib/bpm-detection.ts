@@ -0,0 +1,308 @@
+/**
+ * Tempo estimation: spectral-flux onset envelope → autocorrelation → choice
+ * between related tempos by how well a beat grid fits the onsets.
+ * Pure calculation — no I/O. Feed it decoded mono PCM (see audio-decoder).
+ */
+import { downsample, fft, hannWindow } from './audio-dsp';
+
+export interface BpmEstimate {
+  bpm: number;
+  /** 0–1: how periodic the onsets are and how clearly one tempo octave wins */
+  confidence: number;
+  /**
+   * Related readings that also fit well: half/double time, e.g. [174] when 87
+   * was reported, or the 3:2 / 2:3 feel, e.g. [116] next to 174
+   */
+  alternatives: number[];
+}
+
+export interface BpmDetectionOptions {
+  /** Range the reported tempo is folded into (default 70–180) */
+  minBpm?: number;
+  maxBpm?: number;
+}
+
+/**
+ * Estimates below this are stored but not offered for tag write-back: a
+ * reading whose half-time or 3:2 rival fits nearly as well always lands here
+ */
+export const BPM_WRITE_BACK_CONFIDENCE = 0.75;
+
+const ANALYSIS_RATE = 11025;
+const FRAME_SIZE = 1024;
+const HOP_SIZE = 128;
+/** Octave prior: log-normal around a typical dance-music tempo */
+const PRIOR_CENTER_BPM = 130;
+const PRIOR_WIDTH_OCTAVES = 0.6;
+/** Search range before folding; wide enough to see half and double time */
+const SEARCH_MIN_BPM = 50;
+const SEARCH_MAX_BPM = 220;
+/** Below this the "tempo" is just the strongest ripple in noise */
+const MIN_CONFIDENCE = 0.1;
+/** Lag ratios of the tempos a beat pattern is commonly misread at: half/double time, 3:2 and 2:3 */
+const RIVAL_RATIOS = [2, 0.5, 1.5, 2 / 3];
+/** Rivals whose grid fits at least this well relative to the best fit are too close to call by fit alone */
+const ALTERNATIVE_FIT = 0.8;
+/** A runner-up fitting this well relative to the best fit leaves the reading a coin toss */
+const AMBIGUOUS_FIT = 1;
+/** ...and one fitting this poorly or worse doesn't lower the confidence at all */
+const CLEAR_FIT = 0.6;
+
+// ─── Onset envelope ──────────────────────────────────────────────────────
+
+/**
+ * Pure calculation: positive spectral flux of log-compressed magnitudes,
+ * with the local mean removed so only onsets stick out. Returns the envelope
+ * and its frame rate (frames per second).
+ */
+export function onsetEnvelope(samples: Float32Array, sampleRate: number): { envelope: Float32Array; frameRate: number } {
+  const reduced = downsample(samples, sampleRate, ANALYSIS_RATE);
+  const frameCount = Math.max(0, Math.floor((reduced.samples.length - FRAME_SIZE) / HOP_SIZE) + 1);
+  const flux = new Float32Array(frameCount);
+  const window = hannWindow(FRAME_SIZE);
+  const re = new Float64Array(FRAME_SIZE);
+  const im = new Float64Array(FRAME_SIZE);
+  let previous = new Float32Array(FRAME_SIZE / 2);
+  let current = new Float32Array(FRAME_SIZE / 2);
+
+  for (let f = 0; f < frameCount; f++) {
+    const start = f * HOP_SIZE;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      re[i] = reduced.samples[start + i] * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    let sum = 0;
+    for (let k = 1; k < current.length; k++) {
+      current[k] = Math.log1p(100 * Math.hypot(re[k], im[k]));
+      if (f > 0) sum += Math.max(0, current[k] - previous[k]);
+    }
+    flux[f] = sum;
+    [previous, current] = [current, previous];
+  }
+
+  const frameRate = reduced.sampleRate / HOP_SIZE;
+  const half = Math.max(1, Math.round(frameRate * 0.25));
+  const envelope = new Float32Array(frameCount);
+  let windowSum = 0;
+  for (let i = 0; i < Math.min(half, frameCount); i++) windowSum += flux[i];
+  for (let i = 0; i < frameCount; i++) {
+    if (i + half < frameCount) windowSum += flux[i + half];
+    if (i - half - 1 >= 0) windowSum -= flux[i - half - 1];
+    const count = Math.min(frameCount - 1, i + half) - Math.max(0, i - half) + 1;
+    envelope[i] = Math.max(0, flux[i] - windowSum / count);
+  }
+  return { envelope, frameRate };
+}
+
+// ─── Periodicity ─────────────────────────────────────────────────────────
+
+/** Pure calculation: autocorrelation for lags 0..maxLag, normalised so lag 0 is 1 */
+function autocorrelation(envelope: Float32Array, maxLag: number): Float64Array {
+  const acf = new Float64Array(maxLag + 1);
+  for (let lag = 0; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = lag; i < envelope.length; i++) sum += envelope[i] * envelope[i - lag];
+    acf[lag] = sum / (envelope.length - lag);
+  }
+  const zero = acf[0] || 1;
+  for (let lag = 0; lag <= maxLag; lag++) acf[lag] /= zero;
+  return acf;
+}
+
+/** Pure calculation: sub-frame peak position around integer index i */
+function parabolicPeak(values: Float64Array, i: number): number {
+  if (i <= 0 || i >= values.length - 1) return i;
+  const [a, b, c] = [values[i - 1], values[i], values[i + 1]];
+  const denominator = a - 2 * b + c;
+  return denominator === 0 ? i : i + (0.5 * (a - c)) / denominator;
+}
+
+function localMax(values: Float64Array, from: number, to: number): number {
+  let best = Math.max(0, from);
+  for (let i = best; i <= Math.min(values.length - 1, to); i++) {
+    if (values[i] > values[best]) best = i;
+  }
+  return best;
+}
+
+/** Pure calculation: beat period in frames, refined on the 4× period where one frame of error is a quarter */
+function refinePeriod(acf: Float64Array, lag: number): number {
+  const period = parabolicPeak(acf, lag);
+  const multiple = 4;
+  const far = localMax(acf, Math.floor(period * multiple) - multiple, Math.ceil(period * multiple) + multiple);
+  return acf[far] > 0.5 * acf[lag] ? parabolicPeak(acf, far) / multiple : period;
+}
+
+function octavePrior(bpm: number): number {
+  const octaves = Math.log2(bpm / PRIOR_CENTER_BPM) / PRIOR_WIDTH_OCTAVES;
+  return Math.exp(-0.5 * octaves * octaves);
+}
+
+// ─── Beat grid fit ───────────────────────────────────────────────────────
+
+interface Onset {
+  frame: number;
+  strength: number;
+}
+
+/** Pure calculation: local maxima of the onset envelope that stand out from the quiet frames */
+function pickOnsets(envelope: Float32Array): Onset[] {
+  let peak = 0;
+  for (const v of envelope) peak = Math.max(peak, v);
+  const threshold = 0.1 * peak;
+  const onsets: Onset[] = [];
+  for (let i = 0; i < envelope.length; i++) {
+    const v = envelope[i];
+    if (v < threshold) continue;
+    let isMax = true;
+    for (let j = Math.max(0, i - 2); j <= Math.min(envelope.length - 1, i + 2) && isMax; j++) {
+      if (envelope[j] > v || (envelope[j] === v && j < i)) isMax = false;
+    }
+    if (isMax) onsets.push({ frame: i, strength: v });
+  }
+  return onsets;
+}
+
+/** Pure calculation: grid fit of one stretch of onsets, at its best phase */
+function windowFit(onsets: Onset[], start: number, span: number, period: number, reference: number): number {
+  const total = onsets.reduce((sum, o) => sum + o.strength, 0);
+  const tolerance = Math.max(1.5, period * 0.05);
+  const hits = new Float64Array(Math.floor(span / period) + 2);
+
+  let best = 0;
+  for (let phase = 0; phase < period; phase++) {
+    hits.fill(0);
+    let onGrid = 0;
+    for (const onset of onsets) {
+      const position = (onset.frame - start - phase) / period;
+      const index = Math.round(position);
+      if (index < 0 || Math.abs(position - index) * period > tolerance) continue;
+      onGrid += onset.strength;
+      hits[index] = Math.max(hits[index], Math.min(1, onset.strength / reference));
+    }
+    const points = Math.max(1, Math.floor((span - phase) / period) + 1);
+    let found = 0;
+    for (let i = 0; i < points; i++) found += hits[i];
+    const recall = onGrid / total;
+    const precision = found / points;
+    if (recall + precision > 0) best = Math.max(best, (2 * recall * precision) / (recall + precision));
+  }
+  return best;
+}
+
+/**
+ * Pure calculation: how well a beat grid of `period` frames explains the onsets,
+ * 0–1. Recall is the share of onset strength that falls on the grid; precision
+ * is how much onset strength each grid point finds. A grid twice too fast loses
+ * precision on its empty points, one too slow loses recall on the onsets
+ * between its points, so the harmonic mean peaks at the beat. The grid is
+ * re-phased every few bars so small period errors and drifting tempos don't add up.
+ */
+function gridFit(onsets: Onset[], period: number): number {
+  if (onsets.length < 4) return 0;
+  const strengths = onsets.map(o => o.strength).sort((a, b) => a - b);
+  const reference = strengths[Math.floor(strengths.length * 0.75)] || 1;
+  const windowFrames = period * 16;
+
+  let weighted = 0;
+  let totalStrength = 0;
+  for (let start = onsets[0].frame; start <= onsets[onsets.length - 1].frame; start += windowFrames) {
+    const inWindow = onsets.filter(o => o.frame >= start && o.frame < start + windowFrames);
+    if (inWindow.length < 4) continue;
+    const strength = inWindow.reduce((sum, o) => sum + o.strength, 0);
+    weighted += strength * windowFit(inWindow, start, windowFrames, period, reference);
+    totalStrength += strength;
+  }
+  return totalStrength > 0 ? weighted / totalStrength : 0;
+}
+
+// ─── Tempo ───────────────────────────────────────────────────────────────
+
+/**
+ * Estimate the tempo of a track. Returns null for material too short or
+ * too arrhythmic to call (silence, ambient pieces, clips under a few bars).
+ *
+ * Each candidate beat period is scored by its autocorrelation plus half the
+ * autocorrelation at twice the period (a bar of two beats should repeat too),
+ * weighted by an octave prior. Autocorrelation alone can't tell a beat from
+ * the bar-half or dotted rhythm a pattern also repeats at, so the best
+ * candidate and its half, double, 3:2 and 2:3 rivals are then compared by
+ * how well a beat grid at each period fits the onsets. Syncopated patterns
+ * (drum & bass without hats) fit half time about as well as the real tempo;
+ * among rivals that close the prior decides, the others are listed as
+ * alternatives and the confidence drops. Each period is refined on a
+ * multiple of itself for sub-BPM precision; the result is folded into
+ * [minBpm, maxBpm].
+ */
+export function detectBpm(samples: Float32Array, sampleRate: number, options: BpmDetectionOptions = {}): BpmEstimate | null {
+  const minBpm = options.minBpm ?? 70;
+  const maxBpm = options.maxBpm ?? 180;
+  const { envelope, frameRate } = onsetEnvelope(samples, sampleRate);
+
+  const minLag = Math.floor((60 * frameRate) / SEARCH_MAX_BPM);
+  const maxLag = Math.ceil((60 * frameRate) / SEARCH_MIN_BPM);
+  if (envelope.length < maxLag * 8) return null;
+
+  const acf = autocorrelation(envelope, maxLag * 8 + 2);
+  const bpmAt = (lag: number) => (60 * frameRate) / lag;
+
+  const scores = new Float64Array(maxLag + 1);
+  let mean = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    scores[lag] = acf[lag] + 0.5 * acf[2 * lag];
+    mean += acf[lag];
+  }
+  mean /= maxLag - minLag + 1;
+
+  // Only local maxima are candidates, so neighbouring lags of one peak don't compete
+  const candidates: { lag: number; weighted: number }[] = [];
+  for (let lag = minLag + 1; lag < maxLag; lag++) {
+    if (scores[lag] >= scores[lag - 1] && scores[lag] >= scores[lag + 1] && scores[lag] > 0) {
+      candidates.push({ lag, weighted: scores[lag] * octavePrior(bpmAt(lag)) });
+    }
+  }
+  if (candidates.length === 0) return null;
+  candidates.sort((a, b) => b.weighted - a.weighted);
+  const strongest = candidates[0];
+
+  // The strongest candidate and its related readings, judged by grid fit
+  const onsets = pickOnsets(envelope);
+  const rivals = [strongest, ...candidates.slice(1).filter(c => RIVAL_RATIOS.some(r =>
+    Math.abs(c.lag / strongest.lag - r) < 0.04 * r) && c.weighted >= 0.3 * strongest.weighted)]
+    .map(c => {
+      const period = refinePeriod(acf, c.lag);
+      return { ...c, period, fit: gridFit(onsets, period) };
+    })
+    .sort((a, b) => b.fit - a.fit);
+  // Rivals fitting nearly as well can't be told apart by the onsets; the prior picks among them
+  const contenders = rivals.filter(r => r.fit >= ALTERNATIVE_FIT * rivals[0].fit);
+  const best = contenders.reduce((a, b) => (octavePrior(bpmAt(b.period)) > octavePrior(bpmAt(a.period)) ? b : a));
+
+  let bpm = bpmAt(best.period);
+  while (bpm < minBpm) bpm *= 2;
+  while (bpm > maxBpm && bpm / 2 >= minBpm) bpm /= 2;
+  // Nearly every produced track sits on a whole BPM; the residue is measurement error
+  if (Math.abs(bpm - Math.round(bpm)) < 0.15) bpm = Math.round(bpm);
+  bpm = Math.round(bpm * 100) / 100;
+
+  // The other contenders are reported, at the ratio the candidates were matched on
+  const alternatives: number[] = [];
+  for (const rival of contenders) {
+    if (rival === best) continue;
+    const ratio = RIVAL_RATIOS.reduce((a, b) =>
+      Math.abs(rival.period / best.period - b) < Math.abs(rival.period / best.period - a) ? b : a);
+    let altBpm = bpm / ratio;
+    if (Math.abs(altBpm - Math.round(altBpm)) < 0.15) altBpm = Math.round(altBpm);
+    altBpm = Math.round(altBpm * 100) / 100;
+    if (!alternatives.includes(altBpm)) alternatives.push(altBpm);
+  }
+
+  const periodicity = Math.min(1, Math.max(0, (acf[best.lag] - mean) / (1 - mean)) * 2);
+  const rivalry = rivals.length > 1 && rivals[0].fit > 0 ? rivals[1].fit / rivals[0].fit : 0;
+  const clarity = Math.min(1, Math.max(0, (AMBIGUOUS_FIT - rivalry) / (AMBIGUOUS_FIT - CLEAR_FIT)));
+  const confidence = Math.round(periodicity * (0.5 + 0.5 * clarity) * 100) / 100;
+  if (confidence < MIN_CONFIDENCE) return null;
+
+  return { bpm, confidence, alternatives };
+}
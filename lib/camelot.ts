@@ -170,6 +170,20 @@ export function getKeyDistance(key1: string, key2: string): number {
   return numDist + letterDist;
 }
 
+/**
+ * Shift a key by semitones, as pitching a track up or down does. One semitone
+ * is seven steps round the wheel (12 fifths cover all 12 notes), and the
+ * mode never changes. Accepts standard notation or Camelot; returns Camelot.
+ * @example shiftCamelotKey("8A", 1) → "3A"
+ * @example shiftCamelotKey("8A", -2) → "6A"
+ */
+export function shiftCamelotKey(key: string, semitones: number): string | null {
+  const parsed = parseCamelot(key) ?? parseCamelot(standardToCamelot(key) ?? '');
+  if (!parsed) return null;
+  const steps = ((Math.round(semitones) * 7) % 12 + 12) % 12;
+  return `${wrapCamelot(parsed.num + steps)}${parsed.letter}`;
+}
+
 /**
  * Get a CSS color for a Camelot key position.
  * Each of the 12 positions gets a distinct hue, A/B share the same hue but differ in lightness.
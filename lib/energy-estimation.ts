@@ -0,0 +1,169 @@
+/**
+ * Energy level estimation (1–10, the Mixed In Key scale) for untagged tracks.
+ * Pure calculation — no I/O. Features come from decoded mono PCM; the model
+ * is a linear blend whose weights are refitted against tracks that carry a
+ * MIK EnergyLevel, so estimated and tagged values live on the same scale.
+ */
+import { onsetEnvelope } from './bpm-detection';
+
+/** Raw per-track measurements, stored so the model can be refitted without decoding again */
+export interface EnergyFeatures {
+  /** Mean RMS level over non-silent blocks, dBFS */
+  loudnessDb: number;
+  /** Mean positive spectral flux of the onset envelope */
+  flux: number;
+  /** Detected onsets per second */
+  onsetDensity: number;
+  bpm: number | null;
+}
+
+export interface EnergyCalibration {
+  /** Intercept followed by one weight per normalised feature (see normaliseFeatures) */
+  weights: number[];
+  /** Tagged tracks the weights were fitted on; 0 means the built-in defaults */
+  sampleCount: number;
+  /** Root-mean-square error on those tracks, in energy levels */
+  rmse: number | null;
+}
+
+const BLOCK_SECONDS = 0.4;
+const SILENCE_DB = -60;
+/** Onsets must stand out by this many standard deviations and be 50 ms apart */
+const ONSET_THRESHOLD_SD = 1;
+/** ...and clear this absolute flux, so ripples in sustained sounds don't count */
+const ONSET_MIN_FLUX = 5;
+const ONSET_MIN_GAP_SECONDS = 0.05;
+/** Fewer tagged tracks than this and the defaults stay in charge */
+export const MIN_CALIBRATION_SAMPLES = 10;
+/** Pull of the defaults during fitting, counted in tracks */
+const RIDGE_STRENGTH = 5;
+
+/** Hand-tuned starting point: loudness matters most, tempo least */
+export const DEFAULT_ENERGY_CALIBRATION: EnergyCalibration = {
+  weights: [1, 9 * 0.35, 9 * 0.25, 9 * 0.25, 9 * 0.15],
+  sampleCount: 0,
+  rmse: null,
+};
+
+// ─── Features ────────────────────────────────────────────────────────────
+
+function loudnessDb(samples: Float32Array, sampleRate: number): number {
+  const blockSize = Math.max(1, Math.round(BLOCK_SECONDS * sampleRate));
+  let sum = 0;
+  let blocks = 0;
+  for (let start = 0; start + blockSize <= samples.length; start += blockSize) {
+    let power = 0;
+    for (let i = start; i < start + blockSize; i++) power += samples[i] * samples[i];
+    power /= blockSize;
+    if (10 * Math.log10(power + 1e-12) < SILENCE_DB) continue;
+    sum += power;
+    blocks++;
+  }
+  return blocks === 0 ? SILENCE_DB : 10 * Math.log10(sum / blocks);
+}
+
+function countOnsets(envelope: Float32Array, frameRate: number): number {
+  let mean = 0;
+  for (const v of envelope) mean += v;
+  mean /= envelope.length || 1;
+  let variance = 0;
+  for (const v of envelope) variance += (v - mean) ** 2;
+  const threshold = Math.max(ONSET_MIN_FLUX, mean + ONSET_THRESHOLD_SD * Math.sqrt(variance / (envelope.length || 1)));
+  const minGap = Math.max(1, Math.round(ONSET_MIN_GAP_SECONDS * frameRate));
+
+  let count = 0;
+  let last = -minGap;
+  for (let i = 1; i < envelope.length - 1; i++) {
+    const v = envelope[i];
+    if (v > threshold && v >= envelope[i - 1] && v > envelope[i + 1] && i - last >= minGap) {
+      count++;
+      last = i;
+    }
+  }
+  return count;
+}
+
+/** Pure calculation: the measurements the energy model works from */
+export function energyFeatures(samples: Float32Array, sampleRate: number, bpm: number | null): EnergyFeatures {
+  const { envelope, frameRate } = onsetEnvelope(samples, sampleRate);
+  let flux = 0;
+  for (const v of envelope) flux += v;
+  const seconds = samples.length / sampleRate;
+  return {
+    loudnessDb: loudnessDb(samples, sampleRate),
+    flux: envelope.length > 0 ? flux / envelope.length : 0,
+    onsetDensity: seconds > 0 ? countOnsets(envelope, frameRate) / seconds : 0,
+    bpm,
+  };
+}
+
+const clamp01 = (x: number) => Math.min(1, Math.max(0, x));
+
+/** Pure calculation: features mapped to roughly 0–1 so the weights are comparable */
+export function normaliseFeatures(features: EnergyFeatures): number[] {
+  return [
+    clamp01((features.loudnessDb + 30) / 25),
+    clamp01(Math.log1p(features.flux) / Math.log1p(100)),
+    clamp01(features.onsetDensity / 8),
+    clamp01(((features.bpm ?? 120) - 60) / 120),
+  ];
+}
+
+// ─── Model ───────────────────────────────────────────────────────────────
+
+/** Pure calculation: energy level 1–10 for a track */
+export function estimateEnergy(features: EnergyFeatures, calibration: EnergyCalibration = DEFAULT_ENERGY_CALIBRATION): number {
+  const x = normaliseFeatures(features);
+  let y = calibration.weights[0];
+  for (let i = 0; i < x.length; i++) y += calibration.weights[i + 1] * x[i];
+  return Math.min(10, Math.max(1, Math.round(y)));
+}
+
+/** Gaussian elimination with partial pivoting; returns null for a singular system */
+function solve(a: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const factor = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= factor * m[col][c];
+    }
+  }
+  return m.map((row, i) => row[n] / row[i]);
+}
+
+/**
+ * Pure calculation: fit the weights to tracks with a known (MIK-tagged) energy.
+ * Ridge regression towards the defaults keeps small or lopsided libraries
+ * from producing wild weights.
+ */
+export function calibrateEnergy(samples: { features: EnergyFeatures; energy: number }[]): EnergyCalibration {
+  if (samples.length < MIN_CALIBRATION_SAMPLES) return DEFAULT_ENERGY_CALIBRATION;
+
+  const prior = DEFAULT_ENERGY_CALIBRATION.weights;
+  const n = prior.length;
+  const xtx = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? RIDGE_STRENGTH : 0)));
+  const xty = prior.map(w => RIDGE_STRENGTH * w);
+  const rows = samples.map(s => [1, ...normaliseFeatures(s.features)]);
+  rows.forEach((row, k) => {
+    for (let i = 0; i < n; i++) {
+      xty[i] += row[i] * samples[k].energy;
+      for (let j = 0; j < n; j++) xtx[i][j] += row[i] * row[j];
+    }
+  });
+
+  const weights = solve(xtx, xty);
+  if (!weights) return DEFAULT_ENERGY_CALIBRATION;
+
+  let squaredError = 0;
+  rows.forEach((row, k) => {
+    const predicted = row.reduce((sum, x, i) => sum + x * weights[i], 0);
+    squaredError += (predicted - samples[k].energy) ** 2;
+  });
+  return { weights, sampleCount: samples.length, rmse: Math.sqrt(squaredError / samples.length) };
+}
@@ -0,0 +1,195 @@
+/**
+ * Acoustic fingerprints in the spirit of Chromaprint: a chroma image of the
+ * track reduced to one 32-bit word per frame, so two encodes of the same
+ * recording can be matched by bit error rate whatever their format or bitrate.
+ * Pure calculation — no I/O. Feed it decoded mono PCM (see audio-decoder).
+ */
+import { downsample, stft } from './audio-dsp';
+
+export interface Fingerprint {
+  /** One sub-fingerprint per frame, FRAME_SECONDS apart, starting at the first sound */
+  words: Uint32Array;
+  /** Seconds of audio after leading silence */
+  duration: number;
+}
+
+const ANALYSIS_RATE = 11025;
+const FRAME_SIZE = 4096;
+/** Frame step: a third of the frame, as in Chromaprint */
+export const FRAME_SECONDS = 0.124;
+const MIN_FREQ = 28;
+const MAX_FREQ = 3520;
+const SILENCE_DB = -48;
+/** Frames averaged either side when comparing a chroma bin against its past */
+const TEMPORAL_SPAN = 4;
+/** Time-smoothing of the chroma image, in frames */
+const SMOOTHING = 5;
+
+/** Same recording: encodes differ in a few percent of bits, unrelated songs in about a third */
+export const MATCH_SIMILARITY = 0.8;
+/** Leading silence is trimmed, so copies line up within a second or two */
+const MAX_OFFSET_FRAMES = 16;
+const MIN_OVERLAP_FRAMES = 64;
+/** Every Nth frame is enough to rule out most pairs cheaply */
+const QUICK_STRIDE = 8;
+const QUICK_OFFSET_FRAMES = 2;
+const QUICK_SIMILARITY = 0.7;
+
+// ─── Chroma image ────────────────────────────────────────────────────────
+
+/** Pure calculation: L2-normalised 12-bin chroma per frame, smoothed over time */
+function chromaImage(samples: Float32Array, sampleRate: number): Float64Array[] {
+  const binHz = sampleRate / FRAME_SIZE;
+  const firstBin = Math.max(1, Math.ceil(MIN_FREQ / binHz));
+  const lastBin = Math.min(FRAME_SIZE / 2 - 1, Math.floor(MAX_FREQ / binHz));
+  const pitchClassOf = new Int8Array(lastBin + 1);
+  for (let k = firstBin; k <= lastBin; k++) {
+    const midi = 69 + 12 * Math.log2((k * binHz) / 440);
+    pitchClassOf[k] = ((Math.round(midi) % 12) + 12) % 12;
+  }
+
+  const hop = Math.round(FRAME_SECONDS * sampleRate);
+  const raw = stft(samples, FRAME_SIZE, hop).map(magnitudes => {
+    const chroma = new Float64Array(12);
+    for (let k = firstBin; k <= lastBin; k++) chroma[pitchClassOf[k]] += magnitudes[k] * magnitudes[k];
+    const norm = Math.hypot(...chroma);
+    if (norm > 0) for (let i = 0; i < 12; i++) chroma[i] /= norm;
+    return chroma;
+  });
+
+  const half = Math.floor(SMOOTHING / 2);
+  return raw.map((_, t) => {
+    const smoothed = new Float64Array(12);
+    const from = Math.max(0, t - half);
+    const to = Math.min(raw.length - 1, t + half);
+    for (let s = from; s <= to; s++) {
+      for (let i = 0; i < 12; i++) smoothed[i] += raw[s][i] / (to - from + 1);
+    }
+    return smoothed;
+  });
+}
+
+/** Pure calculation: index of the first sample louder than SILENCE_DB over a 10 ms window */
+function firstSound(samples: Float32Array, sampleRate: number): number {
+  const window = Math.max(1, Math.round(sampleRate / 100));
+  const threshold = Math.pow(10, SILENCE_DB / 10) * window;
+  for (let start = 0; start + window <= samples.length; start += window) {
+    let sum = 0;
+    for (let i = start; i < start + window; i++) sum += samples[i] * samples[i];
+    if (sum > threshold) return start;
+  }
+  return samples.length;
+}
+
+// ─── Fingerprint ─────────────────────────────────────────────────────────
+
+/**
+ * Pure calculation: the fingerprint of a track. Bits 0–11 compare each pitch
+ * class with the next one up, 12–23 compare it with the frames just before,
+ * 24–31 compare it with the class a major third up.
+ */
+export function computeFingerprint(samples: Float32Array, sampleRate: number): Fingerprint {
+  const reduced = downsample(samples, sampleRate, ANALYSIS_RATE);
+  const trimmed = reduced.samples.subarray(firstSound(reduced.samples, reduced.sampleRate));
+  const image = chromaImage(trimmed, reduced.sampleRate);
+
+  const words = new Uint32Array(image.length);
+  for (let t = 0; t < image.length; t++) {
+    const now = image[t];
+    const before = new Float64Array(12);
+    const after = new Float64Array(12);
+    for (let s = 1; s <= TEMPORAL_SPAN; s++) {
+      const past = image[Math.max(0, t - s)];
+      const next = image[Math.min(image.length - 1, t + s - 1)];
+      for (let i = 0; i < 12; i++) { before[i] += past[i]; after[i] += next[i]; }
+    }
+    let word = 0;
+    for (let i = 0; i < 12; i++) {
+      if (now[i] > now[(i + 1) % 12]) word |= 1 << i;
+      if (after[i] > before[i]) word |= 1 << (12 + i);
+    }
+    for (let i = 0; i < 8; i++) {
+      if (now[i] > now[(i + 4) % 12]) word |= 1 << (24 + i);
+    }
+    words[t] = word >>> 0;
+  }
+  return { words, duration: trimmed.length / reduced.sampleRate };
+}
+
+// ─── Matching ────────────────────────────────────────────────────────────
+
+function popcount(x: number): number {
+  x -= (x >>> 1) & 0x55555555;
+  x = (x & 0x33333333) + ((x >>> 2) & 0x33333333);
+  return (((x + (x >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+/** Fraction of matching bits with `b` shifted by `offset` frames, or 0 if they barely overlap */
+function similarityAt(a: Uint32Array, b: Uint32Array, offset: number, stride: number): number {
+  const from = Math.max(0, -offset);
+  const to = Math.min(a.length, b.length - offset);
+  if (to - from < MIN_OVERLAP_FRAMES) return 0;
+  let errors = 0;
+  let frames = 0;
+  for (let t = from; t < to; t += stride) {
+    errors += popcount(a[t] ^ b[t + offset]);
+    frames++;
+  }
+  return 1 - errors / (32 * frames);
+}
+
+/**
+ * Pure calculation: best bit agreement between two fingerprints over small
+ * offsets, 0–1. Around 0.5–0.65 for unrelated songs; MATCH_SIMILARITY and up
+ * for the same recording. A quick sparse pass skips the full comparison for
+ * pairs that are clearly different.
+ */
+export function compareFingerprints(a: Uint32Array, b: Uint32Array): number {
+  let quick = 0;
+  for (let offset = -QUICK_OFFSET_FRAMES; offset <= QUICK_OFFSET_FRAMES; offset++) {
+    quick = Math.max(quick, similarityAt(a, b, offset, QUICK_STRIDE));
+  }
+  if (quick < QUICK_SIMILARITY) return quick;
+
+  let best = 0;
+  for (let offset = -MAX_OFFSET_FRAMES; offset <= MAX_OFFSET_FRAMES; offset++) {
+    best = Math.max(best, similarityAt(a, b, offset, 1));
+  }
+  return Math.round(best * 1000) / 1000;
+}
+
+/**
+ * Pure calculation: groups of files that are the same recording. Only songs
+ * within `durationTolerance` seconds of each other are compared, and matches
+ * are transitive, so A≈B and B≈C puts all three in one group.
+ */
+export function groupDuplicates(
+  songs: { filePath: string; fingerprint: Fingerprint }[],
+  durationTolerance = 5,
+): { filePaths: string[]; similarity: number }[] {
+  const sorted = [...songs].sort((x, y) => x.fingerprint.duration - y.fingerprint.duration);
+  const parent = sorted.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const lowest = new Map<number, number>();
+
+  for (let i = 0; i < sorted.length; i++) {
+    for (let j = i + 1; j < sorted.length; j++) {
+      if (sorted[j].fingerprint.duration - sorted[i].fingerprint.duration > durationTolerance) break;
+      const similarity = compareFingerprints(sorted[i].fingerprint.words, sorted[j].fingerprint.words);
+      if (similarity < MATCH_SIMILARITY) continue;
+      const root = find(j);
+      const other = find(i);
+      const combined = Math.min(similarity, lowest.get(root) ?? 1, lowest.get(other) ?? 1);
+      parent[other] = root;
+      lowest.set(root, combined);
+    }
+  }
+
+  const groups = new Map<number, string[]>();
+  sorted.forEach((song, i) => {
+    const root = find(i);
+    if (!lowest.has(root)) return;
+    groups.set(root, [...(groups.get(root) ?? []), song.filePath]);
+  });
+  return [...groups.entries()].map(([root, filePaths]) => ({ filePaths, similarity: lowest.get(root) ?? 0 }));
+}
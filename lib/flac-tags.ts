@@ -0,0 +1,177 @@
+import { promises as fs } from 'fs';
+
+/**
+ * Minimal FLAC metadata-block reader/writer for Vorbis comments.
+ * Only the VORBIS_COMMENT block is rewritten; STREAMINFO, PICTURE, SEEKTABLE
+ * and the audio frames are copied byte-for-byte.
+ */
+
+/** A single Vorbis comment entry. Field names are case-insensitive per spec. */
+export interface VorbisComment {
+  key: string;
+  value: string;
+}
+
+export interface VorbisCommentBlock {
+  vendor: string;
+  comments: VorbisComment[];
+}
+
+const FLAC_MAGIC = 'fLaC';
+const BLOCK_TYPE_PADDING = 1;
+const BLOCK_TYPE_VORBIS_COMMENT = 4;
+const DEFAULT_PADDING = 4096;
+const DEFAULT_VENDOR = 'Musicky';
+
+interface MetadataBlock {
+  type: number;
+  data: Buffer;
+}
+
+interface ParsedFlac {
+  prefix: Buffer;        // leading ID3v2 tag some encoders prepend, kept as-is
+  blocks: MetadataBlock[];
+  audioOffset: number;
+}
+
+// ─── Parsing (pure) ──────────────────────────────────────────────────────
+
+/** Pure calculation: size of a leading ID3v2 tag, or 0 when absent */
+function id3PrefixLength(buf: Buffer): number {
+  if (buf.length < 10 || buf.toString('latin1', 0, 3) !== 'ID3') return 0;
+  const size = (buf[6] << 21) | (buf[7] << 14) | (buf[8] << 7) | buf[9];
+  const hasFooter = (buf[5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+function parseFlac(buf: Buffer): ParsedFlac {
+  const start = id3PrefixLength(buf);
+  if (buf.toString('latin1', start, start + 4) !== FLAC_MAGIC) {
+    throw new Error('Not a FLAC file (missing fLaC marker)');
+  }
+
+  const blocks: MetadataBlock[] = [];
+  let offset = start + 4;
+  let last = false;
+  while (!last) {
+    if (offset + 4 > buf.length) throw new Error('Truncated FLAC metadata');
+    const header = buf[offset];
+    last = (header & 0x80) !== 0;
+    const type = header & 0x7f;
+    const length = buf.readUIntBE(offset + 1, 3);
+    const dataStart = offset + 4;
+    if (dataStart + length > buf.length) throw new Error('Truncated FLAC metadata block');
+    blocks.push({ type, data: buf.subarray(dataStart, dataStart + length) });
+    offset = dataStart + length;
+  }
+
+  return { prefix: buf.subarray(0, start), blocks, audioOffset: offset };
+}
+
+/** Pure calculation: decode a VORBIS_COMMENT block body (little-endian lengths) */
+export function decodeVorbisCommentBlock(data: Buffer): VorbisCommentBlock {
+  let offset = 0;
+  // Lengths come from the file; one that runs past the block means it's damaged
+  const take = (length: number) => {
+    if (offset + length > data.length) throw new Error('Truncated Vorbis comment block');
+    const start = offset;
+    offset += length;
+    return start;
+  };
+  const vendorLength = data.readUInt32LE(take(4));
+  const vendor = data.toString('utf8', take(vendorLength), offset);
+
+  const count = data.readUInt32LE(take(4));
+  const comments: VorbisComment[] = [];
+  for (let i = 0; i < count; i++) {
+    const len = data.readUInt32LE(take(4));
+    const entry = data.toString('utf8', take(len), offset);
+    const eq = entry.indexOf('=');
+    if (eq <= 0) continue;
+    comments.push({ key: entry.slice(0, eq).toUpperCase(), value: entry.slice(eq + 1) });
+  }
+  return { vendor, comments };
+}
+
+/** Pure calculation: encode a VORBIS_COMMENT block body */
+export function encodeVorbisCommentBlock(block: VorbisCommentBlock): Buffer {
+  const parts: Buffer[] = [];
+  const u32 = (n: number) => {
+    const b = Buffer.alloc(4);
+    b.writeUInt32LE(n);
+    return b;
+  };
+
+  const vendor = Buffer.from(block.vendor, 'utf8');
+  parts.push(u32(vendor.length), vendor, u32(block.comments.length));
+  for (const c of block.comments) {
+    const entry = Buffer.from(`${c.key.toUpperCase()}=${c.value}`, 'utf8');
+    parts.push(u32(entry.length), entry);
+  }
+  return Buffer.concat(parts);
+}
+
+function encodeBlockHeader(type: number, length: number, last: boolean): Buffer {
+  const header = Buffer.alloc(4);
+  header[0] = (last ? 0x80 : 0) | type;
+  header.writeUIntBE(length, 1, 3);
+  return header;
+}
+
+// ─── File I/O ────────────────────────────────────────────────────────────
+
+/** Read the Vorbis comments of a FLAC file. Returns an empty block when none exists. */
+export async function readFlacComments(filePath: string): Promise<VorbisCommentBlock> {
+  const buf = await fs.readFile(filePath);
+  const { blocks } = parseFlac(buf);
+  const vc = blocks.find(b => b.type === BLOCK_TYPE_VORBIS_COMMENT);
+  return vc ? decodeVorbisCommentBlock(vc.data) : { vendor: DEFAULT_VENDOR, comments: [] };
+}
+
+/**
+ * Rewrite the Vorbis comments of a FLAC file.
+ * The updater receives the current comments and returns the full new list.
+ * Existing padding absorbs the size change when possible; the file is
+ * written to a temp path and renamed so a failed write never truncates audio.
+ */
+export async function updateFlacComments(
+  filePath: string,
+  updater: (comments: VorbisComment[]) => VorbisComment[],
+): Promise<void> {
+  const buf = await fs.readFile(filePath);
+  const { prefix, blocks, audioOffset } = parseFlac(buf);
+
+  const existing = blocks.find(b => b.type === BLOCK_TYPE_VORBIS_COMMENT);
+  const current = existing ? decodeVorbisCommentBlock(existing.data) : { vendor: DEFAULT_VENDOR, comments: [] };
+  const encoded = encodeVorbisCommentBlock({ vendor: current.vendor, comments: updater(current.comments) });
+
+  const oldPadding = blocks.filter(b => b.type === BLOCK_TYPE_PADDING).reduce((sum, b) => sum + b.data.length + 4, 0);
+  const oldCommentSize = existing ? existing.data.length + 4 : 0;
+  const available = oldPadding + oldCommentSize - (encoded.length + 4);
+  // A padding block needs its own 4-byte header; fall back to fresh padding if it no longer fits
+  const paddingSize = available >= 4 ? available - 4 : DEFAULT_PADDING;
+
+  const kept = blocks.filter(b => b.type !== BLOCK_TYPE_PADDING && b.type !== BLOCK_TYPE_VORBIS_COMMENT);
+  // STREAMINFO must stay first; put comments right after it
+  const ordered: MetadataBlock[] = [
+    kept[0],
+    { type: BLOCK_TYPE_VORBIS_COMMENT, data: encoded },
+    ...kept.slice(1),
+    { type: BLOCK_TYPE_PADDING, data: Buffer.alloc(paddingSize) },
+  ];
+
+  const out: Buffer[] = [prefix, Buffer.from(FLAC_MAGIC, 'latin1')];
+  ordered.forEach((block, i) => {
+    out.push(encodeBlockHeader(block.type, block.data.length, i === ordered.length - 1), block.data);
+  });
+  out.push(buf.subarray(audioOffset));
+
+  const tmpPath = `${filePath}.musicky-tmp`;
+  try {
+    await fs.writeFile(tmpPath, Buffer.concat(out));
+    await fs.rename(tmpPath, filePath);
+  } catch (error) {
+    await fs.rm(tmpPath, { force: true });
+    throw error;
+  }
+}
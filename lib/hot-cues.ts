@@ -0,0 +1,101 @@
+/**
+ * Hot cues and saved loops: eight numbered slots per song, like the pads on a
+ * controller. A slot with an end position is a loop. Stored in song_hot_cues;
+ * converted here to and from what Serato and VirtualDJ keep.
+ */
+import type { SeratoMarkers } from './serato-markers';
+import type { VdjCuePoint } from './vdj-database';
+
+export const HOT_CUE_SLOTS = 8;
+
+/** Loop lengths offered when saving a loop, in beats */
+export const LOOP_BEATS = [1, 2, 4, 8, 16, 32];
+
+export type HotCueSource = 'serato' | 'vdj';
+
+export interface HotCue {
+  /** 1–8 */
+  slot: number;
+  /** Seconds */
+  position: number;
+  name: string;
+  /** End of a saved loop in seconds; null for a plain cue */
+  loopEnd: number | null;
+}
+
+/** Serato's default pad colours, reused for our markers so they match on export */
+export const HOT_CUE_COLORS = ['CC0000', 'CC8800', '0000CC', 'CCCC00', '00CC00', 'CC00CC', '00CCCC', '8800CC'];
+
+export function isHotCueSlot(slot: number): boolean {
+  return Number.isInteger(slot) && slot >= 1 && slot <= HOT_CUE_SLOTS;
+}
+
+export function hotCueLabel(cue: HotCue): string {
+  return cue.name || `${cue.loopEnd != null ? 'Loop' : 'Cue'} ${cue.slot}`;
+}
+
+/** Pure calculation: end of a loop of `beats` starting at `position`; null without a tempo */
+export function loopEndForBeats(position: number, beats: number, bpm: number | null): number | null {
+  return bpm && bpm > 0 ? position + (beats * 60) / bpm : null;
+}
+
+/** Pure calculation: waveform markers for the set slots, loops spanning their length */
+export function hotCueMarkers(cues: HotCue[]): { position: number; name: string; color: string; end?: number }[] {
+  return cues.map(cue => ({
+    position: cue.position,
+    name: hotCueLabel(cue),
+    color: `#${HOT_CUE_COLORS[cue.slot - 1]}`,
+    end: cue.loopEnd ?? undefined,
+  }));
+}
+
+/**
+ * Pure calculation: Serato cues keep their pad number. Saved loops, which
+ * Serato numbers separately, take the slot matching their own number when
+ * the cues left it free, and the first free slot otherwise.
+ */
+export function hotCuesFromSerato(markers: SeratoMarkers): HotCue[] {
+  const result: HotCue[] = markers.cues
+    .filter(cue => isHotCueSlot(cue.index + 1))
+    .map(cue => ({ slot: cue.index + 1, position: cue.position, name: cue.name, loopEnd: null }));
+  const used = new Set(result.map(c => c.slot));
+  for (const loop of [...markers.loops].sort((a, b) => a.index - b.index)) {
+    const preferred = loop.index + 1;
+    const slot = isHotCueSlot(preferred) && !used.has(preferred)
+      ? preferred
+      : Array.from({ length: HOT_CUE_SLOTS }, (_, i) => i + 1).find(s => !used.has(s));
+    if (slot === undefined) break;
+    used.add(slot);
+    result.push({ slot, position: loop.start, name: loop.name, loopEnd: loop.end });
+  }
+  return result.sort((a, b) => a.slot - b.slot);
+}
+
+/** Pure calculation: cues on their pads and loops on the loop slot of the same number */
+export function hotCuesToSerato(cues: HotCue[]): SeratoMarkers {
+  const sorted = [...cues].sort((a, b) => a.slot - b.slot);
+  return {
+    cues: sorted
+      .filter(cue => cue.loopEnd == null)
+      .map(cue => ({ index: cue.slot - 1, position: cue.position, name: cue.name, color: HOT_CUE_COLORS[cue.slot - 1] })),
+    loops: sorted
+      .filter(cue => cue.loopEnd != null)
+      .map(cue => ({ index: cue.slot - 1, start: cue.position, end: cue.loopEnd as number, name: cue.name, locked: false })),
+  };
+}
+
+/** Pure calculation: VirtualDJ cues numbered 1–8; VirtualDJ's loops aren't read */
+export function hotCuesFromVdj(cues: VdjCuePoint[]): HotCue[] {
+  return cues
+    .filter(cue => cue.num !== undefined && isHotCueSlot(cue.num))
+    .map(cue => ({ slot: cue.num as number, position: cue.position, name: cue.name, loopEnd: null }))
+    .sort((a, b) => a.slot - b.slot);
+}
+
+/** Pure calculation: the plain cues as VirtualDJ POIs; loops have no POI equivalent we write */
+export function hotCuesToVdj(cues: HotCue[]): VdjCuePoint[] {
+  return cues
+    .filter(cue => cue.loopEnd == null)
+    .sort((a, b) => a.slot - b.slot)
+    .map(cue => ({ position: cue.position, name: cue.name, num: cue.slot }));
+}
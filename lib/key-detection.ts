@@ -0,0 +1,116 @@
+/**
+ * Musical key estimation: chromagram → correlation with major/minor key profiles.
+ * Pure calculation — no I/O. Feed it decoded mono PCM (see audio-decoder).
+ */
+import { downsample, stft } from './audio-dsp';
+import { standardToCamelot } from './camelot';
+
+export interface KeyEstimate {
+  /** Standard notation as Mixed In Key writes it, e.g. "Am", "F#", "Ebm" */
+  key: string;
+  camelotKey: string;
+  /** 0–1: how well the best key fits and how far it is ahead of the runner-up */
+  confidence: number;
+}
+
+const ANALYSIS_RATE = 11025;
+/** ~0.74 s frames: 1.35 Hz bins, fine enough to separate semitones above ~100 Hz */
+const FRAME_SIZE = 8192;
+const HOP_SIZE = 4096;
+const MIN_FREQ = 100;
+const MAX_FREQ = 2500;
+/** Below this correlation the chroma doesn't look tonal at all */
+const MIN_CORRELATION = 0.3;
+
+/** Krumhansl–Kessler probe-tone profiles, tonic first */
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+/** Pitch-class names indexed from C, spelled the way key tags usually are */
+const MAJOR_NAMES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+const MINOR_NAMES = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'G#', 'A', 'Bb', 'B'];
+
+// ─── Chroma ──────────────────────────────────────────────────────────────
+
+/**
+ * Pure calculation: 12-bin pitch-class profile of the whole track (C = 0).
+ * Only spectral peaks count, and every frame is normalised, so sustained
+ * harmony outweighs loud percussive frames.
+ */
+export function chromagram(samples: Float32Array, sampleRate: number): Float64Array {
+  const reduced = downsample(samples, sampleRate, ANALYSIS_RATE);
+  const binHz = reduced.sampleRate / FRAME_SIZE;
+  const firstBin = Math.ceil(MIN_FREQ / binHz);
+  const lastBin = Math.min(FRAME_SIZE / 2 - 2, Math.floor(MAX_FREQ / binHz));
+
+  const pitchClassOf = new Int8Array(lastBin + 1);
+  for (let k = firstBin; k <= lastBin; k++) {
+    const midi = 69 + 12 * Math.log2((k * binHz) / 440);
+    pitchClassOf[k] = ((Math.round(midi) % 12) + 12) % 12;
+  }
+
+  const chroma = new Float64Array(12);
+  const frameChroma = new Float64Array(12);
+  for (const magnitudes of stft(reduced.samples, FRAME_SIZE, HOP_SIZE)) {
+    frameChroma.fill(0);
+    for (let k = firstBin; k <= lastBin; k++) {
+      if (magnitudes[k] > magnitudes[k - 1] && magnitudes[k] >= magnitudes[k + 1]) {
+        frameChroma[pitchClassOf[k]] += magnitudes[k];
+      }
+    }
+    const peak = Math.max(...frameChroma);
+    if (peak <= 0) continue;
+    for (let pc = 0; pc < 12; pc++) chroma[pc] += frameChroma[pc] / peak;
+  }
+  return chroma;
+}
+
+// ─── Key ─────────────────────────────────────────────────────────────────
+
+function pearson(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  const n = a.length;
+  let meanA = 0;
+  let meanB = 0;
+  for (let i = 0; i < n; i++) { meanA += a[i]; meanB += b[i]; }
+  meanA /= n;
+  meanB /= n;
+  let cov = 0;
+  let varA = 0;
+  let varB = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (a[i] - meanA) * (b[i] - meanB);
+    varA += (a[i] - meanA) ** 2;
+    varB += (b[i] - meanB) ** 2;
+  }
+  return varA === 0 || varB === 0 ? 0 : cov / Math.sqrt(varA * varB);
+}
+
+/**
+ * Pure calculation: best of the 24 major/minor keys for a chroma vector,
+ * or null when the chroma is flat (noise, unpitched material).
+ */
+export function keyFromChroma(chroma: ArrayLike<number>): KeyEstimate | null {
+  const scores: { key: string; score: number }[] = [];
+  for (let tonic = 0; tonic < 12; tonic++) {
+    const rotated = Array.from({ length: 12 }, (_, pc) => chroma[(pc + tonic) % 12]);
+    scores.push({ key: MAJOR_NAMES[tonic], score: pearson(rotated, MAJOR_PROFILE) });
+    scores.push({ key: `${MINOR_NAMES[tonic]}m`, score: pearson(rotated, MINOR_PROFILE) });
+  }
+  scores.sort((a, b) => b.score - a.score);
+  const [best, runnerUp] = scores;
+  if (best.score < MIN_CORRELATION) return null;
+
+  const camelotKey = standardToCamelot(best.key);
+  if (!camelotKey) return null;
+
+  // A clear lead over the runner-up matters more than the absolute fit
+  const margin = Math.min(1, (best.score - runnerUp.score) / 0.15);
+  const fit = Math.min(1, Math.max(0, (best.score - MIN_CORRELATION) / (1 - MIN_CORRELATION)));
+  const confidence = Math.round(fit * (0.3 + 0.7 * margin) * 100) / 100;
+  return { key: best.key, camelotKey, confidence };
+}
+
+/** Estimate the key of a track. Returns null for unpitched or atonal audio. */
+export function detectKey(samples: Float32Array, sampleRate: number): KeyEstimate | null {
+  return keyFromChroma(chromagram(samples, sampleRate));
+}
@@ -0,0 +1,38 @@
+/**
+ * Library change events: when the folder watcher updates the library, the
+ * server pushes a LibraryChange to every open window over a server-sent
+ * event stream. The layout holds the one EventSource and re-dispatches each
+ * change as a musicky:library-changed window event for views to refresh on.
+ */
+
+export interface LibraryChange {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  renamed: { from: string; to: string }[];
+}
+
+/** Server-sent event stream of LibraryChange messages */
+export const LIBRARY_EVENTS_PATH = '/library-events';
+
+const LIBRARY_CHANGE_EVENT = 'musicky:library-changed';
+
+export function dispatchLibraryChange(change: LibraryChange): void {
+  if (typeof window === 'undefined') return;
+  window.dispatchEvent(new CustomEvent<LibraryChange>(LIBRARY_CHANGE_EVENT, { detail: change }));
+}
+
+/** Subscribe to library changes; returns the unsubscribe function */
+export function onLibraryChange(handler: (change: LibraryChange) => void): () => void {
+  const listener = (e: Event) => handler((e as CustomEvent<LibraryChange>).detail);
+  window.addEventListener(LIBRARY_CHANGE_EVENT, listener);
+  return () => window.removeEventListener(LIBRARY_CHANGE_EVENT, listener);
+}
+
+/** Pure calculation: every path a change touches, old and new names included */
+export function changedPaths(change: LibraryChange): string[] {
+  return [
+    ...change.added, ...change.updated, ...change.removed,
+    ...change.renamed.flatMap(r => [r.from, r.to]),
+  ];
+}
@@ -0,0 +1,272 @@
+/**
+ * Matching and diffing for imports from other DJ software libraries.
+ * Pure calculation — no I/O. The telefunc layer reads the DB state,
+ * calls buildLibraryImportDiff, and applies whatever the user approves.
+ */
+import { categorizeHashtags, type CategorizedTags } from './hashtag-categorizer';
+import type { TagCategory } from './types';
+
+/** A track as found in the external library, already reduced to hashtags */
+export interface ExternalTrack {
+  id: string;
+  filePath: string;
+  title: string;
+  artist: string;
+  hashtags: string[];
+}
+
+export interface ExternalPlaylist {
+  name: string;
+  trackIds: string[];
+}
+
+export interface KnownSong {
+  filePath: string;
+  title?: string;
+  artist?: string;
+}
+
+export type MatchMethod = 'location' | 'artist_title';
+
+export interface TrackMatch {
+  filePath: string;
+  matchedBy: MatchMethod;
+}
+
+export interface ImportTagProposal {
+  filePath: string;
+  title: string;
+  artist: string;
+  matchedBy: MatchMethod;
+  currentTags: { label: string; category: TagCategory }[];
+  newTags: { label: string; category: TagCategory }[];
+}
+
+export interface ImportPlaylistProposal {
+  name: string;
+  filePaths: string[];
+  unmatchedCount: number;
+  exists: boolean;
+}
+
+export interface ImportConnectionProposal {
+  sourcePath: string;
+  targetPath: string;
+  playlistName: string;
+}
+
+export interface LibraryImportDiff {
+  tags: ImportTagProposal[];
+  playlists: ImportPlaylistProposal[];
+  connections: ImportConnectionProposal[];
+  unmatched: { title: string; artist: string; filePath: string }[];
+}
+
+/** DB state the diff is computed against */
+export interface LibraryImportContext {
+  knownSongs: KnownSong[];
+  tagsForSong: (filePath: string) => { label: string; category: TagCategory }[];
+  playlistExists: (name: string) => boolean;
+  connectionExists: (sourcePath: string, targetPath: string) => boolean;
+  knownGenres?: Set<string>;
+  knownMoods?: Set<string>;
+  knownPhases?: Set<string>;
+}
+
+// ─── Matching (pure) ─────────────────────────────────────────────────────
+
+function normalize(value: string | undefined): string {
+  return (value ?? '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Match external tracks to known songs: exact path first, then exact
+ * (normalized) artist + title. Loose title-only matching is deliberately
+ * left out — a wrong match would put tags on the wrong song.
+ */
+export function matchExternalTracks(tracks: ExternalTrack[], knownSongs: KnownSong[]): Map<string, TrackMatch> {
+  const byPath = new Map(knownSongs.map(s => [s.filePath, s]));
+  const byArtistTitle = new Map<string, string>();
+  for (const song of knownSongs) {
+    if (!song.title) continue;
+    const key = `${normalize(song.artist)}\u0000${normalize(song.title)}`;
+    if (!byArtistTitle.has(key)) byArtistTitle.set(key, song.filePath);
+  }
+
+  const matches = new Map<string, TrackMatch>();
+  for (const track of tracks) {
+    if (byPath.has(track.filePath)) {
+      matches.set(track.id, { filePath: track.filePath, matchedBy: 'location' });
+      continue;
+    }
+    if (!track.title) continue;
+    const fallback = byArtistTitle.get(`${normalize(track.artist)}\u0000${normalize(track.title)}`);
+    if (fallback) matches.set(track.id, { filePath: fallback, matchedBy: 'artist_title' });
+  }
+  return matches;
+}
+
+export type FuzzyMatchMethod = MatchMethod | 'filename' | 'similar';
+
+export interface FuzzyTrackQuery {
+  filePath: string;
+  title?: string;
+  artist?: string;
+}
+
+function fileStem(filePath: string): string {
+  const base = filePath.replace(/\\/g, '/').split('/').pop() ?? '';
+  return normalize(base.replace(/\.[^.]+$/, '').replace(/[_]+/g, ' '));
+}
+
+function bigrams(value: string): Map<string, number> {
+  const grams = new Map<string, number>();
+  const compact = value.replace(/[^a-z0-9]+/g, ' ').trim();
+  for (let i = 0; i < compact.length - 1; i++) {
+    const gram = compact.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+}
+
+/** Pure calculation: Dice coefficient over character bigrams, 0–1 */
+export function stringSimilarity(a: string, b: string): number {
+  const ga = bigrams(normalize(a));
+  const gb = bigrams(normalize(b));
+  let total = 0;
+  for (const n of ga.values()) total += n;
+  for (const n of gb.values()) total += n;
+  if (total === 0) return 0;
+  let shared = 0;
+  for (const [gram, n] of ga) shared += Math.min(n, gb.get(gram) ?? 0);
+  return (2 * shared) / total;
+}
+
+/**
+ * Find the library song for a playlist entry whose path may no longer exist:
+ * exact path, exact artist + title, unique file name, then the most similar
+ * "artist title" / file name above `threshold`. Playlists only reference
+ * songs, so a looser match than matchExternalTracks is acceptable here —
+ * every fuzzy hit is still shown to the user.
+ */
+export function fuzzyMatchSong(
+  query: FuzzyTrackQuery,
+  knownSongs: KnownSong[],
+  threshold = 0.8,
+): { filePath: string; matchedBy: FuzzyMatchMethod; score: number } | null {
+  const exact = knownSongs.find(s => s.filePath === query.filePath);
+  if (exact) return { filePath: exact.filePath, matchedBy: 'location', score: 1 };
+
+  if (query.title) {
+    const key = `${normalize(query.artist)}\u0000${normalize(query.title)}`;
+    const byTags = knownSongs.find(s => s.title && `${normalize(s.artist)}\u0000${normalize(s.title)}` === key);
+    if (byTags) return { filePath: byTags.filePath, matchedBy: 'artist_title', score: 1 };
+  }
+
+  const stem = fileStem(query.filePath);
+  const sameName = knownSongs.filter(s => fileStem(s.filePath) === stem);
+  if (stem && sameName.length === 1) return { filePath: sameName[0].filePath, matchedBy: 'filename', score: 1 };
+
+  const queryLabel = query.title ? `${query.artist ?? ''} ${query.title}` : stem;
+  let best: { filePath: string; score: number } | null = null;
+  for (const song of knownSongs) {
+    const candidates = [fileStem(song.filePath)];
+    if (song.title) candidates.push(`${song.artist ?? ''} ${song.title}`);
+    for (const candidate of candidates) {
+      const score = stringSimilarity(queryLabel, candidate);
+      if (score >= threshold && (!best || score > best.score)) best = { filePath: song.filePath, score };
+    }
+  }
+  return best ? { ...best, matchedBy: 'similar' } : null;
+}
+
+const CATEGORY_LISTS: [keyof CategorizedTags, TagCategory][] = [
+  ['phases', 'phase'],
+  ['genres', 'genre'],
+  ['moods', 'mood'],
+  ['custom', 'custom'],
+];
+
+// ─── Diff (pure) ─────────────────────────────────────────────────────────
+
+/**
+ * Build the reviewable diff for an external library: tags to add per song,
+ * playlists to create, and transition connections between adjacent playlist tracks.
+ * Only additions are proposed — existing Musicky data is never removed by an import.
+ */
+export function buildLibraryImportDiff(
+  tracks: ExternalTrack[],
+  playlists: ExternalPlaylist[],
+  ctx: LibraryImportContext,
+): LibraryImportDiff {
+  const matches = matchExternalTracks(tracks, ctx.knownSongs);
+
+  const tags: ImportTagProposal[] = [];
+  const unmatched: LibraryImportDiff['unmatched'] = [];
+  const proposedPaths = new Set<string>();
+
+  for (const track of tracks) {
+    const match = matches.get(track.id);
+    if (!match) {
+      unmatched.push({ title: track.title, artist: track.artist, filePath: track.filePath });
+      continue;
+    }
+    if (track.hashtags.length === 0 || proposedPaths.has(match.filePath)) continue;
+
+    const categorized = categorizeHashtags(track.hashtags, ctx.knownGenres, ctx.knownMoods, ctx.knownPhases);
+    const currentTags = ctx.tagsForSong(match.filePath);
+    const existing = new Set(currentTags.map(t => `${t.category}:${t.label.toLowerCase()}`));
+
+    const newTags: ImportTagProposal['newTags'] = [];
+    for (const [list, category] of CATEGORY_LISTS) {
+      for (const label of new Set(categorized[list])) {
+        if (!existing.has(`${category}:${label}`)) newTags.push({ label, category });
+      }
+    }
+    if (newTags.length === 0) continue;
+
+    proposedPaths.add(match.filePath);
+    tags.push({
+      filePath: match.filePath,
+      title: track.title,
+      artist: track.artist,
+      matchedBy: match.matchedBy,
+      currentTags,
+      newTags,
+    });
+  }
+
+  const playlistProposals: ImportPlaylistProposal[] = [];
+  const connections: ImportConnectionProposal[] = [];
+  const proposedConnections = new Set<string>();
+
+  for (const playlist of playlists) {
+    const filePaths: string[] = [];
+    let unmatchedCount = 0;
+    for (const id of playlist.trackIds) {
+      const match = matches.get(id);
+      if (match) filePaths.push(match.filePath);
+      else unmatchedCount++;
+    }
+    if (filePaths.length === 0) continue;
+
+    playlistProposals.push({
+      name: playlist.name,
+      filePaths,
+      unmatchedCount,
+      exists: ctx.playlistExists(playlist.name),
+    });
+
+    for (let i = 0; i < filePaths.length - 1; i++) {
+      const sourcePath = filePaths[i];
+      const targetPath = filePaths[i + 1];
+      const key = `${sourcePath}\u0000${targetPath}`;
+      if (sourcePath === targetPath || proposedConnections.has(key)) continue;
+      if (ctx.connectionExists(sourcePath, targetPath)) continue;
+      proposedConnections.add(key);
+      connections.push({ sourcePath, targetPath, playlistName: playlist.name });
+    }
+  }
+
+  return { tags, playlists: playlistProposals, connections, unmatched };
+}
@@ -0,0 +1,172 @@
+/**
+ * Library sync: writes freshly read files into the cache, tags, connections
+ * and import suggestions, and drops files that left the disk. Shared by the
+ * manual scan and the folder watcher, so both leave the library the same way.
+ */
+import { MP3MetadataManager, type MusickTagData, MUSICK_TAG_PREFIX } from './mp3-metadata';
+import { resolveAllConnections, type ScannedSong, type FileStat } from './scan-engine';
+import { discoverHiddenConnections, type SongNode, type SongEdge } from './graph-engine';
+import type { TagCategory } from './types';
+import { insertMP3Cache, deleteMP3Cache, getMP3CacheIndex } from '../database/sqlite/queries/dj-sets';
+import { bulkSetSongTags, getTagsForSong } from '../database/sqlite/queries/song-tags';
+import {
+  bulkAddConnections, type ConnectionType, type ConnectionSource,
+} from '../database/sqlite/queries/song-connections';
+import { removeNodePosition, songNodeId } from '../database/sqlite/queries/canvas-state';
+import { deleteSongNodes } from '../database/sqlite/queries/moodboard';
+import {
+  addTagEdit, clearPendingTagEditsByDirection, clearPendingTagEditsForFile,
+} from '../database/sqlite/queries/mp3-tag-edits';
+
+export interface LibraryUpdate {
+  /** Files just read from disk */
+  songs: ScannedSong[];
+  /** Size and modification time of the files on disk */
+  stats: FileStat[];
+  /** Files gone from disk */
+  removedPaths: string[];
+  /**
+   * Every file was re-read: import suggestions start over and related songs
+   * resolve among `songs` alone instead of the whole library
+   */
+  deep?: boolean;
+}
+
+export interface LibraryUpdateResult {
+  tagsDiscovered: number;
+  connectionsDiscovered: number;
+  importSuggestions: number;
+}
+
+export async function applyLibraryUpdate(
+  { songs, stats, removedPaths, deep = false }: LibraryUpdate,
+  metadataManager: MP3MetadataManager,
+): Promise<LibraryUpdateResult> {
+  const statByPath = new Map(stats.map(st => [st.filePath, st]));
+
+  // 1. Update mp3_file_cache and song_tags for each scanned song
+  let tagsDiscovered = 0;
+  for (const song of songs) {
+    const filename = song.filePath.split('/').pop() ?? song.filePath;
+    const stat = statByPath.get(song.filePath);
+
+    insertMP3Cache({
+      file_path: song.filePath,
+      filename,
+      artist: song.artist,
+      title: song.title,
+      album: song.album,
+      duration: song.duration,
+      file_size: stat?.size ?? 0,
+      last_modified: stat?.mtime ?? new Date().toISOString(),
+    });
+
+    if (song.tags.length > 0) {
+      bulkSetSongTags(song.filePath, song.tags.map(t => ({
+        label: t.label,
+        category: t.category as TagCategory,
+        source: 'id3_import' as const,
+      })));
+      tagsDiscovered += song.tags.length;
+    }
+  }
+
+  // Files gone from disk leave the cache and the boards; their tags and connections stay
+  for (const filePath of removedPaths) {
+    deleteMP3Cache(filePath);
+    removeNodePosition(songNodeId(filePath));
+    deleteSongNodes(filePath);
+  }
+
+  // 2. Resolve related-song references into file-path connections, against the whole library
+  const known = deep ? undefined : getMP3CacheIndex()
+    .map(c => ({ filePath: c.file_path, title: c.title, artist: c.artist }));
+  const resolvedConnections = resolveAllConnections(songs, known);
+  if (resolvedConnections.length > 0) {
+    bulkAddConnections(resolvedConnections.map(c => ({
+      sourcePath: c.sourcePath,
+      targetPath: c.targetPath,
+      type: c.type as ConnectionType,
+      weight: c.weight,
+      source: 'id3_import' as ConnectionSource,
+    })));
+  }
+
+  // 3. Discover hidden connections (shared-tag edges) among the scanned songs
+  const songNodes: SongNode[] = songs.map(s => ({
+    filePath: s.filePath,
+    title: s.title,
+    artist: s.artist,
+    tags: s.tags,
+  }));
+  const existingEdges: SongEdge[] = resolvedConnections.map(c => ({
+    sourceFilePath: c.sourcePath,
+    targetFilePath: c.targetPath,
+    type: c.type,
+    weight: c.weight,
+  }));
+  const discovered = discoverHiddenConnections(songNodes, existingEdges);
+  if (discovered.length > 0) {
+    bulkAddConnections(discovered.map(e => ({
+      sourcePath: e.sourceFilePath,
+      targetPath: e.targetFilePath,
+      type: e.type as ConnectionType,
+      weight: e.weight,
+      source: 'auto_discovered' as ConnectionSource,
+    })));
+  }
+
+  // 4. Auto-detect import suggestions: find songs with µ: tags that differ from song_tags
+  let importSuggestions = 0;
+  if (deep) {
+    clearPendingTagEditsByDirection('import');
+  } else {
+    // Files that weren't read keep their suggestions from earlier scans
+    for (const song of songs) clearPendingTagEditsForFile(song.filePath, 'import');
+  }
+
+  for (const song of songs) {
+    let id3Tags: MusickTagData | null;
+    try {
+      id3Tags = await metadataManager.readMusickTags(song.filePath);
+    } catch { continue; }
+    if (!id3Tags) continue;
+
+    const dbTags = getTagsForSong(song.filePath);
+    const dbMusickData = MP3MetadataManager.tagsToMusickData(
+      dbTags.map(t => ({ label: t.tag_label, category: t.tag_category })),
+      [],
+    );
+
+    // Compare each field and create import suggestions where they differ
+    const fields: { name: string; id3Val: string[]; dbVal: string[] }[] = [
+      { name: `${MUSICK_TAG_PREFIX}genres`, id3Val: id3Tags.genres || [], dbVal: dbMusickData.genres || [] },
+      { name: `${MUSICK_TAG_PREFIX}phases`, id3Val: id3Tags.phases || [], dbVal: dbMusickData.phases || [] },
+      { name: `${MUSICK_TAG_PREFIX}moods`,  id3Val: id3Tags.moods  || [], dbVal: dbMusickData.moods  || [] },
+      { name: `${MUSICK_TAG_PREFIX}topics`, id3Val: id3Tags.topics || [], dbVal: dbMusickData.topics || [] },
+      { name: `${MUSICK_TAG_PREFIX}tags`,   id3Val: id3Tags.tags   || [], dbVal: dbMusickData.tags   || [] },
+    ];
+
+    for (const f of fields) {
+      const id3Norm = [...f.id3Val].sort().join(', ');
+      const dbNorm = [...f.dbVal].sort().join(', ');
+      if (id3Norm !== dbNorm && id3Norm !== '') {
+        addTagEdit(song.filePath, f.name, dbNorm || null, id3Norm, 'import');
+        importSuggestions++;
+      }
+    }
+
+    // Related songs
+    if (id3Tags.related && id3Tags.related.length > 0) {
+      const id3RelStr = JSON.stringify(id3Tags.related.sort((a, b) => `${a.title}${a.artist}`.localeCompare(`${b.title}${b.artist}`)));
+      addTagEdit(song.filePath, `${MUSICK_TAG_PREFIX}related`, null, id3RelStr, 'import');
+      importSuggestions++;
+    }
+  }
+
+  return {
+    tagsDiscovered,
+    connectionsDiscovered: resolvedConnections.length + discovered.length,
+    importSuggestions,
+  };
+}
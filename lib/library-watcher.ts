@@ -0,0 +1,119 @@
+/**
+ * Library watcher: follows the music folder with fs.watch and, once events
+ * have been quiet for a moment, reports which audio files appeared, changed
+ * or went away. A download or a tag editor touches a file many times in a
+ * row; the debounce turns that into one batch. The watcher knows nothing
+ * about the database — server/library-watcher applies its batches.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { isSupportedAudioFile } from './mp3-metadata';
+import { statAudioFiles, type CachedFileStat, type FileStat } from './scan-engine';
+
+/** Quiet time after the last event before a batch is reported */
+export const WATCH_DEBOUNCE_MS = 1500;
+
+export interface WatchBatch {
+  /** Audio files that exist now and were created, written or moved in */
+  changed: FileStat[];
+  /** Paths that no longer exist: files, or whole folders deleted or moved away */
+  removed: string[];
+}
+
+export interface LibraryRename {
+  from: string;
+  to: string;
+}
+
+export class LibraryWatcher {
+  private watcher: fs.FSWatcher | null = null;
+  private pending = new Set<string>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(
+    readonly folder: string,
+    private readonly onBatch: (batch: WatchBatch) => void | Promise<void>,
+    private readonly debounceMs = WATCH_DEBOUNCE_MS,
+  ) {}
+
+  /** Throws when the folder is missing or can't be watched */
+  start(): void {
+    if (this.watcher) return;
+    this.watcher = fs.watch(this.folder, { recursive: true }, (_event, filename) => {
+      if (!filename) return;
+      this.pending.add(path.join(this.folder, filename.toString()));
+      this.schedule();
+    });
+    this.watcher.on('error', (err) => {
+      console.error(`Stopped watching ${this.folder}:`, err);
+      void this.stop();
+    });
+  }
+
+  /** Stop watching; resolves once a batch already being applied is done */
+  async stop(): Promise<void> {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.pending.clear();
+    await this.flushing;
+  }
+
+  private schedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      const paths = [...this.pending];
+      this.pending.clear();
+      // One batch at a time, so a slow one can't interleave with the next
+      this.flushing = this.flushing.then(() => this.flush(paths));
+    }, this.debounceMs);
+  }
+
+  private async flush(paths: string[]): Promise<void> {
+    try {
+      const batch = await collectBatch(paths);
+      if (batch.changed.length > 0 || batch.removed.length > 0) await this.onBatch(batch);
+    } catch (err) {
+      console.error('Failed to apply library changes:', err);
+    }
+  }
+}
+
+/** Sort touched paths into audio files on disk and paths that are gone */
+async function collectBatch(paths: string[]): Promise<WatchBatch> {
+  const changed = new Map<string, FileStat>();
+  const removed: string[] = [];
+
+  for (const filePath of paths) {
+    const stat = fs.statSync(filePath, { throwIfNoEntry: false });
+    if (!stat) {
+      removed.push(filePath);
+    } else if (stat.isDirectory()) {
+      // A folder moved or copied in only reports itself
+      for (const file of await statAudioFiles(filePath)) changed.set(file.filePath, file);
+    } else if (stat.isFile() && isSupportedAudioFile(filePath)) {
+      changed.set(filePath, { filePath, size: stat.size, mtime: stat.mtime.toISOString() });
+    }
+  }
+
+  return { changed: [...changed.values()], removed: removed.sort() };
+}
+
+/**
+ * Pure calculation: pair files that left with files that arrived when size
+ * and modification time match — a rename or move keeps both.
+ */
+export function pairRenames(removed: CachedFileStat[], added: FileStat[]): LibraryRename[] {
+  const renames: LibraryRename[] = [];
+  const unmatched = [...added];
+  for (const gone of removed) {
+    const index = unmatched.findIndex(f => f.size === gone.fileSize && f.mtime === gone.lastModified);
+    if (index === -1) continue;
+    renames.push({ from: gone.filePath, to: unmatched[index].filePath });
+    unmatched.splice(index, 1);
+  }
+  return renames;
+}
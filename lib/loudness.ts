@@ -0,0 +1,187 @@
+/**
+ * Loudness measurement per ITU-R BS.1770-4 / EBU R128: K-weighted, gated
+ * integrated loudness in LUFS and 4× oversampled true peak in dBTP, plus the
+ * ReplayGain 2.0 and preview-gain figures derived from them.
+ * Pure calculation — no I/O. Feed it decoded PCM channels (see audio-decoder).
+ */
+
+export interface LoudnessMeasurement {
+  integratedLufs: number;
+  truePeakDb: number;
+}
+
+/** ReplayGain 2.0 reference level */
+export const REPLAYGAIN_REFERENCE_LUFS = -18;
+/** Previews aim louder than ReplayGain so quiet rooms don't need the volume maxed */
+export const PREVIEW_TARGET_LUFS = -14;
+/** Keep boosted previews this far below full scale */
+const PREVIEW_HEADROOM_DB = -1;
+const MAX_PREVIEW_BOOST_DB = 12;
+
+const BLOCK_SECONDS = 0.4;
+const STEP_SECONDS = 0.1;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+const OVERSAMPLING = 4;
+const TAPS_PER_PHASE = 12;
+
+// ─── K-weighting ─────────────────────────────────────────────────────────
+
+interface Biquad { b0: number; b1: number; b2: number; a1: number; a2: number }
+
+/** BS.1770 pre-filter (high shelf) and RLB high-pass, derived for any sample rate */
+function kWeightingFilters(sampleRate: number): [Biquad, Biquad] {
+  let k = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let q = 0.7071752369554196;
+  let a0 = 1 + k / q + k * k;
+  const shelf: Biquad = {
+    b0: (vh + (vb * k) / q + k * k) / a0,
+    b1: (2 * (k * k - vh)) / a0,
+    b2: (vh - (vb * k) / q + k * k) / a0,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  };
+
+  k = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  q = 0.5003270373238773;
+  a0 = 1 + k / q + k * k;
+  const highPass: Biquad = { b0: 1, b1: -2, b2: 1, a1: (2 * (k * k - 1)) / a0, a2: (1 - k / q + k * k) / a0 };
+  return [shelf, highPass];
+}
+
+function applyBiquad(input: Float32Array, f: Biquad): Float32Array {
+  const out = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = f.b0 * x + f.b1 * x1 + f.b2 * x2 - f.a1 * y1 - f.a2 * y2;
+    out[i] = y;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+  }
+  return out;
+}
+
+const toLufs = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+/**
+ * Pure calculation: gated integrated loudness. Returns null for audio
+ * shorter than one 400 ms block or entirely below the absolute gate.
+ */
+export function integratedLoudness(channels: Float32Array[], sampleRate: number): number | null {
+  const blockSize = Math.round(BLOCK_SECONDS * sampleRate);
+  const step = Math.round(STEP_SECONDS * sampleRate);
+  const length = Math.min(...channels.map(c => c.length));
+  if (channels.length === 0 || length < blockSize) return null;
+
+  const [shelf, highPass] = kWeightingFilters(sampleRate);
+  const blockCount = Math.floor((length - blockSize) / step) + 1;
+  const blockPower = new Float64Array(blockCount);
+  // Front channels all weigh 1.0; Musicky never sees surround files
+  for (const channel of channels) {
+    const weighted = applyBiquad(applyBiquad(channel, shelf), highPass);
+    // Sum squares per 100 ms step once, then add four steps per block
+    const stepCount = Math.floor(length / step);
+    const stepSums = new Float64Array(stepCount);
+    for (let s = 0; s < stepCount; s++) {
+      let sum = 0;
+      for (let i = s * step; i < (s + 1) * step; i++) sum += weighted[i] * weighted[i];
+      stepSums[s] = sum;
+    }
+    const stepsPerBlock = Math.round(blockSize / step);
+    for (let b = 0; b < blockCount; b++) {
+      let sum = 0;
+      for (let s = b; s < b + stepsPerBlock; s++) sum += stepSums[s];
+      blockPower[b] += sum / blockSize;
+    }
+  }
+
+  const gatedMean = (threshold: number) => {
+    let sum = 0;
+    let count = 0;
+    for (const power of blockPower) {
+      if (power > 0 && toLufs(power) > threshold) { sum += power; count++; }
+    }
+    return count > 0 ? sum / count : null;
+  };
+
+  const absoluteMean = gatedMean(ABSOLUTE_GATE_LUFS);
+  if (absoluteMean == null) return null;
+  const relativeMean = gatedMean(toLufs(absoluteMean) + RELATIVE_GATE_LU);
+  return relativeMean == null ? null : Math.round(toLufs(relativeMean) * 100) / 100;
+}
+
+// ─── True peak ───────────────────────────────────────────────────────────
+
+/** Hann-windowed sinc interpolator, one row of taps per oversampling phase */
+function interpolationPhases(): Float64Array[] {
+  const length = OVERSAMPLING * TAPS_PER_PHASE;
+  const phases = Array.from({ length: OVERSAMPLING }, () => new Float64Array(TAPS_PER_PHASE));
+  for (let n = 0; n < length; n++) {
+    const t = (n - length / 2) / OVERSAMPLING;
+    const sinc = t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t);
+    const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * (n + 0.5)) / length);
+    phases[n % OVERSAMPLING][Math.floor(n / OVERSAMPLING)] = sinc * window;
+  }
+  return phases;
+}
+
+/**
+ * Pure calculation: true peak in dBTP. Inter-sample overs in real material
+ * stay within a few dB of the sample peak, so only stretches within 3 dB of
+ * it are oversampled.
+ */
+export function truePeak(channels: Float32Array[]): number {
+  const phases = interpolationPhases();
+  const half = TAPS_PER_PHASE / 2;
+  let peak = 0;
+  for (const channel of channels) {
+    for (const v of channel) peak = Math.max(peak, Math.abs(v));
+  }
+  const threshold = peak * Math.SQRT1_2;
+
+  for (const channel of channels) {
+    for (let i = half; i < channel.length - half; i++) {
+      if (Math.abs(channel[i]) < threshold && Math.abs(channel[i + 1]) < threshold) continue;
+      // Phase 0 lands on the original samples, already counted above
+      for (let p = 1; p < OVERSAMPLING; p++) {
+        const taps = phases[p];
+        let y = 0;
+        for (let k = 0; k < TAPS_PER_PHASE; k++) y += channel[i + half - k] * taps[k];
+        peak = Math.max(peak, Math.abs(y));
+      }
+    }
+  }
+  return peak > 0 ? Math.round(20 * Math.log10(peak) * 100) / 100 : -Infinity;
+}
+
+/** Pure calculation: integrated loudness and true peak, or null for silence and sub-block clips */
+export function measureLoudness(channels: Float32Array[], sampleRate: number): LoudnessMeasurement | null {
+  const integratedLufs = integratedLoudness(channels, sampleRate);
+  if (integratedLufs == null) return null;
+  return { integratedLufs, truePeakDb: truePeak(channels) };
+}
+
+// ─── Gain ────────────────────────────────────────────────────────────────
+
+/** Pure calculation: ReplayGain 2.0 track gain in dB */
+export function replayGainDb(integratedLufs: number): number {
+  return Math.round((REPLAYGAIN_REFERENCE_LUFS - integratedLufs) * 100) / 100;
+}
+
+/** Pure calculation: the REPLAYGAIN_TRACK_GAIN value as taggers write it, e.g. "-6.52 dB" */
+export function formatReplayGain(gainDb: number): string {
+  return `${gainDb.toFixed(2)} dB`;
+}
+
+/**
+ * Pure calculation: gain for level-matched previews. Quiet tracks are only
+ * boosted as far as their true peak allows, so previews never clip.
+ */
+export function previewGainDb({ integratedLufs, truePeakDb }: LoudnessMeasurement): number {
+  let gain = PREVIEW_TARGET_LUFS - integratedLufs;
+  if (gain > 0) gain = Math.min(gain, Math.max(0, PREVIEW_HEADROOM_DB - truePeakDb), MAX_PREVIEW_BOOST_DB);
+  return Math.round(gain * 100) / 100;
+}
@@ -0,0 +1,138 @@
+/**
+ * Mix-in/mix-out suggestions: where the audio starts and ends, where the
+ * intro gives way to the first full-energy phrase and where the last one
+ * hands over to the outro.
+ * Pure calculation — no I/O. Feed it decoded mono PCM (see audio-decoder).
+ */
+import { downsample } from './audio-dsp';
+
+/** All positions in seconds from the start of the file */
+export interface MixPoints {
+  /** End of leading silence */
+  audioStart: number;
+  /** Start of trailing silence */
+  audioEnd: number;
+  /** Start of the first full-energy phrase — the natural mix-in point; null for tracks that never build */
+  introEnd: number | null;
+  /** End of the last full-energy phrase — the natural mix-out point */
+  outroStart: number | null;
+}
+
+const ANALYSIS_RATE = 11025;
+const BLOCK_SECONDS = 0.1;
+const SILENCE_DB = -48;
+/** Kick and bass: the part that's missing from most DJ intros and outros */
+const LOW_CUTOFF_HZ = 150;
+const BEATS_PER_PHRASE = 32;
+/** Phrase length used when the tempo is unknown */
+const FALLBACK_PHRASE_SECONDS = 16;
+/** A phrase is full-energy within this many dB of the track's loud phrases... */
+const FULL_LEVEL_DROP_DB = 3;
+/** ...with at most this much less low end */
+const FULL_LOW_DROP_DB = 6;
+
+/** Marker names the players show mix points under */
+export const MIX_POINT_CUE_NAMES: Record<keyof MixPoints, string> = {
+  audioStart: 'Audio start',
+  introEnd: 'Intro end',
+  outroStart: 'Outro start',
+  audioEnd: 'Audio end',
+};
+
+// ─── Levels ──────────────────────────────────────────────────────────────
+
+/** Pure calculation: mean power per block for the full signal and its low band */
+function blockPowers(samples: Float32Array, sampleRate: number): { full: Float64Array; low: Float64Array } {
+  const reduced = downsample(samples, sampleRate, ANALYSIS_RATE);
+  const blockSize = Math.max(1, Math.round(BLOCK_SECONDS * reduced.sampleRate));
+  const count = Math.floor(reduced.samples.length / blockSize);
+  const full = new Float64Array(count);
+  const low = new Float64Array(count);
+  const a = 1 - Math.exp((-2 * Math.PI * LOW_CUTOFF_HZ) / reduced.sampleRate);
+  let y1 = 0;
+  let y2 = 0;
+  for (let b = 0; b < count; b++) {
+    let sum = 0;
+    let lowSum = 0;
+    for (let i = b * blockSize; i < (b + 1) * blockSize; i++) {
+      const x = reduced.samples[i];
+      y1 += a * (x - y1);
+      y2 += a * (y1 - y2);
+      sum += x * x;
+      lowSum += y2 * y2;
+    }
+    full[b] = sum / blockSize;
+    low[b] = lowSum / blockSize;
+  }
+  return { full, low };
+}
+
+const toDb = (power: number) => 10 * Math.log10(power + 1e-12);
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+// ─── Mix points ──────────────────────────────────────────────────────────
+
+/**
+ * Pure calculation: silence bounds plus the first and last full-energy
+ * phrases. Phrases are 8 bars at `bpm`, counted from the first sound, since
+ * produced dance tracks nearly always start on a phrase boundary.
+ * Returns null for silent audio.
+ */
+export function detectMixPoints(samples: Float32Array, sampleRate: number, bpm: number | null): MixPoints | null {
+  const { full, low } = blockPowers(samples, sampleRate);
+  let first = -1;
+  let last = -1;
+  for (let b = 0; b < full.length; b++) {
+    if (toDb(full[b]) > SILENCE_DB) {
+      if (first < 0) first = b;
+      last = b;
+    }
+  }
+  if (first < 0) return null;
+
+  const audioStart = first * BLOCK_SECONDS;
+  const audioEnd = (last + 1) * BLOCK_SECONDS;
+  const phraseSeconds = bpm ? (BEATS_PER_PHRASE * 60) / bpm : FALLBACK_PHRASE_SECONDS;
+  const blocksPerPhrase = Math.max(1, Math.round(phraseSeconds / BLOCK_SECONDS));
+
+  const phrases: { level: number; low: number }[] = [];
+  for (let start = first; start <= last; start += blocksPerPhrase) {
+    const end = Math.min(last + 1, start + blocksPerPhrase);
+    // A trailing fragment under half a phrase is part of the outro, not a phrase of its own
+    if (end - start < blocksPerPhrase / 2 && phrases.length > 0) break;
+    let sum = 0;
+    let lowSum = 0;
+    for (let b = start; b < end; b++) { sum += full[b]; lowSum += low[b]; }
+    phrases.push({ level: toDb(sum / (end - start)), low: toDb(lowSum / (end - start)) });
+  }
+
+  const loudLevel = percentile(phrases.map(p => p.level), 0.75);
+  const loudLow = percentile(phrases.map(p => p.low), 0.75);
+  const isFull = (p: { level: number; low: number }) =>
+    p.level >= loudLevel - FULL_LEVEL_DROP_DB && p.low >= loudLow - FULL_LOW_DROP_DB;
+  const firstFull = phrases.findIndex(isFull);
+  if (firstFull < 0) return { audioStart, audioEnd, introEnd: null, outroStart: null };
+  let lastFull = phrases.length - 1;
+  while (!isFull(phrases[lastFull])) lastFull--;
+
+  const round = (seconds: number) => Math.round(seconds * 100) / 100;
+  return {
+    audioStart: round(audioStart),
+    audioEnd: round(audioEnd),
+    introEnd: round(audioStart + firstFull * phraseSeconds),
+    outroStart: round(Math.min(audioEnd, audioStart + (lastFull + 1) * phraseSeconds)),
+  };
+}
+
+// ─── Cue mapping ─────────────────────────────────────────────────────────
+
+/** Pure calculation: mix points as named cues, in time order */
+export function mixPointCues(points: MixPoints): { position: number; name: string }[] {
+  return (Object.keys(MIX_POINT_CUE_NAMES) as (keyof MixPoints)[])
+    .filter(key => points[key] != null)
+    .map(key => ({ position: points[key] as number, name: MIX_POINT_CUE_NAMES[key] }));
+}
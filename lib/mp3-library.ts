@@ -1,6 +1,5 @@
 import { FileBrowser, type FileItem } from './file-browser.js';
-import { MP3MetadataManager, type MP3Metadata } from './mp3-metadata.js';
-import path from 'path';
+import { MP3MetadataManager, SUPPORTED_AUDIO_EXTENSIONS, isSupportedAudioFile, type MP3Metadata } from './mp3-metadata.js';
 
 export interface MP3LibraryScan {
   files: MP3Metadata[];
@@ -26,12 +25,12 @@ export class MP3Library {
    */
   async scan(baseFolder: string): Promise<MP3LibraryScan> {
     const items = await this.browser.readDirectoryRecursive(baseFolder, {
-      extensions: ['mp3'],
+      extensions: SUPPORTED_AUDIO_EXTENSIONS.map(ext => ext.slice(1)),
       includeHidden: false,
       maxDepth: 50
     });
 
-    const mp3Files = items.filter(i => !i.isDirectory && path.extname(i.name).toLowerCase() === '.mp3');
+    const mp3Files = items.filter(i => !i.isDirectory && isSupportedAudioFile(i.name));
     const files: MP3Metadata[] = [];
     const tagSet = new Set<string>();
 
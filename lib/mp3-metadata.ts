@@ -4,7 +4,12 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import { artworkCache } from './artwork-cache';
 import { standardToCamelot } from './camelot';
-import { extractMusickTagsFromFrames, extractMIKAttributes, extractCommentText } from './mp3-parsing';
+import {
+  extractMusickTagsFromFrames, extractMIKAttributes, extractCommentText, extractInitialKey,
+  vorbisCommentsToFrames, mp4ItemsToFrames,
+} from './mp3-parsing';
+import { readFlacComments, updateFlacComments } from './flac-tags';
+import { readMp4TextItems, updateMp4TextItems } from './mp4-tags';
 
 // Try dynamic import for node-id3 to handle CommonJS/ESM issues
 const getNodeID3 = async () => {
@@ -52,6 +57,110 @@ export const MUSICK_TAG_PREFIX = 'µ:';
 export const MUSICK_TAG_FIELDS = ['genres', 'phases', 'moods', 'topics', 'tags', 'related', 'version'] as const;
 export type MusickTagField = typeof MUSICK_TAG_FIELDS[number];
 
+/** Vorbis comment prefix for Musicky fields in FLAC files (field names must be ASCII, so µ: is not allowed) */
+export const MUSICK_VORBIS_PREFIX = 'MUSICKY_';
+
+/** Freeform atom prefix for Musicky fields in M4A files */
+export const MUSICK_MP4_PREFIX = '----:com.musicky:';
+
+/** Audio containers whose tags we can read and write, mapped to their HTTP content type */
+export const SUPPORTED_AUDIO_FORMATS: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.flac': 'audio/flac',
+  '.m4a': 'audio/mp4',
+};
+
+export const SUPPORTED_AUDIO_EXTENSIONS = Object.keys(SUPPORTED_AUDIO_FORMATS);
+
+export function isSupportedAudioFile(filePath: string): boolean {
+  return path.extname(filePath).toLowerCase() in SUPPORTED_AUDIO_FORMATS;
+}
+
+export function audioContentType(filePath: string): string {
+  return SUPPORTED_AUDIO_FORMATS[path.extname(filePath).toLowerCase()] ?? 'audio/mpeg';
+}
+
+/** Pick the frames our extractors understand: ID3v2 for MP3, mapped Vorbis comments / iTunes atoms otherwise */
+function nativeTagFrames(metadata: mm.IAudioMetadata): Array<{ id: string; value: unknown }> {
+  const id3 = metadata.native['ID3v2.4'] || metadata.native['ID3v2.3'] || metadata.native['ID3v2.2'];
+  if (id3) return id3;
+  if (metadata.native['iTunes']) return mp4ItemsToFrames(metadata.native['iTunes']);
+  return vorbisCommentsToFrames(metadata.native['vorbis'] || []);
+}
+
+/** A text tag as stored by the key/value containers (FLAC Vorbis comments, M4A ilst atoms) */
+interface TagField {
+  key: string;
+  value: string;
+}
+
+/**
+ * Tag backend for containers that store text tags as key/value pairs.
+ * MP3 keeps using node-id3; everything else goes through one of these,
+ * so the writers only deal with logical fields (genre, comment, grouping, µ:*).
+ */
+interface FieldTagBackend {
+  read(filePath: string): Promise<TagField[]>;
+  update(filePath: string, updater: (fields: TagField[]) => TagField[]): Promise<void>;
+  /** Canonical form for key comparison (Vorbis keys are case-insensitive) */
+  normalizeKey(key: string): string;
+  musickKey(field: MusickTagField): string;
+  genreKey: string;
+  commentKey: string;
+  groupingKey: string;
+  /** Tempo field */
+  bpmKey: string;
+  /** Musical key field in the spelling Mixed In Key uses for this container */
+  initialKeyKey: string;
+  /** ReplayGain track gain in the spelling foobar2000 and loudgain use */
+  replayGainKey: string;
+}
+
+const FLAC_BACKEND: FieldTagBackend = {
+  read: async filePath => (await readFlacComments(filePath)).comments,
+  update: updateFlacComments,
+  normalizeKey: key => key.toUpperCase(),
+  musickKey: field => `${MUSICK_VORBIS_PREFIX}${field.toUpperCase()}`,
+  genreKey: 'GENRE',
+  commentKey: 'COMMENT',
+  groupingKey: 'GROUPING',
+  bpmKey: 'BPM',
+  initialKeyKey: 'INITIALKEY',
+  replayGainKey: 'REPLAYGAIN_TRACK_GAIN',
+};
+
+const MP4_BACKEND: FieldTagBackend = {
+  read: readMp4TextItems,
+  update: updateMp4TextItems,
+  normalizeKey: key => key,
+  musickKey: field => `${MUSICK_MP4_PREFIX}${field}`,
+  genreKey: '©gen',
+  commentKey: '©cmt',
+  groupingKey: '©grp',
+  bpmKey: 'tmpo',
+  initialKeyKey: '----:com.apple.iTunes:initialkey',
+  replayGainKey: '----:com.apple.iTunes:replaygain_track_gain',
+};
+
+/** Backend for the file's container, or null for MP3 (node-id3) */
+function fieldBackendFor(filePath: string): FieldTagBackend | null {
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.flac': return FLAC_BACKEND;
+    case '.m4a': return MP4_BACKEND;
+    default: return null;
+  }
+}
+
+/** Drop every field whose key matches, then append the replacements */
+function replaceFields(
+  backend: FieldTagBackend,
+  fields: TagField[],
+  shouldReplace: (key: string) => boolean,
+  replacements: TagField[],
+): TagField[] {
+  return [...fields.filter(f => !shouldReplace(backend.normalizeKey(f.key))), ...replacements];
+}
+
 export interface MP3Metadata {
   filePath: string;
   title?: string;
@@ -79,6 +188,7 @@ export interface MP3Metadata {
   energyLevel?: number;    // Energy level (1-10) from TXXX:EnergyLevel (Mixed In Key)
   label?: string;          // Record label from TXXX:LABEL
   grouping?: string;       // TIT1 / Content Group Description (VDJ grouping)
+  replayGainTrackGain?: number; // dB, from TXXX:REPLAYGAIN_TRACK_GAIN or its FLAC/M4A equivalent
 }
 
 /** Options controlling which standard ID3 frames are written for VDJ compatibility */
@@ -104,6 +214,17 @@ export const DEFAULT_VDJ_OPTIONS: VDJExportOptions = {
   commentFormat: 'structured',
 };
 
+/** Data written by writeVDJTags */
+export interface VDJTagData {
+  genres?: string[];
+  phases?: string[];
+  moods?: string[];
+  energyLevel?: number;
+  camelotKey?: string;
+  relatedSongs?: { artist: string; title: string }[];
+  tags?: string[];
+}
+
 export interface PendingEdit {
   id: number;
   filePath: string;
@@ -129,9 +250,11 @@ export class MP3MetadataManager {
       const metadata = await mm.parseFile(filePath);
       
       // Extract native frames once, then use pure calculations
-      const nativeFrames = metadata.native['ID3v2.4'] || metadata.native['ID3v2.3'] || metadata.native['ID3v2.2'] || [];
+      const nativeFrames = nativeTagFrames(metadata);
       const muspiTag = extractMusickTagsFromFrames(nativeFrames);
       const { energyLevel, label } = extractMIKAttributes(nativeFrames);
+      // iTunes has no standard key atom; music-metadata leaves common.key empty for M4A
+      const key = metadata.common.key || extractInitialKey(nativeFrames);
 
       const result: MP3Metadata = {
         filePath,
@@ -149,12 +272,13 @@ export class MP3MetadataManager {
         format: metadata.format.container,
         fileSize: stats.size,
         muspiTag: muspiTag || undefined,
-        key: metadata.common.key || undefined,
-        camelotKey: metadata.common.key ? (standardToCamelot(metadata.common.key) ?? undefined) : undefined,
+        key,
+        camelotKey: key ? (standardToCamelot(key) ?? undefined) : undefined,
         bpm: metadata.common.bpm || undefined,
         energyLevel,
         label,
         grouping: metadata.common.grouping || undefined,
+        replayGainTrackGain: metadata.common.replaygain_track_gain?.dB,
       };
       
       // Try to get artwork from cache first
@@ -172,7 +296,7 @@ export class MP3MetadataManager {
           result.artworkDataUrl = cached.dataUrl;
         } else {
           // Extract artwork and cache it
-          const artworkInfo = await this.extractArtworkUncached(filePath);
+          const artworkInfo = await this.extractArtworkUncached(filePath, metadata.common.picture);
           if (artworkInfo) {
             const dataUrl = this.createDataUrl(artworkInfo);
             result.artwork = artworkInfo;
@@ -192,18 +316,26 @@ export class MP3MetadataManager {
       
       return result;
     } catch (error) {
-      throw new Error(`Failed to read MP3 metadata: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to read audio metadata: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
   /**
-   * Write comment to MP3 file
+   * Write comment to an MP3 (COMM), FLAC (COMMENT) or M4A (©cmt) file
    */
   async writeComment(filePath: string, comment: string): Promise<void> {
     
     try {
       // Check if file exists
       await fs.access(filePath);
+
+      const backend = fieldBackendFor(filePath);
+      if (backend) {
+        await backend.update(filePath, fields => replaceFields(
+          backend, fields, key => key === backend.commentKey, [{ key: backend.commentKey, value: comment }]));
+        console.log(`[MP3Manager] Successfully wrote comment to: ${filePath}`);
+        return;
+      }
       
       // Get file stats for additional validation
       const stats = await fs.stat(filePath);
@@ -252,12 +384,31 @@ export class MP3MetadataManager {
 
 
   /**
-   * Write Musicky TXXX tags to an MP3 file.
-   * Preserves existing non-Musicky TXXX frames and other ID3 data.
+   * Write Musicky tags to an MP3 (TXXX µ:*), FLAC (MUSICKY_* Vorbis comments)
+   * or M4A (----:com.musicky:* atoms) file.
+   * Preserves existing non-Musicky custom tags and other metadata.
    */
   async writeTags(filePath: string, tags: Partial<MusickTagData>): Promise<void> {
     try {
       await fs.access(filePath);
+
+      const backend = fieldBackendFor(filePath);
+      if (backend) {
+        const musickFields = MP3MetadataManager.buildMusickFields(tags)
+          .map(f => ({ key: backend.musickKey(f.field), value: f.value }));
+        const musickKeys = new Set(MUSICK_TAG_FIELDS.map(f => backend.normalizeKey(backend.musickKey(f))));
+
+        // The file's own GENRE / ©gen stays as it was; genres live in the Musicky fields
+        await backend.update(filePath, fields => replaceFields(
+          backend,
+          fields,
+          key => musickKeys.has(key),
+          musickFields,
+        ));
+        console.log(`[MP3Manager] Successfully wrote Musicky tags to: ${filePath}`);
+        return;
+      }
+
       const NodeID3 = await getNodeID3();
 
       // Read only TXXX frames to preserve non-Musicky custom tags
@@ -281,26 +432,8 @@ export class MP3MetadataManager {
       }
 
       // Build Musicky TXXX frames
-      const musickTxxx: { description: string; value: string }[] = [];
-
-      const addList = (field: string, values?: string[]) => {
-        if (values && values.length > 0) {
-          musickTxxx.push({ description: `${MUSICK_TAG_PREFIX}${field}`, value: values.join(', ') });
-        }
-      };
-
-      addList('genres', tags.genres);
-      addList('phases', tags.phases);
-      addList('moods', tags.moods);
-      addList('topics', tags.topics);
-      addList('tags', tags.tags);
-
-      if (tags.related && tags.related.length > 0) {
-        musickTxxx.push({ description: `${MUSICK_TAG_PREFIX}related`, value: JSON.stringify(tags.related) });
-      }
-
-      // Always write version
-      musickTxxx.push({ description: `${MUSICK_TAG_PREFIX}version`, value: '1' });
+      const musickTxxx = MP3MetadataManager.buildMusickFields(tags)
+        .map(f => ({ description: `${MUSICK_TAG_PREFIX}${f.field}`, value: f.value }));
 
       const allTxxx = [...existingTxxx, ...musickTxxx];
 
@@ -329,24 +462,98 @@ export class MP3MetadataManager {
   }
 
   /**
-   * Write VDJ-compatible ID3 tags (TCON, COMM, TIT1) alongside Musicky TXXX frames.
-   * Never overwrites TKEY, TBPM, or TXXX:EnergyLevel.
+   * Write the tempo to TBPM (MP3), BPM (FLAC) or tmpo (M4A), rounded to a whole
+   * BPM as ID3 specifies.
+   */
+  async writeBpm(filePath: string, bpm: number): Promise<void> {
+    await fs.access(filePath);
+    const value = String(Math.round(bpm));
+
+    const backend = fieldBackendFor(filePath);
+    if (backend) {
+      const bpmKey = backend.bpmKey;
+      await backend.update(filePath, fields => replaceFields(backend, fields, key => key === bpmKey, [{ key: bpmKey, value }]));
+      return;
+    }
+
+    const NodeID3 = await getNodeID3();
+    // No `include` filter: update() writes back only the frames it read, so one would drop the rest
+    const success = NodeID3.update({ bpm: value }, filePath);
+    if (!success) throw new Error('NodeID3.update returned false — failed to write BPM');
+  }
+
+  /**
+   * Write the musical key (standard notation, e.g. "Am") to TKEY, or to the
+   * initial-key field FLAC and M4A files use.
+   */
+  async writeInitialKey(filePath: string, key: string): Promise<void> {
+    await fs.access(filePath);
+
+    const backend = fieldBackendFor(filePath);
+    if (backend) {
+      // Taggers disagree on the case of the M4A freeform name
+      const target = backend.normalizeKey(backend.initialKeyKey).toLowerCase();
+      await backend.update(filePath, fields => replaceFields(
+        backend, fields, k => k.toLowerCase() === target, [{ key: backend.initialKeyKey, value: key }]));
+      return;
+    }
+
+    const NodeID3 = await getNodeID3();
+    // Unfiltered, like writeBpm: an `include` filter would drop every other frame
+    const success = NodeID3.update({ initialKey: key }, filePath);
+    if (!success) throw new Error('NodeID3.update returned false — failed to write key');
+  }
+
+  /**
+   * Write the ReplayGain track gain (e.g. "-6.52 dB") to TXXX:REPLAYGAIN_TRACK_GAIN,
+   * or to the equivalent FLAC/M4A field. Every other frame is kept.
+   */
+  async writeReplayGain(filePath: string, gain: string): Promise<void> {
+    await fs.access(filePath);
+
+    const backend = fieldBackendFor(filePath);
+    if (backend) {
+      // Taggers disagree on the case of this name too
+      const target = backend.normalizeKey(backend.replayGainKey).toLowerCase();
+      await backend.update(filePath, fields => replaceFields(
+        backend, fields, k => k.toLowerCase() === target, [{ key: backend.replayGainKey, value: gain }]));
+      return;
+    }
+
+    // The whole tag is read and written back: update() only replaces a TXXX
+    // frame whose description matches exactly, and taggers disagree on its case
+    const NodeID3 = await getNodeID3();
+    type UserDefinedText = { description: string; value: string };
+    // Keyed by frame ID at runtime, though node-id3 types it like the named tags
+    const raw = (NodeID3.read(filePath).raw ?? {}) as { TXXX?: UserDefinedText | UserDefinedText[] };
+    const existing = raw.TXXX ? (Array.isArray(raw.TXXX) ? raw.TXXX : [raw.TXXX]) : [];
+    const TXXX = [
+      ...existing.filter(t => t.description.toUpperCase() !== 'REPLAYGAIN_TRACK_GAIN'),
+      { description: 'REPLAYGAIN_TRACK_GAIN', value: gain },
+    ];
+    const result = NodeID3.write({ ...raw, TXXX } as Parameters<typeof NodeID3.write>[0], filePath);
+    if (result !== true) throw new Error(`Failed to write ReplayGain: ${result.message}`);
+  }
+
+  /**
+   * Write VDJ-compatible tags (TCON, COMM, TIT1 — or their FLAC/M4A equivalents)
+   * alongside Musicky tags. Never overwrites key, BPM, or energy level.
    */
   async writeVDJTags(
     filePath: string,
-    data: {
-      genres?: string[];
-      phases?: string[];
-      moods?: string[];
-      energyLevel?: number;
-      camelotKey?: string;
-      relatedSongs?: { artist: string; title: string }[];
-      tags?: string[];
-    },
+    data: VDJTagData,
     options: VDJExportOptions = DEFAULT_VDJ_OPTIONS
   ): Promise<void> {
     try {
       await fs.access(filePath);
+
+      const backend = fieldBackendFor(filePath);
+      if (backend) {
+        await this.writeVDJFields(backend, filePath, data, options);
+        console.log(`[MP3Manager] Successfully wrote VDJ tags to: ${filePath}`);
+        return;
+      }
+
       const NodeID3 = await getNodeID3();
 
       // Read existing tags to preserve data we must not overwrite
@@ -361,71 +568,29 @@ export class MP3MetadataManager {
 
       // 2. COMM (Comment) — structured or minimal
       if (options.writeComment) {
-        const parts: string[] = [];
-
-        if (options.commentFormat === 'structured') {
-          if (data.phases?.length)  parts.push(`[Phase:${data.phases.join(',')}]`);
-          if (data.energyLevel != null) parts.push(`[Energy:${data.energyLevel}]`);
-          if (data.camelotKey)      parts.push(`[Key:${data.camelotKey}]`);
-          if (data.moods?.length)   parts.push(`[Mood:${data.moods.join(',')}]`);
-          if (data.relatedSongs?.length) {
-            const rel = data.relatedSongs.map(s => `${s.artist} - ${s.title}`).join(', ');
-            parts.push(`[Related:${rel}]`);
-          }
-          if (data.tags?.length)    parts.push(`[Tags:${data.tags.join(',')}]`);
-        } else {
-          // minimal
-          if (data.phases?.length)      parts.push(`Phase:${data.phases[0]}`);
-          if (data.energyLevel != null) parts.push(`E:${data.energyLevel}`);
-          if (data.camelotKey)          parts.push(`Key:${data.camelotKey}`);
+        let existing = '';
+        if (existingTags.comment) {
+          const c = existingTags.comment;
+          existing = typeof c === 'string' ? c : (c.text ?? '');
         }
-
-        if (parts.length > 0) {
-          let commentText = parts.join(' ');
-
-          if (options.preserveExistingComment) {
-            let existing = '';
-            if (existingTags.comment) {
-              const c = existingTags.comment;
-              existing = typeof c === 'string' ? c : (c.text ?? '');
-            }
-            if (existing) {
-              commentText = `${commentText} | ${existing}`;
-            }
-          }
-
+        const commentText = MP3MetadataManager.buildVDJCommentText(data, options, existing);
+        if (commentText) {
           updatePayload.comment = { language: 'eng', text: commentText };
         }
       }
 
       // 3. TIT1 (Grouping / Content Group) — quick-scan format
       if (options.writeGrouping) {
-        const groupParts: string[] = [];
-        if (data.energyLevel != null) groupParts.push(`E${data.energyLevel}`);
-        if (data.moods?.length)       groupParts.push(data.moods.join(','));
-        if (data.phases?.length)      groupParts.push(data.phases.join(','));
-        if (data.camelotKey)          groupParts.push(data.camelotKey);
-
-        if (groupParts.length > 0) {
-          updatePayload.contentGroupDescription = groupParts.join(' // ');
+        const grouping = MP3MetadataManager.buildVDJGroupingText(data);
+        if (grouping) {
+          updatePayload.contentGroupDescription = grouping;
         }
       }
 
       // 4. µ: TXXX frames via existing writeTags()
       if (options.writeMusickTags) {
         // Delegate to writeTags which handles TXXX preservation
-        await this.writeTags(filePath, {
-          genres: data.genres,
-          phases: data.phases,
-          moods: data.moods,
-          tags: data.tags,
-          related: data.relatedSongs?.map(s => ({
-            title: s.title,
-            artist: s.artist,
-            type: 'similarity',
-            weight: 1.0,
-          })),
-        });
+        await this.writeTags(filePath, MP3MetadataManager.vdjDataToMusickData(data));
       }
 
       // Build TXXX preservation for the VDJ payload (keep all existing TXXX intact)
@@ -459,18 +624,141 @@ export class MP3MetadataManager {
   }
 
   /**
-   * Read only the Musicky TXXX tags from an MP3 file (lightweight, no artwork)
+   * Key/value-container counterpart of the ID3 branch in writeVDJTags: genre,
+   * comment and grouping fields. Key, BPM and energy level are never touched.
+   */
+  private async writeVDJFields(
+    backend: FieldTagBackend,
+    filePath: string,
+    data: VDJTagData,
+    options: VDJExportOptions,
+  ): Promise<void> {
+    if (options.writeMusickTags) {
+      await this.writeTags(filePath, MP3MetadataManager.vdjDataToMusickData(data));
+    }
+
+    const existing = await backend.read(filePath);
+    const existingComment = existing.find(f => backend.normalizeKey(f.key) === backend.commentKey)?.value ?? '';
+
+    const replacements: TagField[] = [];
+    if (options.writeGenre && data.genres && data.genres.length > 0) {
+      replacements.push({ key: backend.genreKey, value: data.genres.join('; ') });
+    }
+    const commentText = options.writeComment ? MP3MetadataManager.buildVDJCommentText(data, options, existingComment) : null;
+    if (commentText) replacements.push({ key: backend.commentKey, value: commentText });
+    const grouping = options.writeGrouping ? MP3MetadataManager.buildVDJGroupingText(data) : null;
+    if (grouping) replacements.push({ key: backend.groupingKey, value: grouping });
+
+    if (replacements.length === 0) return;
+    const replacedKeys = new Set(replacements.map(r => r.key));
+    await backend.update(filePath, fields => replaceFields(backend, fields, key => replacedKeys.has(key), replacements));
+  }
+
+  /** Pure calculation: VDJ comment text (structured or minimal), or null when there is nothing to write */
+  private static buildVDJCommentText(data: VDJTagData, options: VDJExportOptions, existingComment: string): string | null {
+    const parts: string[] = [];
+
+    if (options.commentFormat === 'structured') {
+      if (data.phases?.length)  parts.push(`[Phase:${data.phases.join(',')}]`);
+      if (data.energyLevel != null) parts.push(`[Energy:${data.energyLevel}]`);
+      if (data.camelotKey)      parts.push(`[Key:${data.camelotKey}]`);
+      if (data.moods?.length)   parts.push(`[Mood:${data.moods.join(',')}]`);
+      if (data.relatedSongs?.length) {
+        const rel = data.relatedSongs.map(s => `${s.artist} - ${s.title}`).join(', ');
+        parts.push(`[Related:${rel}]`);
+      }
+      if (data.tags?.length)    parts.push(`[Tags:${data.tags.join(',')}]`);
+    } else {
+      // minimal
+      if (data.phases?.length)      parts.push(`Phase:${data.phases[0]}`);
+      if (data.energyLevel != null) parts.push(`E:${data.energyLevel}`);
+      if (data.camelotKey)          parts.push(`Key:${data.camelotKey}`);
+    }
+
+    if (parts.length === 0) return null;
+
+    const commentText = parts.join(' ');
+    return options.preserveExistingComment && existingComment
+      ? `${commentText} | ${existingComment}`
+      : commentText;
+  }
+
+  /** Pure calculation: quick-scan grouping text "E7 // moods // phases // 8A", or null */
+  private static buildVDJGroupingText(data: VDJTagData): string | null {
+    const groupParts: string[] = [];
+    if (data.energyLevel != null) groupParts.push(`E${data.energyLevel}`);
+    if (data.moods?.length)       groupParts.push(data.moods.join(','));
+    if (data.phases?.length)      groupParts.push(data.phases.join(','));
+    if (data.camelotKey)          groupParts.push(data.camelotKey);
+    return groupParts.length > 0 ? groupParts.join(' // ') : null;
+  }
+
+  private static vdjDataToMusickData(data: VDJTagData): Partial<MusickTagData> {
+    return {
+      genres: data.genres,
+      phases: data.phases,
+      moods: data.moods,
+      tags: data.tags,
+      related: data.relatedSongs?.map(s => ({
+        title: s.title,
+        artist: s.artist,
+        type: 'similarity',
+        weight: 1.0,
+      })),
+    };
+  }
+
+  /**
+   * Pure calculation: serialize Musicky fields to name/value pairs shared by
+   * the TXXX (MP3) and key/value (FLAC, M4A) writers. Version is always included.
+   */
+  private static buildMusickFields(tags: Partial<MusickTagData>): { field: MusickTagField; value: string }[] {
+    const fields: { field: MusickTagField; value: string }[] = [];
+
+    const addList = (field: MusickTagField, values?: string[]) => {
+      if (values && values.length > 0) {
+        fields.push({ field, value: values.join(', ') });
+      }
+    };
+
+    addList('genres', tags.genres);
+    addList('phases', tags.phases);
+    addList('moods', tags.moods);
+    addList('topics', tags.topics);
+    addList('tags', tags.tags);
+
+    if (tags.related && tags.related.length > 0) {
+      fields.push({ field: 'related', value: JSON.stringify(tags.related) });
+    }
+
+    fields.push({ field: 'version', value: '1' });
+    return fields;
+  }
+
+  /**
+   * Read only the Musicky tags from an MP3, FLAC or M4A file (lightweight, no artwork)
    */
   async readMusickTags(filePath: string): Promise<MusickTagData | null> {
-    const metadata = await mm.parseFile(filePath);
-    const nativeFrames = metadata.native['ID3v2.4'] || metadata.native['ID3v2.3'] || metadata.native['ID3v2.2'] || [];
-    return extractMusickTagsFromFrames(nativeFrames);
+    const metadata = await mm.parseFile(filePath, { skipCovers: true });
+    return extractMusickTagsFromFrames(nativeTagFrames(metadata));
   }
 
   /**
-   * Extract artwork from MP3 file using node-id3
+   * Extract artwork: FLAC PICTURE blocks and M4A covr atoms come from the
+   * already-parsed metadata, MP3 artwork is read with node-id3.
    */
-  private async extractArtworkUncached(filePath: string): Promise<AlbumArtwork | null> {
+  private async extractArtworkUncached(filePath: string, pictures?: mm.IPicture[]): Promise<AlbumArtwork | null> {
+    if (fieldBackendFor(filePath)) {
+      const picture = pictures?.[0];
+      if (!picture) return null;
+      return {
+        mime: picture.format || 'image/jpeg',
+        type: { id: 3, name: picture.type || 'front cover' },
+        description: picture.description,
+        imageBuffer: Buffer.from(picture.data),
+      };
+    }
+
     try {
       const NodeID3 = await getNodeID3();
       
@@ -626,11 +914,10 @@ export class MP3MetadataManager {
   }
   
   /**
-   * Get file extension and validate it's an MP3
+   * Validate the file is a container we can read and write tags for (MP3, FLAC or M4A)
    */
   static validateMP3File(filePath: string): boolean {
-    const ext = path.extname(filePath).toLowerCase();
-    return ext === '.mp3';
+    return isSupportedAudioFile(filePath);
   }
 
   /**
@@ -648,6 +935,17 @@ export class MP3MetadataManager {
 
   async writeHashtags(filePath: string, tags: string[]): Promise<void> {
     await fs.access(filePath);
+
+    const backend = fieldBackendFor(filePath);
+    if (backend) {
+      await backend.update(filePath, fields => {
+        const existingComment = fields.find(f => backend.normalizeKey(f.key) === backend.commentKey)?.value ?? '';
+        const fullComment = MP3MetadataManager.composeHashtagComment(tags, existingComment);
+        return replaceFields(backend, fields, key => key === backend.commentKey, [{ key: backend.commentKey, value: fullComment }]);
+      });
+      return;
+    }
+
     const NodeID3 = await getNodeID3();
 
     // Read ALL existing tags
@@ -670,27 +968,27 @@ export class MP3MetadataManager {
       safeTags.image = existing.image;
     }
 
-    // Extract non-hashtag text from existing comment
     let existingComment = '';
     if (existing.comment) {
       const comment = existing.comment;
       const text = typeof comment === 'string' ? comment
         : Array.isArray(comment) ? (comment[0]?.text || comment[0] || '')
         : (comment.text || '');
-      existingComment = String(text).replace(/#\w+/g, '').replace(/\|/g, '').trim();
+      existingComment = String(text);
     }
 
-    // Build hashtag string
-    const hashtags = tags.map(t => `#${t.replace(/\s+/g, '_').toLowerCase()}`).join(' ');
-    const fullComment = existingComment
-      ? `${hashtags} | ${existingComment}`
-      : hashtags;
-
     // Set comment
-    safeTags.comment = { language: 'eng', text: fullComment };
+    safeTags.comment = { language: 'eng', text: MP3MetadataManager.composeHashtagComment(tags, existingComment) };
 
     // Write all safe tags back (preserves TKEY, TBPM, TXXX, artwork)
     const success = NodeID3.write(safeTags, filePath);
     if (!success) throw new Error('Failed to write hashtags to file');
   }
+
+  /** Pure calculation: "#tag #tag | other text", keeping the non-hashtag part of the existing comment */
+  private static composeHashtagComment(tags: string[], existingComment: string): string {
+    const rest = existingComment.replace(/#\w+/g, '').replace(/\|/g, '').trim();
+    const hashtags = tags.map(t => `#${t.replace(/\s+/g, '_').toLowerCase()}`).join(' ');
+    return rest ? `${hashtags} | ${rest}` : hashtags;
+  }
 }
@@ -2,7 +2,7 @@
  * Pure calculation functions extracted from MP3MetadataManager.
  * These have no I/O — they transform data structures only.
  */
-import { MUSICK_TAG_PREFIX, type MusickTagData, type MusickTagField } from './mp3-metadata';
+import { MUSICK_TAG_PREFIX, MUSICK_VORBIS_PREFIX, MUSICK_MP4_PREFIX, type MusickTagData, type MusickTagField } from './mp3-metadata';
 
 /** Pure calculation: extract Musicky tags from raw native ID3v2 frames */
 export function extractMusickTagsFromFrames(
@@ -48,6 +48,68 @@ export function extractMusickTagsFromFrames(
   return Object.keys(tagData).length > 0 ? tagData : null;
 }
 
+/**
+ * Pure calculation: map native Vorbis comments (FLAC) onto the ID3 frame ids
+ * the extractors above understand, so both containers share one parsing path.
+ * MUSICKY_GENRES → TXXX:µ:genres, ENERGYLEVEL → TXXX:EnergyLevel, LABEL → TXXX:LABEL.
+ */
+export function vorbisCommentsToFrames(
+  vorbisTags: Array<{ id: string; value: unknown }>
+): Array<{ id: string; value: string }> {
+  const frames: Array<{ id: string; value: string }> = [];
+  for (const tag of vorbisTags) {
+    if (typeof tag.value !== 'string') continue;
+    const id = tag.id.toUpperCase();
+    if (id.startsWith(MUSICK_VORBIS_PREFIX)) {
+      const field = id.slice(MUSICK_VORBIS_PREFIX.length).toLowerCase();
+      frames.push({ id: `TXXX:${MUSICK_TAG_PREFIX}${field}`, value: tag.value });
+    } else if (id === 'ENERGYLEVEL') {
+      frames.push({ id: 'TXXX:EnergyLevel', value: tag.value });
+    } else if (id === 'LABEL' || id === 'ORGANIZATION') {
+      frames.push({ id: 'TXXX:LABEL', value: tag.value });
+    }
+  }
+  return frames;
+}
+
+/**
+ * Pure calculation: map native iTunes atoms (M4A) onto ID3 frame ids.
+ * ----:com.musicky:genres → TXXX:µ:genres; Mixed In Key's freeform
+ * com.apple.iTunes atoms → TXXX:EnergyLevel, TXXX:LABEL and TKEY.
+ */
+export function mp4ItemsToFrames(
+  mp4Tags: Array<{ id: string; value: unknown }>
+): Array<{ id: string; value: string }> {
+  const frames: Array<{ id: string; value: string }> = [];
+  for (const tag of mp4Tags) {
+    if (typeof tag.value !== 'string') continue;
+    if (tag.id.startsWith(MUSICK_MP4_PREFIX)) {
+      frames.push({ id: `TXXX:${MUSICK_TAG_PREFIX}${tag.id.slice(MUSICK_MP4_PREFIX.length)}`, value: tag.value });
+      continue;
+    }
+    switch (tag.id.toLowerCase()) {
+      case '----:com.apple.itunes:energylevel':
+        frames.push({ id: 'TXXX:EnergyLevel', value: tag.value });
+        break;
+      case '----:com.apple.itunes:label':
+        frames.push({ id: 'TXXX:LABEL', value: tag.value });
+        break;
+      case '----:com.apple.itunes:initialkey':
+        frames.push({ id: 'TKEY', value: tag.value });
+        break;
+    }
+  }
+  return frames;
+}
+
+/** Pure calculation: musical key from a TKEY frame, for containers music-metadata doesn't map to common.key */
+export function extractInitialKey(
+  nativeFrames: Array<{ id: string; value: unknown }>
+): string | undefined {
+  const frame = nativeFrames.find(f => f.id === 'TKEY');
+  return typeof frame?.value === 'string' && frame.value.trim() ? frame.value.trim() : undefined;
+}
+
 /** Pure calculation: extract MIK (Mixed In Key) and store attributes from native frames */
 export function extractMIKAttributes(
   nativeFrames: Array<{ id: string; value: any }>
@@ -0,0 +1,279 @@
+import { promises as fs } from 'fs';
+
+/**
+ * Minimal MP4/M4A reader/writer for iTunes-style metadata (moov/udta/meta/ilst).
+ * Text items and the tempo (tmpo) are exposed; artwork, track numbers and
+ * other binary items are carried over untouched. Chunk offsets (stco/co64) are shifted when
+ * the moov atom sits in front of the media data and changes size.
+ */
+
+/**
+ * A text metadata item. Keys follow music-metadata's naming:
+ * standard atoms by their four-character code ('©cmt', '©grp', '©gen'),
+ * freeform atoms as '----:<mean>:<name>' (e.g. '----:com.musicky:genres').
+ * Integer items ('tmpo') carry their number as a decimal string.
+ */
+export interface Mp4TextItem {
+  key: string;
+  value: string;
+}
+
+interface Atom {
+  type: string;
+  /** Version/flags prefix of full boxes that also have children (meta) */
+  header?: Buffer;
+  children?: Atom[];
+  data?: Buffer;
+}
+
+const CONTAINER_ATOMS = new Set(['moov', 'trak', 'mdia', 'minf', 'stbl', 'udta', 'meta', 'ilst', 'edts', 'dinf']);
+const FREEFORM_PREFIX = '----:';
+const DATA_TYPE_UTF8 = 1;
+const DATA_TYPE_BE_INT = 0x15;
+/** Integer items exposed as text, with their width in bytes */
+const INTEGER_ITEMS = new Map([['tmpo', 2]]);
+
+// ─── Atom tree (pure) ────────────────────────────────────────────────────
+
+function parseAtoms(buf: Buffer, start: number, end: number, parentType?: string): Atom[] {
+  const atoms: Atom[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = buf.readUInt32BE(offset);
+    const type = buf.toString('latin1', offset + 4, offset + 8);
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(buf.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) throw new Error(`Malformed MP4 atom '${type}'`);
+
+    const payloadStart = offset + headerSize;
+    const payloadEnd = offset + size;
+    // ilst items are containers of mean/name/data, but we decode those separately
+    if (CONTAINER_ATOMS.has(type) && parentType !== 'ilst') {
+      let childStart = payloadStart;
+      let header: Buffer | undefined;
+      // meta is a full box in ISO files, but QuickTime writes it without version/flags
+      if (type === 'meta' && buf.toString('latin1', payloadStart + 4, payloadStart + 8) !== 'hdlr') {
+        header = buf.subarray(payloadStart, payloadStart + 4);
+        childStart += 4;
+      }
+      atoms.push({ type, header, children: parseAtoms(buf, childStart, payloadEnd, type) });
+    } else {
+      atoms.push({ type, data: buf.subarray(payloadStart, payloadEnd) });
+    }
+    offset = payloadEnd;
+  }
+  return atoms;
+}
+
+function atomSize(atom: Atom): number {
+  const body = atom.children
+    ? atom.children.reduce((sum, c) => sum + atomSize(c), 0)
+    : atom.data!.length;
+  return 8 + (atom.header?.length ?? 0) + body;
+}
+
+function serializeAtom(atom: Atom): Buffer {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(atomSize(atom), 0);
+  head.write(atom.type, 4, 'latin1');
+  const body = atom.children ? atom.children.map(serializeAtom) : [atom.data!];
+  return Buffer.concat([head, ...(atom.header ? [atom.header] : []), ...body]);
+}
+
+function findChild(parent: Atom, type: string): Atom | undefined {
+  return parent.children?.find(c => c.type === type);
+}
+
+function ensureChild(parent: Atom, atom: Atom): Atom {
+  const existing = findChild(parent, atom.type);
+  if (existing) return existing;
+  parent.children!.push(atom);
+  return atom;
+}
+
+/** Handler atom that marks a meta box as iTunes metadata ('mdir' / 'appl') */
+function iTunesHandler(): Atom {
+  const data = Buffer.alloc(25);
+  data.write('mdir', 8, 'latin1');
+  data.write('appl', 12, 'latin1');
+  return { type: 'hdlr', data };
+}
+
+/** Add delta to every chunk offset at or beyond `from` (stco: 32-bit, co64: 64-bit) */
+function shiftChunkOffsets(atom: Atom, from: number, delta: number): void {
+  if (atom.type === 'stco' || atom.type === 'co64') {
+    const data = Buffer.from(atom.data!);
+    const count = data.readUInt32BE(4);
+    for (let i = 0; i < count; i++) {
+      if (atom.type === 'stco') {
+        const pos = 8 + i * 4;
+        const value = data.readUInt32BE(pos);
+        if (value >= from) data.writeUInt32BE(value + delta, pos);
+      } else {
+        const pos = 8 + i * 8;
+        const value = data.readBigUInt64BE(pos);
+        if (value >= BigInt(from)) data.writeBigUInt64BE(value + BigInt(delta), pos);
+      }
+    }
+    atom.data = data;
+  }
+  atom.children?.forEach(c => shiftChunkOffsets(c, from, delta));
+}
+
+// ─── ilst items (pure) ───────────────────────────────────────────────────
+
+/** Pure calculation: decode an ilst item to a text item, or null for binary items */
+function decodeTextItem(item: Atom): Mp4TextItem | null {
+  const data = item.data!;
+  let key = item.type;
+  let value: string | null = null;
+  let offset = 0;
+  while (offset + 8 <= data.length) {
+    const size = data.readUInt32BE(offset);
+    if (size < 8 || offset + size > data.length) return null;
+    const type = data.toString('latin1', offset + 4, offset + 8);
+    const payload = data.subarray(offset + 8, offset + size);
+    if (type === 'mean' || type === 'name') {
+      key += `:${payload.toString('utf8', 4)}`;
+    } else if (type === 'data') {
+      const dataType = payload.readUInt32BE(0) & 0xffffff;
+      const width = INTEGER_ITEMS.get(item.type);
+      if (dataType === DATA_TYPE_UTF8) {
+        value = payload.toString('utf8', 8);
+      } else if (width && payload.length === 8 + width) {
+        // Older taggers mark tmpo as implicit (type 0) rather than a big-endian integer
+        if (dataType !== DATA_TYPE_BE_INT && dataType !== 0) return null;
+        value = String(payload.readUIntBE(8, width));
+      } else {
+        return null;
+      }
+    }
+    offset += size;
+  }
+  return value === null ? null : { key, value };
+}
+
+function subAtom(type: string, payload: Buffer): Buffer {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(8 + payload.length, 0);
+  head.write(type, 4, 'latin1');
+  return Buffer.concat([head, payload]);
+}
+
+/** Pure calculation: encode a text item as an ilst child atom */
+function encodeTextItem(item: Mp4TextItem): Atom {
+  const width = INTEGER_ITEMS.get(item.key);
+  if (width) {
+    const number = Number(item.value);
+    const max = 2 ** (8 * width) - 1;
+    if (!Number.isInteger(number) || number < 0 || number > max) {
+      throw new Error(`MP4 item '${item.key}' must be a whole number from 0 to ${max}, got '${item.value}'`);
+    }
+    const payload = Buffer.alloc(8 + width);
+    payload.writeUInt32BE(DATA_TYPE_BE_INT, 0);
+    payload.writeUIntBE(number, 8, width);
+    return { type: item.key, data: subAtom('data', payload) };
+  }
+
+  const typeAndLocale = Buffer.alloc(8);
+  typeAndLocale.writeUInt32BE(DATA_TYPE_UTF8, 0);
+  const dataAtom = subAtom('data', Buffer.concat([typeAndLocale, Buffer.from(item.value, 'utf8')]));
+
+  if (item.key.startsWith(FREEFORM_PREFIX)) {
+    const rest = item.key.slice(FREEFORM_PREFIX.length);
+    const sep = rest.indexOf(':');
+    const mean = rest.slice(0, sep);
+    const name = rest.slice(sep + 1);
+    const flags = Buffer.alloc(4);
+    return {
+      type: '----',
+      data: Buffer.concat([
+        subAtom('mean', Buffer.concat([flags, Buffer.from(mean, 'utf8')])),
+        subAtom('name', Buffer.concat([flags, Buffer.from(name, 'utf8')])),
+        dataAtom,
+      ]),
+    };
+  }
+  return { type: item.key, data: dataAtom };
+}
+
+// ─── File I/O ────────────────────────────────────────────────────────────
+
+interface ParsedMp4 {
+  buf: Buffer;
+  moov: Atom;
+  moovStart: number;
+  moovEnd: number;
+}
+
+async function loadMp4(filePath: string): Promise<ParsedMp4> {
+  const buf = await fs.readFile(filePath);
+  let offset = 0;
+  while (offset + 8 <= buf.length) {
+    let size = buf.readUInt32BE(offset);
+    const type = buf.toString('latin1', offset + 4, offset + 8);
+    if (size === 1) size = Number(buf.readBigUInt64BE(offset + 8));
+    else if (size === 0) size = buf.length - offset;
+    if (size < 8) break;
+    if (offset + size > buf.length) throw new Error(`Malformed MP4 atom '${type}' (runs past the end of the file)`);
+    if (type === 'moov') {
+      const [moov] = parseAtoms(buf, offset, offset + size);
+      return { buf, moov, moovStart: offset, moovEnd: offset + size };
+    }
+    offset += size;
+  }
+  throw new Error('Not an MP4 file (no moov atom)');
+}
+
+function findIlst(moov: Atom): Atom | undefined {
+  const udta = findChild(moov, 'udta');
+  const meta = udta && findChild(udta, 'meta');
+  return meta && findChild(meta, 'ilst');
+}
+
+/** Read all text metadata items of an MP4/M4A file */
+export async function readMp4TextItems(filePath: string): Promise<Mp4TextItem[]> {
+  const { moov } = await loadMp4(filePath);
+  const ilst = findIlst(moov);
+  if (!ilst) return [];
+  return ilst.children!.map(decodeTextItem).filter((i): i is Mp4TextItem => i !== null);
+}
+
+/**
+ * Rewrite the text metadata items of an MP4/M4A file.
+ * The updater receives the current text items and returns the full new list;
+ * binary items (covr, trkn, …) are kept as they are.
+ */
+export async function updateMp4TextItems(
+  filePath: string,
+  updater: (items: Mp4TextItem[]) => Mp4TextItem[],
+): Promise<void> {
+  const { buf, moov, moovStart, moovEnd } = await loadMp4(filePath);
+
+  const udta = ensureChild(moov, { type: 'udta', children: [] });
+  const meta = ensureChild(udta, { type: 'meta', header: Buffer.alloc(4), children: [] });
+  if (!findChild(meta, 'hdlr')) meta.children!.unshift(iTunesHandler());
+  const ilst = ensureChild(meta, { type: 'ilst', children: [] });
+
+  const binaryItems = ilst.children!.filter(c => decodeTextItem(c) === null);
+  const textItems = ilst.children!.map(decodeTextItem).filter((i): i is Mp4TextItem => i !== null);
+  ilst.children = [...binaryItems, ...updater(textItems).map(encodeTextItem)];
+
+  const delta = atomSize(moov) - (moovEnd - moovStart);
+  if (delta !== 0) shiftChunkOffsets(moov, moovEnd, delta);
+
+  const out = Buffer.concat([buf.subarray(0, moovStart), serializeAtom(moov), buf.subarray(moovEnd)]);
+  const tmpPath = `${filePath}.musicky-tmp`;
+  try {
+    await fs.writeFile(tmpPath, out);
+    await fs.rename(tmpPath, filePath);
+  } catch (error) {
+    await fs.rm(tmpPath, { force: true });
+    throw error;
+  }
+}
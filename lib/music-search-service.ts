@@ -8,13 +8,15 @@ import {
   deleteMP3Cache,
   clearOldCache 
 } from '../database/sqlite/queries/dj-sets';
+import { SUPPORTED_AUDIO_EXTENSIONS } from './mp3-metadata';
 import type { MP3CacheItem, MP3SearchResult } from './types';
 
 export class MusicSearchService {
   private static instance: MusicSearchService;
   private searchCache = new Map<string, MP3SearchResult[]>();
   private readonly cacheTimeout = 5 * 60 * 1000; // 5 minutes
-  private readonly supportedExtensions = ['.mp3', '.flac', '.wav', '.m4a', '.aac'];
+  // Only containers MP3MetadataManager can tag, so every result is playable and editable
+  private readonly supportedExtensions = SUPPORTED_AUDIO_EXTENSIONS;
 
   private constructor() {
     // Clear old cache entries on startup
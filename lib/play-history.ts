@@ -0,0 +1,53 @@
+/**
+ * Play history: the player reports how long each loaded track was actually
+ * listened to. Past a threshold that's a play; moving on before it is a skip.
+ * Counts feed the library, the song details and the playlist generator's
+ * freshness options.
+ */
+
+/** A play needs this much listening, or half of a shorter track */
+export const PLAY_THRESHOLD_SECONDS = 30;
+
+/** Below this the track was only clicked through, which counts as neither */
+export const MIN_LISTEN_SECONDS = 1;
+
+/** Plays this recent count as "recent" for the playlist generator */
+export const FRESHNESS_WINDOW_DAYS = 30;
+
+export type ListenOutcome = 'play' | 'skip';
+
+export interface SongPlayStats {
+  playCount: number;
+  skipCount: number;
+  /** SQLite UTC timestamp of the last counted play; null if never played */
+  lastPlayed: string | null;
+}
+
+/** How recently and how often a song has been played, as the playlist generator sees it */
+export interface SongFreshness {
+  /** Days since the last counted play; null if never played */
+  daysSincePlayed: number | null;
+  /** Plays within FRESHNESS_WINDOW_DAYS */
+  recentPlays: number;
+}
+
+/** Pure calculation: seconds of listening after which a track counts as played */
+export function playThreshold(duration: number): number {
+  return duration > 0 ? Math.min(PLAY_THRESHOLD_SECONDS, duration / 2) : PLAY_THRESHOLD_SECONDS;
+}
+
+/** Pure calculation: whether a listen was a play, a skip, or too short to count */
+export function classifyListen(listenedSeconds: number, duration: number): ListenOutcome | null {
+  if (listenedSeconds >= playThreshold(duration)) return 'play';
+  return listenedSeconds >= MIN_LISTEN_SECONDS ? 'skip' : null;
+}
+
+/** Pure calculation: "today", "3 days ago", "never" for a last-played timestamp */
+export function formatLastPlayed(lastPlayed: string | null, now: number = Date.now()): string {
+  if (!lastPlayed) return 'never';
+  const days = Math.floor((now - new Date(lastPlayed + 'Z').getTime()) / 86_400_000);
+  if (days < 1) return 'today';
+  if (days === 1) return 'yesterday';
+  if (days < 60) return `${days} days ago`;
+  return `${Math.floor(days / 30)} months ago`;
+}
@@ -0,0 +1,102 @@
+/**
+ * Player control bus: the Tauri tray, global shortcuts, the browser's Media
+ * Session (media keys, headset buttons, OS media overlays) and in-app
+ * keyboard shortcuts all send the same controls, and the player listens in
+ * one place. Carried as a window CustomEvent, like the other musicky:* events.
+ */
+
+export type PlayerControl =
+  | { type: 'play_pause' }
+  | { type: 'play' }
+  | { type: 'pause' }
+  | { type: 'next' }
+  | { type: 'prev' }
+  /** Jump to a position in seconds */
+  | { type: 'seek'; time: number }
+  /** Move the playhead by `offset` seconds, backwards when negative */
+  | { type: 'seek_by'; offset: number };
+
+const PLAYER_CONTROL_EVENT = 'musicky:player-control';
+
+/** Default step for seek-back/forward when the source doesn't give one */
+export const SEEK_STEP_SECONDS = 5;
+
+export function sendPlayerControl(control: PlayerControl): void {
+  if (typeof window === 'undefined') return;
+  window.dispatchEvent(new CustomEvent<PlayerControl>(PLAYER_CONTROL_EVENT, { detail: control }));
+}
+
+/** Subscribe to player controls; returns the unsubscribe function */
+export function onPlayerControl(handler: (control: PlayerControl) => void): () => void {
+  const listener = (e: Event) => handler((e as CustomEvent<PlayerControl>).detail);
+  window.addEventListener(PLAYER_CONTROL_EVENT, listener);
+  return () => window.removeEventListener(PLAYER_CONTROL_EVENT, listener);
+}
+
+/** Pure calculation: the control for a tray menu item, null for items that aren't playback */
+export function controlForTrayAction(action: string): PlayerControl | null {
+  switch (action) {
+    case 'play_pause': return { type: 'play_pause' };
+    case 'next': return { type: 'next' };
+    case 'prev': return { type: 'prev' };
+    default: return null;
+  }
+}
+
+// ─── Global shortcuts (pure) ─────────────────────────────────────────────────
+
+export type MediaShortcutAction = 'play_pause' | 'next' | 'prev' | 'seek_back' | 'seek_forward';
+
+/** Accelerator per action in Tauri's format (e.g. `CommandOrControl+Alt+Right`); empty means unbound */
+export type MediaShortcuts = Record<MediaShortcutAction, string>;
+
+export const MEDIA_SHORTCUT_ACTIONS: { action: MediaShortcutAction; label: string }[] = [
+  { action: 'play_pause', label: 'Play / pause' },
+  { action: 'next', label: 'Next track' },
+  { action: 'prev', label: 'Previous track' },
+  { action: 'seek_back', label: `Back ${SEEK_STEP_SECONDS}s` },
+  { action: 'seek_forward', label: `Forward ${SEEK_STEP_SECONDS}s` },
+];
+
+/**
+ * The keyboard's media keys, so they work while another app has focus.
+ * Registering grabs the keys, so the webview's Media Session doesn't get them too.
+ */
+export const DEFAULT_MEDIA_SHORTCUTS: MediaShortcuts = {
+  play_pause: 'MediaPlayPause',
+  next: 'MediaTrackNext',
+  prev: 'MediaTrackPrevious',
+  seek_back: '',
+  seek_forward: '',
+};
+
+export function controlForShortcut(action: MediaShortcutAction): PlayerControl {
+  switch (action) {
+    case 'seek_back': return { type: 'seek_by', offset: -SEEK_STEP_SECONDS };
+    case 'seek_forward': return { type: 'seek_by', offset: SEEK_STEP_SECONDS };
+    default: return { type: action };
+  }
+}
+
+/** Pure calculation: stored or submitted bindings, with defaults for missing actions */
+export function normalizeMediaShortcuts(value: unknown): MediaShortcuts {
+  const input = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+  const result = { ...DEFAULT_MEDIA_SHORTCUTS };
+  for (const { action } of MEDIA_SHORTCUT_ACTIONS) {
+    const binding = input[action];
+    if (typeof binding === 'string') result[action] = binding.trim();
+  }
+  return result;
+}
+
+/** Pure calculation: the first accelerator bound to more than one action, if any */
+export function duplicateShortcut(shortcuts: MediaShortcuts): string | null {
+  const seen = new Set<string>();
+  for (const { action } of MEDIA_SHORTCUT_ACTIONS) {
+    const key = shortcuts[action].toLowerCase();
+    if (!key) continue;
+    if (seen.has(key)) return shortcuts[action];
+    seen.add(key);
+  }
+  return null;
+}
@@ -0,0 +1,199 @@
+/**
+ * Playlist file formats: M3U8, PLS and XSPF export, M3U8 import.
+ * Pure calculation — no I/O. Callers gather track data and read/write the file contents.
+ */
+import path from 'path';
+import { escapeXml } from './xml-utils';
+
+export type PlaylistFileFormat = 'm3u8' | 'pls' | 'xspf';
+
+export const PLAYLIST_FILE_FORMATS: Record<PlaylistFileFormat, { extension: string; contentType: string }> = {
+  m3u8: { extension: 'm3u8', contentType: 'audio/x-mpegurl' },
+  pls: { extension: 'pls', contentType: 'audio/x-scpls' },
+  xspf: { extension: 'xspf', contentType: 'application/xspf+xml' },
+};
+
+export interface PlaylistFileTrack {
+  filePath: string;
+  title: string;
+  artist: string;
+  duration: number;     // seconds; 0 when unknown
+}
+
+export interface PlaylistPathOptions {
+  /** 'relative' writes paths relative to targetFolder (where the playlist file will live) */
+  mode: 'absolute' | 'relative';
+  targetFolder?: string;
+  /** Rewrite a leading path prefix, e.g. "/Users/me/Music" → "D:/Music" for another machine */
+  prefixFrom?: string;
+  prefixTo?: string;
+}
+
+// ─── Paths ───────────────────────────────────────────────────────────────
+
+/** Pure calculation: download/file name for an exported playlist, e.g. "Peak Time.m3u8" */
+export function exportFilename(name: string, extension: string): string {
+  const safe = name.replace(/[^\w\- ]+/g, '').trim() || 'playlist';
+  return `${safe}.${extension}`;
+}
+
+function toForwardSlashes(p: string): string {
+  return p.replace(/\\/g, '/');
+}
+
+function driveOf(p: string): string {
+  return /^([a-zA-Z]):\//.exec(p)?.[1].toUpperCase() ?? '';
+}
+
+/** Pure calculation: the path to write for a track under the given options */
+export function resolvePlaylistPath(filePath: string, options: PlaylistPathOptions): string {
+  let result = toForwardSlashes(filePath);
+
+  if (options.mode === 'relative' && options.targetFolder) {
+    const target = toForwardSlashes(options.targetFolder);
+    // Different Windows drives have no relative path; keep those absolute
+    const drive = driveOf(result);
+    if (driveOf(target) === drive) {
+      result = path.posix.relative(target.slice(drive ? 2 : 0), result.slice(drive ? 2 : 0));
+    }
+  }
+
+  if (options.prefixFrom) {
+    const from = toForwardSlashes(options.prefixFrom).replace(/\/+$/, '');
+    if (result === from || result.startsWith(`${from}/`)) {
+      result = `${toForwardSlashes(options.prefixTo ?? '').replace(/\/+$/, '')}${result.slice(from.length)}`;
+    }
+  }
+
+  return result;
+}
+
+function displayName(track: PlaylistFileTrack): string {
+  const title = track.title || path.basename(track.filePath).replace(/\.[^.]+$/, '');
+  return track.artist ? `${track.artist} - ${title}` : title;
+}
+
+// ─── Export ──────────────────────────────────────────────────────────────
+
+export function buildM3U8(name: string, tracks: PlaylistFileTrack[], options: PlaylistPathOptions): string {
+  const lines = ['#EXTM3U', `#PLAYLIST:${name}`];
+  for (const track of tracks) {
+    lines.push(`#EXTINF:${Math.round(track.duration) || -1},${displayName(track)}`);
+    lines.push(resolvePlaylistPath(track.filePath, options));
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+export function buildPLS(tracks: PlaylistFileTrack[], options: PlaylistPathOptions): string {
+  const lines = ['[playlist]'];
+  tracks.forEach((track, i) => {
+    const n = i + 1;
+    lines.push(`File${n}=${resolvePlaylistPath(track.filePath, options)}`);
+    lines.push(`Title${n}=${displayName(track)}`);
+    lines.push(`Length${n}=${Math.round(track.duration) || -1}`);
+  });
+  lines.push(`NumberOfEntries=${tracks.length}`, 'Version=2');
+  return `${lines.join('\n')}\n`;
+}
+
+/** Pure calculation: XSPF location — file:// URI when absolute, URI-encoded relative reference otherwise */
+function xspfLocation(p: string): string {
+  const encoded = p.split('/').map(encodeURIComponent).join('/').replace(/%3A/gi, ':');
+  if (p.startsWith('/')) return `file://${encoded}`;
+  if (/^[a-zA-Z]:\//.test(p)) return `file:///${encoded}`;
+  return encoded;
+}
+
+export function buildXSPF(name: string, tracks: PlaylistFileTrack[], options: PlaylistPathOptions): string {
+  const trackElements = tracks.map(track => {
+    const parts = [`      <location>${escapeXml(xspfLocation(resolvePlaylistPath(track.filePath, options)))}</location>`];
+    if (track.title) parts.push(`      <title>${escapeXml(track.title)}</title>`);
+    if (track.artist) parts.push(`      <creator>${escapeXml(track.artist)}</creator>`);
+    if (track.duration) parts.push(`      <duration>${Math.round(track.duration * 1000)}</duration>`);
+    return ['    <track>', ...parts, '    </track>'].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+    `  <title>${escapeXml(name)}</title>`,
+    '  <trackList>',
+    ...trackElements,
+    '  </trackList>',
+    '</playlist>',
+    '',
+  ].join('\n');
+}
+
+export function buildPlaylistFile(
+  format: PlaylistFileFormat,
+  name: string,
+  tracks: PlaylistFileTrack[],
+  options: PlaylistPathOptions,
+): string {
+  switch (format) {
+    case 'pls': return buildPLS(tracks, options);
+    case 'xspf': return buildXSPF(name, tracks, options);
+    default: return buildM3U8(name, tracks, options);
+  }
+}
+
+// ─── Import ──────────────────────────────────────────────────────────────
+
+export interface M3UEntry {
+  path: string;
+  title?: string;
+  artist?: string;
+  duration?: number;
+}
+
+/** Parse an M3U/M3U8 playlist. #EXTINF "Artist - Title" is split on the first " - ". */
+export function parseM3U8(content: string): { name?: string; entries: M3UEntry[] } {
+  const entries: M3UEntry[] = [];
+  let name: string | undefined;
+  let pending: Omit<M3UEntry, 'path'> = {};
+
+  for (const raw of content.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+    if (line.startsWith('#PLAYLIST:')) {
+      name = line.slice('#PLAYLIST:'.length).trim() || undefined;
+    } else if (line.startsWith('#EXTINF:')) {
+      const info = line.slice('#EXTINF:'.length);
+      const comma = info.indexOf(',');
+      const duration = parseFloat(comma >= 0 ? info.slice(0, comma) : info);
+      const label = comma >= 0 ? info.slice(comma + 1).trim() : '';
+      const dash = label.indexOf(' - ');
+      pending = {
+        duration: duration > 0 ? duration : undefined,
+        artist: dash >= 0 ? label.slice(0, dash).trim() : undefined,
+        title: (dash >= 0 ? label.slice(dash + 3) : label).trim() || undefined,
+      };
+    } else if (!line.startsWith('#')) {
+      entries.push({ path: decodePlaylistLocation(line), ...pending });
+      pending = {};
+    }
+  }
+
+  return { name, entries };
+}
+
+/** Pure calculation: file:// URIs → paths; plain paths are returned with forward slashes */
+export function decodePlaylistLocation(location: string): string {
+  if (!/^file:\/\//i.test(location)) return toForwardSlashes(location);
+  const withoutScheme = location.replace(/^file:\/\/(localhost)?/i, '');
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(withoutScheme);
+  } catch {
+    decoded = withoutScheme;
+  }
+  return /^\/[a-zA-Z]:\//.test(decoded) ? decoded.slice(1) : decoded;
+}
+
+/** Pure calculation: resolve a (possibly relative) playlist entry against the folder it came from */
+export function resolveEntryPath(entryPath: string, baseFolder: string | null): string {
+  const normalized = toForwardSlashes(entryPath);
+  if (normalized.startsWith('/') || /^[a-zA-Z]:\//.test(normalized) || !baseFolder) return normalized;
+  return path.posix.join(toForwardSlashes(baseFolder), normalized);
+}
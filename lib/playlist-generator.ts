@@ -13,6 +13,8 @@ import {
   computeSimilarityScore,
 } from './graph-engine';
 import type { PhaseEdge } from './phase-graph';
+import type { MixPoints } from './mix-points';
+import type { SongFreshness } from './play-history';
 import { getPhaseOrder, buildPhaseGraph, findLongestPath } from './phase-graph';
 
 // ---------------------------------------------------------------------------
@@ -30,6 +32,10 @@ export interface PlaylistOptions {
   maxPerPhase?: number;
   /** Include songs with no phase tag? If so, which position */
   untaggedPlacement?: 'start' | 'end' | 'distribute' | 'exclude';
+  /** Leave out songs played within this many days (0 = keep them) */
+  skipPlayedWithinDays?: number;
+  /** How much recent plays count against a song when trimming to maxPerPhase (0-1) */
+  freshnessWeight?: number;
 }
 
 export interface PlaylistEntry {
@@ -38,6 +44,12 @@ export interface PlaylistEntry {
   position: number;
   /** Why this song is at this position */
   reason: 'phase_order' | 'linked_cluster' | 'mood_similarity' | 'transition' | 'untagged';
+  /**
+   * Estimated seconds this song plays over the previous one, mixing the
+   * previous outro into this intro (see withEstimatedOverlaps). Null when
+   * either song hasn't been analysed.
+   */
+  overlapSeconds?: number | null;
 }
 
 export interface GeneratedPlaylist {
@@ -63,9 +75,16 @@ export function defaultPlaylistOptions(): Required<PlaylistOptions> {
     connectionWeight: 0.4,
     maxPerPhase: 0,
     untaggedPlacement: 'end',
+    skipPlayedWithinDays: 0,
+    freshnessWeight: 0,
   };
 }
 
+/** Pure calculation: 1 for a song not played recently, falling towards 0 the more it was */
+function freshnessScore(freshness: SongFreshness | undefined): number {
+  return 1 / (1 + (freshness?.recentPlays ?? 0));
+}
+
 /** Build a SongNode containing only mood tags — used for mood-only similarity. */
 function moodOnlyNode(node: SongNode): SongNode {
   return {
@@ -74,6 +93,63 @@ function moodOnlyNode(node: SongNode): SongNode {
   };
 }
 
+/** Ratings a transition audition can give, from 1 (clashes) to 5 (seamless) */
+export const TRANSITION_RATING_MAX = 5;
+
+/** How far a well-rated transition lifts a pair's score */
+const TRANSITION_BIAS = 0.5;
+
+/**
+ * How far a clashing transition drops a pair's score — as much as the most
+ * that mood and connections together can add, so the pair is only mixed in
+ * that order when nothing else is left to play.
+ */
+const TRANSITION_CLASH_PENALTY = 1;
+
+/** Pure calculation: the 'transition' connection weight (0–1) stored for a rating */
+export function transitionRatingWeight(rating: number): number {
+  const clamped = Math.min(TRANSITION_RATING_MAX, Math.max(1, Math.round(rating)));
+  return (clamped - 1) / (TRANSITION_RATING_MAX - 1);
+}
+
+/** Whether an edge ties its songs into one cluster: anything but a transition rated below neutral */
+function linksSongs(edge: SongEdge): boolean {
+  return edge.type !== 'transition' || edge.weight >= 0.5;
+}
+
+/**
+ * Strongest undirected connection between `a` and `b`. 'transition'
+ * connections are left out — they only count in the order they were
+ * auditioned, through transitionBias.
+ */
+function connectionScore(a: SongNode, b: SongNode, graph: SongGraph): number {
+  let score = 0;
+  for (const edge of graph.adjacency.get(a.filePath) ?? []) {
+    if (edge.type === 'transition') continue;
+    const neighbor =
+      edge.sourceFilePath === a.filePath ? edge.targetFilePath : edge.sourceFilePath;
+    if (neighbor === b.filePath) {
+      score = Math.max(score, edge.weight);
+    }
+  }
+  return score;
+}
+
+/**
+ * Score adjustment from a 'transition' connection out of `a` into `b`. Unlike
+ * other connections these are directed — they record how the pair sounded
+ * mixed in that order — and a weight below 0.5 counts against the pair
+ * instead of just adding nothing.
+ */
+function transitionBias(a: SongNode, b: SongNode, graph: SongGraph): number {
+  const edge = (graph.adjacency.get(a.filePath) ?? []).find(
+    (e) => e.type === 'transition' && e.sourceFilePath === a.filePath && e.targetFilePath === b.filePath,
+  );
+  if (!edge) return 0;
+  const lean = 2 * edge.weight - 1;
+  return lean >= 0 ? TRANSITION_BIAS * lean : TRANSITION_CLASH_PENALTY * lean;
+}
+
 /** Compute a combined score between two songs using mood similarity + connection weight. */
 function combinedScore(
   a: SongNode,
@@ -83,18 +159,7 @@ function combinedScore(
   connectionWeight: number,
 ): number {
   const moodSim = computeSimilarityScore(moodOnlyNode(a), moodOnlyNode(b));
-
-  let connScore = 0;
-  const edges = graph.adjacency.get(a.filePath) ?? [];
-  for (const edge of edges) {
-    const neighbor =
-      edge.sourceFilePath === a.filePath ? edge.targetFilePath : edge.sourceFilePath;
-    if (neighbor === b.filePath) {
-      connScore = Math.max(connScore, edge.weight);
-    }
-  }
-
-  return moodWeight * moodSim + connectionWeight * connScore;
+  return moodWeight * moodSim + connectionWeight * connectionScore(a, b, graph) + transitionBias(a, b, graph);
 }
 
 /**
@@ -121,7 +186,7 @@ function greedyOrder(
   } else if (startNode) {
     // Pick the song most similar to startNode
     let best: SongNode = songs[0];
-    let bestScore = -1;
+    let bestScore = -Infinity;
     for (const s of songs) {
       const score = combinedScore(startNode, s, graph, moodWeight, connectionWeight);
       if (score > bestScore) {
@@ -139,7 +204,7 @@ function greedyOrder(
 
   while (remaining.size > 0) {
     let bestNext: SongNode | null = null;
-    let bestScore = -1;
+    let bestScore = -Infinity;
 
     for (const fp of remaining) {
       const node = graph.nodes.get(fp);
@@ -184,8 +249,9 @@ export function sortSongsInPhase(
   );
   const subGraph = buildSongGraph(phaseSongs, subEdges);
 
-  // Find connected components
-  const components = findConnectedComponents(subGraph);
+  // Find connected components — a clashing transition doesn't join its songs
+  const components = findConnectedComponents(buildSongGraph(phaseSongs, subEdges.filter(linksSongs)));
+  const clusterCount = components.length;
 
   // Sort components by size descending
   components.sort((a, b) => b.length - a.length);
@@ -194,7 +260,24 @@ export function sortSongsInPhase(
   const sorted: SongNode[] = [];
   let currentLast = lastSong;
 
-  for (const component of components) {
+  while (components.length > 0) {
+    // Among the largest clusters left, take the one that best follows the last song
+    let pick = 0;
+    if (currentLast) {
+      let bestScore = -Infinity;
+      for (let i = 0; i < components.length && components[i].length === components[0].length; i++) {
+        for (const fp of components[i]) {
+          const node = subGraph.nodes.get(fp);
+          if (!node) continue;
+          const score = combinedScore(currentLast, node, subGraph, opts.moodWeight, opts.connectionWeight);
+          if (score > bestScore) {
+            bestScore = score;
+            pick = i;
+          }
+        }
+      }
+    }
+    const [component] = components.splice(pick, 1);
     const componentSongs = component
       .map((fp) => subGraph.nodes.get(fp))
       .filter((n): n is SongNode => n !== undefined);
@@ -213,7 +296,7 @@ export function sortSongsInPhase(
     }
   }
 
-  return { sorted, clusterCount: components.length };
+  return { sorted, clusterCount };
 }
 
 /** Find the best transition song from one group to the next */
@@ -231,18 +314,8 @@ export function findTransitionSong(
   for (const f of fromSongs) {
     for (const t of toSongs) {
       // Prefer direct connections, fall back to mood similarity
-      let connScore = 0;
-      const edges = graph.adjacency.get(f.filePath) ?? [];
-      for (const edge of edges) {
-        const neighbor =
-          edge.sourceFilePath === f.filePath ? edge.targetFilePath : edge.sourceFilePath;
-        if (neighbor === t.filePath) {
-          connScore = Math.max(connScore, edge.weight);
-        }
-      }
-
       const moodSim = computeSimilarityScore(moodOnlyNode(f), moodOnlyNode(t));
-      const score = 0.4 * moodSim + 0.6 * connScore;
+      const score = 0.4 * moodSim + 0.6 * connectionScore(f, t, graph) + transitionBias(f, t, graph);
 
       if (score > bestScore) {
         bestScore = score;
@@ -271,15 +344,29 @@ export function findTransitionSong(
  *       - The song in the next cluster most connected to the last song of previous cluster
  * 3. Handle untagged songs based on options.untaggedPlacement
  * 4. Assign positions (0-based)
+ *
+ * `freshness` holds play history by file path; songs missing from it have
+ * never been played. It only matters with the freshness options set.
  */
 export function generatePlaylist(
-  songs: SongNode[],
+  allSongs: SongNode[],
   connections: SongEdge[],
   phaseEdges: PhaseEdge[],
   options?: PlaylistOptions,
+  freshness: Map<string, SongFreshness> = new Map(),
 ): GeneratedPlaylist {
   const opts: Required<PlaylistOptions> = { ...defaultPlaylistOptions(), ...options };
-  const graph = buildSongGraph(songs, connections);
+  const songs = opts.skipPlayedWithinDays > 0
+    ? allSongs.filter((s) => {
+        const days = freshness.get(s.filePath)?.daysSincePlayed;
+        return days == null || days >= opts.skipPlayedWithinDays;
+      })
+    : allSongs;
+  const kept = new Set(songs.map((s) => s.filePath));
+  const graph = buildSongGraph(
+    songs,
+    connections.filter((c) => kept.has(c.sourceFilePath) && kept.has(c.targetFilePath)),
+  );
 
   // 1. Determine phase order
   let phases: string[];
@@ -323,13 +410,16 @@ export function generatePlaylist(
 
     // Apply maxPerPhase limit
     if (opts.maxPerPhase > 0 && phaseSongs.length > opts.maxPerPhase) {
-      // Keep the most connected songs
+      // Keep the most connected songs, passing over recently hammered ones by freshnessWeight
+      const degrees = phaseSongs.map((s) => (graph.adjacency.get(s.filePath) ?? []).filter(linksSongs).length);
+      const maxDegree = Math.max(1, ...degrees);
       phaseSongs = phaseSongs
-        .map((s) => ({
+        .map((s, i) => ({
           song: s,
-          degree: (graph.adjacency.get(s.filePath) ?? []).length,
+          rank: (1 - opts.freshnessWeight) * (degrees[i] / maxDegree)
+            + opts.freshnessWeight * freshnessScore(freshness.get(s.filePath)),
         }))
-        .sort((a, b) => b.degree - a.degree)
+        .sort((a, b) => b.rank - a.rank)
         .slice(0, opts.maxPerPhase)
         .map((x) => x.song);
     }
@@ -418,6 +508,26 @@ export function generatePlaylist(
   };
 }
 
+/**
+ * Fill in overlapSeconds: the shorter of the previous song's outro and this
+ * song's intro, as detected by mix-point analysis. The first entry has none.
+ */
+export function withEstimatedOverlaps(
+  playlist: GeneratedPlaylist,
+  mixPoints: Map<string, MixPoints>,
+): GeneratedPlaylist {
+  const entries = playlist.entries.map((entry, i) => {
+    if (i === 0) return { ...entry, overlapSeconds: null };
+    const previous = mixPoints.get(playlist.entries[i - 1].filePath);
+    const current = mixPoints.get(entry.filePath);
+    if (previous?.outroStart == null || current?.introEnd == null) return { ...entry, overlapSeconds: null };
+    const outro = previous.audioEnd - previous.outroStart;
+    const intro = current.introEnd - current.audioStart;
+    return { ...entry, overlapSeconds: Math.round(Math.max(0, Math.min(outro, intro))) };
+  });
+  return { ...playlist, entries };
+}
+
 /** Shuffle songs within a specific phase, keeping other phases in order */
 export function shuffleWithinPhase(
   playlist: GeneratedPlaylist,
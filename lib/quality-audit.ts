@@ -0,0 +1,194 @@
+/**
+ * File quality audit: catches lossy transcodes passed off as high-bitrate or
+ * lossless files (by their spectral cutoff), clipped masters, low bitrates,
+ * mono files and odd sample rates — the things that sound fine on headphones
+ * and fall apart on a club system.
+ * Pure calculation — no I/O. Feed it decoded PCM (see audio-decoder) plus the
+ * container info from MP3Metadata.
+ */
+import { stft } from './audio-dsp';
+import type { QualityIssue, QualityVerdict } from './types';
+
+/** What the tags/container claim, as read by music-metadata */
+export interface DeclaredFormat {
+  /** Bits per second */
+  bitrate?: number;
+  sampleRate?: number;
+  /** Container name, e.g. "MPEG", "FLAC", "MPEG-4", "WAVE" */
+  format?: string;
+}
+
+export interface QualityReport {
+  verdict: QualityVerdict;
+  issues: QualityIssue[];
+  /** Frequency of a brickwall low-pass, or null when the spectrum rolls off naturally */
+  cutoffHz: number | null;
+  clippedRunsPerMinute: number;
+  channels: number;
+}
+
+const FRAME_SIZE = 4096;
+/** Frames spread over the track; the long-term spectrum settles well before this */
+const MAX_FRAMES = 300;
+const BAND_HZ = 250;
+/** Lowest frequency considered as a cutoff; anything lower is a musical choice, not an encoder */
+const MIN_CUTOFF_HZ = 10000;
+/** Level drop across one band that marks an encoder's low-pass rather than a natural roll-off */
+const BRICKWALL_DROP_DB = 25;
+const BANDS_BELOW = 3;
+
+const CLIP_LEVEL = 0.999;
+/** Consecutive full-scale samples that count as a clip; a limiter's overs are shorter */
+const CLIP_RUN = 3;
+const CLIPPING_WARNING_PER_MINUTE = 10;
+const CLIPPING_BAD_PER_MINUTE = 200;
+/** Side channel this far below mid is mono in a stereo file */
+const DUAL_MONO_DB = -40;
+
+const LOSSLESS_CONTAINERS = ['FLAC', 'WAVE', 'AIFF'];
+/** Above this an MP4 is ALAC, not AAC */
+const LOSSLESS_BITRATE = 500_000;
+const STANDARD_SAMPLE_RATES = [44100, 48000];
+
+// ─── Measurements ────────────────────────────────────────────────────────
+
+/**
+ * Pure calculation: frequency of a brickwall low-pass in the long-term
+ * spectrum, or null when there is none below the top band. MP3 and AAC
+ * encoders cut everything above 16–20 kHz depending on bitrate; real
+ * recordings fade out gradually.
+ */
+export function spectralCutoffHz(samples: Float32Array, sampleRate: number): number | null {
+  const hop = Math.max(FRAME_SIZE, Math.floor(samples.length / MAX_FRAMES));
+  const frames = stft(samples, FRAME_SIZE, hop);
+  if (frames.length === 0) return null;
+
+  const binHz = sampleRate / FRAME_SIZE;
+  const bandCount = Math.floor(sampleRate / 2 / BAND_HZ);
+  const power = new Float64Array(bandCount);
+  for (const magnitudes of frames) {
+    for (let k = 1; k < magnitudes.length; k++) {
+      const band = Math.min(bandCount - 1, Math.floor((k * binHz) / BAND_HZ));
+      power[band] += magnitudes[k] * magnitudes[k];
+    }
+  }
+  const levels = Array.from(power, p => 10 * Math.log10(p + 1e-20));
+
+  let best: { band: number; drop: number } | null = null;
+  for (let b = Math.ceil(MIN_CUTOFF_HZ / BAND_HZ); b < bandCount - 1; b++) {
+    let below = 0;
+    for (let i = b - BANDS_BELOW; i < b; i++) below += levels[i] / BANDS_BELOW;
+    // Everything above has to stay down, not just the next band
+    const above = Math.max(...levels.slice(b + 1));
+    const drop = below - above;
+    if (drop >= BRICKWALL_DROP_DB && (!best || drop > best.drop)) best = { band: b, drop };
+  }
+  return best ? (best.band + 0.5) * BAND_HZ : null;
+}
+
+/** Pure calculation: runs of CLIP_RUN or more consecutive full-scale samples, summed over channels */
+export function countClippedRuns(channels: Float32Array[]): number {
+  let runs = 0;
+  for (const channel of channels) {
+    let length = 0;
+    for (const v of channel) {
+      if (Math.abs(v) >= CLIP_LEVEL) {
+        length++;
+        if (length === CLIP_RUN) runs++;
+      } else {
+        length = 0;
+      }
+    }
+  }
+  return runs;
+}
+
+/** Pure calculation: whether a stereo file carries the same signal on both sides */
+function isDualMono(channels: Float32Array[]): boolean {
+  if (channels.length < 2) return false;
+  const [left, right] = channels;
+  let mid = 0;
+  let side = 0;
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    mid += (left[i] + right[i]) ** 2;
+    side += (left[i] - right[i]) ** 2;
+  }
+  return mid > 0 && 10 * Math.log10(side / mid + 1e-20) < DUAL_MONO_DB;
+}
+
+// ─── Verdict ─────────────────────────────────────────────────────────────
+
+/** Pure calculation: the cutoff a healthy encode at this bitrate has (LAME/AAC defaults, with slack) */
+function expectedCutoffHz(kbps: number): number {
+  if (kbps >= 256) return 19000;
+  if (kbps >= 192) return 17500;
+  if (kbps >= 160) return 16500;
+  return 15000;
+}
+
+function isLossless(declared: DeclaredFormat): boolean {
+  return LOSSLESS_CONTAINERS.includes(declared.format?.toUpperCase() ?? '')
+    || (declared.bitrate ?? 0) >= LOSSLESS_BITRATE;
+}
+
+const kHz = (hz: number) => `${(hz / 1000).toFixed(1)} kHz`;
+
+/**
+ * Pure calculation: audit one file. `channels` are the decoded channels at
+ * the file's own sample rate; `samples` their mono mixdown.
+ */
+export function auditQuality(
+  samples: Float32Array,
+  channels: Float32Array[],
+  sampleRate: number,
+  declared: DeclaredFormat,
+): QualityReport {
+  const issues: QualityIssue[] = [];
+  const lossless = isLossless(declared);
+  const kbps = declared.bitrate ? Math.round(declared.bitrate / 1000) : null;
+  const cutoffHz = spectralCutoffHz(samples, sampleRate);
+
+  if (cutoffHz != null && lossless && cutoffHz < 19500) {
+    issues.push({ kind: 'transcode', severity: 'bad', message: `Lossless file cut off at ${kHz(cutoffHz)} — made from an MP3 or AAC` });
+  } else if (cutoffHz != null && kbps != null && !lossless && cutoffHz < expectedCutoffHz(kbps) - 1000) {
+    issues.push({
+      kind: 'transcode',
+      severity: kbps >= 256 ? 'bad' : 'warning',
+      message: `${kbps} kbps file cut off at ${kHz(cutoffHz)} — re-encoded from a lower bitrate`,
+    });
+  }
+
+  if (kbps != null && !lossless && kbps < 192) {
+    issues.push({ kind: 'low_bitrate', severity: kbps < 128 ? 'bad' : 'warning', message: `${kbps} kbps` });
+  }
+
+  const minutes = samples.length / sampleRate / 60;
+  const clippedRunsPerMinute = minutes > 0 ? Math.round((countClippedRuns(channels) / minutes) * 10) / 10 : 0;
+  if (clippedRunsPerMinute >= CLIPPING_WARNING_PER_MINUTE) {
+    issues.push({
+      kind: 'clipping',
+      severity: clippedRunsPerMinute >= CLIPPING_BAD_PER_MINUTE ? 'bad' : 'warning',
+      message: `${clippedRunsPerMinute} clipped runs per minute`,
+    });
+  }
+
+  if (channels.length === 1) {
+    issues.push({ kind: 'mono', severity: 'warning', message: 'Mono file' });
+  } else if (isDualMono(channels)) {
+    issues.push({ kind: 'mono', severity: 'warning', message: 'Stereo file with identical channels' });
+  }
+
+  const declaredRate = declared.sampleRate ?? sampleRate;
+  if (declaredRate !== sampleRate) {
+    issues.push({ kind: 'sample_rate', severity: 'warning', message: `Header says ${kHz(declaredRate)}, audio decodes at ${kHz(sampleRate)}` });
+  } else if (declaredRate < 44100) {
+    issues.push({ kind: 'sample_rate', severity: 'bad', message: `${kHz(declaredRate)} sample rate` });
+  } else if (declaredRate > 48000 && cutoffHz != null && cutoffHz <= 24000) {
+    issues.push({ kind: 'sample_rate', severity: 'warning', message: `${kHz(declaredRate)} file with nothing above ${kHz(cutoffHz)} — upsampled` });
+  } else if (!STANDARD_SAMPLE_RATES.includes(declaredRate) && declaredRate <= 48000) {
+    issues.push({ kind: 'sample_rate', severity: 'warning', message: `Unusual ${kHz(declaredRate)} sample rate` });
+  }
+
+  const verdict: QualityVerdict = issues.some(i => i.severity === 'bad') ? 'bad' : issues.length > 0 ? 'warning' : 'ok';
+  return { verdict, issues, cutoffHz, clippedRunsPerMinute, channels: channels.length };
+}
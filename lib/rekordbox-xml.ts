@@ -0,0 +1,265 @@
+/**
+ * Rekordbox XML (DJ_PLAYLISTS) export and import.
+ * Pure calculation — no I/O. Callers gather track data and read/write the XML string.
+ */
+import path from 'path';
+import { escapeXml, parseXmlAttributes } from './xml-utils';
+
+export interface RekordboxTrack {
+  filePath: string;
+  title: string;
+  artist: string;
+  album: string;
+  genre: string;
+  duration: number;     // seconds
+  fileSize: number;     // bytes
+  bpm?: number;
+  tonality?: string;    // standard notation, e.g. "Am", "F#"
+  comments: string;     // hashtag string, e.g. "#peak #dark"
+  phase: string | null;
+}
+
+export interface RekordboxPlaylist {
+  name: string;
+  tracks: RekordboxTrack[];
+}
+
+// ─── Colours ─────────────────────────────────────────────────────────────
+
+/** Rekordbox's fixed track colour palette */
+const REKORDBOX_COLOURS = {
+  pink: '0xFF007F',
+  red: '0xFF0000',
+  orange: '0xFFA500',
+  yellow: '0xFFFF00',
+  green: '0x00FF00',
+  aqua: '0x25FDE9',
+  blue: '0x0000FF',
+  purple: '0x660099',
+} as const;
+
+/** Default phases, matched to the colours the playlist panel uses for them */
+const PHASE_COLOURS: Record<string, string> = {
+  opener: REKORDBOX_COLOURS.aqua,
+  buildup: REKORDBOX_COLOURS.blue,
+  peak: REKORDBOX_COLOURS.red,
+  cooldown: REKORDBOX_COLOURS.orange,
+  closer: REKORDBOX_COLOURS.purple,
+};
+
+/** Pure calculation: Rekordbox colour for a phase; custom phases get a stable palette colour */
+export function phaseToRekordboxColour(phase: string | null): string | null {
+  if (!phase) return null;
+  const key = phase.toLowerCase();
+  if (PHASE_COLOURS[key]) return PHASE_COLOURS[key];
+
+  const palette = Object.values(REKORDBOX_COLOURS);
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) hash = ((hash << 5) - hash + key.charCodeAt(i)) | 0;
+  return palette[Math.abs(hash) % palette.length];
+}
+
+// ─── XML building ────────────────────────────────────────────────────────
+
+/** Pure calculation: file path → Rekordbox Location URI (file://localhost/…) */
+export function toRekordboxLocation(filePath: string): string {
+  const normalized = filePath.replace(/\\/g, '/');
+  const withLeadingSlash = normalized.startsWith('/') ? normalized : `/${normalized}`;
+  const encoded = withLeadingSlash.split('/').map(encodeURIComponent).join('/')
+    .replace(/%3A/gi, ':'); // keep Windows drive letters readable ("/C:/Music")
+  return `file://localhost${encoded}`;
+}
+
+function trackKind(filePath: string): string {
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.flac': return 'FLAC File';
+    case '.m4a': return 'M4A File';
+    default: return 'MP3 File';
+  }
+}
+
+function trackElement(track: RekordboxTrack, trackId: number): string {
+  const attrs: [string, string][] = [
+    ['TrackID', String(trackId)],
+    ['Name', track.title],
+    ['Artist', track.artist],
+    ['Album', track.album],
+    ['Genre', track.genre],
+    ['Kind', trackKind(track.filePath)],
+    ['Size', String(track.fileSize)],
+    ['TotalTime', String(Math.round(track.duration))],
+    ['AverageBpm', track.bpm ? track.bpm.toFixed(2) : '0.00'],
+    ['Tonality', track.tonality ?? ''],
+    ['Comments', track.comments],
+  ];
+  const colour = phaseToRekordboxColour(track.phase);
+  if (colour) attrs.push(['Colour', colour]);
+  attrs.push(['Location', toRekordboxLocation(track.filePath)]);
+
+  return `    <TRACK ${attrs.map(([k, v]) => `${k}="${escapeXml(v)}"`).join(' ')}/>`;
+}
+
+/**
+ * Build a DJ_PLAYLISTS document with one COLLECTION entry per distinct file
+ * and one playlist NODE per playlist, referencing tracks by TrackID.
+ */
+export function buildRekordboxXml(playlists: RekordboxPlaylist[]): string {
+  const trackIds = new Map<string, number>();
+  const collection: string[] = [];
+  for (const playlist of playlists) {
+    for (const track of playlist.tracks) {
+      if (trackIds.has(track.filePath)) continue;
+      const id = trackIds.size + 1;
+      trackIds.set(track.filePath, id);
+      collection.push(trackElement(track, id));
+    }
+  }
+
+  const nodes = playlists.map(playlist => {
+    const keys = playlist.tracks.map(t => `        <TRACK Key="${trackIds.get(t.filePath)}"/>`);
+    return [
+      `      <NODE Name="${escapeXml(playlist.name)}" Type="1" KeyType="0" Entries="${playlist.tracks.length}">`,
+      ...keys,
+      '      </NODE>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<DJ_PLAYLISTS Version="1.0.0">',
+    '  <PRODUCT Name="Musicky" Version="1.0.0" Company="Musicky"/>',
+    `  <COLLECTION Entries="${collection.length}">`,
+    ...collection,
+    '  </COLLECTION>',
+    '  <PLAYLISTS>',
+    `    <NODE Type="0" Name="ROOT" Count="${playlists.length}">`,
+    ...nodes,
+    '    </NODE>',
+    '  </PLAYLISTS>',
+    '</DJ_PLAYLISTS>',
+    '',
+  ].join('\n');
+}
+
+// ─── Parsing ─────────────────────────────────────────────────────────────
+
+export interface RekordboxCollectionTrack {
+  trackId: string;
+  location: string;
+  filePath: string;      // decoded from location
+  title: string;
+  artist: string;
+  genre: string;
+  comments: string;
+  colour: string | null;
+  bpm?: number;
+  tonality?: string;
+}
+
+export interface RekordboxParsedPlaylist {
+  name: string;          // folder path joined with " / "
+  trackIds: string[];
+}
+
+export interface RekordboxLibrary {
+  tracks: RekordboxCollectionTrack[];
+  playlists: RekordboxParsedPlaylist[];
+}
+
+/** Pure calculation: Rekordbox Location URI → file path (inverse of toRekordboxLocation) */
+export function fromRekordboxLocation(location: string): string {
+  const withoutScheme = location.replace(/^file:\/\/localhost/i, '').replace(/^file:\/\//i, '');
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(withoutScheme);
+  } catch {
+    decoded = withoutScheme;
+  }
+  // "/C:/Music/…" → "C:/Music/…"
+  return /^\/[a-zA-Z]:\//.test(decoded) ? decoded.slice(1) : decoded;
+}
+
+/** Pure calculation: the default phase a Rekordbox colour was exported from, if any */
+export function rekordboxColourToPhase(colour: string | null): string | null {
+  if (!colour) return null;
+  const normalized = colour.toUpperCase().replace(/^#/, '0X');
+  const entry = Object.entries(PHASE_COLOURS).find(([, c]) => c.toUpperCase() === normalized);
+  return entry ? entry[0] : null;
+}
+
+/**
+ * Parse a Rekordbox collection XML. Only the element/attribute subset needed
+ * for import is understood: COLLECTION/TRACK and PLAYLISTS/NODE/TRACK.
+ */
+export function parseRekordboxXml(xml: string): RekordboxLibrary {
+  if (!xml.includes('<DJ_PLAYLISTS')) {
+    throw new Error('Not a Rekordbox XML file (missing DJ_PLAYLISTS)');
+  }
+
+  const tracks: RekordboxCollectionTrack[] = [];
+  const playlists: RekordboxParsedPlaylist[] = [];
+  const locationToId = new Map<string, string>();
+
+  const stack: string[] = [];            // open element names
+  const folderPath: string[] = [];       // names of open folder NODEs (below ROOT)
+  let currentPlaylist: (RekordboxParsedPlaylist & { keyType: string }) | null = null;
+
+  for (const match of xml.matchAll(/<(\/?)([A-Z_]+)([^>]*?)(\/?)>/g)) {
+    const [, closing, name, rawAttrs, selfClosing] = match;
+
+    if (closing) {
+      stack.pop();
+      if (name === 'NODE') {
+        if (currentPlaylist) {
+          playlists.push({ name: currentPlaylist.name, trackIds: currentPlaylist.trackIds });
+          currentPlaylist = null;
+        } else if (folderPath.length > 0) {
+          folderPath.pop();
+        }
+      }
+      continue;
+    }
+
+    const attrs = parseXmlAttributes(rawAttrs);
+    const parent = stack[stack.length - 1];
+
+    if (name === 'TRACK' && parent === 'COLLECTION') {
+      const location = attrs.Location ?? '';
+      const track: RekordboxCollectionTrack = {
+        trackId: attrs.TrackID ?? '',
+        location,
+        filePath: fromRekordboxLocation(location),
+        title: attrs.Name ?? '',
+        artist: attrs.Artist ?? '',
+        genre: attrs.Genre ?? '',
+        comments: attrs.Comments ?? '',
+        colour: attrs.Colour || null,
+        bpm: attrs.AverageBpm ? parseFloat(attrs.AverageBpm) || undefined : undefined,
+        tonality: attrs.Tonality || undefined,
+      };
+      tracks.push(track);
+      locationToId.set(location, track.trackId);
+    } else if (name === 'TRACK' && currentPlaylist) {
+      // KeyType 0 references TrackID, KeyType 1 references Location
+      const key = attrs.Key ?? '';
+      const id = currentPlaylist.keyType === '1' ? locationToId.get(key) : key;
+      if (id) currentPlaylist.trackIds.push(id);
+    } else if (name === 'NODE') {
+      const nodeName = attrs.Name ?? '';
+      if (attrs.Type === '1') {
+        const fullName = [...folderPath, nodeName].join(' / ');
+        if (selfClosing) {
+          playlists.push({ name: fullName, trackIds: [] });
+        } else {
+          currentPlaylist = { name: fullName, trackIds: [], keyType: attrs.KeyType ?? '0' };
+        }
+      } else if (!selfClosing && nodeName !== 'ROOT') {
+        folderPath.push(nodeName);
+      }
+    }
+
+    if (!selfClosing) stack.push(name);
+  }
+
+  return { tracks, playlists };
+}
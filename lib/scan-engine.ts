@@ -1,4 +1,4 @@
-import { MP3MetadataManager, type MusickTagData } from './mp3-metadata';
+import { MP3MetadataManager, isSupportedAudioFile, type MusickTagData } from './mp3-metadata';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -29,6 +29,28 @@ export interface ScannedSong {
   relatedSongs: { title: string; artist: string; type: string; weight: number }[];
 }
 
+/** What the cache last recorded for a file */
+export interface CachedFileStat {
+  filePath: string;
+  fileSize: number | null;
+  lastModified: string | null;
+}
+
+/** Size and ISO modification time of a file on disk */
+export interface FileStat {
+  filePath: string;
+  size: number;
+  mtime: string;
+}
+
+/** Files on disk sorted against the cache by size and modification time */
+export interface FileChanges {
+  newPaths: string[];
+  changedPaths: string[];
+  unchangedPaths: string[];
+  removedPaths: string[];
+}
+
 export interface ScanDiff {
   newSongs: ScannedSong[];
   changedSongs: { song: ScannedSong; changes: string[] }[];
@@ -39,7 +61,7 @@ export interface ScanDiff {
 
 // --- Functions ---
 
-/** Recursively find all MP3 files in a directory */
+/** Recursively find all supported audio files (MP3, FLAC, M4A) in a directory */
 export async function findMP3Files(basePath: string): Promise<string[]> {
   const results: string[] = [];
 
@@ -54,7 +76,7 @@ export async function findMP3Files(basePath: string): Promise<string[]> {
       const fullPath = path.join(dir, entry.name);
       if (entry.isDirectory()) {
         walk(fullPath);
-      } else if (entry.isFile() && entry.name.toLowerCase().endsWith('.mp3')) {
+      } else if (entry.isFile() && isSupportedAudioFile(entry.name)) {
         results.push(fullPath);
       }
     }
@@ -128,6 +150,88 @@ export async function scanFolder(
   return { songs, errors };
 }
 
+/** True when `filePath` lies somewhere below `folder` */
+export function isInFolder(filePath: string, folder: string): boolean {
+  const rel = path.relative(folder, filePath);
+  return rel !== '' && !rel.startsWith('..') && !path.isAbsolute(rel);
+}
+
+/**
+ * Size and modification time of every audio file under `basePath`. Throws
+ * when the folder itself is missing, so an unmounted drive doesn't read as
+ * every file having been removed.
+ */
+export async function statAudioFiles(basePath: string): Promise<FileStat[]> {
+  if (!fs.statSync(basePath, { throwIfNoEntry: false })?.isDirectory()) {
+    throw new Error(`Music folder not found: ${basePath}`);
+  }
+  const stats: FileStat[] = [];
+  for (const filePath of await findMP3Files(basePath)) {
+    const stat = fs.statSync(filePath, { throwIfNoEntry: false });
+    if (stat) stats.push({ filePath, size: stat.size, mtime: stat.mtime.toISOString() });
+  }
+  return stats;
+}
+
+/** Pure calculation: a file counts as changed when its size or modification time differs from the cache */
+export function detectFileChanges(cached: CachedFileStat[], current: FileStat[]): FileChanges {
+  const cachedByPath = new Map(cached.map((c) => [c.filePath, c]));
+  const changes: FileChanges = { newPaths: [], changedPaths: [], unchangedPaths: [], removedPaths: [] };
+
+  for (const file of current) {
+    const known = cachedByPath.get(file.filePath);
+    if (!known) {
+      changes.newPaths.push(file.filePath);
+    } else if (known.fileSize !== file.size || known.lastModified !== file.mtime) {
+      changes.changedPaths.push(file.filePath);
+    } else {
+      changes.unchangedPaths.push(file.filePath);
+    }
+  }
+
+  const currentPaths = new Set(current.map((f) => f.filePath));
+  changes.removedPaths = cached.filter((c) => !currentPaths.has(c.filePath)).map((c) => c.filePath);
+  return changes;
+}
+
+/**
+ * Scan only what changed since the cache was filled: stat every file, then
+ * re-read tags from the new and changed ones. Much faster than scanFolder on
+ * a large library, but misses edits that kept both size and modification
+ * time, which a deep scan catches.
+ */
+export async function scanFolderIncremental(
+  basePath: string,
+  metadataManager: MP3MetadataManager,
+  cached: CachedFileStat[],
+  onProgress?: (current: number, total: number) => void,
+): Promise<{
+  songs: ScannedSong[];
+  changes: FileChanges;
+  stats: FileStat[];
+  errors: { filePath: string; error: string }[];
+}> {
+  const stats = await statAudioFiles(basePath);
+  const changes = detectFileChanges(cached, stats);
+  const toScan = [...changes.newPaths, ...changes.changedPaths];
+  const songs: ScannedSong[] = [];
+  const errors: { filePath: string; error: string }[] = [];
+
+  for (let i = 0; i < toScan.length; i++) {
+    onProgress?.(i + 1, toScan.length);
+    try {
+      songs.push(await scanSingleFile(toScan[i], metadataManager));
+    } catch (err) {
+      errors.push({
+        filePath: toScan[i],
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  return { songs, changes, stats, errors };
+}
+
 /** Extract tags from MusickTagData into normalized tag array */
 export function extractTags(
   musickTags: {
@@ -205,8 +309,10 @@ export function resolveRelatedSong(
 /** Resolve all related song references, returning connections with resolved file paths */
 export function resolveAllConnections(
   songs: ScannedSong[],
+  knownSongs?: { filePath: string; title?: string; artist?: string }[],
 ): { sourcePath: string; targetPath: string; type: string; weight: number }[] {
-  const known = songs.map((s) => ({
+  // Targets default to the scanned songs; an incremental scan passes the whole library
+  const known = knownSongs ?? songs.map((s) => ({
     filePath: s.filePath,
     title: s.title,
     artist: s.artist,
@@ -322,6 +428,20 @@ export function computeScanDiff(
   return { newSongs, changedSongs, removedPaths, newTags, newConnections };
 }
 
+/**
+ * The ScanDiff of an incremental scan. Only the re-read songs are diffed;
+ * removals come from the stat comparison, so a changed file that failed to
+ * parse isn't reported as removed.
+ */
+export function computeIncrementalScanDiff(
+  changes: FileChanges,
+  scannedSongs: ScannedSong[],
+  existingTags: { file_path: string; tag_label: string; tag_category: string }[],
+): ScanDiff {
+  const diff = computeScanDiff(changes.changedPaths, scannedSongs, existingTags);
+  return { ...diff, removedPaths: [...changes.removedPaths] };
+}
+
 /** Convert standard genre ID3 tag to tag entries, splitting on "/" and "," */
 export function parseGenreTag(genre: string | string[] | undefined): string[] {
   if (!genre) return [];
@@ -0,0 +1,318 @@
+import { promises as fs } from 'fs';
+
+/**
+ * Serato DJ cue points ("Serato Markers2"), which Serato keeps in an ID3 GEOB
+ * frame of MP3 files. Only CUE and LOOP entries are interpreted; COLOR,
+ * BPMLOCK and anything newer are written back as Serato left them, and every
+ * other ID3 frame is copied byte-for-byte.
+ */
+
+export interface SeratoCue {
+  /** Pad index, 0–7 */
+  index: number;
+  /** Seconds */
+  position: number;
+  name: string;
+  /** "RRGGBB" */
+  color: string;
+}
+
+export interface SeratoLoop {
+  /** Saved-loop slot, 0–7 */
+  index: number;
+  /** Seconds */
+  start: number;
+  end: number;
+  name: string;
+  locked: boolean;
+}
+
+export interface SeratoMarkers {
+  cues: SeratoCue[];
+  loops: SeratoLoop[];
+}
+
+interface SeratoEntry {
+  type: string;
+  data: Buffer;
+}
+
+interface Id3Frame {
+  id: string;
+  flags: Buffer;
+  data: Buffer;
+}
+
+interface ParsedId3 {
+  version: number;
+  flags: number;
+  frames: Id3Frame[];
+  /** Bytes available for frames and padding */
+  size: number;
+  /** Where the audio starts */
+  end: number;
+}
+
+const MARKERS2_DESCRIPTION = 'Serato Markers2';
+/** Serato pads the frame body with NULs to at least this size */
+const MARKERS2_MIN_SIZE = 470;
+const BASE64_LINE_LENGTH = 72;
+/** Serato writes this constant in place of a colour on every saved loop */
+const LOOP_COLOR = Buffer.from([0x00, 0x27, 0xaa, 0xe1]);
+const DEFAULT_PADDING = 2048;
+const ID3_FLAG_UNSYNCHRONISATION = 0x80;
+const ID3_FLAG_EXTENDED_HEADER = 0x40;
+const ID3_FLAG_FOOTER = 0x10;
+
+// ─── Markers2 payload (pure) ─────────────────────────────────────────────
+
+function parseEntries(payload: Buffer): SeratoEntry[] {
+  const entries: SeratoEntry[] = [];
+  // Payload starts with its own 0x01 0x01 version
+  let offset = 2;
+  while (offset < payload.length) {
+    const nameEnd = payload.indexOf(0, offset);
+    if (nameEnd <= offset || nameEnd + 5 > payload.length) break;
+    const length = payload.readUInt32BE(nameEnd + 1);
+    const start = nameEnd + 5;
+    if (start + length > payload.length) break;
+    entries.push({ type: payload.toString('latin1', offset, nameEnd), data: payload.subarray(start, start + length) });
+    offset = start + length;
+  }
+  return entries;
+}
+
+/** Pure calculation: the entries of a Markers2 GEOB object — base64 text after a 0x01 0x01 version */
+function decodeMarkers2Object(object: Buffer): SeratoEntry[] {
+  if (object.length < 2 || object[0] !== 0x01 || object[1] !== 0x01) {
+    throw new Error('Unsupported Serato Markers2 version');
+  }
+  const textEnd = object.indexOf(0, 2);
+  // Serato wraps the base64 at 72 characters and leaves off the padding; Node accepts both
+  const text = object.toString('latin1', 2, textEnd < 0 ? object.length : textEnd).replace(/\s/g, '');
+  return parseEntries(Buffer.from(text, 'base64'));
+}
+
+function encodeMarkers2Object(entries: SeratoEntry[]): Buffer {
+  const parts: Buffer[] = [Buffer.from([0x01, 0x01])];
+  for (const entry of entries) {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(entry.data.length);
+    parts.push(Buffer.from(`${entry.type}\0`, 'latin1'), length, entry.data);
+  }
+  parts.push(Buffer.alloc(1));
+
+  const base64 = Buffer.concat(parts).toString('base64').replace(/=+$/, '');
+  const lines = base64.match(new RegExp(`.{1,${BASE64_LINE_LENGTH}}`, 'g')) ?? [];
+  const body = Buffer.concat([Buffer.from([0x01, 0x01]), Buffer.from(lines.join('\n'), 'latin1'), Buffer.alloc(1)]);
+  return body.length < MARKERS2_MIN_SIZE ? Buffer.concat([body, Buffer.alloc(MARKERS2_MIN_SIZE - body.length)]) : body;
+}
+
+function nulTerminated(data: Buffer, start: number): string {
+  const end = data.indexOf(0, start);
+  return data.toString('utf8', start, end < 0 ? data.length : end);
+}
+
+function decodeCue(data: Buffer): SeratoCue {
+  return {
+    index: data[1],
+    position: data.readUInt32BE(2) / 1000,
+    color: data.toString('hex', 7, 10).toUpperCase(),
+    name: nulTerminated(data, 12),
+  };
+}
+
+function encodeCue(cue: SeratoCue): Buffer {
+  const name = Buffer.from(cue.name, 'utf8');
+  const data = Buffer.alloc(13 + name.length);
+  data[1] = cue.index;
+  data.writeUInt32BE(Math.round(cue.position * 1000), 2);
+  Buffer.from(cue.color, 'hex').copy(data, 7, 0, 3);
+  name.copy(data, 12);
+  return data;
+}
+
+function decodeLoop(data: Buffer): SeratoLoop {
+  return {
+    index: data[1],
+    start: data.readUInt32BE(2) / 1000,
+    end: data.readUInt32BE(6) / 1000,
+    locked: data[18] !== 0,
+    name: nulTerminated(data, 19),
+  };
+}
+
+function encodeLoop(loop: SeratoLoop): Buffer {
+  const name = Buffer.from(loop.name, 'utf8');
+  const data = Buffer.alloc(20 + name.length);
+  data[1] = loop.index;
+  data.writeUInt32BE(Math.round(loop.start * 1000), 2);
+  data.writeUInt32BE(Math.round(loop.end * 1000), 6);
+  data.fill(0xff, 10, 14);
+  LOOP_COLOR.copy(data, 14);
+  data[18] = loop.locked ? 1 : 0;
+  name.copy(data, 19);
+  return data;
+}
+
+/** Pure calculation: cues and saved loops from a Markers2 GEOB object */
+export function parseSeratoMarkers(object: Buffer): SeratoMarkers {
+  const markers: SeratoMarkers = { cues: [], loops: [] };
+  for (const entry of decodeMarkers2Object(object)) {
+    if (entry.type === 'CUE' && entry.data.length >= 13) markers.cues.push(decodeCue(entry.data));
+    if (entry.type === 'LOOP' && entry.data.length >= 20) markers.loops.push(decodeLoop(entry.data));
+  }
+  return markers;
+}
+
+/**
+ * Pure calculation: a Markers2 GEOB object holding `markers`, keeping the
+ * entries of `previous` that aren't cues or loops in their original order.
+ */
+export function buildSeratoMarkers(markers: SeratoMarkers, previous: Buffer | null): Buffer {
+  const kept = previous ? decodeMarkers2Object(previous).filter(e => e.type !== 'CUE' && e.type !== 'LOOP') : [];
+  return encodeMarkers2Object([
+    ...kept,
+    ...markers.cues.map(cue => ({ type: 'CUE', data: encodeCue(cue) })),
+    ...markers.loops.map(loop => ({ type: 'LOOP', data: encodeLoop(loop) })),
+  ]);
+}
+
+// ─── ID3 frames (pure) ───────────────────────────────────────────────────
+
+function readSyncsafe(buf: Buffer, offset: number): number {
+  return (buf[offset] << 21) | (buf[offset + 1] << 14) | (buf[offset + 2] << 7) | buf[offset + 3];
+}
+
+function syncsafe(n: number): Buffer {
+  return Buffer.from([(n >> 21) & 0x7f, (n >> 14) & 0x7f, (n >> 7) & 0x7f, n & 0x7f]);
+}
+
+function parseId3(buf: Buffer): ParsedId3 | null {
+  if (buf.length < 10 || buf.toString('latin1', 0, 3) !== 'ID3') return null;
+  const version = buf[3];
+  const flags = buf[5];
+  if (version !== 3 && version !== 4) throw new Error(`ID3v2.${version} tags aren't supported`);
+  if (flags & (ID3_FLAG_UNSYNCHRONISATION | ID3_FLAG_EXTENDED_HEADER)) {
+    throw new Error('Unsynchronised or extended ID3 headers aren\'t supported');
+  }
+
+  const size = readSyncsafe(buf, 6);
+  const framesEnd = Math.min(buf.length, 10 + size);
+  const frames: Id3Frame[] = [];
+  let offset = 10;
+  while (offset + 10 <= framesEnd && buf[offset] !== 0) {
+    const frameSize = version === 4 ? readSyncsafe(buf, offset + 4) : buf.readUInt32BE(offset + 4);
+    const dataStart = offset + 10;
+    if (dataStart + frameSize > framesEnd) break;
+    frames.push({
+      id: buf.toString('latin1', offset, offset + 4),
+      flags: buf.subarray(offset + 8, offset + 10),
+      data: buf.subarray(dataStart, dataStart + frameSize),
+    });
+    offset = dataStart + frameSize;
+  }
+  return { version, flags, frames, size, end: 10 + size + (flags & ID3_FLAG_FOOTER ? 10 : 0) };
+}
+
+/** Pure calculation: end of a text field in `encoding`, and where the next field starts */
+function terminatedField(data: Buffer, start: number, encoding: number): { end: number; next: number } {
+  if (encoding === 1 || encoding === 2) {
+    for (let i = start; i + 1 < data.length; i += 2) {
+      if (data[i] === 0 && data[i + 1] === 0) return { end: i, next: i + 2 };
+    }
+    return { end: data.length, next: data.length };
+  }
+  const end = data.indexOf(0, start);
+  return end < 0 ? { end: data.length, next: data.length } : { end, next: end + 1 };
+}
+
+function decodeText(data: Buffer, encoding: number): string {
+  if (encoding === 0) return data.toString('latin1');
+  if (encoding === 3) return data.toString('utf8');
+  const bigEndian = encoding === 2 || (data[0] === 0xfe && data[1] === 0xff);
+  const body = encoding === 1 && data.length >= 2 && (data[0] === 0xff || data[0] === 0xfe) ? data.subarray(2) : data;
+  return (bigEndian ? Buffer.from(body).swap16() : body).toString('utf16le');
+}
+
+/** Pure calculation: the encapsulated object of a GEOB frame, or null when its description differs */
+function geobObject(data: Buffer, description: string): Buffer | null {
+  const encoding = data[0];
+  const mime = terminatedField(data, 1, 0);
+  const filename = terminatedField(data, mime.next, encoding);
+  const desc = terminatedField(data, filename.next, encoding);
+  return decodeText(data.subarray(filename.next, desc.end), encoding) === description ? data.subarray(desc.next) : null;
+}
+
+function encodeGeob(description: string, object: Buffer): Buffer {
+  // Latin-1 text, as Serato writes it
+  return Buffer.concat([Buffer.from([0x00]), Buffer.from(`application/octet-stream\0\0${description}\0`, 'latin1'), object]);
+}
+
+function encodeFrame(frame: Id3Frame, version: number): Buffer {
+  const header = Buffer.alloc(10);
+  header.write(frame.id, 0, 'latin1');
+  if (version === 4) syncsafe(frame.data.length).copy(header, 4);
+  else header.writeUInt32BE(frame.data.length, 4);
+  frame.flags.copy(header, 8);
+  return Buffer.concat([header, frame.data]);
+}
+
+function findMarkers2(frames: Id3Frame[]): { index: number; object: Buffer } | null {
+  for (let i = 0; i < frames.length; i++) {
+    if (frames[i].id !== 'GEOB') continue;
+    const object = geobObject(frames[i].data, MARKERS2_DESCRIPTION);
+    if (object) return { index: i, object };
+  }
+  return null;
+}
+
+// ─── File I/O ────────────────────────────────────────────────────────────
+
+/** Serato cues and loops of an MP3 file, or null when Serato hasn't stored any */
+export async function readSeratoMarkers(filePath: string): Promise<SeratoMarkers | null> {
+  const tag = parseId3(await fs.readFile(filePath));
+  const found = tag ? findMarkers2(tag.frames) : null;
+  return found ? parseSeratoMarkers(found.object) : null;
+}
+
+/**
+ * Replace the Serato cues and loops of an MP3 file. The tag keeps its size
+ * when the new frame fits in the existing padding; otherwise the file is
+ * rewritten through a temp path so a failed write never truncates audio.
+ */
+export async function writeSeratoMarkers(filePath: string, markers: SeratoMarkers): Promise<void> {
+  const buf = await fs.readFile(filePath);
+  const tag = parseId3(buf);
+  const version = tag?.version ?? 3;
+  const frames = tag?.frames ?? [];
+  const found = findMarkers2(frames);
+
+  const frame: Id3Frame = {
+    id: 'GEOB',
+    flags: Buffer.alloc(2),
+    data: encodeGeob(MARKERS2_DESCRIPTION, buildSeratoMarkers(markers, found?.object ?? null)),
+  };
+  const updated = found
+    ? frames.map((f, i) => (i === found.index ? frame : f))
+    : [...frames, frame];
+  const encoded = Buffer.concat(updated.map(f => encodeFrame(f, version)));
+
+  const size = tag && encoded.length <= tag.size ? tag.size : encoded.length + DEFAULT_PADDING;
+  const header = Buffer.alloc(10);
+  header.write('ID3', 0, 'latin1');
+  header[3] = version;
+  // The footer would repeat the old size, so it's dropped
+  header[5] = (tag?.flags ?? 0) & ~ID3_FLAG_FOOTER;
+  syncsafe(size).copy(header, 6);
+
+  const out = Buffer.concat([header, encoded, Buffer.alloc(size - encoded.length), buf.subarray(tag?.end ?? 0)]);
+  const tmpPath = `${filePath}.musicky-tmp`;
+  try {
+    await fs.writeFile(tmpPath, out);
+    await fs.rename(tmpPath, filePath);
+  } catch (error) {
+    await fs.rm(tmpPath, { force: true });
+    throw error;
+  }
+}
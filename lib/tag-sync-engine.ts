@@ -1,6 +1,10 @@
-import { MP3MetadataManager, type MP3Metadata, type MusickTagData, type MusickRelatedSong, MUSICK_TAG_PREFIX, DEFAULT_VDJ_OPTIONS } from './mp3-metadata';
+import { MP3MetadataManager, type MP3Metadata, type MusickTagData, type MusickRelatedSong, type VDJTagData, MUSICK_TAG_PREFIX, DEFAULT_VDJ_OPTIONS } from './mp3-metadata';
+import type { VdjFieldUpdates } from './vdj-database';
+import { ANALYSIS_TAG_FIELDS, type AnalysisTagField } from './types';
+import { standardToCamelot } from './camelot';
 import { getNodes, getEdges, type MoodboardNodeRow, type MoodboardEdgeRow } from '../database/sqlite/queries/moodboard';
 import { db } from '../database/sqlite/db';
+import { getMP3CacheByPath } from '../database/sqlite/queries/dj-sets';
 
 /**
  * Represents a single field-level diff between dashboard state and file ID3 tags.
@@ -123,7 +127,7 @@ export function getMoodboardRelatedSongs(songPath: string): MusickRelatedSong[]
       ).get(edge.song_path) as { title: string | null; artist: string | null } | undefined;
 
       related.push({
-        title: cached?.title || edge.song_path.split('/').pop()?.replace(/\.mp3$/i, '') || 'Unknown',
+        title: cached?.title || edge.song_path.split('/').pop()?.replace(/\.(mp3|flac|m4a)$/i, '') || 'Unknown',
         artist: cached?.artist || 'Unknown',
         type: edge.edge_type,
         weight: edge.weight,
@@ -182,6 +186,62 @@ export function computeTagDiff(
   return diffs;
 }
 
+/**
+ * Pure calculation: fold pending export edits (µ: list fields and related songs)
+ * into the tags currently in a file, ready for writeTags.
+ */
+export function mergeMusickTagEdits(
+  current: Partial<MusickTagData>,
+  edits: { fieldName: string; newValue: string }[],
+): Partial<MusickTagData> {
+  const merged: Partial<MusickTagData> = { ...current };
+  for (const edit of edits) {
+    const field = edit.fieldName.startsWith(MUSICK_TAG_PREFIX)
+      ? edit.fieldName.slice(MUSICK_TAG_PREFIX.length)
+      : edit.fieldName;
+
+    switch (field) {
+      case 'genres':
+      case 'phases':
+      case 'moods':
+      case 'topics':
+      case 'tags':
+        merged[field] = edit.newValue.split(',').map(s => s.trim()).filter(Boolean);
+        break;
+      case 'related':
+        try { merged.related = JSON.parse(edit.newValue); } catch { /* skip */ }
+        break;
+      // 'genre' (standard field) is handled automatically by writeTags when genres is set
+    }
+  }
+  return merged;
+}
+
+/** True for the pending-edit fields that hold audio-analysis results rather than µ: tags */
+export function isAnalysisField(fieldName: string): fieldName is AnalysisTagField {
+  return (ANALYSIS_TAG_FIELDS as readonly string[]).includes(fieldName);
+}
+
+/** Write one audio-analysis result (see ANALYSIS_TAG_FIELDS) into its standard frame */
+export async function writeAnalysisField(filePath: string, field: AnalysisTagField, value: string): Promise<void> {
+  switch (field) {
+    case 'TBPM': {
+      const bpm = Number(value);
+      if (!Number.isFinite(bpm) || bpm <= 0) throw new Error(`Invalid BPM: ${value}`);
+      await mp3Manager.writeBpm(filePath, bpm);
+      break;
+    }
+    case 'TKEY':
+      if (!standardToCamelot(value)) throw new Error(`Invalid key: ${value}`);
+      await mp3Manager.writeInitialKey(filePath, value);
+      break;
+    case 'REPLAYGAIN_TRACK_GAIN':
+      if (!Number.isFinite(parseFloat(value))) throw new Error(`Invalid ReplayGain: ${value}`);
+      await mp3Manager.writeReplayGain(filePath, value);
+      break;
+  }
+}
+
 /**
  * Generate export diffs for a single file: what needs to be written to the MP3.
  */
@@ -408,6 +468,23 @@ function buildVDJGrouping(data: {
   return groupParts.join(' // ');
 }
 
+/**
+ * Values Musicky writes into VirtualDJ's database.xml for a song.
+ * Genre, Comment and Grouping match the ID3 frames of the VDJ export;
+ * User1/User2 (database-only fields) carry phases and moods.
+ */
+export function buildVDJDatabaseFields(data: VDJTagData): VdjFieldUpdates {
+  const fields: VdjFieldUpdates = {};
+  if (data.genres?.length) fields.Genre = data.genres.join('; ');
+  const comment = buildVDJComment(data);
+  if (comment) fields.Comment = comment;
+  if (data.phases?.length) fields.User1 = data.phases.join(', ');
+  if (data.moods?.length) fields.User2 = data.moods.join(', ');
+  const grouping = buildVDJGrouping(data);
+  if (grouping) fields.Grouping = grouping;
+  return fields;
+}
+
 /**
  * Generate VDJ-specific export diffs for a single file.
  * Compares what writeVDJTags() would write (TCON, COMM, TIT1)
@@ -421,13 +498,16 @@ export async function generateVDJExportDiff(filePath: string): Promise<TagDiff[]
 
   const opts = DEFAULT_VDJ_OPTIONS;
 
+  // The cache also holds estimated energy and manual overrides, not just the MIK tag
+  const cachedEnergy = getMP3CacheByPath(filePath)?.energy_level;
+
   // Prepare the data that writeVDJTags would receive
   const vdjData = {
     genres: moodboardTags.genres,
     phases: moodboardTags.phases,
     moods: moodboardTags.moods,
     tags: moodboardTags.custom,
-    energyLevel: metadata.energyLevel,
+    energyLevel: cachedEnergy ?? metadata.energyLevel,
     camelotKey: metadata.camelotKey,
     relatedSongs: relatedSongs.map(r => ({ artist: r.artist, title: r.title })),
   };
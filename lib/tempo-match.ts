@@ -0,0 +1,65 @@
+/**
+ * Tempo matching for previews: the playback rate that brings a track to the
+ * previous one's BPM, and what that rate does to its key when pitch isn't
+ * preserved — which is how a turntable or a CDJ with key lock off sounds.
+ */
+import { shiftCamelotKey } from './camelot';
+
+export interface TempoKeyInfo {
+  bpm: number | null;
+  /** Camelot code, e.g. "8A" */
+  camelotKey: string | null;
+}
+
+export interface TempoMatch {
+  /** playbackRate to apply to the track */
+  rate: number;
+  /** Rate change in whole percent, as a pitch fader shows it */
+  percent: number;
+  /** Pitch change in semitones, rounded; 0 when pitch is preserved */
+  semitones: number;
+  key: string | null;
+  /** The key the track is heard in after the pitch change */
+  effectiveKey: string | null;
+}
+
+/** Beyond this the stretch is audible enough that nobody would mix it that way */
+export const MAX_TEMPO_CHANGE = 0.16;
+
+/**
+ * Pure calculation: rate that plays a `trackBpm` song at `targetBpm`. Tempos
+ * half or double the target count as matching, so a 174 BPM tune can follow
+ * one at 87 without being slowed to half speed.
+ */
+export function tempoMatchRate(targetBpm: number, trackBpm: number): number {
+  const candidates = [0.5, 1, 2].map(factor => (targetBpm * factor) / trackBpm);
+  return candidates.reduce((best, rate) => (Math.abs(Math.log2(rate)) < Math.abs(Math.log2(best)) ? rate : best));
+}
+
+/**
+ * Pure calculation: match `track` to `reference`'s tempo. Null when either
+ * BPM is unknown or the change would exceed MAX_TEMPO_CHANGE.
+ */
+export function matchTempo(reference: TempoKeyInfo, track: TempoKeyInfo, preservePitch: boolean): TempoMatch | null {
+  if (!reference.bpm || !track.bpm) return null;
+  const rate = tempoMatchRate(reference.bpm, track.bpm);
+  if (Math.abs(rate - 1) > MAX_TEMPO_CHANGE) return null;
+
+  const semitones = preservePitch ? 0 : Math.round(12 * Math.log2(rate));
+  const key = track.camelotKey;
+  return {
+    rate,
+    percent: Math.round((rate - 1) * 100),
+    semitones,
+    key,
+    effectiveKey: key ? shiftCamelotKey(key, semitones) : null,
+  };
+}
+
+/** e.g. "+3% → 8A becomes 3A", or "-2% · 8A kept" when the key doesn't move */
+export function formatTempoMatch(match: TempoMatch): string {
+  const percent = `${match.percent > 0 ? '+' : ''}${match.percent}%`;
+  if (!match.key || !match.effectiveKey) return percent;
+  if (match.effectiveKey === match.key) return `${percent} · ${match.key} kept`;
+  return `${percent} → ${match.key} becomes ${match.effectiveKey}`;
+}
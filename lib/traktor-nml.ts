@@ -0,0 +1,289 @@
+/**
+ * Traktor NML collection export and import.
+ * Pure calculation — no I/O. Callers gather track data and read/write the NML string.
+ *
+ * Musicky phases and moods travel as hashtags in one INFO field (COMMENT2 or LABEL,
+ * chosen in settings) so they survive Traktor without clobbering the user's comments.
+ */
+import { camelotToStandard, standardToCamelot } from './camelot';
+import { escapeXml, parseXmlAttributes, xmlAttributes } from './xml-utils';
+
+/** INFO attribute that carries Musicky hashtags */
+export type TraktorTagField = 'COMMENT2' | 'LABEL';
+
+export const DEFAULT_TRAKTOR_TAG_FIELD: TraktorTagField = 'COMMENT2';
+
+export interface TraktorTrack {
+  filePath: string;
+  title: string;
+  artist: string;
+  album: string;
+  genre: string;
+  duration: number;     // seconds
+  bpm?: number;
+  camelotKey?: string;  // e.g. "8A"
+  hashtags: string;     // phase/mood hashtag string, e.g. "#peak #dark"
+}
+
+export interface TraktorPlaylist {
+  name: string;
+  tracks: TraktorTrack[];
+}
+
+// ─── Keys ────────────────────────────────────────────────────────────────
+
+/** Traktor MUSICAL_KEY values: 0–11 major from C, 12–23 minor from Cm */
+const NOTE_INDEX: Record<string, number> = {
+  'C': 0, 'B#': 0,
+  'C#': 1, 'Db': 1,
+  'D': 2,
+  'D#': 3, 'Eb': 3,
+  'E': 4, 'Fb': 4,
+  'F': 5, 'E#': 5,
+  'F#': 6, 'Gb': 6,
+  'G': 7,
+  'G#': 8, 'Ab': 8,
+  'A': 9,
+  'A#': 10, 'Bb': 10,
+  'B': 11, 'Cb': 11,
+};
+
+const INDEX_NOTE = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+/** Pure calculation: Camelot code → Traktor MUSICAL_KEY value, e.g. "8A" → 21 (Am) */
+export function camelotToTraktorKey(camelotKey: string): number | null {
+  const standard = camelotToStandard(camelotKey);
+  if (!standard) return null;
+  const minor = standard.endsWith('m');
+  const index = NOTE_INDEX[minor ? standard.slice(0, -1) : standard];
+  if (index === undefined) return null;
+  return index + (minor ? 12 : 0);
+}
+
+/** Pure calculation: Traktor MUSICAL_KEY value → Camelot code, e.g. 21 → "8A" */
+export function traktorKeyToCamelot(value: number): string | null {
+  if (!Number.isInteger(value) || value < 0 || value > 23) return null;
+  const minor = value >= 12;
+  return standardToCamelot(`${INDEX_NOTE[value % 12]}${minor ? 'm' : ''}`);
+}
+
+// ─── Locations ───────────────────────────────────────────────────────────
+
+export interface TraktorLocation {
+  volume: string;
+  dir: string;    // "/:Users/:me/:Music/:"
+  file: string;
+}
+
+/** Pure calculation: file path → Traktor LOCATION (directories separated by "/:") */
+export function toTraktorLocation(filePath: string): TraktorLocation {
+  const normalized = filePath.replace(/\\/g, '/');
+  const drive = /^([a-zA-Z]:)\//.exec(normalized);
+  const rest = drive ? normalized.slice(2) : normalized;
+  const parts = rest.split('/').filter(Boolean);
+  const file = parts.pop() ?? '';
+  return {
+    volume: drive ? drive[1] : '',
+    dir: `/:${parts.map(p => `${p}/:`).join('')}`,
+    file,
+  };
+}
+
+/**
+ * Pure calculation: Traktor LOCATION → file path.
+ * Windows drive volumes are kept; macOS volume names are dropped because
+ * Traktor names the boot volume even though it is mounted at "/".
+ */
+export function fromTraktorLocation(location: TraktorLocation): string {
+  const dir = location.dir.replace(/\/:/g, '/');
+  const path = `${dir.endsWith('/') ? dir : `${dir}/`}${location.file}`;
+  return /^[a-zA-Z]:$/.test(location.volume) ? `${location.volume}${path}` : path;
+}
+
+/** Pure calculation: the PRIMARYKEY a playlist entry uses to reference a collection entry */
+export function traktorPrimaryKey(location: TraktorLocation): string {
+  return `${location.volume}${location.dir}${location.file}`;
+}
+
+// ─── NML building ────────────────────────────────────────────────────────
+
+function entryElement(track: TraktorTrack, tagField: TraktorTagField): string {
+  const location = toTraktorLocation(track.filePath);
+  const key = track.camelotKey ? camelotToTraktorKey(track.camelotKey) : null;
+  const lines = [
+    `    <ENTRY ${xmlAttributes([['TITLE', track.title], ['ARTIST', track.artist]])}>`,
+    `      <LOCATION ${xmlAttributes([['DIR', location.dir], ['FILE', location.file], ['VOLUME', location.volume]])}></LOCATION>`,
+    `      <ALBUM ${xmlAttributes([['TITLE', track.album]])}></ALBUM>`,
+    `      <INFO ${xmlAttributes([
+      ['GENRE', track.genre],
+      [tagField, track.hashtags],
+      ['PLAYTIME', String(Math.round(track.duration))],
+    ])}></INFO>`,
+  ];
+  if (track.bpm) lines.push(`      <TEMPO BPM="${track.bpm.toFixed(6)}" BPM_QUALITY="100.000000"></TEMPO>`);
+  if (key !== null) lines.push(`      <MUSICAL_KEY VALUE="${key}"></MUSICAL_KEY>`);
+  lines.push('    </ENTRY>');
+  return lines.join('\n');
+}
+
+/**
+ * Build an NML document with one COLLECTION entry per distinct file
+ * and one PLAYLIST node per playlist under $ROOT.
+ */
+export function buildTraktorNml(playlists: TraktorPlaylist[], tagField: TraktorTagField = DEFAULT_TRAKTOR_TAG_FIELD): string {
+  const seen = new Set<string>();
+  const collection: string[] = [];
+  for (const playlist of playlists) {
+    for (const track of playlist.tracks) {
+      if (seen.has(track.filePath)) continue;
+      seen.add(track.filePath);
+      collection.push(entryElement(track, tagField));
+    }
+  }
+
+  const nodes = playlists.map(playlist => [
+    `        <NODE TYPE="PLAYLIST" NAME="${escapeXml(playlist.name)}">`,
+    `          <PLAYLIST ENTRIES="${playlist.tracks.length}" TYPE="LIST">`,
+    ...playlist.tracks.map(t =>
+      `            <ENTRY><PRIMARYKEY TYPE="TRACK" KEY="${escapeXml(traktorPrimaryKey(toTraktorLocation(t.filePath)))}"></PRIMARYKEY></ENTRY>`),
+    '          </PLAYLIST>',
+    '        </NODE>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no" ?>',
+    '<NML VERSION="19">',
+    '  <HEAD COMPANY="www.native-instruments.com" PROGRAM="Traktor"></HEAD>',
+    '  <MUSICFOLDERS></MUSICFOLDERS>',
+    `  <COLLECTION ENTRIES="${collection.length}">`,
+    ...collection,
+    '  </COLLECTION>',
+    '  <SETS ENTRIES="0"></SETS>',
+    '  <PLAYLISTS>',
+    '    <NODE TYPE="FOLDER" NAME="$ROOT">',
+    `      <SUBNODES COUNT="${playlists.length}">`,
+    ...nodes,
+    '      </SUBNODES>',
+    '    </NODE>',
+    '  </PLAYLISTS>',
+    '</NML>',
+    '',
+  ].join('\n');
+}
+
+// ─── Parsing ─────────────────────────────────────────────────────────────
+
+export interface TraktorCollectionTrack {
+  primaryKey: string;
+  filePath: string;
+  title: string;
+  artist: string;
+  genre: string;
+  comment: string;
+  comment2: string;
+  label: string;
+  bpm?: number;
+  camelotKey?: string;
+}
+
+export interface TraktorParsedPlaylist {
+  name: string;          // folder path joined with " / "
+  trackKeys: string[];   // primary keys of collection entries
+}
+
+export interface TraktorLibrary {
+  tracks: TraktorCollectionTrack[];
+  playlists: TraktorParsedPlaylist[];
+}
+
+/** Pure calculation: the INFO text that carries Musicky hashtags for the chosen field */
+export function traktorTagText(track: TraktorCollectionTrack, tagField: TraktorTagField): string {
+  return tagField === 'LABEL' ? track.label : track.comment2;
+}
+
+/**
+ * Parse a Traktor NML collection. Only the subset needed for import is understood:
+ * COLLECTION/ENTRY (LOCATION, INFO, TEMPO, MUSICAL_KEY) and PLAYLISTS nodes.
+ */
+export function parseTraktorNml(xml: string): TraktorLibrary {
+  if (!xml.includes('<NML')) {
+    throw new Error('Not a Traktor NML file (missing NML root)');
+  }
+
+  const tracks: TraktorCollectionTrack[] = [];
+  const playlists: TraktorParsedPlaylist[] = [];
+
+  const stack: string[] = [];
+  const folderPath: string[] = [];       // names of open FOLDER nodes (below $ROOT)
+  const nodeTypes: string[] = [];        // TYPE of each open NODE ('ROOT' for $ROOT)
+  let currentTrack: TraktorCollectionTrack | null = null;
+  let currentPlaylist: TraktorParsedPlaylist | null = null;
+
+  for (const match of xml.matchAll(/<(\/?)([A-Z_0-9]+)([^>]*?)(\/?)>/g)) {
+    const [, closing, name, rawAttrs, selfClosing] = match;
+
+    if (closing) {
+      stack.pop();
+      if (name === 'ENTRY' && currentTrack) {
+        tracks.push(currentTrack);
+        currentTrack = null;
+      } else if (name === 'NODE') {
+        const type = nodeTypes.pop();
+        if (type === 'PLAYLIST' && currentPlaylist) {
+          playlists.push(currentPlaylist);
+          currentPlaylist = null;
+        } else if (type === 'FOLDER' && folderPath.length > 0) {
+          folderPath.pop();
+        }
+      }
+      continue;
+    }
+
+    const attrs = parseXmlAttributes(rawAttrs);
+    const parent = stack[stack.length - 1];
+
+    if (name === 'ENTRY' && parent === 'COLLECTION') {
+      currentTrack = {
+        primaryKey: '',
+        filePath: '',
+        title: attrs.TITLE ?? '',
+        artist: attrs.ARTIST ?? '',
+        genre: '',
+        comment: '',
+        comment2: '',
+        label: '',
+      };
+    } else if (currentTrack && name === 'LOCATION') {
+      const location = { volume: attrs.VOLUME ?? '', dir: attrs.DIR ?? '/:', file: attrs.FILE ?? '' };
+      currentTrack.primaryKey = traktorPrimaryKey(location);
+      currentTrack.filePath = fromTraktorLocation(location);
+    } else if (currentTrack && name === 'INFO') {
+      currentTrack.genre = attrs.GENRE ?? '';
+      currentTrack.comment = attrs.COMMENT ?? '';
+      currentTrack.comment2 = attrs.COMMENT2 ?? '';
+      currentTrack.label = attrs.LABEL ?? '';
+    } else if (currentTrack && name === 'TEMPO') {
+      currentTrack.bpm = parseFloat(attrs.BPM ?? '') || undefined;
+    } else if (currentTrack && name === 'MUSICAL_KEY') {
+      currentTrack.camelotKey = traktorKeyToCamelot(parseInt(attrs.VALUE ?? '', 10)) ?? undefined;
+    } else if (name === 'NODE') {
+      const type = attrs.TYPE ?? '';
+      const nodeName = attrs.NAME ?? '';
+      const isRoot = type === 'FOLDER' && nodeName === '$ROOT';
+      if (!selfClosing) nodeTypes.push(isRoot ? 'ROOT' : type);
+      if (type === 'PLAYLIST') {
+        const playlist = { name: [...folderPath, nodeName].join(' / '), trackKeys: [] };
+        if (selfClosing) playlists.push(playlist);
+        else currentPlaylist = playlist;
+      } else if (type === 'FOLDER' && !selfClosing && !isRoot) {
+        folderPath.push(nodeName);
+      }
+    } else if (name === 'PRIMARYKEY' && currentPlaylist) {
+      if (attrs.KEY) currentPlaylist.trackKeys.push(attrs.KEY);
+    }
+
+    if (!selfClosing) stack.push(name);
+  }
+
+  return { tracks, playlists };
+}
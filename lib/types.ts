@@ -8,6 +8,30 @@
 /** Tag categories */
 export type TagCategory = 'genre' | 'phase' | 'mood' | 'topic' | 'custom';
 
+/** Where a cached BPM or key came from: the file's tag (TBPM/TKEY) or audio analysis */
+export type AnalysisSource = 'tag' | 'detected';
+
+/** Energy can also be set by hand; a manual value wins over tag and estimate */
+export type EnergySource = AnalysisSource | 'manual';
+
+/** Pending-edit field names for values written back from audio analysis (ID3 frame IDs or TXXX descriptions) */
+export const ANALYSIS_TAG_FIELDS = ['TBPM', 'TKEY', 'REPLAYGAIN_TRACK_GAIN'] as const;
+export type AnalysisTagField = typeof ANALYSIS_TAG_FIELDS[number];
+
+/** Overall result of the file quality audit: 'bad' means don't play it out */
+export type QualityVerdict = 'ok' | 'warning' | 'bad';
+
+/** What the quality audit can flag */
+export const QUALITY_ISSUE_KINDS = ['transcode', 'low_bitrate', 'clipping', 'mono', 'sample_rate', 'unreadable'] as const;
+export type QualityIssueKind = typeof QUALITY_ISSUE_KINDS[number];
+
+export interface QualityIssue {
+  kind: QualityIssueKind;
+  severity: Exclude<QualityVerdict, 'ok'>;
+  /** Short explanation for tooltips, e.g. "Cuts off at 16.0 kHz — a 128 kbps source" */
+  message: string;
+}
+
 /** Song info for display */
 export interface SongInfo {
   filePath: string;
@@ -20,6 +44,10 @@ export interface SongInfo {
   bpm?: number;
   energyLevel?: number;
   label?: string;
+  playCount?: number;
+  skipCount?: number;
+  /** SQLite UTC timestamp of the last counted play */
+  lastPlayed?: string | null;
 }
 
 /** Tag info for display */
@@ -58,6 +86,15 @@ export interface MP3CacheItem {
   bpm?: number;
   energy_level?: number;
   label?: string;
+  bpm_source?: AnalysisSource;
+  bpm_confidence?: number;
+  key_source?: AnalysisSource;
+  key_confidence?: number;
+  energy_source?: EnergySource;
+  /** Counted plays and skips from play_history */
+  play_count?: number;
+  skip_count?: number;
+  last_played?: string | null;
 }
 
 /** MP3 search result — subset of cache item for search display */
@@ -73,6 +110,15 @@ export interface MP3SearchResult {
   bpm?: number;
   energy_level?: number;
   label?: string;
+  bpm_source?: AnalysisSource;
+  bpm_confidence?: number;
+  key_source?: AnalysisSource;
+  key_confidence?: number;
+  energy_source?: EnergySource;
+  /** Counted plays and skips from play_history */
+  play_count?: number;
+  skip_count?: number;
+  last_played?: string | null;
 }
 
 /** A pending tag edit awaiting review */
@@ -0,0 +1,316 @@
+import { promises as fs, createReadStream } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+/**
+ * "Prepare USB": copy a playlist's audio files into a destination folder.
+ * Planning is pure; the copy runner does the I/O and reports progress
+ * through a callback so the caller decides how progress is surfaced.
+ */
+
+export type UsbLayout = 'flat' | 'phase' | 'genre';
+
+/** How an existing destination file is recognised as identical to its source */
+export type UsbCompareMode = 'size_mtime' | 'hash';
+
+export interface UsbExportTrack {
+  filePath: string;
+  phase: string | null;
+  genre: string | null;
+}
+
+export interface UsbCopyPlan {
+  sourcePath: string;
+  targetPath: string;
+  /**
+   * Marks a copy that differs from its source on purpose, e.g. a signature of
+   * the pending tags written into it. A change re-copies the file.
+   */
+  variant?: string;
+}
+
+export interface UsbExportProgress {
+  total: number;
+  done: number;
+  copied: number;
+  skipped: number;
+  failed: { filePath: string; error: string }[];
+  currentFile: string | null;
+  bytesCopied: number;
+}
+
+// ─── Planning (pure) ─────────────────────────────────────────────────────
+
+/** Characters FAT32/exFAT sticks reject in file and folder names */
+function safeSegment(name: string, fallback: string): string {
+  const printable = [...name].filter(c => c.charCodeAt(0) >= 0x20).join('');
+  const cleaned = printable.replace(/[<>:"/\\|?*]+/g, ' ').replace(/\s+/g, ' ').trim().replace(/[. ]+$/, '');
+  return cleaned || fallback;
+}
+
+function layoutFolder(track: UsbExportTrack, layout: UsbLayout): string | null {
+  if (layout === 'phase') return safeSegment(track.phase ?? '', 'Untagged');
+  if (layout === 'genre') return safeSegment(track.genre ?? '', 'Unknown Genre');
+  return null;
+}
+
+/**
+ * Pure calculation: destination path for every distinct source file.
+ * Name clashes within a folder get " (2)", " (3)"… so no copy overwrites another.
+ */
+export function planUsbCopies(tracks: UsbExportTrack[], destination: string, layout: UsbLayout): UsbCopyPlan[] {
+  const plans: UsbCopyPlan[] = [];
+  const seenSources = new Set<string>();
+  const usedTargets = new Set<string>();
+
+  for (const track of tracks) {
+    if (seenSources.has(track.filePath)) continue;
+    seenSources.add(track.filePath);
+
+    const folder = layoutFolder(track, layout);
+    const dir = folder ? path.join(destination, folder) : destination;
+    const ext = path.extname(track.filePath);
+    const stem = safeSegment(path.basename(track.filePath, ext), 'track');
+
+    let targetPath = path.join(dir, `${stem}${ext}`);
+    for (let n = 2; usedTargets.has(targetPath.toLowerCase()); n++) {
+      targetPath = path.join(dir, `${stem} (${n})${ext}`);
+    }
+    usedTargets.add(targetPath.toLowerCase());
+    plans.push({ sourcePath: track.filePath, targetPath });
+  }
+  return plans;
+}
+
+/** Pure calculation: FAT stores mtimes with 2 s resolution, so allow that much drift */
+export function isSameSizeAndMtime(
+  source: { size: number; mtimeMs: number },
+  target: { size: number; mtimeMs: number },
+): boolean {
+  return source.size === target.size && Math.abs(source.mtimeMs - target.mtimeMs) < 2000;
+}
+
+// ─── Manifest ────────────────────────────────────────────────────────────
+
+/** Written next to the copies; remembers what each copy was made from */
+export const USB_MANIFEST_FILE = '.musicky-usb.json';
+
+export interface UsbManifestEntry {
+  sourceSize: number;
+  sourceMtimeMs: number;
+  targetSize: number;
+  targetMtimeMs: number;
+  variant: string;
+  /** Only recorded by hash-mode exports */
+  sourceHash?: string;
+  targetHash?: string;
+}
+
+/** Entries keyed by the copy's path relative to the destination, with forward slashes */
+export interface UsbManifest {
+  files: Record<string, UsbManifestEntry>;
+}
+
+/** Pure calculation: manifest key for a copy */
+export function manifestKey(destination: string, targetPath: string): string {
+  return path.relative(destination, targetPath).split(path.sep).join('/');
+}
+
+/**
+ * Pure calculation: whether an existing copy is still the one the manifest
+ * recorded for this source. A copy rewritten with tags never matches its
+ * source by size, so it is compared with what was written instead.
+ */
+export function isManifestMatch(
+  entry: UsbManifestEntry,
+  source: { size: number; mtimeMs: number },
+  target: { size: number; mtimeMs: number },
+  variant: string,
+): boolean {
+  return entry.variant === variant
+    && isSameSizeAndMtime(source, { size: entry.sourceSize, mtimeMs: entry.sourceMtimeMs })
+    && isSameSizeAndMtime(target, { size: entry.targetSize, mtimeMs: entry.targetMtimeMs });
+}
+
+// ─── File I/O ────────────────────────────────────────────────────────────
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha1');
+  for await (const chunk of createReadStream(filePath)) hash.update(chunk);
+  return hash.digest('hex');
+}
+
+/** The manifest at `destination`; empty when there is none or it can't be read */
+export async function readUsbManifest(destination: string): Promise<UsbManifest> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(path.join(destination, USB_MANIFEST_FILE), 'utf8'));
+    return parsed && typeof parsed.files === 'object' ? parsed as UsbManifest : { files: {} };
+  } catch {
+    return { files: {} };
+  }
+}
+
+async function writeUsbManifest(destination: string, manifest: UsbManifest): Promise<void> {
+  await fs.mkdir(destination, { recursive: true });
+  await fs.writeFile(path.join(destination, USB_MANIFEST_FILE), JSON.stringify(manifest, null, 2), 'utf8');
+}
+
+async function isIdentical(
+  plan: UsbCopyPlan,
+  entry: UsbManifestEntry | undefined,
+  compare: UsbCompareMode,
+): Promise<boolean> {
+  const [source, target] = await Promise.all([
+    fs.stat(plan.sourcePath),
+    fs.stat(plan.targetPath).catch(() => null),
+  ]);
+  if (!target) return false;
+
+  if (entry) {
+    if (!isManifestMatch(entry, source, target, plan.variant ?? '')) return false;
+    if (compare !== 'hash') return true;
+    return entry.sourceHash === await hashFile(plan.sourcePath) && entry.targetHash === await hashFile(plan.targetPath);
+  }
+
+  // Copies made before the manifest existed, or by hand: only a plain copy can be recognised
+  if (plan.variant || source.size !== target.size) return false;
+  if (compare === 'hash') return (await hashFile(plan.sourcePath)) === (await hashFile(plan.targetPath));
+  return isSameSizeAndMtime(source, target);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/** Free bytes on the volume holding `dir` (the nearest existing ancestor is used) */
+export async function freeSpace(dir: string): Promise<number> {
+  let current = path.resolve(dir);
+  for (;;) {
+    try {
+      const stats = await fs.statfs(current);
+      return stats.bavail * stats.bsize;
+    } catch (error) {
+      const parent = path.dirname(current);
+      if (parent === current) throw error;
+      current = parent;
+    }
+  }
+}
+
+export interface UsbExportEstimate {
+  requiredBytes: number;
+  freeBytes: number;
+  /** Source paths whose copy at the destination is already up to date */
+  identical: Set<string>;
+  /** Sources that couldn't be checked, e.g. deleted since the playlist was made */
+  failed: UsbExportProgress['failed'];
+  manifest: UsbManifest;
+}
+
+/**
+ * Sum of bytes that still have to be copied (existing identical files excluded)
+ * and the free space at the destination. A source that can't be read is
+ * reported in `failed` instead of aborting the whole estimate.
+ */
+export async function estimateUsbExport(
+  plans: UsbCopyPlan[],
+  destination: string,
+  compare: UsbCompareMode,
+): Promise<UsbExportEstimate> {
+  const manifest = await readUsbManifest(destination);
+  let requiredBytes = 0;
+  const identical = new Set<string>();
+  const failed: UsbExportProgress['failed'] = [];
+  for (const plan of plans) {
+    try {
+      if (await isIdentical(plan, manifest.files[manifestKey(destination, plan.targetPath)], compare)) {
+        identical.add(plan.sourcePath);
+        continue;
+      }
+      const existing = await fs.stat(plan.targetPath).catch(() => null);
+      requiredBytes += (await fs.stat(plan.sourcePath)).size - (existing?.size ?? 0);
+    } catch (error) {
+      failed.push({ filePath: plan.sourcePath, error: errorMessage(error) });
+    }
+  }
+  return { requiredBytes: Math.max(0, requiredBytes), freeBytes: await freeSpace(destination), identical, failed, manifest };
+}
+
+export interface RunUsbExportOptions {
+  destination: string;
+  compare: UsbCompareMode;
+  /** Source paths already known to be identical at the destination */
+  identical: Set<string>;
+  /** Sources the estimate already failed on; they are reported, not copied */
+  failed?: UsbExportProgress['failed'];
+  /** Updated with every fresh copy and written to the destination at the end */
+  manifest: UsbManifest;
+  /** Called after each fresh copy, e.g. to write pending tags into the copy only */
+  afterCopy?: (plan: UsbCopyPlan) => Promise<void>;
+  onProgress?: (progress: UsbExportProgress) => void;
+}
+
+/**
+ * Copy every planned file. Copies keep the source mtime, and the manifest
+ * records what each copy was made from, so the next run can skip them.
+ * One failed file doesn't stop the job.
+ */
+export async function runUsbExport(plans: UsbCopyPlan[], options: RunUsbExportOptions): Promise<UsbExportProgress> {
+  const failedEarlier = new Set((options.failed ?? []).map(f => f.filePath));
+  const progress: UsbExportProgress = {
+    total: plans.length,
+    done: failedEarlier.size,
+    copied: 0,
+    skipped: 0,
+    failed: [...(options.failed ?? [])],
+    currentFile: null,
+    bytesCopied: 0,
+  };
+
+  for (const plan of plans) {
+    if (failedEarlier.has(plan.sourcePath)) continue;
+    progress.currentFile = plan.sourcePath;
+    options.onProgress?.({ ...progress });
+
+    const key = manifestKey(options.destination, plan.targetPath);
+    try {
+      if (options.identical.has(plan.sourcePath)) {
+        progress.skipped++;
+      } else {
+        delete options.manifest.files[key];
+        await fs.mkdir(path.dirname(plan.targetPath), { recursive: true });
+        await fs.copyFile(plan.sourcePath, plan.targetPath);
+        const source = await fs.stat(plan.sourcePath);
+        await options.afterCopy?.(plan);
+        await fs.utimes(plan.targetPath, source.atime, source.mtime);
+        const target = await fs.stat(plan.targetPath);
+        options.manifest.files[key] = {
+          sourceSize: source.size,
+          sourceMtimeMs: source.mtimeMs,
+          targetSize: target.size,
+          targetMtimeMs: target.mtimeMs,
+          variant: plan.variant ?? '',
+          ...(options.compare === 'hash' && {
+            sourceHash: await hashFile(plan.sourcePath),
+            targetHash: await hashFile(plan.targetPath),
+          }),
+        };
+        progress.copied++;
+        progress.bytesCopied += target.size;
+      }
+    } catch (error) {
+      progress.failed.push({ filePath: plan.sourcePath, error: errorMessage(error) });
+    }
+    progress.done++;
+  }
+
+  progress.currentFile = null;
+  try {
+    await writeUsbManifest(options.destination, options.manifest);
+  } catch (error) {
+    // The copies are fine; the next run just compares them the slow way
+    console.error('Failed to write USB manifest:', error);
+  }
+  options.onProgress?.({ ...progress });
+  return progress;
+}
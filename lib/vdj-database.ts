@@ -0,0 +1,204 @@
+import { promises as fs } from 'fs';
+import { escapeXml, parseXmlAttributes, unescapeXml } from './xml-utils';
+
+/**
+ * VirtualDJ database.xml reader/writer.
+ * Updates are surgical string edits on the matching <Song> elements, so
+ * everything Musicky doesn't understand (scans, automix points, beatgrids…)
+ * is written back exactly as VirtualDJ left it.
+ */
+
+/** Fields Musicky writes: attributes of <Tags>, plus the <Comment> element */
+export const VDJ_DATABASE_FIELDS = ['Genre', 'Comment', 'User1', 'User2', 'Grouping'] as const;
+export type VdjDatabaseField = typeof VDJ_DATABASE_FIELDS[number];
+
+/** Pending-edit field name prefix for database.xml edits, e.g. "vdj:User1" */
+export const VDJ_FIELD_PREFIX = 'vdj:';
+
+export interface VdjCuePoint {
+  position: number;     // seconds
+  name: string;
+  num?: number;         // hot cue slot, when assigned
+}
+
+export interface VdjSong {
+  filePath: string;     // as stored by VirtualDJ (may use backslashes)
+  fields: Record<VdjDatabaseField, string>;
+  playCount: number;
+  cues: VdjCuePoint[];
+}
+
+export type VdjFieldUpdates = Partial<Record<VdjDatabaseField, string>>;
+
+const SONG_PATTERN = /<Song\b([^>]*?)(?:\/>|>([\s\S]*?)<\/Song>)/g;
+
+// ─── Parsing (pure) ──────────────────────────────────────────────────────
+
+/** Pure calculation: path key used to match VirtualDJ paths to Musicky paths */
+export function normalizeVdjPath(filePath: string): string {
+  return filePath.replace(/\\/g, '/');
+}
+
+function elementAttributes(body: string, name: string): Record<string, string> | null {
+  const match = new RegExp(`<${name}\\b([^>]*?)\\/?>`).exec(body);
+  return match ? parseXmlAttributes(match[1]) : null;
+}
+
+/** Parse every <Song> of a VirtualDJ database.xml */
+export function parseVdjDatabase(xml: string): VdjSong[] {
+  if (!xml.includes('<VirtualDJ_Database')) {
+    throw new Error('Not a VirtualDJ database (missing VirtualDJ_Database)');
+  }
+
+  const songs: VdjSong[] = [];
+  for (const match of xml.matchAll(SONG_PATTERN)) {
+    const attrs = parseXmlAttributes(match[1]);
+    if (!attrs.FilePath) continue;
+    const body = match[2] ?? '';
+
+    const tags = elementAttributes(body, 'Tags') ?? {};
+    const infos = elementAttributes(body, 'Infos') ?? {};
+    const comment = /<Comment>([\s\S]*?)<\/Comment>/.exec(body);
+
+    const cues: VdjCuePoint[] = [];
+    for (const poi of body.matchAll(/<Poi\b([^>]*?)\/?>/g)) {
+      const p = parseXmlAttributes(poi[1]);
+      if (p.Type !== 'cue') continue;
+      const position = parseFloat(p.Pos ?? '');
+      if (isNaN(position)) continue;
+      const num = p.Num ? parseInt(p.Num, 10) : NaN;
+      cues.push({ position, name: p.Name ?? '', num: isNaN(num) ? undefined : num });
+    }
+
+    songs.push({
+      filePath: attrs.FilePath,
+      fields: {
+        Genre: tags.Genre ?? '',
+        Comment: comment ? unescapeXml(comment[1]) : '',
+        User1: tags.User1 ?? '',
+        User2: tags.User2 ?? '',
+        Grouping: tags.Grouping ?? '',
+      },
+      playCount: parseInt(infos.PlayCount ?? '0', 10) || 0,
+      cues,
+    });
+  }
+  return songs;
+}
+
+// ─── Updating (pure) ─────────────────────────────────────────────────────
+
+function setAttribute(element: string, name: string, value: string): string {
+  const escaped = escapeXml(value);
+  const existing = new RegExp(`(\\s${name}=")[^"]*(")`);
+  if (existing.test(element)) return element.replace(existing, `$1${escaped}$2`);
+  return element.replace(/\s*(\/?>)$/, ` ${name}="${escaped}" $1`);
+}
+
+function updateSongBody(body: string, updates: VdjFieldUpdates): string {
+  let result = body;
+
+  const tagUpdates = Object.entries(updates).filter(([field]) => field !== 'Comment');
+  if (tagUpdates.length > 0) {
+    const tagsMatch = /<Tags\b[^>]*?\/?>/.exec(result);
+    let tags = tagsMatch ? tagsMatch[0] : '<Tags />';
+    for (const [field, value] of tagUpdates) tags = setAttribute(tags, field, value ?? '');
+    result = tagsMatch
+      ? result.replace(tagsMatch[0], tags)
+      : `\n  ${tags}${result}`;
+  }
+
+  if (updates.Comment !== undefined) {
+    const comment = `<Comment>${escapeXml(updates.Comment)}</Comment>`;
+    if (/<Comment>[\s\S]*?<\/Comment>/.test(result)) {
+      result = result.replace(/<Comment>[\s\S]*?<\/Comment>/, comment);
+    } else {
+      // VirtualDJ keeps Comment right after Tags/Infos
+      const anchor = /<Infos\b[^>]*?\/?>/.exec(result) ?? /<Tags\b[^>]*?\/?>/.exec(result);
+      result = anchor
+        ? result.replace(anchor[0], `${anchor[0]}\n  ${comment}`)
+        : `\n  ${comment}${result}`;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Pure calculation: apply field updates (keyed by normalizeVdjPath) to a database.xml string.
+ * Returns the new XML and the keys that had no <Song> entry — VirtualDJ only
+ * knows files it has scanned, so those are reported rather than added.
+ */
+export function updateVdjDatabase(
+  xml: string,
+  updates: Map<string, VdjFieldUpdates>,
+): { xml: string; missing: string[] } {
+  const found = new Set<string>();
+  const out = xml.replace(SONG_PATTERN, (whole, rawAttrs: string, body: string | undefined) => {
+    const filePath = parseXmlAttributes(rawAttrs).FilePath;
+    const key = filePath ? normalizeVdjPath(filePath) : '';
+    const songUpdates = updates.get(key);
+    if (!songUpdates) return whole;
+    found.add(key);
+    const newBody = updateSongBody(body ?? '\n ', songUpdates);
+    return `<Song${rawAttrs.trimEnd()}>${newBody}</Song>`;
+  });
+
+  return { xml: out, missing: [...updates.keys()].filter(k => !found.has(k)) };
+}
+
+/**
+ * Pure calculation: replace the numbered cue POIs (Num 1 to `slots`) of the
+ * song at `key` with `cues`. Other POIs stay as they are. `found` is false
+ * when VirtualDJ has no <Song> for that path.
+ */
+export function replaceVdjHotCues(
+  xml: string,
+  key: string,
+  cues: VdjCuePoint[],
+  slots: number,
+): { xml: string; found: boolean } {
+  let found = false;
+  const out = xml.replace(SONG_PATTERN, (whole, rawAttrs: string, body: string | undefined) => {
+    const filePath = parseXmlAttributes(rawAttrs).FilePath;
+    if (!filePath || normalizeVdjPath(filePath) !== key) return whole;
+    found = true;
+    const kept = (body ?? '').replace(/\s*<Poi\b([^>]*?)\/?>/g, (poi, attrs: string) => {
+      const p = parseXmlAttributes(attrs);
+      const num = p.Num ? parseInt(p.Num, 10) : NaN;
+      return p.Type === 'cue' && num >= 1 && num <= slots ? '' : poi;
+    });
+    const pois = cues.map(cue => {
+      const name = cue.name ? ` Name="${escapeXml(cue.name)}"` : '';
+      return `\n  <Poi${name} Pos="${cue.position.toFixed(6)}" Num="${cue.num}" Type="cue" />`;
+    });
+    return `<Song${rawAttrs.trimEnd()}>${kept.trimEnd()}${pois.join('')}\n </Song>`;
+  });
+  return { xml: out, found };
+}
+
+// ─── File I/O ────────────────────────────────────────────────────────────
+
+export async function readVdjDatabase(dbPath: string): Promise<string> {
+  return fs.readFile(dbPath, 'utf8');
+}
+
+/** Copy database.xml next to itself with a timestamp suffix; returns the backup path */
+export async function backupVdjDatabase(dbPath: string): Promise<string> {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const backupPath = `${dbPath}.musicky-backup-${stamp}`;
+  await fs.copyFile(dbPath, backupPath);
+  return backupPath;
+}
+
+/** Write database.xml via a temp file so VirtualDJ never sees a half-written database */
+export async function writeVdjDatabase(dbPath: string, xml: string): Promise<void> {
+  const tmpPath = `${dbPath}.musicky-tmp`;
+  try {
+    await fs.writeFile(tmpPath, xml, 'utf8');
+    await fs.rename(tmpPath, dbPath);
+  } catch (error) {
+    await fs.rm(tmpPath, { force: true });
+    throw error;
+  }
+}
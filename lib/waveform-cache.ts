@@ -0,0 +1,190 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { analyzeAudioFile } from './audio-analysis';
+import type { WaveformData } from './waveform';
+
+export interface CachedWaveform {
+  waveform: WaveformData;
+  lastModified: number;
+  fileSize: number;
+}
+
+export class WaveformCache {
+  private memoryCache = new Map<string, CachedWaveform>();
+  private pending = new Map<string, Promise<WaveformData>>();
+  private cacheDir: string;
+  private maxMemoryItems = 50; // Peak arrays are larger than artwork data URLs
+  private maxCacheAge = 30 * 24 * 60 * 60 * 1000; // 30 days in milliseconds
+
+  constructor(cacheDir = '.waveform-cache') {
+    this.cacheDir = path.resolve(cacheDir);
+  }
+
+  /**
+   * Initialize cache directory
+   */
+  async init(): Promise<void> {
+    try {
+      await fs.mkdir(this.cacheDir, { recursive: true });
+    } catch (error) {
+      console.warn('[WaveformCache] Failed to create cache directory:', error);
+    }
+  }
+
+  /**
+   * Generate cache key from file path and metadata
+   */
+  private generateCacheKey(filePath: string, fileStats: { size: number; mtime: Date }): string {
+    const hash = crypto.createHash('md5');
+    hash.update(filePath);
+    hash.update(fileStats.size.toString());
+    hash.update(fileStats.mtime.getTime().toString());
+    return hash.digest('hex');
+  }
+
+  /**
+   * Get cache file path
+   */
+  private getCacheFilePath(cacheKey: string): string {
+    return path.join(this.cacheDir, `${cacheKey}.json`);
+  }
+
+  /**
+   * Get cached waveform
+   */
+  async get(filePath: string, fileStats: { size: number; mtime: Date }): Promise<CachedWaveform | null> {
+    const cacheKey = this.generateCacheKey(filePath, fileStats);
+
+    // Check memory cache first
+    const inMemory = this.memoryCache.get(cacheKey);
+    if (inMemory) {
+      if (Date.now() - inMemory.lastModified < this.maxCacheAge) return inMemory;
+      this.memoryCache.delete(cacheKey);
+    }
+
+    // Check file cache
+    try {
+      const cacheFilePath = this.getCacheFilePath(cacheKey);
+      const cached: CachedWaveform = JSON.parse(await fs.readFile(cacheFilePath, 'utf-8'));
+      if (Date.now() - cached.lastModified < this.maxCacheAge) {
+        this.addToMemoryCache(cacheKey, cached);
+        return cached;
+      }
+      await fs.unlink(cacheFilePath).catch(() => {});
+    } catch {
+      // Cache miss or unreadable file, continue
+    }
+
+    return null;
+  }
+
+  /**
+   * Set cached waveform
+   */
+  async set(filePath: string, fileStats: { size: number; mtime: Date }, waveform: WaveformData): Promise<void> {
+    const cacheKey = this.generateCacheKey(filePath, fileStats);
+    const cached: CachedWaveform = { waveform, lastModified: Date.now(), fileSize: fileStats.size };
+    this.addToMemoryCache(cacheKey, cached);
+
+    try {
+      await fs.writeFile(this.getCacheFilePath(cacheKey), JSON.stringify(cached), 'utf-8');
+    } catch (error) {
+      console.warn('[WaveformCache] Failed to save cache file:', error);
+    }
+  }
+
+  /**
+   * Cached waveform for a file, decoding and analysing it on a miss.
+   * Concurrent requests for the same file share one decode.
+   */
+  async getOrGenerate(filePath: string): Promise<WaveformData> {
+    const stats = await fs.stat(filePath);
+    const cached = await this.get(filePath, stats);
+    if (cached) return cached.waveform;
+
+    const cacheKey = this.generateCacheKey(filePath, stats);
+    const inFlight = this.pending.get(cacheKey);
+    if (inFlight) return inFlight;
+
+    const generation = (async () => {
+      await this.init();
+      const { waveform } = await analyzeAudioFile(filePath, { waveform: true });
+      if (!waveform) throw new Error('Analysis returned no waveform');
+      await this.set(filePath, stats, waveform);
+      return waveform;
+    })().finally(() => this.pending.delete(cacheKey));
+    this.pending.set(cacheKey, generation);
+    return generation;
+  }
+
+  /**
+   * Add item to memory cache with LRU eviction
+   */
+  private addToMemoryCache(key: string, cached: CachedWaveform): void {
+    if (this.memoryCache.size >= this.maxMemoryItems) {
+      const firstKey = this.memoryCache.keys().next().value;
+      if (firstKey) {
+        this.memoryCache.delete(firstKey);
+      }
+    }
+
+    this.memoryCache.set(key, cached);
+  }
+
+  /**
+   * Clear expired cache entries
+   */
+  async cleanup(): Promise<void> {
+    try {
+      const files = await fs.readdir(this.cacheDir);
+      const now = Date.now();
+
+      for (const file of files) {
+        if (!file.endsWith('.json')) continue;
+
+        const filePath = path.join(this.cacheDir, file);
+        try {
+          const cached: CachedWaveform = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+          if (now - cached.lastModified > this.maxCacheAge) {
+            await fs.unlink(filePath);
+          }
+        } catch {
+          // Invalid cache file, remove it
+          await fs.unlink(filePath).catch(() => {});
+        }
+      }
+    } catch (error) {
+      console.warn('[WaveformCache] Cleanup failed:', error);
+    }
+  }
+
+  /**
+   * Clear all cached data
+   */
+  async clear(): Promise<void> {
+    this.memoryCache.clear();
+
+    try {
+      const files = await fs.readdir(this.cacheDir);
+      for (const file of files) {
+        await fs.unlink(path.join(this.cacheDir, file)).catch(() => {});
+      }
+    } catch (error) {
+      console.warn('[WaveformCache] Failed to clear cache:', error);
+    }
+  }
+
+  /**
+   * Get cache statistics
+   */
+  getStats(): { memoryItems: number; cacheDir: string } {
+    return {
+      memoryItems: this.memoryCache.size,
+      cacheDir: this.cacheDir
+    };
+  }
+}
+
+// Global cache instance
+export const waveformCache = new WaveformCache();
@@ -0,0 +1,98 @@
+/**
+ * Waveform peaks for display: per-bucket amplitude plus low/mid/high band
+ * peaks, at several resolutions so a narrow player bar and a zoomed view can
+ * each fetch only what they draw.
+ * Pure calculation — no I/O. Feed it decoded mono PCM (see audio-decoder).
+ */
+
+export interface WaveformLevel {
+  /** Buckets per second of audio */
+  resolution: number;
+  /** Peak amplitude per bucket, 0–255 relative to the loudest bucket in the track */
+  peak: number[];
+  /** Band peaks on the same scale: below ~250 Hz, ~250 Hz–4 kHz, above ~4 kHz */
+  low: number[];
+  mid: number[];
+  high: number[];
+}
+
+export interface WaveformData {
+  duration: number;
+  /** Finest resolution first */
+  levels: WaveformLevel[];
+}
+
+/** Each level is an exact max-reduction of the one before it */
+export const WAVEFORM_RESOLUTIONS = [50, 10, 2];
+const LOW_CUTOFF_HZ = 250;
+const HIGH_CUTOFF_HZ = 4000;
+
+// ─── Peaks ───────────────────────────────────────────────────────────────
+
+/** Two cascaded one-pole low-pass filters: gentle, but enough to tell kick from hi-hat */
+function lowPass(samples: Float32Array, sampleRate: number, cutoffHz: number): Float32Array {
+  const a = 1 - Math.exp((-2 * Math.PI * cutoffHz) / sampleRate);
+  const out = new Float32Array(samples.length);
+  let y1 = 0;
+  let y2 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    y1 += a * (samples[i] - y1);
+    y2 += a * (y1 - y2);
+    out[i] = y2;
+  }
+  return out;
+}
+
+function reduceMax(values: number[], factor: number): number[] {
+  const out: number[] = [];
+  for (let start = 0; start < values.length; start += factor) {
+    let max = 0;
+    for (let i = start; i < Math.min(values.length, start + factor); i++) max = Math.max(max, values[i]);
+    out.push(max);
+  }
+  return out;
+}
+
+/** Pure calculation: peak and band data at every resolution in WAVEFORM_RESOLUTIONS */
+export function computeWaveform(samples: Float32Array, sampleRate: number): WaveformData {
+  const low = lowPass(samples, sampleRate, LOW_CUTOFF_HZ);
+  const belowHigh = lowPass(samples, sampleRate, HIGH_CUTOFF_HZ);
+  const finest = WAVEFORM_RESOLUTIONS[0];
+  const bucketCount = Math.ceil((samples.length * finest) / sampleRate);
+
+  const peak = new Array<number>(bucketCount).fill(0);
+  const lowPeak = new Array<number>(bucketCount).fill(0);
+  const midPeak = new Array<number>(bucketCount).fill(0);
+  const highPeak = new Array<number>(bucketCount).fill(0);
+  for (let i = 0; i < samples.length; i++) {
+    const b = Math.floor((i * finest) / sampleRate);
+    peak[b] = Math.max(peak[b], Math.abs(samples[i]));
+    lowPeak[b] = Math.max(lowPeak[b], Math.abs(low[i]));
+    midPeak[b] = Math.max(midPeak[b], Math.abs(belowHigh[i] - low[i]));
+    highPeak[b] = Math.max(highPeak[b], Math.abs(samples[i] - belowHigh[i]));
+  }
+
+  // One scale for all four series, so the band balance survives quantisation
+  const loudest = peak.reduce((max, v) => Math.max(max, v), 1e-6);
+  const quantise = (values: number[]) => values.map(v => Math.min(255, Math.round((v / loudest) * 255)));
+
+  const levels: WaveformLevel[] = [];
+  let series = [peak, lowPeak, midPeak, highPeak].map(quantise);
+  WAVEFORM_RESOLUTIONS.forEach((resolution, index) => {
+    if (index > 0) {
+      const factor = Math.round(WAVEFORM_RESOLUTIONS[index - 1] / resolution);
+      series = series.map(values => reduceMax(values, factor));
+    }
+    const [p, l, m, h] = series;
+    levels.push({ resolution, peak: p, low: l, mid: m, high: h });
+  });
+  return { duration: samples.length / sampleRate, levels };
+}
+
+/** Pure calculation: the coarsest level with at least `minBuckets` buckets, else the finest */
+export function pickWaveformLevel(waveform: WaveformData, minBuckets: number): WaveformLevel {
+  for (let i = waveform.levels.length - 1; i >= 0; i--) {
+    if (waveform.levels[i].peak.length >= minBuckets) return waveform.levels[i];
+  }
+  return waveform.levels[0];
+}
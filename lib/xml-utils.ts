@@ -0,0 +1,41 @@
+/**
+ * Small XML string helpers for the DJ-software library formats (Rekordbox, Traktor).
+ * Pure calculation — no I/O.
+ */
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export function unescapeXml(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/** Pure calculation: attributes of a start tag, e.g. ` Name="x" Type="1"` → { Name: 'x', Type: '1' } */
+export function parseXmlAttributes(raw: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of raw.matchAll(/([\w:-]+)\s*=\s*"([^"]*)"/g)) {
+    attrs[match[1]] = unescapeXml(match[2]);
+  }
+  return attrs;
+}
+
+/** Pure calculation: serialize attribute pairs, skipping undefined values */
+export function xmlAttributes(attrs: [string, string | undefined][]): string {
+  return attrs
+    .filter((a): a is [string, string] => a[1] !== undefined)
+    .map(([k, v]) => `${k}="${escapeXml(v)}"`)
+    .join(' ');
+}
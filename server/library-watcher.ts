@@ -0,0 +1,82 @@
+import * as fs from "node:fs";
+import { LibraryWatcher, pairRenames, type WatchBatch } from "../lib/library-watcher";
+import { applyLibraryUpdate } from "../lib/library-sync";
+import { detectFileChanges, isInFolder, scanSingleFile, type CachedFileStat, type ScannedSong } from "../lib/scan-engine";
+import { MP3MetadataManager } from "../lib/mp3-metadata";
+import type { LibraryChange } from "../lib/library-events";
+import { getMP3CacheIndex } from "../database/sqlite/queries/dj-sets";
+import { renameSong } from "../database/sqlite/queries/song-merge";
+
+const mp3Manager = new MP3MetadataManager();
+const listeners = new Set<(change: LibraryChange) => void>();
+let current: LibraryWatcher | null = null;
+
+/**
+ * Watch `folder` for the rest of the server's life, replacing any earlier
+ * watch. Changes go through the same library update as a manual scan.
+ */
+export function watchLibrary(folder: string | null): void {
+  if (current?.folder === folder) return;
+  void current?.stop();
+  current = null;
+  if (!folder || !fs.existsSync(folder)) return;
+
+  const watcher = new LibraryWatcher(folder, (batch) => applyBatch(folder, batch));
+  try {
+    watcher.start();
+    current = watcher;
+  } catch (error) {
+    console.error(`Could not watch ${folder}:`, error);
+  }
+}
+
+/** Hear about every change the watcher applied; returns the unsubscribe function */
+export function subscribeLibraryChanges(listener: (change: LibraryChange) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Bring the library in line with one batch from the watcher: renames first,
+ * so the song keeps its tags, analysis and board places, then the usual
+ * library update for new, changed and removed files.
+ */
+export async function applyBatch(folder: string, batch: WatchBatch): Promise<void> {
+  const cached: CachedFileStat[] = getMP3CacheIndex()
+    .filter((c) => isInFolder(c.file_path, folder))
+    .map((c) => ({ filePath: c.file_path, fileSize: c.file_size ?? null, lastModified: c.last_modified ?? null }));
+
+  // A removed path may be a whole folder
+  const gone = cached.filter((c) => batch.removed.some((r) => c.filePath === r || isInFolder(c.filePath, r)));
+  const touched = new Set(batch.changed.map((f) => f.filePath));
+  const changes = detectFileChanges(cached.filter((c) => touched.has(c.filePath)), batch.changed);
+  const added = batch.changed.filter((f) => changes.newPaths.includes(f.filePath));
+
+  const renamed = pairRenames(gone, added);
+  for (const { from, to } of renamed) renameSong(from, to);
+
+  const songs: ScannedSong[] = [];
+  for (const filePath of [...changes.newPaths, ...changes.changedPaths]) {
+    try {
+      songs.push(await scanSingleFile(filePath, mp3Manager));
+    } catch (error) {
+      // Often a download still being written; its next write brings it back here
+      console.warn(`Could not read ${filePath}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  const removedPaths = gone.map((c) => c.filePath);
+  if (songs.length === 0 && removedPaths.length === 0) return;
+  await applyLibraryUpdate({ songs, stats: batch.changed, removedPaths }, mp3Manager);
+
+  const renamedTo = new Set(renamed.map((r) => r.to));
+  const renamedFrom = new Set(renamed.map((r) => r.from));
+  const read = new Set(songs.map((s) => s.filePath));
+  const change: LibraryChange = {
+    added: changes.newPaths.filter((p) => read.has(p) && !renamedTo.has(p)),
+    updated: changes.changedPaths.filter((p) => read.has(p)),
+    removed: removedPaths.filter((p) => !renamedFrom.has(p)),
+    renamed,
+  };
+  for (const listener of listeners) listener(change);
+}
@@ -0,0 +1,44 @@
+/**
+ * Assertions shared by the tsx test scripts. Every check logs PASS or FAIL
+ * and the run carries on, so one script reports all of its failures;
+ * finish() prints the summary and sets the exit code.
+ */
+
+let failures = 0;
+
+export function assert(condition: boolean, message: string) {
+  if (!condition) {
+    console.error(`  FAIL: ${message}`);
+    failures++;
+  } else {
+    console.log(`  PASS: ${message}`);
+  }
+}
+
+/** Numbers within `tolerance` of each other; the actual value is shown on failure */
+export function assertClose(actual: number | null | undefined, expected: number, tolerance: number, message: string) {
+  const ok = actual != null && Math.abs(actual - expected) <= tolerance;
+  assert(ok, ok ? message : `${message} (got ${actual}, expected ${expected} ± ${tolerance})`);
+}
+
+/** `fn` throws, optionally with a message matching `pattern` */
+export async function assertThrows(fn: () => unknown, message: string, pattern?: RegExp) {
+  try {
+    await fn();
+  } catch (error) {
+    const text = error instanceof Error ? error.message : String(error);
+    assert(!pattern || pattern.test(text), pattern ? `${message} (threw "${text}")` : message);
+    return;
+  }
+  assert(false, `${message} (did not throw)`);
+}
+
+export function finish() {
+  console.log('');
+  if (failures === 0) {
+    console.log('✅ ALL TESTS PASSED');
+  } else {
+    console.log(`❌ ${failures} TEST(S) FAILED`);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Server-side integration test for the library folder watcher.
+ * Run via: npx tsx tests/integration/library-watcher.test.ts
+ *
+ * Watches a fresh temp directory with a short debounce and checks the
+ * batches it reports for new, renamed, moved-in and deleted files. Files
+ * only need the right extension — the watcher never reads tags.
+ */
+import { LibraryWatcher, pairRenames, type WatchBatch } from '../../lib/library-watcher';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const DEBOUNCE_MS = 200;
+/** Longer than the debounce plus slow fs event delivery */
+const SETTLE_MS = 1500;
+
+let failures = 0;
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    console.error(`  FAIL: ${message}`);
+    failures++;
+  } else {
+    console.log(`  PASS: ${message}`);
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'musicky-watch-'));
+  const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'musicky-outside-'));
+  console.log(`Watching: ${dir}\n`);
+
+  const batches: WatchBatch[] = [];
+  const watcher = new LibraryWatcher(dir, batch => { batches.push(batch); }, DEBOUNCE_MS);
+  watcher.start();
+
+  /** Run `step`, wait for the watcher to settle and return the batches it reported */
+  const settle = async (step: () => void) => {
+    batches.length = 0;
+    step();
+    await sleep(SETTLE_MS);
+    return [...batches];
+  };
+  const names = (paths: string[]) => paths.map(p => path.relative(dir, p)).sort();
+
+  try {
+    // ── 1. A download written in chunks ─────────────────────────────
+    console.log('1) Writing a new track in several chunks…');
+    const track = path.join(dir, 'track.mp3');
+    const written = await settle(() => {
+      fs.writeFileSync(track, 'chunk-1');
+      fs.appendFileSync(track, 'chunk-2');
+      fs.appendFileSync(track, 'chunk-3');
+      fs.writeFileSync(path.join(dir, 'cover.jpg'), 'not audio');
+    });
+    assert(written.length === 1, 'quick writes arrive as one batch');
+    assert(names(written[0]?.changed.map(f => f.filePath) ?? []).join() === 'track.mp3', 'only the audio file is reported');
+    assert(written[0]?.changed[0]?.size === 'chunk-1chunk-2chunk-3'.length, 'reported size is the finished file');
+
+    // ── 2. Rename ───────────────────────────────────────────────────
+    console.log('\n2) Renaming the track…');
+    const before = written[0].changed[0];
+    const renamedPath = path.join(dir, 'renamed.mp3');
+    const renamed = await settle(() => fs.renameSync(track, renamedPath));
+    const batch = renamed[0];
+    assert(renamed.length === 1, 'a rename arrives as one batch');
+    assert(names(batch?.removed ?? []).join() === 'track.mp3', 'old name is reported removed');
+    assert(names(batch?.changed.map(f => f.filePath) ?? []).join() === 'renamed.mp3', 'new name is reported changed');
+    const pairs = pairRenames(
+      [{ filePath: before.filePath, fileSize: before.size, lastModified: before.mtime }],
+      batch?.changed ?? [],
+    );
+    assert(pairs.length === 1 && pairs[0].to === renamedPath, 'old and new name pair up as a rename');
+
+    // ── 3. A folder moved in ────────────────────────────────────────
+    console.log('\n3) Moving a folder of tracks in…');
+    const album = path.join(outside, 'album');
+    fs.mkdirSync(album);
+    fs.writeFileSync(path.join(album, 'a.mp3'), 'a');
+    fs.writeFileSync(path.join(album, 'b.flac'), 'b');
+    const moved = await settle(() => fs.renameSync(album, path.join(dir, 'album')));
+    const movedIn = names(moved.flatMap(b => b.changed.map(f => f.filePath)));
+    assert(movedIn.join() === 'album/a.mp3,album/b.flac', 'files inside a moved-in folder are reported');
+
+    // ── 4. Delete ───────────────────────────────────────────────────
+    console.log('\n4) Deleting…');
+    const deleted = await settle(() => {
+      fs.rmSync(renamedPath);
+      fs.rmSync(path.join(dir, 'album'), { recursive: true });
+    });
+    const removed = names(deleted.flatMap(b => b.removed));
+    assert(removed.includes('renamed.mp3'), 'deleted file is reported removed');
+    assert(removed.includes('album'), 'deleted folder is reported removed');
+    assert(deleted.every(b => b.changed.length === 0), 'nothing is reported changed');
+
+    // ── 5. Stop ─────────────────────────────────────────────────────
+    console.log('\n5) Stopping…');
+    await watcher.stop();
+    const afterStop = await settle(() => fs.writeFileSync(path.join(dir, 'late.mp3'), 'late'));
+    assert(afterStop.length === 0, 'no batches after stop');
+  } finally {
+    await watcher.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+    fs.rmSync(outside, { recursive: true, force: true });
+  }
+
+  // ── Summary ────────────────────────────────────────────────────────
+  console.log('');
+  if (failures === 0) {
+    console.log('✅ ALL TESTS PASSED');
+  } else {
+    console.log(`❌ ${failures} TEST(S) FAILED`);
+    process.exit(1);
+  }
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -28,7 +28,7 @@ function assert(condition: boolean, message: string) {
 }
 
 async function main() {
-  const files = fs.readdirSync(TEST_MUSIC).filter(f => f.endsWith('.mp3'));
+  const files = fs.existsSync(TEST_MUSIC) ? fs.readdirSync(TEST_MUSIC).filter(f => f.endsWith('.mp3')) : [];
 
   if (files.length === 0) {
     console.log('SKIP: No test MP3 files found in test-music/');
@@ -0,0 +1,32 @@
+/**
+ * Run every *.test.ts script in the given folders, one process each.
+ * Run via: npx tsx tests/run.ts tests/unit [tests/integration]
+ *
+ * Keeps going after a failing script and exits non-zero at the end, so a
+ * broken test early on can't hide the results of the ones after it.
+ */
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+
+const dirs = process.argv.slice(2);
+if (dirs.length === 0) {
+  console.error('Usage: tsx tests/run.ts <folder>...');
+  process.exit(2);
+}
+
+const files = dirs.flatMap(dir => fs.readdirSync(dir)
+  .filter(f => f.endsWith('.test.ts'))
+  .sort()
+  .map(f => path.join(dir, f)));
+
+const failed: string[] = [];
+for (const file of files) {
+  console.log(`\n━━ ${file}`);
+  const result = spawnSync(process.execPath, ['--import', 'tsx', file], { stdio: 'inherit' });
+  if (result.status !== 0) failed.push(file);
+}
+
+console.log(`\n${files.length - failed.length}/${files.length} test files passed`);
+for (const file of failed) console.log(`  failed: ${file}`);
+process.exit(failed.length > 0 ? 1 : 0);
@@ -0,0 +1,15 @@
+/**
+ * A throwaway SQLite database for tests that touch database/. Call it before
+ * importing anything from there — db() opens DATABASE_URL on first use — and
+ * import the schema and queries dynamically afterwards.
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+export function useTempDatabase(): { file: string; cleanup: () => void } {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'musicky-db-'));
+  const file = path.join(dir, 'test.db');
+  process.env.DATABASE_URL = file;
+  return { file, cleanup: () => fs.rmSync(dir, { recursive: true, force: true }) };
+}
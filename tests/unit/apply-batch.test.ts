@@ -0,0 +1,81 @@
+/**
+ * Library watcher batches applied to the database: a file renamed on disk
+ * keeps its cache row, detected values, tags and analysis under the new
+ * path, and a deleted file leaves the cache and every moodboard.
+ * Run via: npx tsx tests/unit/apply-batch.test.ts
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import NodeID3 from 'node-id3';
+import { useTempDatabase } from '../temp-db';
+import { assert, finish } from '../assert';
+
+/** An ID3 tag and nothing else: enough for the scan to read title and genre */
+function writeSong(filePath: string, title: string, genre: string): void {
+  fs.writeFileSync(filePath, NodeID3.create({ title, artist: 'Tester', genre }));
+}
+
+function stat(filePath: string) {
+  const st = fs.statSync(filePath);
+  return { filePath, size: st.size, mtime: st.mtime.toISOString() };
+}
+
+async function main() {
+  const database = useTempDatabase();
+  const folder = fs.mkdtempSync(path.join(os.tmpdir(), 'musicky-batch-'));
+  try {
+    await import('../../database/sqlite/schema/all');
+    const { applyBatch } = await import('../../server/library-watcher');
+    const { getMP3CacheByPath, setDetectedBpm, setEnergyLevel } = await import('../../database/sqlite/queries/dj-sets');
+    const { addSongTag, getTagsForSong } = await import('../../database/sqlite/queries/song-tags');
+    const { saveLoudness, getLoudness } = await import('../../database/sqlite/queries/audio-features');
+    const { createMoodboard, upsertNode, getNodes } = await import('../../database/sqlite/queries/moodboard');
+
+    // ── 1. New file ─────────────────────────────────────────────────
+    console.log('1) A file appears…');
+    const original = path.join(folder, 'track.mp3');
+    writeSong(original, 'Track', 'Techno');
+    await applyBatch(folder, { changed: [stat(original)], removed: [] });
+    assert(getMP3CacheByPath(original)?.title === 'Track', 'cached');
+    assert(getTagsForSong(original).some(t => t.tag_label === 'Techno'), 'genre tag read');
+
+    // ── 2. Rename ───────────────────────────────────────────────────
+    console.log('\n2) The file is renamed…');
+    addSongTag(original, 'dark', 'mood');
+    setDetectedBpm(original, 174, 0.9);
+    setEnergyLevel(original, 8, 'manual');
+    saveLoudness(original, { integratedLufs: -8.5, truePeakDb: -0.3 });
+    const board = createMoodboard('Board');
+    upsertNode({ id: 'n1', boardId: board.id, nodeType: 'song', songPath: original, positionX: 0, positionY: 0 });
+    const renamed = path.join(folder, 'renamed.mp3');
+    fs.renameSync(original, renamed);
+    await applyBatch(folder, { changed: [stat(renamed)], removed: [original] });
+    assert(getMP3CacheByPath(original) == null, 'old path left the cache');
+    const moved = getMP3CacheByPath(renamed);
+    assert(moved?.title === 'Track', 'new path cached');
+    assert(moved?.bpm === 174 && moved?.bpm_source === 'detected', 'detected BPM kept');
+    assert(moved?.energy_level === 8 && moved?.energy_source === 'manual', 'manual energy kept');
+    assert(getTagsForSong(original).length === 0, 'no tags left on the old path');
+    assert(getTagsForSong(renamed).map(t => t.tag_label).sort().join() === 'Techno,dark', 'tags follow the file');
+    assert(getLoudness(renamed)?.integratedLufs === -8.5 && getLoudness(original) === null, 'loudness follows the file');
+    assert(getNodes(board.id).map(n => n.song_path).join() === renamed, 'board node points at the new path');
+
+    // ── 3. Delete ───────────────────────────────────────────────────
+    console.log('\n3) The file is deleted…');
+    fs.rmSync(renamed);
+    await applyBatch(folder, { changed: [], removed: [renamed] });
+    assert(getMP3CacheByPath(renamed) == null, 'left the cache');
+    assert(getNodes(board.id).length === 0, 'left the moodboard');
+  } finally {
+    fs.rmSync(folder, { recursive: true, force: true });
+    database.cleanup();
+  }
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
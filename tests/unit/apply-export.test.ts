@@ -0,0 +1,60 @@
+/**
+ * Applying reviewed export edits: each edit gets its own status, so a
+ * write-back that fails leaves the edits already written to the same file
+ * applied rather than marking the whole file failed.
+ * Run via: npx tsx tests/unit/apply-export.test.ts
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import NodeID3 from 'node-id3';
+import { MUSICK_TAG_PREFIX, MP3MetadataManager } from '../../lib/mp3-metadata';
+import { useTempDatabase } from '../temp-db';
+import { assert, finish } from '../assert';
+
+async function main() {
+  const database = useTempDatabase();
+  const folder = fs.mkdtempSync(path.join(os.tmpdir(), 'musicky-export-'));
+  try {
+    await import('../../database/sqlite/schema/all');
+    const { onApplyExport } = await import('../../components/TagSync.telefunc');
+    const { addTagEdit, getTagEditById } = await import('../../database/sqlite/queries/mp3-tag-edits');
+
+    // ── 1. One file, one failing write-back ─────────────────────────
+    console.log('1) Musicky fields and a write-back that fails on one file…');
+    const file = path.join(folder, 'track.mp3');
+    fs.writeFileSync(file, NodeID3.create({ title: 'Track', artist: 'Tester' }));
+    const genres = addTagEdit(file, `${MUSICK_TAG_PREFIX}genres`, null, 'techno, acid', 'export');
+    const moods = addTagEdit(file, `${MUSICK_TAG_PREFIX}moods`, null, 'dark', 'export');
+    const bpm = addTagEdit(file, 'TBPM', null, 'fast', 'export');
+    const key = addTagEdit(file, 'TKEY', null, 'Am', 'export');
+
+    const result = await onApplyExport([genres, moods, bpm, key]);
+    assert(result.success === 3, `three edits written (${result.success})`);
+    assert(result.failed.length === 1 && result.failed[0].id === bpm && /Invalid BPM/.test(result.failed[0].error), 'only the bad BPM reported');
+    assert(getTagEditById(genres)?.status === 'applied' && getTagEditById(moods)?.status === 'applied', 'Musicky edits marked applied');
+    assert(getTagEditById(bpm)?.status === 'failed', 'BPM edit marked failed');
+    assert(getTagEditById(key)?.status === 'applied', 'a later write-back still runs');
+
+    const tags = await new MP3MetadataManager().readMusickTags(file);
+    assert(tags?.genres?.join() === 'techno,acid' && tags?.moods?.join() === 'dark', 'Musicky fields are in the file');
+
+    // ── 2. Unwritable file ──────────────────────────────────────────
+    console.log('\n2) A file that is gone…');
+    const missing = path.join(folder, 'missing.mp3');
+    const lost = addTagEdit(missing, `${MUSICK_TAG_PREFIX}genres`, null, 'house', 'export');
+    const lostBpm = addTagEdit(missing, 'TBPM', null, '124', 'export');
+    const gone = await onApplyExport([lost, lostBpm]);
+    assert(gone.success === 0 && gone.failed.map(f => f.id).sort().join() === [lost, lostBpm].sort().join(), 'every edit of a missing file fails');
+  } finally {
+    database.cleanup();
+    fs.rmSync(folder, { recursive: true, force: true });
+  }
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
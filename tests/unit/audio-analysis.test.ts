@@ -0,0 +1,109 @@
+/**
+ * Audio analysis in the worker thread: a WAV file written to a temp dir is
+ * decoded and measured off the main thread, jobs queue behind each other, and
+ * a file that fails to decode rejects only its own job.
+ * Run via: npx tsx tests/unit/audio-analysis.test.ts
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { analyzeAudioFile, runAnalysis, stopAnalysisWorker } from '../../lib/audio-analysis';
+import { assert, assertClose, assertThrows, finish } from '../assert';
+
+const SAMPLE_RATE = 22050;
+const BPM = 120;
+const SECONDS = 20;
+
+/** Kicks on every beat over a quiet A, the same in both channels */
+function renderTrack(): Float32Array {
+  const out = new Float32Array(SAMPLE_RATE * SECONDS);
+  const beat = Math.round((60 / BPM) * SAMPLE_RATE);
+  for (let i = 0; i < out.length; i++) {
+    const t = i % beat;
+    out[i] = 0.1 * Math.sin((2 * Math.PI * 220 * i) / SAMPLE_RATE)
+      + 0.7 * Math.sin((2 * Math.PI * (60 + 80 * Math.exp(-t / 400)) * t) / SAMPLE_RATE) * Math.exp(-t / 1500);
+  }
+  return out;
+}
+
+/** 16-bit stereo PCM WAV */
+function wavFile(samples: Float32Array): Buffer {
+  const data = Buffer.alloc(samples.length * 4);
+  samples.forEach((v, i) => {
+    const pcm = Math.round(Math.max(-1, Math.min(1, v)) * 32767);
+    data.writeInt16LE(pcm, i * 4);
+    data.writeInt16LE(pcm, i * 4 + 2);
+  });
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'latin1');
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVEfmt ', 8, 'latin1');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(2, 22);
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * 4, 28);
+  header.writeUInt16LE(4, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'latin1');
+  header.writeUInt32LE(data.length, 40);
+  return Buffer.concat([header, data]);
+}
+
+async function main() {
+  const samples = renderTrack();
+
+  // ── 1. Measuring ────────────────────────────────────────────────
+  console.log('1) Measuring decoded audio…');
+  const audio = { samples, channels: [samples, samples], sampleRate: SAMPLE_RATE, duration: SECONDS };
+  const plain = runAnalysis(audio, {});
+  assert(plain.loudness !== null && Object.keys(plain).sort().join() === 'duration,loudness', 'loudness always, nothing else unasked');
+  const energy = runAnalysis(audio, { energy: { bpm: null } });
+  assertClose(energy.energy?.bpm, BPM, 0.5, 'energy without a BPM detects one first');
+
+  // ── 2. Worker ───────────────────────────────────────────────────
+  console.log('\n2) Analysing files in the worker…');
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'musicky-analysis-'));
+  try {
+    const file = path.join(dir, 'track.wav');
+    fs.writeFileSync(file, wavFile(samples));
+    const missing = path.join(dir, 'missing.wav');
+    const broken = path.join(dir, 'broken.wav');
+    fs.writeFileSync(broken, Buffer.from('not audio at all'));
+
+    // Queued together: each settles on its own
+    const [result, gone, garbage, again] = await Promise.allSettled([
+      analyzeAudioFile(file, { bpm: true, waveform: true }),
+      analyzeAudioFile(missing, { bpm: true }),
+      analyzeAudioFile(broken, { bpm: true }),
+      analyzeAudioFile(file, { key: true }),
+    ]);
+    assert(result.status === 'fulfilled', 'file analysed');
+    if (result.status === 'fulfilled') {
+      const { value } = result;
+      assertClose(value.duration, SECONDS, 0.01, 'duration');
+      assertClose(value.bpm?.bpm, BPM, 0.5, 'tempo detected in the worker');
+      assert(value.loudness !== null && value.loudness.truePeakDb < 0, `loudness measured (${value.loudness?.integratedLufs} LUFS)`);
+      assert(value.waveform?.levels[0].peak.length === SECONDS * 50, 'waveform computed');
+      assert(value.key === undefined, 'only what was asked for');
+    }
+    assert(gone.status === 'rejected' && /ENOENT/.test(String(gone.reason)), 'missing file rejected');
+    assert(garbage.status === 'rejected' && /Failed to decode audio/.test(String(garbage.reason)), 'undecodable file rejected');
+    assert(again.status === 'fulfilled' && again.value.key !== undefined, 'jobs after a failure still run');
+
+    await stopAnalysisWorker();
+    const restarted = await analyzeAudioFile(file);
+    assert(restarted.loudness !== null, 'a stopped worker starts again on the next job');
+    await assertThrows(() => analyzeAudioFile(missing), 'errors still come back from the new worker', /ENOENT/);
+  } finally {
+    await stopAnalysisWorker();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
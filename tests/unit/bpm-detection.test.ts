@@ -0,0 +1,87 @@
+/**
+ * Tempo detection on synthetic drum patterns: four-on-the-floor, drum & bass
+ * without hats (which fits half time nearly as well), a dotted 3:2 pattern,
+ * and material with no tempo to find.
+ * Run via: npx tsx tests/unit/bpm-detection.test.ts
+ */
+import { detectBpm, BPM_WRITE_BACK_CONFIDENCE } from '../../lib/bpm-detection';
+import { assert, finish } from '../assert';
+
+const SAMPLE_RATE = 22050;
+
+type Hit = 'kick' | 'snare';
+
+/** Deterministic noise so every run renders the same snares */
+function noise(seed: number): () => number {
+  let state = seed;
+  return () => ((state = (state * 16807) % 2147483647) / 2147483647) * 2 - 1;
+}
+
+/** Repeat a one-bar pattern (positions in beats) at `bpm`: swept-sine kicks, noise-burst snares */
+function renderPattern(bpm: number, pattern: [number, Hit][], seconds = 30): Float32Array {
+  const out = new Float32Array(SAMPLE_RATE * seconds);
+  const beatSeconds = 60 / bpm;
+  const random = noise(1);
+  for (let bar = 0; bar * 4 * beatSeconds < seconds; bar++) {
+    for (const [beat, hit] of pattern) {
+      const start = Math.floor((bar * 4 + beat) * beatSeconds * SAMPLE_RATE);
+      const length = Math.floor(SAMPLE_RATE * (hit === 'kick' ? 0.15 : 0.12));
+      for (let i = 0; i < length && start + i < out.length; i++) {
+        const envelope = Math.exp(-i / (length / 5));
+        const sound = hit === 'kick'
+          ? Math.sin((2 * Math.PI * (60 + 80 * Math.exp(-i / 400)) * i) / SAMPLE_RATE)
+          : random() * 0.6;
+        out[start + i] += sound * envelope;
+      }
+    }
+  }
+  return out;
+}
+
+const FOUR_ON_THE_FLOOR: [number, Hit][] = [[0, 'kick'], [1, 'kick'], [2, 'kick'], [3, 'kick']];
+const DRUM_AND_BASS: [number, Hit][] = [[0, 'kick'], [1, 'snare'], [2.5, 'kick'], [3, 'snare']];
+const DOTTED: [number, Hit][] = [[0, 'kick'], [1.5, 'kick'], [3, 'kick']];
+
+const near = (a: number, b: number) => Math.abs(a - b) < 0.5;
+
+async function main() {
+  // ── 1. Four-on-the-floor ────────────────────────────────────────
+  console.log('1) Four-on-the-floor…');
+  for (const bpm of [70, 120, 128, 174]) {
+    const estimate = detectBpm(renderPattern(bpm, FOUR_ON_THE_FLOOR), SAMPLE_RATE);
+    assert(estimate !== null && near(estimate.bpm, bpm), `${bpm} BPM read as ${estimate?.bpm}`);
+    assert((estimate?.confidence ?? 0) >= BPM_WRITE_BACK_CONFIDENCE && estimate?.alternatives.length === 0,
+      `${bpm} BPM is confident enough to write back (${estimate?.confidence})`);
+  }
+
+  // ── 2. Drum & bass without hats ─────────────────────────────────
+  console.log('\n2) Drum & bass pattern, which also fits half time…');
+  for (const bpm of [150, 165, 170, 174, 178]) {
+    const estimate = detectBpm(renderPattern(bpm, DRUM_AND_BASS), SAMPLE_RATE);
+    assert(estimate !== null && near(estimate.bpm, bpm), `${bpm} BPM read as ${estimate?.bpm}, not half time`);
+    assert(estimate?.alternatives.some(alt => near(alt, bpm / 2)) === true, `half time listed as an alternative (${estimate?.alternatives})`);
+    assert((estimate?.confidence ?? 1) < BPM_WRITE_BACK_CONFIDENCE, `contested reading not written back (${estimate?.confidence})`);
+  }
+
+  // ── 3. Dotted rhythm ────────────────────────────────────────────
+  console.log('\n3) Kicks on dotted quarters…');
+  for (const bpm of [120, 140]) {
+    const estimate = detectBpm(renderPattern(bpm, DOTTED), SAMPLE_RATE);
+    assert(estimate !== null && near(estimate.bpm, bpm), `${bpm} BPM not misread at 2:3 (${estimate?.bpm})`);
+  }
+
+  // ── 4. Nothing to find ──────────────────────────────────────────
+  console.log('\n4) Silence, noise and short clips…');
+  assert(detectBpm(new Float32Array(SAMPLE_RATE * 20), SAMPLE_RATE) === null, 'silence has no tempo');
+  const random = noise(7);
+  const hiss = Float32Array.from({ length: SAMPLE_RATE * 20 }, () => random() * 0.3);
+  assert(detectBpm(hiss, SAMPLE_RATE) === null, 'steady noise has no tempo');
+  assert(detectBpm(renderPattern(128, FOUR_ON_THE_FLOOR, 2), SAMPLE_RATE) === null, 'a two-second clip is too short to call');
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
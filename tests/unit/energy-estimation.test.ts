@@ -0,0 +1,90 @@
+/**
+ * Energy estimation on synthetic tracks: a quiet, sparse ambient bed against
+ * a loud, busy club pattern, and calibration of the model against tagged
+ * tracks.
+ * Run via: npx tsx tests/unit/energy-estimation.test.ts
+ */
+import {
+  energyFeatures, estimateEnergy, calibrateEnergy, DEFAULT_ENERGY_CALIBRATION, MIN_CALIBRATION_SAMPLES, type EnergyFeatures,
+} from '../../lib/energy-estimation';
+import { assert, finish } from '../assert';
+
+const SAMPLE_RATE = 22050;
+const SECONDS = 20;
+
+/** Deterministic noise so every run renders the same hats */
+function noise(seed: number): () => number {
+  let state = seed;
+  return () => ((state = (state * 16807) % 2147483647) / 2147483647) * 2 - 1;
+}
+
+/** A soft pad with a chime every two bars */
+function renderAmbient(): Float32Array {
+  const out = new Float32Array(SAMPLE_RATE * SECONDS);
+  for (let i = 0; i < out.length; i++) out[i] = 0.02 * Math.sin((2 * Math.PI * 220 * i) / SAMPLE_RATE);
+  for (let start = 0; start < out.length; start += 8 * SAMPLE_RATE) {
+    for (let i = 0; i < SAMPLE_RATE && start + i < out.length; i++) {
+      out[start + i] += 0.05 * Math.sin((2 * Math.PI * 880 * i) / SAMPLE_RATE) * Math.exp(-i / 4000);
+    }
+  }
+  return out;
+}
+
+/** Kicks on every beat and hats on every sixteenth at `bpm` */
+function renderClub(bpm: number): Float32Array {
+  const out = new Float32Array(SAMPLE_RATE * SECONDS);
+  const random = noise(5);
+  const sixteenth = Math.round((15 / bpm) * SAMPLE_RATE);
+  for (let step = 0; step * sixteenth < out.length; step++) {
+    const start = step * sixteenth;
+    for (let i = 0; i < sixteenth && start + i < out.length; i++) {
+      out[start + i] += 0.3 * random() * Math.exp(-i / 150);
+      if (step % 4 === 0) out[start + i] += 0.9 * Math.sin((2 * Math.PI * (50 + 90 * Math.exp(-i / 400)) * i) / SAMPLE_RATE) * Math.exp(-i / 1500);
+    }
+  }
+  return out;
+}
+
+async function main() {
+  // ── 1. Features ─────────────────────────────────────────────────
+  console.log('1) Measuring…');
+  const ambient = energyFeatures(renderAmbient(), SAMPLE_RATE, 90);
+  const club = energyFeatures(renderClub(128), SAMPLE_RATE, 128);
+  assert(club.loudnessDb > ambient.loudnessDb + 15, `club pattern louder (${club.loudnessDb.toFixed(1)} vs ${ambient.loudnessDb.toFixed(1)} dB)`);
+  assert(club.flux > ambient.flux, `club pattern has more flux (${club.flux.toFixed(2)} vs ${ambient.flux.toFixed(2)})`);
+  assert(club.onsetDensity > 3 && ambient.onsetDensity < 1, `onsets per second (${club.onsetDensity.toFixed(2)} vs ${ambient.onsetDensity.toFixed(2)})`);
+  const silent = energyFeatures(new Float32Array(SAMPLE_RATE * 5), SAMPLE_RATE, null);
+  assert(silent.loudnessDb === -60 && silent.onsetDensity === 0, 'silence sits at the floor');
+
+  // ── 2. Estimate ─────────────────────────────────────────────────
+  console.log('\n2) Estimating…');
+  const low = estimateEnergy(ambient);
+  const high = estimateEnergy(club);
+  assert(low <= 3 && high >= 7, `ambient ${low}, club ${high}`);
+  assert(estimateEnergy(silent) <= low, `silence no higher than the ambient bed (${estimateEnergy(silent)})`);
+
+  // ── 3. Calibration ──────────────────────────────────────────────
+  console.log('\n3) Calibrating against tagged tracks…');
+  // Every normalised feature at energy / 10, so a straight line fits them exactly
+  const tagged = (energy: number): { features: EnergyFeatures; energy: number } => ({
+    features: {
+      loudnessDb: -30 + 2.5 * energy,
+      flux: Math.expm1((energy / 10) * Math.log1p(100)),
+      onsetDensity: 0.8 * energy,
+      bpm: 60 + 12 * energy,
+    },
+    energy,
+  });
+  assert(calibrateEnergy([tagged(3), tagged(8)]) === DEFAULT_ENERGY_CALIBRATION, 'a handful of tracks keeps the defaults');
+  const library = Array.from({ length: MIN_CALIBRATION_SAMPLES * 2 }, (_, i) => tagged(1 + (i % 10)));
+  const calibration = calibrateEnergy(library);
+  assert(calibration.sampleCount === library.length && (calibration.rmse ?? Infinity) < 1, `fitted within a level (rmse ${calibration.rmse?.toFixed(2)})`);
+  assert(library.every(s => Math.abs(estimateEnergy(s.features, calibration) - s.energy) <= 1), 'tagged tracks estimated back within a level');
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,93 @@
+/**
+ * Fingerprint matching on synthetic melodies: the same music quieter, later,
+ * with a noise floor or at another sample rate still matches; a different
+ * melody doesn't, and only songs of about the same length are grouped.
+ * Run via: npx tsx tests/unit/fingerprint.test.ts
+ */
+import { computeFingerprint, compareFingerprints, groupDuplicates, MATCH_SIMILARITY } from '../../lib/fingerprint';
+import { assert, finish } from '../assert';
+
+const SAMPLE_RATE = 11025;
+const NOTE_SECONDS = 0.5;
+
+/** Deterministic noise so every run renders the same melody */
+function noise(seed: number): () => number {
+  let state = seed;
+  return () => ((state = (state * 16807) % 2147483647) / 2147483647) * 2 - 1;
+}
+
+interface Render {
+  sampleRate?: number;
+  gain?: number;
+  /** Seconds of silence before the first note */
+  lead?: number;
+  /** Noise floor amplitude */
+  hiss?: number;
+}
+
+/** 60 notes picked by `seed`, each a fundamental plus two harmonics */
+function renderMelody(seed: number, { sampleRate = SAMPLE_RATE, gain = 0.5, lead = 0, hiss = 0 }: Render = {}): Float32Array {
+  const pick = noise(seed);
+  const notes = Array.from({ length: 60 }, () => 48 + Math.floor(((pick() + 1) / 2) * 24));
+  const noteLength = Math.round(NOTE_SECONDS * sampleRate);
+  const start = Math.round(lead * sampleRate);
+  const out = new Float32Array(start + notes.length * noteLength);
+  const floor = noise(seed + 100);
+  notes.forEach((note, n) => {
+    const hz = 440 * Math.pow(2, (note - 69) / 12);
+    for (let i = 0; i < noteLength; i++) {
+      const t = i / sampleRate;
+      const tone = Math.sin(2 * Math.PI * hz * t) + 0.5 * Math.sin(4 * Math.PI * hz * t) + 0.25 * Math.sin(6 * Math.PI * hz * t);
+      out[start + n * noteLength + i] = gain * 0.5 * tone * Math.min(1, i / 100, (noteLength - i) / 100);
+    }
+  });
+  if (hiss > 0) for (let i = start; i < out.length; i++) out[i] += hiss * floor();
+  return out;
+}
+
+async function main() {
+  const original = computeFingerprint(renderMelody(1), SAMPLE_RATE);
+
+  // ── 1. Same recording ───────────────────────────────────────────
+  console.log('1) Copies of one recording…');
+  assert(Math.abs(original.duration - 30) < 0.1, `duration counted from the first sound (${original.duration})`);
+  const copies: [string, Float32Array, number][] = [
+    ['quieter', renderMelody(1, { gain: 0.1 }), SAMPLE_RATE],
+    ['after 1.5 s of silence', renderMelody(1, { lead: 1.5 }), SAMPLE_RATE],
+    ['with a noise floor', renderMelody(1, { hiss: 0.01 }), SAMPLE_RATE],
+    ['at 22.05 kHz', renderMelody(1, { sampleRate: 22050 }), 22050],
+  ];
+  for (const [label, samples, sampleRate] of copies) {
+    const copy = computeFingerprint(samples, sampleRate);
+    const similarity = compareFingerprints(original.words, copy.words);
+    assert(similarity >= MATCH_SIMILARITY, `${label} matches (${similarity})`);
+  }
+
+  // ── 2. Different recordings ─────────────────────────────────────
+  console.log('\n2) Another melody…');
+  const other = computeFingerprint(renderMelody(2), SAMPLE_RATE);
+  const similarity = compareFingerprints(original.words, other.words);
+  assert(similarity < MATCH_SIMILARITY, `different melody doesn't match (${similarity})`);
+
+  // ── 3. Grouping ─────────────────────────────────────────────────
+  console.log('\n3) Grouping duplicates…');
+  const quieter = computeFingerprint(renderMelody(1, { gain: 0.2 }), SAMPLE_RATE);
+  const groups = groupDuplicates([
+    { filePath: '/a.mp3', fingerprint: original },
+    { filePath: '/b.mp3', fingerprint: other },
+    { filePath: '/a-copy.flac', fingerprint: quieter },
+  ]);
+  assert(groups.length === 1 && groups[0].filePaths.sort().join() === '/a-copy.flac,/a.mp3', 'the two copies grouped, the other song left out');
+  const apart = groupDuplicates([
+    { filePath: '/a.mp3', fingerprint: original },
+    { filePath: '/a-copy.flac', fingerprint: { ...quieter, duration: quieter.duration + 10 } },
+  ]);
+  assert(apart.length === 0, 'songs of different lengths not compared');
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,124 @@
+/**
+ * FLAC Vorbis comment reader/writer: round-trip through a synthetic file,
+ * Musicky fields through MP3MetadataManager, and damaged input.
+ * Run via: npx tsx tests/unit/flac-tags.test.ts
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  readFlacComments, updateFlacComments, decodeVorbisCommentBlock, encodeVorbisCommentBlock,
+} from '../../lib/flac-tags';
+import { MP3MetadataManager } from '../../lib/mp3-metadata';
+import { assert, assertThrows, finish } from '../assert';
+
+const AUDIO = Buffer.from('\xff\xf8fake-audio-frames', 'latin1');
+
+function block(type: number, data: Buffer, last = false): Buffer {
+  const header = Buffer.alloc(4);
+  header[0] = (last ? 0x80 : 0) | type;
+  header.writeUIntBE(data.length, 1, 3);
+  return Buffer.concat([header, data]);
+}
+
+/** 44.1 kHz stereo 16-bit, one second */
+function streamInfo(): Buffer {
+  const data = Buffer.alloc(34);
+  data.writeUInt16BE(4096, 0);
+  data.writeUInt16BE(4096, 2);
+  const packed = (44100n << 44n) | (1n << 41n) | (15n << 36n) | 44100n;
+  data.writeBigUInt64BE(packed, 10);
+  return data;
+}
+
+function flacFile(comments: { key: string; value: string }[], opts: { id3Prefix?: boolean; padding?: number } = {}): Buffer {
+  const prefix = opts.id3Prefix
+    ? Buffer.concat([Buffer.from('ID3\x04\x00\x00\x00\x00\x00\x04', 'latin1'), Buffer.alloc(4)])
+    : Buffer.alloc(0);
+  return Buffer.concat([
+    prefix,
+    Buffer.from('fLaC', 'latin1'),
+    block(0, streamInfo()),
+    block(4, encodeVorbisCommentBlock({ vendor: 'test encoder', comments })),
+    block(6, Buffer.from('picture-bytes')),
+    block(1, Buffer.alloc(opts.padding ?? 256), true),
+    AUDIO,
+  ]);
+}
+
+async function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'musicky-flac-'));
+  try {
+    // ── 1. Block codec ──────────────────────────────────────────────
+    console.log('1) Vorbis comment block codec…');
+    const decoded = decodeVorbisCommentBlock(encodeVorbisCommentBlock({
+      vendor: 'v', comments: [{ key: 'title', value: 'Ünïcode = fine' }, { key: 'GENRE', value: 'Techno' }],
+    }));
+    assert(decoded.vendor === 'v', 'vendor survives');
+    assert(decoded.comments[0].key === 'TITLE' && decoded.comments[0].value === 'Ünïcode = fine', 'keys upper-cased, values kept byte-exact');
+    assert(decoded.comments.length === 2, 'every comment decoded');
+
+    // ── 2. File round-trip ──────────────────────────────────────────
+    console.log('\n2) Rewriting comments in a file…');
+    const file = path.join(dir, 'track.flac');
+    const original = flacFile([{ key: 'TITLE', value: 'Song' }, { key: 'GENRE', value: 'House' }]);
+    fs.writeFileSync(file, original);
+    await updateFlacComments(file, comments => [...comments, { key: 'MUSICKY_MOODS', value: 'dark' }]);
+    const after = fs.readFileSync(file);
+    const comments = (await readFlacComments(file)).comments;
+    assert(comments.some(c => c.key === 'MUSICKY_MOODS' && c.value === 'dark'), 'new comment reads back');
+    assert(comments.some(c => c.key === 'TITLE' && c.value === 'Song'), 'existing comment kept');
+    assert(after.subarray(after.length - AUDIO.length).equals(AUDIO), 'audio frames copied byte-for-byte');
+    assert(after.length === original.length, 'padding absorbs the growth, file size unchanged');
+    assert(after.includes(Buffer.from('picture-bytes')), 'PICTURE block kept');
+    assert(after.subarray(4, 8).equals(Buffer.from([0, 0, 0, 34])), 'STREAMINFO stays the first block');
+
+    // ── 3. Growth past the padding, ID3 prefix ──────────────────────
+    console.log('\n3) Outgrowing the padding with an ID3 prefix…');
+    const prefixed = path.join(dir, 'prefixed.flac');
+    fs.writeFileSync(prefixed, flacFile([], { id3Prefix: true, padding: 0 }));
+    const long = 'x'.repeat(10_000);
+    await updateFlacComments(prefixed, () => [{ key: 'COMMENT', value: long }]);
+    const grown = fs.readFileSync(prefixed);
+    assert(grown.subarray(0, 3).toString('latin1') === 'ID3', 'leading ID3 tag kept');
+    assert((await readFlacComments(prefixed)).comments[0]?.value === long, 'long comment reads back');
+    assert(grown.subarray(grown.length - AUDIO.length).equals(AUDIO), 'audio frames intact after growing');
+    assert(!fs.existsSync(`${prefixed}.musicky-tmp`), 'no temp file left behind');
+
+    // ── 4. Musicky tags through the metadata manager ────────────────
+    console.log('\n4) Writing Musicky tags to FLAC…');
+    const mgr = new MP3MetadataManager();
+    await mgr.writeTags(file, { genres: ['techno'], moods: ['dark', 'driving'] });
+    const tagged = (await readFlacComments(file)).comments;
+    assert(tagged.filter(c => c.key === 'GENRE').map(c => c.value).join() === 'House', "the file's own GENRE is left alone");
+    assert(tagged.some(c => c.key === 'MUSICKY_GENRES' && c.value.includes('techno')), 'genres stored in MUSICKY_GENRES');
+    const musick = await mgr.readMusickTags(file);
+    assert(musick?.moods?.join() === 'dark,driving', 'Musicky moods read back');
+    await mgr.writeTags(file, { moods: ['calm'] });
+    const rewritten = await mgr.readMusickTags(file);
+    assert(rewritten?.moods?.join() === 'calm' && !rewritten?.genres?.length, 'a second write replaces the Musicky fields');
+
+    // ── 5. Damaged input ────────────────────────────────────────────
+    console.log('\n5) Damaged input…');
+    const notFlac = path.join(dir, 'not.flac');
+    fs.writeFileSync(notFlac, Buffer.from('RIFF....WAVEfmt '));
+    await assertThrows(() => readFlacComments(notFlac), 'file without fLaC marker is rejected', /Not a FLAC file/);
+    const truncated = path.join(dir, 'truncated.flac');
+    fs.writeFileSync(truncated, original.subarray(0, 30));
+    await assertThrows(() => readFlacComments(truncated), 'truncated metadata is rejected', /Truncated/);
+    const badBlock = encodeVorbisCommentBlock({ vendor: 'v', comments: [{ key: 'A', value: 'b' }] });
+    badBlock.writeUInt32LE(99, badBlock.length - 7); // entry length past the end
+    await assertThrows(() => decodeVorbisCommentBlock(badBlock), 'comment length past the block is rejected', /Truncated Vorbis/);
+    await assertThrows(() => updateFlacComments(truncated, c => c), 'damaged file is not rewritten', /Truncated/);
+    assert(fs.readFileSync(truncated).length === 30, 'damaged file left untouched');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
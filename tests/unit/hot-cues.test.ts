@@ -0,0 +1,62 @@
+/**
+ * Hot cues and saved loops: placing Serato's cues and loops on the eight
+ * slots, and storage in song_hot_cues, where two slots may hold the same
+ * position.
+ * Run via: npx tsx tests/unit/hot-cues.test.ts
+ */
+import { hotCuesFromSerato, hotCuesToSerato, hotCuesToVdj, type HotCue } from '../../lib/hot-cues';
+import { useTempDatabase } from '../temp-db';
+import { assert, finish } from '../assert';
+
+const describe = (cues: HotCue[]) => cues.map(c => `${c.slot}@${c.position}${c.loopEnd != null ? `-${c.loopEnd}` : ''}`).join();
+
+async function main() {
+  // ── 1. Serato and VirtualDJ ─────────────────────────────────────
+  console.log('1) Placing Serato cues and loops on slots…');
+  const fromSerato = hotCuesFromSerato({
+    cues: [
+      { index: 0, position: 1, name: 'A', color: 'CC0000' },
+      { index: 1, position: 2, name: 'B', color: 'CC8800' },
+      { index: 9, position: 3, name: 'Pad 10', color: 'CC0000' },
+    ],
+    loops: [
+      { index: 1, start: 10, end: 12, name: 'Taken', locked: false },
+      { index: 3, start: 20, end: 24, name: 'Free', locked: true },
+    ],
+  });
+  assert(describe(fromSerato) === '1@1,2@2,3@10-12,4@20-24', `cues keep their pad, loops fill free slots (${describe(fromSerato)})`);
+  const toSerato = hotCuesToSerato(fromSerato);
+  assert(toSerato.cues.map(c => c.index).join() === '0,1' && toSerato.loops.map(l => l.index).join() === '2,3', 'back on Serato pads and loop slots');
+  assert(hotCuesToVdj(fromSerato).map(c => c.num).join() === '1,2', 'only plain cues go to VirtualDJ');
+
+  // ── 2. Storage ──────────────────────────────────────────────────
+  console.log('\n2) Storing hot cues…');
+  const database = useTempDatabase();
+  try {
+    await import('../../database/sqlite/schema/all');
+    const { getHotCues, setHotCues, deleteHotCue } = await import('../../database/sqlite/queries/song-cues');
+    const { renameSong } = await import('../../database/sqlite/queries/song-merge');
+
+    setHotCues('/song.mp3', [
+      { slot: 1, position: 16, name: 'Cue', loopEnd: null },
+      { slot: 5, position: 16, name: 'Loop', loopEnd: 24 },
+    ]);
+    assert(getHotCues('/song.mp3').map(c => c.slot).join() === '1,5', 'a cue and a loop on the same second both kept');
+    setHotCues('/song.mp3', [{ slot: 1, position: 48, name: '', loopEnd: null }]);
+    const replaced = getHotCues('/song.mp3');
+    assert(replaced[0].position === 48 && replaced[0].name === null && replaced[1].position === 16, 'setting a slot replaces only that slot');
+    deleteHotCue('/song.mp3', 5);
+    assert(getHotCues('/song.mp3').map(c => c.slot).join() === '1', 'slot cleared');
+    renameSong('/song.mp3', '/moved.mp3');
+    assert(getHotCues('/song.mp3').length === 0 && getHotCues('/moved.mp3').length === 1, 'hot cues follow a renamed file');
+  } finally {
+    database.cleanup();
+  }
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,74 @@
+/**
+ * Writing analysis results into MP3 files: each write-back replaces its own
+ * ID3 frame and keeps every other frame — title, artwork, Musicky TXXX
+ * fields and the other analysis results.
+ * Run via: npx tsx tests/unit/id3-write-back.test.ts
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import NodeID3 from 'node-id3';
+import { MP3MetadataManager } from '../../lib/mp3-metadata';
+import { assert, finish } from '../assert';
+
+const ARTWORK = Buffer.from([0x89, 0x50, 0x4e, 0x47, 1, 2, 3]);
+
+/** A tagged MP3 (tag only) as Mixed In Key and Musicky leave it */
+function writeSong(filePath: string): void {
+  fs.writeFileSync(filePath, NodeID3.create({
+    title: 'Track',
+    artist: 'Tester',
+    bpm: '120',
+    initialKey: 'Am',
+    userDefinedText: [
+      { description: 'µ:genres', value: 'techno, acid' },
+      // As some taggers spell it
+      { description: 'replaygain_track_gain', value: '-3.10 dB' },
+    ],
+    image: { mime: 'image/png', type: { id: 3, name: 'front cover' }, description: 'Cover', imageBuffer: ARTWORK },
+  }));
+}
+
+function describe(filePath: string): string {
+  const tags = NodeID3.read(filePath);
+  const texts = (tags.userDefinedText ?? []).map(t => `${t.description}=${t.value}`).join('|');
+  const image = typeof tags.image === 'object' ? tags.image.imageBuffer : undefined;
+  return `${tags.title}/${tags.artist}/${tags.bpm}/${tags.initialKey}/${texts}/${image?.equals(ARTWORK) ? 'cover' : 'no cover'}`;
+}
+
+async function main() {
+  const manager = new MP3MetadataManager();
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'musicky-id3-'));
+  try {
+    // ── 1. Tempo ────────────────────────────────────────────────────
+    console.log('1) Writing the tempo…');
+    const file = path.join(dir, 'track.mp3');
+    writeSong(file);
+    await manager.writeBpm(file, 127.6);
+    const afterBpm = describe(file);
+    assert(afterBpm === 'Track/Tester/128/Am/µ:genres=techno, acid|replaygain_track_gain=-3.10 dB/cover', `TBPM replaced, everything else kept (${afterBpm})`);
+
+    // ── 2. Key ──────────────────────────────────────────────────────
+    console.log('\n2) Writing the key…');
+    await manager.writeInitialKey(file, 'F#m');
+    const afterKey = describe(file);
+    assert(afterKey === 'Track/Tester/128/F#m/µ:genres=techno, acid|replaygain_track_gain=-3.10 dB/cover', `TKEY replaced, everything else kept (${afterKey})`);
+
+    // ── 3. ReplayGain ───────────────────────────────────────────────
+    console.log('\n3) Writing the ReplayGain track gain…');
+    await manager.writeReplayGain(file, '-6.52 dB');
+    const afterGain = describe(file);
+    assert(afterGain === 'Track/Tester/128/F#m/µ:genres=techno, acid|REPLAYGAIN_TRACK_GAIN=-6.52 dB/cover',
+      `the gain replaced whatever its spelling, everything else kept (${afterGain})`);
+    assert((await manager.readMetadata(file)).replayGainTrackGain === -6.52, 'the new gain reads back');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
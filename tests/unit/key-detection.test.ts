@@ -0,0 +1,63 @@
+/**
+ * Key detection on synthetic chord progressions: a cadence in a major and a
+ * minor key, the same music transposed, and material with no pitch to find.
+ * Run via: npx tsx tests/unit/key-detection.test.ts
+ */
+import { detectKey, keyFromChroma } from '../../lib/key-detection';
+import { assert, finish } from '../assert';
+
+const SAMPLE_RATE = 11025;
+const CHORD_SECONDS = 2;
+
+/** MIDI note numbers of each chord, played in turn and looped for `seconds` */
+function renderChords(chords: number[][], seconds = 24): Float32Array {
+  const out = new Float32Array(SAMPLE_RATE * seconds);
+  const chordLength = CHORD_SECONDS * SAMPLE_RATE;
+  for (let start = 0, c = 0; start < out.length; start += chordLength, c++) {
+    for (const note of chords[c % chords.length]) {
+      const hz = 440 * Math.pow(2, (note - 69) / 12);
+      for (let i = 0; i < chordLength && start + i < out.length; i++) {
+        // Fundamental plus a weaker octave, faded in and out so chord changes don't click
+        const fade = Math.min(1, i / 200, (chordLength - i) / 200);
+        out[start + i] += fade * 0.15 * (Math.sin((2 * Math.PI * hz * i) / SAMPLE_RATE) + 0.4 * Math.sin((4 * Math.PI * hz * i) / SAMPLE_RATE));
+      }
+    }
+  }
+  return out;
+}
+
+const transpose = (chords: number[][], semitones: number) => chords.map(chord => chord.map(note => note + semitones));
+
+/** I–IV–V–I in C major, with the tonic in the bass */
+const C_MAJOR = [[48, 60, 64, 67], [53, 60, 65, 69], [55, 59, 62, 67], [48, 60, 64, 67]];
+/** i–iv–V–i in A minor; the dominant's G# is what tells it from C major */
+const A_MINOR = [[45, 57, 60, 64], [50, 57, 62, 65], [52, 56, 59, 64], [45, 57, 60, 64]];
+
+async function main() {
+  // ── 1. Major and minor ──────────────────────────────────────────
+  console.log('1) Cadences…');
+  const major = detectKey(renderChords(C_MAJOR), SAMPLE_RATE);
+  assert(major?.key === 'C' && major.camelotKey === '8B', `C major read as ${major?.key}`);
+  const minor = detectKey(renderChords(A_MINOR), SAMPLE_RATE);
+  assert(minor?.key === 'Am' && minor.camelotKey === '8A', `A minor read as ${minor?.key}`);
+  assert((major?.confidence ?? 0) > 0.3 && (minor?.confidence ?? 0) > 0.3, `clear cadences are confident (${major?.confidence}, ${minor?.confidence})`);
+
+  // ── 2. Transposed ───────────────────────────────────────────────
+  console.log('\n2) The same music in other keys…');
+  const fSharp = detectKey(renderChords(transpose(C_MAJOR, 6)), SAMPLE_RATE);
+  assert(fSharp?.key === 'F#', `up a tritone reads F# (${fSharp?.key})`);
+  const eFlatMinor = detectKey(renderChords(transpose(A_MINOR, 6)), SAMPLE_RATE);
+  assert(eFlatMinor?.key === 'Ebm', `A minor up a tritone reads Ebm (${eFlatMinor?.key})`);
+
+  // ── 3. Nothing to find ──────────────────────────────────────────
+  console.log('\n3) Unpitched material…');
+  assert(detectKey(new Float32Array(SAMPLE_RATE * 10), SAMPLE_RATE) === null, 'silence has no key');
+  assert(keyFromChroma(new Array(12).fill(1)) === null, 'a flat chroma has no key');
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,66 @@
+/**
+ * Loudness measurement on synthetic signals: 1 kHz sines, whose K-weighted
+ * level BS.1770 pins down exactly, the relative gate ignoring a quiet
+ * passage, inter-sample peaks, and the gains derived from a measurement.
+ * Run via: npx tsx tests/unit/loudness.test.ts
+ */
+import {
+  integratedLoudness, truePeak, measureLoudness, replayGainDb, formatReplayGain, previewGainDb,
+} from '../../lib/loudness';
+import { assert, assertClose, finish } from '../assert';
+
+/** `seconds` of a sine at `amplitude` (of full scale) */
+function sine(sampleRate: number, hz: number, amplitude: number, seconds: number, phase = 0): Float32Array {
+  const out = new Float32Array(Math.round(sampleRate * seconds));
+  for (let i = 0; i < out.length; i++) out[i] = amplitude * Math.sin((2 * Math.PI * hz * i) / sampleRate + phase);
+  return out;
+}
+
+const dbToAmplitude = (db: number) => Math.pow(10, db / 20);
+
+async function main() {
+  // ── 1. Integrated loudness ──────────────────────────────────────
+  console.log('1) 1 kHz sines…');
+  for (const sampleRate of [44100, 48000]) {
+    // A full-scale 1 kHz sine in one channel is -3.01 LUFS; in both, +3 dB on that
+    const mono = integratedLoudness([sine(sampleRate, 1000, 1, 5)], sampleRate);
+    assertClose(mono, -3.01, 0.1, `full scale, one channel, ${sampleRate} Hz`);
+    const quiet = sine(sampleRate, 1000, dbToAmplitude(-20), 5);
+    assertClose(integratedLoudness([quiet, quiet], sampleRate), -20, 0.1, `-20 dBFS in both channels, ${sampleRate} Hz`);
+  }
+
+  // ── 2. Gating ───────────────────────────────────────────────────
+  console.log('\n2) Gating…');
+  const sampleRate = 48000;
+  const loud = sine(sampleRate, 1000, dbToAmplitude(-20), 10);
+  const soft = sine(sampleRate, 1000, dbToAmplitude(-45), 10);
+  const gated = new Float32Array(loud.length + soft.length);
+  gated.set(loud);
+  gated.set(soft, loud.length);
+  assertClose(integratedLoudness([gated, gated], sampleRate), -20, 0.3, 'a passage 25 LU down falls under the relative gate');
+  assert(integratedLoudness([new Float32Array(sampleRate * 5)], sampleRate) === null, 'silence has no loudness');
+  assert(integratedLoudness([sine(sampleRate, 1000, 0.5, 0.3)], sampleRate) === null, 'shorter than one block has no loudness');
+  assert(measureLoudness([new Float32Array(sampleRate)], sampleRate) === null, 'no measurement for silence');
+
+  // ── 3. True peak ────────────────────────────────────────────────
+  console.log('\n3) True peak…');
+  assertClose(truePeak([sine(44100, 1000, 0.5, 1)]), -6.02, 0.05, 'sine peak at -6 dB');
+  // A quarter of the sample rate, 45° off: every sample lands at 0.707 of the crest
+  const between = sine(44100, 11025, 0.9, 1, Math.PI / 4);
+  assertClose(truePeak([between]), 20 * Math.log10(0.9), 0.3, 'crest between samples found by oversampling');
+  assert(truePeak([new Float32Array(100)]) === -Infinity, 'silence peaks at -∞');
+
+  // ── 4. Gains ────────────────────────────────────────────────────
+  console.log('\n4) Gains…');
+  assert(replayGainDb(-8) === -10 && formatReplayGain(replayGainDb(-24.5)) === '6.50 dB', 'ReplayGain against -18 LUFS');
+  assert(previewGainDb({ integratedLufs: -8, truePeakDb: -0.1 }) === -6, 'loud master turned down to the preview target');
+  assert(previewGainDb({ integratedLufs: -24, truePeakDb: -3 }) === 2, 'quiet track boosted only as far as its peak allows');
+  assert(previewGainDb({ integratedLufs: -40, truePeakDb: -30 }) === 12, 'boost capped');
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
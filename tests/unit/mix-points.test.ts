@@ -0,0 +1,88 @@
+/**
+ * Mix-point suggestions: detection on synthetic tracks (hats-only intro and
+ * outro around a kick-driven body), and storage in song_mix_points, where
+ * points falling on the same second — a track that is full-energy from its
+ * first phrase — are all kept.
+ * Run via: npx tsx tests/unit/mix-points.test.ts
+ */
+import { detectMixPoints, mixPointCues } from '../../lib/mix-points';
+import { useTempDatabase } from '../temp-db';
+import { assert, assertClose, finish } from '../assert';
+
+const SAMPLE_RATE = 11025;
+const BPM = 120;
+/** 32 beats at 120 BPM */
+const PHRASE_SECONDS = 16;
+
+/** Deterministic noise so every run renders the same hats */
+function noise(seed: number): () => number {
+  let state = seed;
+  return () => ((state = (state * 16807) % 2147483647) / 2147483647) * 2 - 1;
+}
+
+/**
+ * Silence, then phrases that are either hats only or kick plus hats, then
+ * silence. Hats sit on every half beat, kicks on every beat.
+ */
+function renderTrack(leadSeconds: number, phrases: ('hats' | 'full')[], tailSeconds: number): Float32Array {
+  const out = new Float32Array(Math.round((leadSeconds + phrases.length * PHRASE_SECONDS + tailSeconds) * SAMPLE_RATE));
+  const random = noise(3);
+  const halfBeat = Math.round((30 / BPM) * SAMPLE_RATE);
+  phrases.forEach((kind, p) => {
+    const phraseStart = Math.round((leadSeconds + p * PHRASE_SECONDS) * SAMPLE_RATE);
+    const phraseEnd = phraseStart + PHRASE_SECONDS * SAMPLE_RATE;
+    for (let step = 0; phraseStart + step * halfBeat < phraseEnd; step++) {
+      const start = phraseStart + step * halfBeat;
+      for (let i = 0; i < halfBeat && start + i < phraseEnd; i++) {
+        out[start + i] += random() * 0.1 * Math.exp(-i / 300);
+        if (kind === 'full' && step % 2 === 0) out[start + i] += 0.8 * Math.sin((2 * Math.PI * 55 * i) / SAMPLE_RATE) * Math.exp(-i / 2000);
+      }
+    }
+  });
+  return out;
+}
+
+async function main() {
+  // ── 1. Detection ────────────────────────────────────────────────
+  console.log('1) A track with a hats-only intro and outro…');
+  const points = detectMixPoints(renderTrack(1, ['hats', 'hats', 'full', 'full', 'full', 'full', 'hats', 'hats'], 1), SAMPLE_RATE, BPM);
+  assert(points !== null, 'mix points found');
+  assertClose(points!.audioStart, 1, 0.1, 'audio starts after the leading second of silence');
+  assertClose(points!.introEnd ?? 0, 1 + 2 * PHRASE_SECONDS, 0.1, 'intro ends where the kick comes in');
+  assertClose(points!.outroStart ?? 0, 1 + 6 * PHRASE_SECONDS, 0.1, 'outro starts where the kick drops out');
+  assertClose(points!.audioEnd, 1 + 8 * PHRASE_SECONDS, 0.3, 'audio ends before the trailing silence');
+
+  console.log('\n2) A track that is full-energy from the first phrase…');
+  const noIntro = detectMixPoints(renderTrack(0, ['full', 'full', 'full', 'hats'], 0), SAMPLE_RATE, BPM);
+  assert(noIntro !== null && noIntro.introEnd === noIntro.audioStart, 'intro ends where the audio starts');
+  assert(mixPointCues(noIntro!).length === 4, 'all four points shown as markers');
+  assert(detectMixPoints(new Float32Array(SAMPLE_RATE * 10), SAMPLE_RATE, BPM) === null, 'silence has no mix points');
+
+  // ── 3. Storage ──────────────────────────────────────────────────
+  console.log('\n3) Storing mix points…');
+  const database = useTempDatabase();
+  try {
+    await import('../../database/sqlite/schema/all');
+    const { saveMixPoints, getMixPoints } = await import('../../database/sqlite/queries/audio-features');
+    const { renameSong } = await import('../../database/sqlite/queries/song-merge');
+
+    saveMixPoints('/song.mp3', noIntro);
+    const stored = getMixPoints('/song.mp3');
+    assert(JSON.stringify(stored) === JSON.stringify(noIntro), 'coincident intro end and audio start both kept');
+    saveMixPoints('/song.mp3', points);
+    assert(JSON.stringify(getMixPoints('/song.mp3')) === JSON.stringify(points), 're-analysis replaces the points');
+    renameSong('/song.mp3', '/moved.mp3');
+    assert(getMixPoints('/song.mp3') === null && getMixPoints('/moved.mp3') !== null, 'mix points follow a renamed file');
+    saveMixPoints('/moved.mp3', null);
+    assert(getMixPoints('/moved.mp3') === null, 'no points found, none stored');
+  } finally {
+    database.cleanup();
+  }
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,67 @@
+/**
+ * The library cache across rescans: values read from tags are marked as
+ * such, and a detected BPM or key or a manual energy override survives a
+ * rescan of a file that still has no tag for it. Play counts come with the
+ * cache rows.
+ * Run via: npx tsx tests/unit/mp3-cache.test.ts
+ */
+import { useTempDatabase } from '../temp-db';
+import { assert, finish } from '../assert';
+
+async function main() {
+  const database = useTempDatabase();
+  try {
+    await import('../../database/sqlite/schema/all');
+    const {
+      insertMP3Cache, getMP3CacheByPath, setDetectedBpm, setDetectedKey, setEnergyLevel,
+      searchMP3Cache,
+    } = await import('../../database/sqlite/queries/dj-sets');
+    const { recordListen } = await import('../../database/sqlite/queries/play-history');
+
+    // ── 1. Tagged values ────────────────────────────────────────────
+    console.log('1) A file with BPM, key and energy tags…');
+    insertMP3Cache({ file_path: '/tagged.mp3', filename: 'tagged.mp3', bpm: 128, key: 'Am', camelot_key: '8A', energy_level: 7 });
+    const tagged = getMP3CacheByPath('/tagged.mp3');
+    assert(tagged?.bpm === 128 && tagged?.bpm_source === 'tag', 'BPM marked as from the tag');
+    assert(tagged?.camelot_key === '8A' && tagged?.key_source === 'tag', 'key marked as from the tag');
+    assert(tagged?.energy_level === 7 && tagged?.energy_source === 'tag', 'energy marked as from the tag');
+
+    // ── 2. Rescans ──────────────────────────────────────────────────
+    console.log('\n2) Rescanning an untagged file after analysis…');
+    insertMP3Cache({ file_path: '/plain.mp3', filename: 'plain.mp3', title: 'Before' });
+    const plain = getMP3CacheByPath('/plain.mp3');
+    assert(plain?.bpm == null && plain?.bpm_source == null && plain?.energy_source == null, 'nothing read, no source');
+    setDetectedBpm('/plain.mp3', 174, 0.9);
+    setDetectedKey('/plain.mp3', 'F#m', '11A', 0.7);
+    setEnergyLevel('/plain.mp3', 9, 'manual');
+    insertMP3Cache({ file_path: '/plain.mp3', filename: 'plain.mp3', title: 'After', energy_level: 5 });
+    const rescanned = getMP3CacheByPath('/plain.mp3');
+    assert(rescanned?.title === 'After', 'tag data refreshed');
+    assert(rescanned?.bpm === 174 && rescanned?.bpm_source === 'detected' && rescanned?.bpm_confidence === 0.9, 'detected BPM kept');
+    assert(rescanned?.camelot_key === '11A' && rescanned?.key_source === 'detected', 'detected key kept');
+    assert(rescanned?.energy_level === 9 && rescanned?.energy_source === 'manual', 'manual energy beats the new tag');
+
+    insertMP3Cache({ file_path: '/plain.mp3', filename: 'plain.mp3', bpm: 87 });
+    const retagged = getMP3CacheByPath('/plain.mp3');
+    assert(retagged?.bpm === 87 && retagged?.bpm_source === 'tag' && retagged?.bpm_confidence == null, 'a new TBPM tag replaces the detected BPM');
+
+    // ── 3. Play counts ──────────────────────────────────────────────
+    console.log('\n3) Play counts on cache rows…');
+    recordListen('/plain.mp3', 200, 'play');
+    recordListen('/plain.mp3', 180, 'play');
+    recordListen('/plain.mp3', 5, 'skip');
+    const played = getMP3CacheByPath('/plain.mp3');
+    assert(played?.play_count === 2 && played?.skip_count === 1 && played?.last_played != null, 'plays and skips counted');
+    const unplayed = searchMP3Cache('tagged').find(r => r.file_path === '/tagged.mp3');
+    assert(unplayed?.play_count === 0 && unplayed?.skip_count === 0 && unplayed?.last_played == null, 'an unplayed song counts zero in search');
+  } finally {
+    database.cleanup();
+  }
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,170 @@
+/**
+ * MP4/M4A iTunes-atom reader/writer: round-trip through synthetic files with
+ * the moov atom before and after the media data, Musicky fields and the
+ * tempo through MP3MetadataManager, and damaged input.
+ * Run via: npx tsx tests/unit/mp4-tags.test.ts
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { readMp4TextItems, updateMp4TextItems } from '../../lib/mp4-tags';
+import { MP3MetadataManager } from '../../lib/mp3-metadata';
+import { assert, assertThrows, finish } from '../assert';
+
+const MEDIA = Buffer.from('chunk-one|chunk-two|');
+
+function atom(type: string, ...payload: Buffer[]): Buffer {
+  const body = Buffer.concat(payload);
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(8 + body.length, 0);
+  head.write(type, 4, 'latin1');
+  return Buffer.concat([head, body]);
+}
+
+function textItem(type: string, value: string): Buffer {
+  const typeAndLocale = Buffer.alloc(8);
+  typeAndLocale.writeUInt32BE(1, 0);
+  return atom(type, atom('data', typeAndLocale, Buffer.from(value, 'utf8')));
+}
+
+/** A tmpo item as iTunes writes it: big-endian uint16, data type 0x15 */
+function tempoItem(bpm: number, dataType = 0x15): Buffer {
+  const typeAndLocale = Buffer.alloc(8);
+  typeAndLocale.writeUInt32BE(dataType, 0);
+  const value = Buffer.alloc(2);
+  value.writeUInt16BE(bpm, 0);
+  return atom('tmpo', atom('data', typeAndLocale, value));
+}
+
+/** A binary (type 0) track-number item that must survive rewrites untouched */
+function trackNumber(): Buffer {
+  return atom('trkn', atom('data', Buffer.alloc(8), Buffer.from([0, 0, 0, 3, 0, 12, 0, 0])));
+}
+
+function stco(offsets: number[]): Buffer {
+  const data = Buffer.alloc(8 + offsets.length * 4);
+  data.writeUInt32BE(offsets.length, 4);
+  offsets.forEach((o, i) => data.writeUInt32BE(o, 8 + i * 4));
+  return atom('stco', data);
+}
+
+/** ftyp, moov (with chunk offsets into mdat) and mdat, moov first or last */
+function m4aFile(moovFirst: boolean): Buffer {
+  const ftyp = atom('ftyp', Buffer.from('M4A \0\0\0\0M4A mp42'));
+  const ilst = atom('ilst', textItem('©nam', 'Song'), textItem('©gen', 'House'), trackNumber());
+  const hdlr = atom('hdlr', Buffer.concat([Buffer.alloc(8), Buffer.from('mdirappl'), Buffer.alloc(9)]));
+  const udta = atom('udta', atom('meta', Buffer.alloc(4), hdlr, ilst));
+  const moovFor = (mdatStart: number) => atom('moov',
+    atom('trak', atom('mdia', atom('minf', atom('stbl', stco([mdatStart + 8, mdatStart + 8 + 10]))))),
+    udta,
+  );
+  const mdat = atom('mdat', MEDIA);
+  if (!moovFirst) return Buffer.concat([ftyp, mdat, moovFor(ftyp.length)]);
+  const moovSize = moovFor(0).length;
+  return Buffer.concat([ftyp, moovFor(ftyp.length + moovSize), mdat]);
+}
+
+/** Media bytes each chunk offset in the file points at */
+function chunksAt(file: Buffer): string[] {
+  const at = file.indexOf('stco');
+  const count = file.readUInt32BE(at + 8);
+  return Array.from({ length: count }, (_, i) => file.subarray(file.readUInt32BE(at + 12 + i * 4)).toString('latin1', 0, 9));
+}
+
+async function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'musicky-mp4-'));
+  try {
+    for (const moovFirst of [true, false]) {
+      // ── 1. Round-trip ─────────────────────────────────────────────
+      console.log(`\n1) Round-trip with moov ${moovFirst ? 'before' : 'after'} mdat…`);
+      const file = path.join(dir, `track-${moovFirst ? 'front' : 'back'}.m4a`);
+      fs.writeFileSync(file, m4aFile(moovFirst));
+      assert(chunksAt(fs.readFileSync(file)).join() === 'chunk-one,chunk-two', 'fixture chunk offsets are right');
+
+      const items = await readMp4TextItems(file);
+      assert(items.some(i => i.key === '©nam' && i.value === 'Song'), 'standard text atom read');
+      assert(!items.some(i => i.key === 'trkn'), 'binary items are not exposed as text');
+
+      await updateMp4TextItems(file, current => [
+        ...current,
+        { key: '----:com.musicky:moods', value: 'dark, driving' },
+        { key: '©cmt', value: 'Ünïcode comment' },
+      ]);
+      const after = fs.readFileSync(file);
+      const reread = await readMp4TextItems(file);
+      assert(reread.some(i => i.key === '----:com.musicky:moods' && i.value === 'dark, driving'), 'freeform atom reads back');
+      assert(reread.some(i => i.key === '©cmt' && i.value === 'Ünïcode comment'), 'UTF-8 text reads back');
+      assert(reread.some(i => i.key === '©nam' && i.value === 'Song'), 'existing text kept');
+      assert(after.includes(trackNumber()), 'binary trkn item kept byte-for-byte');
+      assert(after.includes(atom('mdat', MEDIA)), 'media data untouched');
+      assert(chunksAt(after).join() === 'chunk-one,chunk-two', 'chunk offsets still point at the same media');
+      assert(!fs.existsSync(`${file}.musicky-tmp`), 'no temp file left behind');
+
+      // ── 2. Musicky tags through the metadata manager ──────────────
+      console.log('\n2) Writing Musicky tags to M4A…');
+      await new MP3MetadataManager().writeTags(file, { genres: ['techno'], phases: ['peak'] });
+      const tagged = await readMp4TextItems(file);
+      assert(tagged.filter(i => i.key === '©gen').map(i => i.value).join() === 'House', "the file's own ©gen is left alone");
+      assert(tagged.some(i => i.key === '----:com.musicky:phases' && i.value.includes('peak')), 'phases stored in a freeform atom');
+      assert(!tagged.some(i => i.key === '----:com.musicky:moods'), 'earlier Musicky fields replaced');
+      assert(chunksAt(fs.readFileSync(file)).join() === 'chunk-one,chunk-two', 'chunk offsets right after a second rewrite');
+
+      await new MP3MetadataManager().writeBpm(file, 127.6);
+      assert(fs.readFileSync(file).includes(tempoItem(128)), 'tempo written as a big-endian uint16 tmpo item');
+      const tempo = async () => (await readMp4TextItems(file)).filter(i => i.key === 'tmpo').map(i => i.value).join();
+      assert(await tempo() === '128', 'tempo reads back, rounded to a whole BPM');
+      await new MP3MetadataManager().writeBpm(file, 174);
+      assert(await tempo() === '174', 'writing the tempo again replaces it');
+      await new MP3MetadataManager().writeTags(file, { genres: ['dnb'] });
+      assert(await tempo() === '174', 'tempo kept when Musicky tags are rewritten');
+    }
+
+    // ── 3. Files without metadata ───────────────────────────────────
+    console.log('\n3) Adding metadata to a file that has none…');
+    const bare = path.join(dir, 'bare.m4a');
+    fs.writeFileSync(bare, Buffer.concat([atom('ftyp', Buffer.from('M4A ')), atom('moov', atom('mvhd', Buffer.alloc(100)))]));
+    assert((await readMp4TextItems(bare)).length === 0, 'no items read from a bare file');
+    await updateMp4TextItems(bare, () => [{ key: '©grp', value: 'Warmup' }]);
+    assert((await readMp4TextItems(bare))[0]?.value === 'Warmup', 'udta/meta/ilst created and read back');
+    await assertThrows(
+      () => updateMp4TextItems(bare, items => [...items, { key: 'tmpo', value: '70000' }]),
+      'tempo outside the uint16 range is rejected', /whole number from 0 to 65535/,
+    );
+
+    const implicit = path.join(dir, 'implicit-tempo.m4a');
+    const hdlr = atom('hdlr', Buffer.concat([Buffer.alloc(8), Buffer.from('mdirappl'), Buffer.alloc(9)]));
+    fs.writeFileSync(implicit, Buffer.concat([
+      atom('ftyp', Buffer.from('M4A ')),
+      atom('moov', atom('udta', atom('meta', Buffer.alloc(4), hdlr, atom('ilst', tempoItem(122, 0))))),
+    ]));
+    assert((await readMp4TextItems(implicit))[0]?.value === '122', 'tmpo marked implicit (type 0) by older taggers is read');
+    await new MP3MetadataManager().writeBpm(implicit, 123);
+    const rewritten = fs.readFileSync(implicit);
+    assert(rewritten.includes(tempoItem(123)) && rewritten.indexOf('tmpo') === rewritten.lastIndexOf('tmpo'), 'and replaced, not duplicated');
+
+    // ── 4. Damaged input ────────────────────────────────────────────
+    console.log('\n4) Damaged input…');
+    const noMoov = path.join(dir, 'no-moov.m4a');
+    fs.writeFileSync(noMoov, atom('ftyp', Buffer.from('M4A ')));
+    await assertThrows(() => readMp4TextItems(noMoov), 'file without moov is rejected', /no moov/);
+    const truncated = path.join(dir, 'truncated.m4a');
+    const whole = m4aFile(true);
+    fs.writeFileSync(truncated, whole.subarray(0, whole.indexOf('ilst') + 20));
+    await assertThrows(() => readMp4TextItems(truncated), 'moov running past the end of the file is rejected', /Malformed MP4/);
+    await assertThrows(() => updateMp4TextItems(truncated, i => i), 'damaged file is not rewritten', /Malformed MP4/);
+    const badChild = path.join(dir, 'bad-child.m4a');
+    const broken = Buffer.from(whole);
+    broken.writeUInt32BE(0xffff, broken.indexOf('udta') - 4);
+    fs.writeFileSync(badChild, broken);
+    await assertThrows(() => readMp4TextItems(badChild), 'child atom larger than its parent is rejected', /Malformed MP4 atom 'udta'/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,48 @@
+/**
+ * Play history: the listening threshold on short and long tracks, plays
+ * versus skips versus click-throughs, and the "last played" wording.
+ * Run via: npx tsx tests/unit/play-history.test.ts
+ */
+import {
+  playThreshold, classifyListen, formatLastPlayed, PLAY_THRESHOLD_SECONDS, MIN_LISTEN_SECONDS,
+} from '../../lib/play-history';
+import { assert, finish } from '../assert';
+
+async function main() {
+  // ── 1. Threshold ────────────────────────────────────────────────
+  console.log('1) Play threshold…');
+  assert(playThreshold(300) === PLAY_THRESHOLD_SECONDS, 'a full-length track needs the standard threshold');
+  assert(playThreshold(40) === 20, 'a short track needs half its length');
+  assert(playThreshold(60) === 30, 'both rules agree at twice the threshold');
+  assert(playThreshold(0) === PLAY_THRESHOLD_SECONDS && playThreshold(-1) === PLAY_THRESHOLD_SECONDS,
+    'unknown duration falls back to the standard threshold');
+
+  // ── 2. Classifying a listen ─────────────────────────────────────
+  console.log('\n2) Play, skip or neither…');
+  assert(classifyListen(30, 300) === 'play', 'reaching the threshold is a play');
+  assert(classifyListen(29.9, 300) === 'skip', 'moving on just before it is a skip');
+  assert(classifyListen(20, 40) === 'play' && classifyListen(19, 40) === 'skip', 'half of a short track decides');
+  assert(classifyListen(MIN_LISTEN_SECONDS, 300) === 'skip', 'a second of listening is a skip');
+  assert(classifyListen(0.5, 300) === null, 'a click-through is too short to count');
+  assert(classifyListen(0.8, 1.5) === 'play', 'a jingle shorter than two seconds is played at half its length');
+  assert(classifyListen(0.5, 1.5) === null, 'and too short to count below that');
+
+  // ── 3. Last played ──────────────────────────────────────────────
+  console.log('\n3) Last played wording…');
+  const now = Date.UTC(2026, 4, 20, 12);
+  assert(formatLastPlayed(null, now) === 'never', 'never played');
+  assert(formatLastPlayed('2026-05-20 08:00:00', now) === 'today', 'earlier today');
+  assert(formatLastPlayed('2026-05-19 13:00:00', now) === 'today', 'under a day ago counts as today');
+  assert(formatLastPlayed('2026-05-19 11:00:00', now) === 'yesterday', 'a day ago');
+  assert(formatLastPlayed('2026-05-17 12:00:00', now) === '3 days ago', 'days ago');
+  assert(formatLastPlayed('2026-03-22 12:00:00', now) === '59 days ago', 'still days just under two months');
+  assert(formatLastPlayed('2026-03-21 12:00:00', now) === '2 months ago', 'months from 60 days');
+  assert(formatLastPlayed('2025-04-15 12:00:00', now) === '13 months ago', 'a year on is still months');
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,104 @@
+/**
+ * Playlist files: M3U8 export read back through the importer with absolute,
+ * relative and prefix-rewritten paths, PLS and XSPF output, and the fuzzy
+ * matching used when imported paths no longer exist.
+ * Run via: npx tsx tests/unit/playlist-files.test.ts
+ */
+import {
+  buildM3U8, buildPLS, buildXSPF, parseM3U8, resolvePlaylistPath, resolveEntryPath,
+  decodePlaylistLocation, exportFilename, type PlaylistFileTrack,
+} from '../../lib/playlist-files';
+import { fuzzyMatchSong, stringSimilarity } from '../../lib/library-import';
+import { assert, finish } from '../assert';
+
+const TRACKS: PlaylistFileTrack[] = [
+  { filePath: '/music/House/Artist - Deep.mp3', title: 'Deep', artist: 'Artist', duration: 301.4 },
+  { filePath: '/music/Techno/ünï & co/#1.flac', title: 'Number <One>', artist: '', duration: 0 },
+  { filePath: '/other/loose.m4a', title: '', artist: 'Solo - Act', duration: 95 },
+];
+
+async function main() {
+  // ── 1. Paths ────────────────────────────────────────────────────
+  console.log('1) Path options…');
+  assert(resolvePlaylistPath('/music/a.mp3', { mode: 'absolute' }) === '/music/a.mp3', 'absolute path unchanged');
+  assert(resolvePlaylistPath('/music/House/a.mp3', { mode: 'relative', targetFolder: '/music/Playlists' }) === '../House/a.mp3',
+    'relative to the playlist folder');
+  assert(resolvePlaylistPath('C:\\Music\\a.mp3', { mode: 'relative', targetFolder: 'D:\\Lists' }) === 'C:/Music/a.mp3',
+    'different Windows drives stay absolute');
+  assert(resolvePlaylistPath('C:\\Music\\a.mp3', { mode: 'relative', targetFolder: 'c:\\Lists' }) === '../Music/a.mp3',
+    'same drive, any case, becomes relative');
+  assert(resolvePlaylistPath('/Users/me/Music/a.mp3', { mode: 'absolute', prefixFrom: '/Users/me/Music/', prefixTo: 'D:\\Music' }) === 'D:/Music/a.mp3',
+    'prefix rewritten for another machine');
+  assert(resolvePlaylistPath('/Users/me/Musical/a.mp3', { mode: 'absolute', prefixFrom: '/Users/me/Music' }) === '/Users/me/Musical/a.mp3',
+    'prefix only matches whole folders');
+  assert(exportFilename('Peak: Time / 2024!', 'm3u8') === 'Peak Time  2024.m3u8' && exportFilename('///', 'pls') === 'playlist.pls',
+    'export file name stripped of unsafe characters');
+
+  // ── 2. M3U8 round-trip ──────────────────────────────────────────
+  for (const options of [
+    { mode: 'absolute' as const },
+    { mode: 'relative' as const, targetFolder: '/music/Playlists' },
+  ]) {
+    console.log(`\n2) M3U8 round-trip with ${options.mode} paths…`);
+    const parsed = parseM3U8(buildM3U8('Friday Night', TRACKS, options));
+    assert(parsed.name === 'Friday Night', 'playlist name reads back');
+    assert(parsed.entries.length === 3, 'every track written');
+    const resolved = parsed.entries.map(e => resolveEntryPath(e.path, options.targetFolder ?? null));
+    assert(resolved.join('|') === TRACKS.map(t => t.filePath).join('|'), 'paths resolve back to the library files');
+    assert(parsed.entries[0].artist === 'Artist' && parsed.entries[0].title === 'Deep' && parsed.entries[0].duration === 301,
+      'EXTINF artist, title and duration read back');
+    assert(parsed.entries[1].duration === undefined && parsed.entries[1].title === 'Number <One>', 'unknown duration written as -1');
+    assert(parsed.entries[2].artist === 'Solo' && parsed.entries[2].title === 'Act - loose',
+      'only the first " - " splits artist from title');
+  }
+
+  // ── 3. Foreign M3U input ────────────────────────────────────────
+  console.log('\n3) Parsing M3U from other players…');
+  const foreign = parseM3U8('\uFEFF#EXTM3U\r\n#EXTINF:200,No Artist Here\r\nfile:///C:/Music/My%20Song.mp3\r\n\r\n#EXTVLCOPT:foo\r\nsub\\dir\\x.mp3\r\nfile://localhost/music/y.mp3\r\n');
+  assert(foreign.name === undefined, 'no #PLAYLIST, no name');
+  assert(foreign.entries.map(e => e.path).join('|') === 'C:/Music/My Song.mp3|sub/dir/x.mp3|/music/y.mp3',
+    'BOM, CRLF, file URIs and backslashes handled');
+  assert(foreign.entries[0].title === 'No Artist Here' && foreign.entries[0].artist === undefined, 'label without " - " is the title');
+  assert(foreign.entries[1].title === undefined, 'EXTINF does not leak into the next entry');
+  assert(resolveEntryPath('sub/dir/x.mp3', 'C:\\Lists') === 'C:/Lists/sub/dir/x.mp3', 'relative entry resolved against the playlist folder');
+  assert(decodePlaylistLocation('file:///bad%zzuri.mp3') === '/bad%zzuri.mp3', 'broken escapes kept as written');
+
+  // ── 4. PLS and XSPF ─────────────────────────────────────────────
+  console.log('\n4) PLS and XSPF…');
+  const pls = buildPLS(TRACKS, { mode: 'absolute' }).split('\n');
+  assert(pls[0] === '[playlist]' && pls.includes('NumberOfEntries=3') && pls.includes('Version=2'), 'PLS header and footer');
+  assert(pls.includes('File2=/music/Techno/ünï & co/#1.flac') && pls.includes('Length2=-1') && pls.includes('Title3=Solo - Act - loose'),
+    'PLS entries numbered from 1');
+  const xspf = buildXSPF('A & B', TRACKS, { mode: 'absolute' });
+  assert(xspf.includes('<title>A &amp; B</title>'), 'XSPF playlist title escaped');
+  assert(xspf.includes('<location>file:///music/Techno/%C3%BCn%C3%AF%20%26%20co/%231.flac</location>'), 'XSPF location is a file URI');
+  assert(xspf.includes('<title>Number &lt;One&gt;</title>') && xspf.includes('<duration>301400</duration>'), 'XSPF title escaped, duration in ms');
+  assert(decodePlaylistLocation('file:///music/Techno/%C3%BCn%C3%AF%20%26%20co/%231.flac') === TRACKS[1].filePath, 'XSPF location decodes back');
+  assert(buildXSPF('x', [TRACKS[0]], { mode: 'relative', targetFolder: '/music/Lists' }).includes('<location>../House/Artist%20-%20Deep.mp3</location>'),
+    'relative XSPF location is a URI reference');
+
+  // ── 5. Fuzzy matching on import ─────────────────────────────────
+  console.log('\n5) Matching moved files…');
+  const known = [
+    { filePath: '/music/House/Artist - Deep.mp3', title: 'Deep', artist: 'Artist' },
+    { filePath: '/music/New/track_name_here.mp3' },
+    { filePath: '/music/A/same.mp3' },
+    { filePath: '/music/B/same.mp3' },
+  ];
+  assert(fuzzyMatchSong({ filePath: '/music/House/Artist - Deep.mp3' }, known)?.matchedBy === 'location', 'exact path first');
+  assert(fuzzyMatchSong({ filePath: '/gone/x.mp3', title: 'deep', artist: 'ARTIST' }, known)?.filePath === known[0].filePath,
+    'artist and title, case-insensitive');
+  assert(fuzzyMatchSong({ filePath: 'D:/old/track name here.mp3' }, known)?.matchedBy === 'filename', 'unique file name');
+  assert(fuzzyMatchSong({ filePath: '/old/same.mp3' }, known)?.matchedBy !== 'filename', 'ambiguous file name is not a filename match');
+  const similar = fuzzyMatchSong({ filePath: '/old/Artist – Deep.mp3' }, known);
+  assert(similar?.matchedBy === 'similar' && similar.filePath === known[0].filePath, 'name differing only in punctuation matched as similar');
+  assert(fuzzyMatchSong({ filePath: '/old/completely different.mp3' }, known) === null, 'unrelated name not matched');
+  assert(stringSimilarity('abc', 'abc') === 1 && stringSimilarity('', '') === 0, 'similarity bounds');
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,90 @@
+/**
+ * Auditioned transitions in playlist ordering: a clashing rating keeps the
+ * pair out of one cluster and apart even when their moods match, and a
+ * rating only counts in the order the pair was mixed. Play history: songs
+ * played recently left out, and recent plays weighed when trimming a phase.
+ * Run via: npx tsx tests/unit/playlist-generator.test.ts
+ */
+import { buildSongGraph, type SongEdge, type SongNode } from '../../lib/graph-engine';
+import { sortSongsInPhase, findTransitionSong, transitionRatingWeight, generatePlaylist } from '../../lib/playlist-generator';
+import type { SongFreshness } from '../../lib/play-history';
+import { assert, finish } from '../assert';
+
+function song(filePath: string, ...moods: string[]): SongNode {
+  return { filePath, tags: moods.map(label => ({ label, category: 'mood' as const })) };
+}
+
+function inPhase(filePath: string, phase: string): SongNode {
+  return { filePath, tags: [{ label: phase, category: 'phase' }] };
+}
+
+function rated(from: string, to: string, rating: number): SongEdge {
+  return { sourceFilePath: from, targetFilePath: to, type: 'transition', weight: transitionRatingWeight(rating) };
+}
+
+async function main() {
+  const a = song('/a.mp3', 'dark', 'driving');
+  const b = song('/b.mp3', 'dark', 'driving');
+  const c = song('/c.mp3', 'dark', 'hypnotic');
+
+  // ── 1. Clustering ───────────────────────────────────────────────
+  console.log('1) Clustering auditioned pairs…');
+  const clashing = sortSongsInPhase([a, b], buildSongGraph([a, b], [rated(a.filePath, b.filePath, 1)]));
+  assert(clashing.clusterCount === 2, 'a transition rated 1 does not join its songs');
+  const seamless = sortSongsInPhase([a, b], buildSongGraph([a, b], [rated(a.filePath, b.filePath, 5)]));
+  assert(seamless.clusterCount === 1, 'a transition rated 5 does');
+
+  // ── 2. Ordering ─────────────────────────────────────────────────
+  console.log('\n2) Ordering songs around a clash…');
+  const songs = [a, b, c];
+  const graph = buildSongGraph(songs, [rated(a.filePath, b.filePath, 1)]);
+  const order = sortSongsInPhase(songs, graph).sorted.map(s => s.filePath);
+  assert(order.join() === '/a.mp3,/c.mp3,/b.mp3', `clashing pair kept apart despite matching moods (${order})`);
+  const pick = findTransitionSong([a], [b, c], graph);
+  assert(pick?.to === c.filePath, 'a weaker mood match beats a clashing transition');
+  assert(findTransitionSong([a], [b], graph) === null, 'a clash is no transition at all');
+
+  // ── 3. Direction ────────────────────────────────────────────────
+  console.log('\n3) Direction of a rating…');
+  const x = song('/x.mp3');
+  const y = song('/y.mp3');
+  const directed = buildSongGraph([x, y], [rated(x.filePath, y.filePath, 5)]);
+  assert((findTransitionSong([x], [y], directed)?.score ?? 0) > 0, 'rated order is a transition');
+  assert(findTransitionSong([y], [x], directed) === null, 'the reverse order gets nothing from it');
+
+  // ── 4. Freshness ────────────────────────────────────────────────
+  console.log('\n4) Play history…');
+  const played = (daysSincePlayed: number, recentPlays = 1): SongFreshness => ({ daysSincePlayed, recentPlays });
+  const library = [inPhase('/yesterday.mp3', 'peak'), inPhase('/week.mp3', 'peak'), inPhase('/month.mp3', 'peak'), inPhase('/never.mp3', 'peak')];
+  const history = new Map([
+    ['/yesterday.mp3', played(1)],
+    ['/week.mp3', played(7)],
+    ['/month.mp3', played(30)],
+  ]);
+  const kept = (options: Parameters<typeof generatePlaylist>[3]) =>
+    generatePlaylist(library, [], [], options, history).entries.map(e => e.filePath).sort().join();
+  assert(kept({}) === '/month.mp3,/never.mp3,/week.mp3,/yesterday.mp3', 'every song kept by default');
+  assert(kept({ skipPlayedWithinDays: 7 }) === '/month.mp3,/never.mp3,/week.mp3',
+    'songs played within the window left out, one played exactly that long ago kept');
+  assert(kept({ skipPlayedWithinDays: 60 }) === '/never.mp3', 'a song never played is always kept');
+
+  // The hub has the only connection in its phase but has been played a lot lately
+  const hub = inPhase('/hub.mp3', 'peak');
+  const fresh = inPhase('/fresh.mp3', 'peak');
+  const opener = inPhase('/opener.mp3', 'warmup');
+  const link: SongEdge = { sourceFilePath: opener.filePath, targetFilePath: hub.filePath, type: 'related', weight: 1 };
+  const plays = new Map([['/hub.mp3', played(2, 4)]]);
+  const peakPick = (freshnessWeight: number) =>
+    generatePlaylist([opener, hub, fresh], [link], [], { maxPerPhase: 1, freshnessWeight }, plays)
+      .entries.filter(e => e.phase === 'peak').map(e => e.filePath).join();
+  assert(peakPick(0) === '/hub.mp3', 'without freshness the most connected song is kept');
+  assert(peakPick(0.5) === '/hub.mp3', 'a moderate weight still favours connections');
+  assert(peakPick(1) === '/fresh.mp3', 'full weight keeps the song not played lately');
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,87 @@
+/**
+ * Quality audit on synthetic signals: full-band audio against the same
+ * spectrum cut off the way an MP3 encoder cuts it, declared as lossless and
+ * as various bitrates, plus clipped, mono and low-sample-rate files.
+ * Run via: npx tsx tests/unit/quality-audit.test.ts
+ */
+import { auditQuality, spectralCutoffHz, countClippedRuns, type DeclaredFormat } from '../../lib/quality-audit';
+import { assert, assertClose, finish } from '../assert';
+
+const SAMPLE_RATE = 44100;
+const SECONDS = 4;
+
+/** Deterministic noise so every run renders the same phases */
+function noise(seed: number): () => number {
+  let state = seed;
+  return () => ((state = (state * 16807) % 2147483647) / 2147483647) * 2 - 1;
+}
+
+/**
+ * Sines every 100 Hz up to `topHz`, at random phases and falling 3 dB per
+ * octave — a dense spectrum that rolls off gently unless it's cut short.
+ */
+function renderSpectrum(topHz: number, seed: number, sampleRate = SAMPLE_RATE): Float32Array {
+  const out = new Float32Array(sampleRate * SECONDS);
+  const phase = noise(seed);
+  for (let hz = 100; hz <= topHz; hz += 100) {
+    const amplitude = 0.02 / Math.sqrt(hz / 100);
+    const offset = Math.PI * phase();
+    const step = (2 * Math.PI * hz) / sampleRate;
+    for (let i = 0; i < out.length; i++) out[i] += amplitude * Math.sin(step * i + offset);
+  }
+  return out;
+}
+
+function stereo(left: Float32Array, right: Float32Array): { samples: Float32Array; channels: Float32Array[] } {
+  const samples = new Float32Array(left.length);
+  for (let i = 0; i < left.length; i++) samples[i] = (left[i] + right[i]) / 2;
+  return { samples, channels: [left, right] };
+}
+
+const kinds = (declared: DeclaredFormat, audio: { samples: Float32Array; channels: Float32Array[] }, sampleRate = SAMPLE_RATE) =>
+  auditQuality(audio.samples, audio.channels, sampleRate, declared).issues.map(i => `${i.kind}:${i.severity}`).join();
+
+async function main() {
+  const fullBand = stereo(renderSpectrum(22000, 1), renderSpectrum(22000, 2));
+  const cut = stereo(renderSpectrum(16000, 1), renderSpectrum(16000, 2));
+
+  // ── 1. Spectral cutoff ──────────────────────────────────────────
+  console.log('1) Finding the cutoff…');
+  assert(spectralCutoffHz(fullBand.samples, SAMPLE_RATE) === null, 'full-band audio has no cutoff');
+  assertClose(spectralCutoffHz(cut.samples, SAMPLE_RATE), 16000, 500, 'MP3-style low-pass at 16 kHz found');
+
+  // ── 2. Transcodes ───────────────────────────────────────────────
+  console.log('\n2) Declared against measured…');
+  const flac: DeclaredFormat = { format: 'FLAC', bitrate: 900_000, sampleRate: SAMPLE_RATE };
+  const report = auditQuality(fullBand.samples, fullBand.channels, SAMPLE_RATE, flac);
+  assert(report.verdict === 'ok' && report.issues.length === 0 && report.channels === 2, 'real lossless file passes');
+  assert(kinds(flac, cut) === 'transcode:bad', 'lossless file cut at 16 kHz is a transcode');
+  const mp3 = (kbps: number): DeclaredFormat => ({ format: 'MPEG', bitrate: kbps * 1000, sampleRate: SAMPLE_RATE });
+  assert(kinds(mp3(320), cut) === 'transcode:bad', '320 kbps file cut like a 128 kbps one');
+  assert(kinds(mp3(192), cut) === 'transcode:warning', '192 kbps file cut low is suspect');
+  assert(kinds(mp3(128), cut) === 'low_bitrate:warning', 'a 128 kbps file may cut at 16 kHz, its bitrate is the issue');
+  assert(kinds(mp3(96), cut) === 'low_bitrate:bad', 'below 128 kbps is bad');
+
+  // ── 3. Clipping and channels ────────────────────────────────────
+  console.log('\n3) Clipping and channels…');
+  const clipped = fullBand.channels.map(channel => channel.map(v => Math.max(-1, Math.min(1, v * 40))));
+  assert(countClippedRuns(clipped) > 0 && countClippedRuns(fullBand.channels) === 0, 'flat tops counted as clipped runs');
+  const clippedReport = auditQuality(stereo(clipped[0], clipped[1]).samples, clipped, SAMPLE_RATE, flac);
+  assert(clippedReport.issues.some(i => i.kind === 'clipping' && i.severity === 'bad'), `crushed master flagged (${clippedReport.clippedRunsPerMinute} per minute)`);
+  const left = fullBand.channels[0];
+  assert(kinds(flac, { samples: left, channels: [left] }) === 'mono:warning', 'mono file');
+  assert(kinds(flac, stereo(left, left.slice())) === 'mono:warning', 'stereo file with identical channels');
+
+  // ── 4. Sample rate ──────────────────────────────────────────────
+  console.log('\n4) Sample rate…');
+  const lowAudio = stereo(renderSpectrum(11000, 3, 22050), renderSpectrum(11000, 4, 22050));
+  assert(kinds({ format: 'FLAC', sampleRate: 22050 }, lowAudio, 22050) === 'sample_rate:bad', '22.05 kHz is bad');
+  assert(kinds({ format: 'FLAC', sampleRate: 48000 }, lowAudio, 22050) === 'sample_rate:warning', 'header disagreeing with the audio');
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
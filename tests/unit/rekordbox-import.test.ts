@@ -0,0 +1,118 @@
+/**
+ * Rekordbox collection import: a collection XML in the shape Rekordbox itself
+ * writes (folders, Location-keyed playlists, Windows paths) parsed and diffed
+ * against a small in-memory library, plus Musicky's own export read back.
+ * Run via: npx tsx tests/unit/rekordbox-import.test.ts
+ */
+import { parseRekordboxXml, rekordboxColourToPhase, buildRekordboxXml, type RekordboxLibrary } from '../../lib/rekordbox-xml';
+import { buildLibraryImportDiff, type ExternalTrack, type LibraryImportContext } from '../../lib/library-import';
+import { parseHashtags } from '../../lib/mp3-parsing';
+import type { TagCategory } from '../../lib/types';
+import { assert, finish } from '../assert';
+
+const REKORDBOX_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<DJ_PLAYLISTS Version="1.0.0">
+  <PRODUCT Name="rekordbox" Version="6.8.5" Company="AlphaTheta"/>
+  <COLLECTION Entries="4">
+    <TRACK TrackID="101" Name="Opener" Artist="A" Genre="Techno" AverageBpm="122.00" Tonality="Am"
+      Comments="#dark #warmup" Colour="0x25FDE9" Location="file://localhost/C:/Music/Opener%20Track.mp3">
+      <TEMPO Inizio="0.025" Bpm="122.00" Metro="4/4" Battito="1"/>
+    </TRACK>
+    <TRACK TrackID="102" Name="Moved &amp; Renamed" Artist="B" Comments="#hypnotic" Colour="0xFF0000"
+      Location="file://localhost/D:/Old%20Drive/moved.mp3"/>
+    <TRACK TrackID="103" Name="Closer" Artist="C" Comments="" Location="file://localhost/C:/Music/closer.flac"/>
+    <TRACK TrackID="104" Name="Not here" Artist="Nobody" Comments="#peak" Location="file://localhost/C:/Elsewhere/x.mp3"/>
+  </COLLECTION>
+  <PLAYLISTS>
+    <NODE Type="0" Name="ROOT" Count="2">
+      <NODE Type="0" Name="Gigs" Count="1">
+        <NODE Name="Friday" Type="1" KeyType="1" Entries="4">
+          <TRACK Key="file://localhost/C:/Music/Opener%20Track.mp3"/>
+          <TRACK Key="file://localhost/D:/Old%20Drive/moved.mp3"/>
+          <TRACK Key="file://localhost/C:/Elsewhere/x.mp3"/>
+          <TRACK Key="file://localhost/C:/Music/closer.flac"/>
+        </NODE>
+      </NODE>
+      <NODE Name="Empty" Type="1" KeyType="0" Entries="0"/>
+    </NODE>
+  </PLAYLISTS>
+</DJ_PLAYLISTS>
+`;
+
+/** The same mapping onPreviewRekordboxImport applies: comment hashtags plus the colour's phase */
+function toExternalTracks(library: RekordboxLibrary): ExternalTrack[] {
+  return library.tracks.map(t => {
+    const hashtags = parseHashtags(t.comments);
+    const phase = rekordboxColourToPhase(t.colour);
+    if (phase && !hashtags.includes(phase)) hashtags.push(phase);
+    return { id: t.trackId, filePath: t.filePath, title: t.title, artist: t.artist, hashtags };
+  });
+}
+
+function context(existingTags: Record<string, { label: string; category: TagCategory }[]> = {}): LibraryImportContext {
+  return {
+    knownSongs: [
+      { filePath: 'C:/Music/Opener Track.mp3', title: 'Opener', artist: 'A' },
+      { filePath: 'C:/Music/New Place/moved.mp3', title: 'Moved & Renamed', artist: 'b' },
+      { filePath: 'C:/Music/closer.flac', title: 'Closer', artist: 'C' },
+    ],
+    tagsForSong: fp => existingTags[fp] ?? [],
+    playlistExists: name => name === 'Gigs / Friday',
+    connectionExists: (from, to) => from === 'C:/Music/New Place/moved.mp3' && to === 'C:/Music/closer.flac',
+  };
+}
+
+async function main() {
+  // ── 1. Parsing ──────────────────────────────────────────────────
+  console.log('1) Parsing a Rekordbox collection…');
+  const library = parseRekordboxXml(REKORDBOX_XML);
+  assert(library.tracks.length === 4, 'tracks with nested elements are all read');
+  assert(library.tracks[0].filePath === 'C:/Music/Opener Track.mp3', 'Windows Location decoded to a drive path');
+  assert(library.tracks[1].title === 'Moved & Renamed', 'entities in names decoded');
+  assert(library.playlists.map(p => p.name).join('|') === 'Gigs / Friday|Empty', 'folder path joined into the playlist name');
+  assert(library.playlists[0].trackIds.join() === '101,102,104,103', 'Location-keyed entries resolved to TrackIDs in order');
+
+  // ── 2. Diff against the library ─────────────────────────────────
+  console.log('\n2) Diffing against the library…');
+  const diff = buildLibraryImportDiff(toExternalTracks(library), library.playlists, context({
+    'C:/Music/Opener Track.mp3': [{ label: 'dark', category: 'mood' }],
+  }));
+  const opener = diff.tags.find(t => t.filePath === 'C:/Music/Opener Track.mp3');
+  assert(opener?.matchedBy === 'location', 'track at the same path matched by location');
+  assert(opener?.newTags.map(t => `${t.category}:${t.label}`).sort().join() === 'phase:opener,phase:warmup',
+    'existing mood not proposed again; hashtag and colour phases proposed');
+  const moved = diff.tags.find(t => t.filePath === 'C:/Music/New Place/moved.mp3');
+  assert(moved?.matchedBy === 'artist_title', 'moved file matched by artist and title');
+  assert(moved?.newTags.map(t => `${t.category}:${t.label}`).sort().join() === 'mood:hypnotic,phase:peak', 'red colour imported as peak');
+  assert(!diff.tags.some(t => t.filePath === 'C:/Music/closer.flac'), 'track without hashtags proposes nothing');
+  assert(diff.unmatched.length === 1 && diff.unmatched[0].title === 'Not here', 'track not in the library reported unmatched');
+
+  const [friday] = diff.playlists;
+  assert(diff.playlists.length === 1, 'empty playlist is not proposed');
+  assert(friday?.exists === true, 'existing playlist flagged');
+  assert(friday?.unmatchedCount === 1 && friday?.filePaths.length === 3, 'unmatched entry dropped from the playlist');
+  assert(diff.connections.map(c => `${c.sourcePath}>${c.targetPath}`).join() === 'C:/Music/Opener Track.mp3>C:/Music/New Place/moved.mp3',
+    'adjacent tracks become connections, skipping ones that exist');
+
+  // ── 3. Musicky's own export ─────────────────────────────────────
+  console.log('\n3) Importing what Musicky exported…');
+  const exported = parseRekordboxXml(buildRekordboxXml([{
+    name: 'Set',
+    tracks: [{
+      filePath: 'C:/Music/closer.flac', title: 'Closer', artist: 'C', album: '', genre: '',
+      duration: 300, fileSize: 1, comments: '#groovy', phase: 'closer',
+    }],
+  }]));
+  const again = buildLibraryImportDiff(toExternalTracks(exported), exported.playlists, context({
+    'C:/Music/closer.flac': [{ label: 'groovy', category: 'mood' }, { label: 'closer', category: 'phase' }],
+  }));
+  assert(again.tags.length === 0, 're-importing an unchanged export proposes no tags');
+  assert(again.playlists[0]?.filePaths.join() === 'C:/Music/closer.flac', 'exported playlist maps back to the same file');
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
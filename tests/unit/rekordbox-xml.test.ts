@@ -0,0 +1,92 @@
+/**
+ * Rekordbox DJ_PLAYLISTS export: documents built by buildRekordboxXml read
+ * back through parseRekordboxXml with the same tracks, playlists and phases.
+ * Run via: npx tsx tests/unit/rekordbox-xml.test.ts
+ */
+import {
+  buildRekordboxXml, parseRekordboxXml, toRekordboxLocation, fromRekordboxLocation,
+  phaseToRekordboxColour, rekordboxColourToPhase, type RekordboxTrack,
+} from '../../lib/rekordbox-xml';
+import { assert, assertThrows, finish } from '../assert';
+
+function track(filePath: string, overrides: Partial<RekordboxTrack> = {}): RekordboxTrack {
+  return {
+    filePath,
+    title: 'Title',
+    artist: 'Artist',
+    album: '',
+    genre: 'techno',
+    duration: 361.4,
+    fileSize: 12_345_678,
+    comments: '#peak #dark',
+    phase: null,
+    ...overrides,
+  };
+}
+
+async function main() {
+  // ── 1. Locations ────────────────────────────────────────────────
+  console.log('1) File paths ↔ Location URIs…');
+  const paths = [
+    '/music/Artist - Track.mp3',
+    '/music/Ünïcode & "quotes"/#1 50% mix.flac',
+    'C:\\Music\\Set\\intro.m4a',
+  ];
+  for (const p of paths) {
+    const location = toRekordboxLocation(p);
+    assert(location.startsWith('file://localhost/'), `${p} → file://localhost URI`);
+    assert(fromRekordboxLocation(location) === p.replace(/\\/g, '/'), `${p} decodes back`);
+  }
+  assert(toRekordboxLocation('C:\\Music\\a.mp3') === 'file://localhost/C:/Music/a.mp3', 'drive letter kept readable');
+
+  // ── 2. Phase colours ────────────────────────────────────────────
+  console.log('\n2) Phase colours…');
+  for (const phase of ['opener', 'buildup', 'peak', 'cooldown', 'closer']) {
+    assert(rekordboxColourToPhase(phaseToRekordboxColour(phase)) === phase, `${phase} survives as a colour`);
+  }
+  assert(phaseToRekordboxColour('Afterhours') === phaseToRekordboxColour('afterhours'), 'custom phase colour is stable');
+  assert(phaseToRekordboxColour(null) === null, 'no phase, no colour');
+
+  // ── 3. Document round-trip ──────────────────────────────────────
+  console.log('\n3) Building and parsing a document…');
+  const shared = track(paths[0], { title: 'Shared <one>', bpm: 128, tonality: 'Am', phase: 'peak' });
+  const xml = buildRekordboxXml([
+    { name: 'Warmup & more', tracks: [track(paths[1], { phase: 'opener', artist: 'Bäckerei "Crew"' }), shared] },
+    { name: 'Peak', tracks: [shared, track(paths[2])] },
+  ]);
+  const library = parseRekordboxXml(xml);
+  assert(library.tracks.length === 3, 'a track in two playlists is listed once in the collection');
+  assert(/<COLLECTION Entries="3">/.test(xml), 'collection entry count matches');
+
+  const byPath = new Map(library.tracks.map(t => [t.filePath, t]));
+  const sharedBack = byPath.get(paths[0]);
+  assert(sharedBack?.title === 'Shared <one>', 'escaped title reads back');
+  assert(sharedBack?.bpm === 128 && sharedBack?.tonality === 'Am', 'BPM and key read back');
+  assert(sharedBack?.comments === '#peak #dark', 'hashtag comments read back');
+  assert(rekordboxColourToPhase(sharedBack?.colour ?? null) === 'peak', 'phase colour reads back');
+  assert(byPath.get(paths[1])?.artist === 'Bäckerei "Crew"', 'quotes and umlauts in attributes read back');
+  assert(byPath.get(paths[2].replace(/\\/g, '/'))?.colour === null, 'track without phase has no colour');
+  assert(byPath.get(paths[2].replace(/\\/g, '/'))?.bpm === undefined, 'missing BPM stays missing');
+
+  const idToPath = new Map(library.tracks.map(t => [t.trackId, t.filePath]));
+  const [warmup, peak] = library.playlists;
+  assert(library.playlists.length === 2, 'both playlists read back');
+  assert(warmup?.name === 'Warmup & more', 'escaped playlist name reads back');
+  assert(warmup?.trackIds.map(id => idToPath.get(id)).join('|') === [paths[1], paths[0]].join('|'), 'first playlist order kept');
+  assert(peak?.trackIds.map(id => idToPath.get(id)).join('|') === [paths[0], paths[2].replace(/\\/g, '/')].join('|'), 'second playlist references the shared TrackID');
+  assert(xml.includes('Kind="FLAC File"') && xml.includes('Kind="M4A File"'), 'Kind follows the file extension');
+  assert(xml.includes('TotalTime="361"'), 'duration rounded to whole seconds');
+
+  // ── 4. Empty and foreign input ──────────────────────────────────
+  console.log('\n4) Edge cases…');
+  const empty = parseRekordboxXml(buildRekordboxXml([{ name: 'Empty', tracks: [] }]));
+  assert(empty.tracks.length === 0 && empty.playlists[0]?.trackIds.length === 0, 'an empty playlist round-trips');
+  await assertThrows(() => parseRekordboxXml('<NML VERSION="19"/>'), 'non-Rekordbox XML is rejected', /DJ_PLAYLISTS/);
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
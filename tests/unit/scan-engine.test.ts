@@ -0,0 +1,93 @@
+/**
+ * Incremental scan: sorting files on disk against the cache by size and
+ * modification time, the diff built from the re-read files only, and the
+ * folder checks around it.
+ * Run via: npx tsx tests/unit/scan-engine.test.ts
+ */
+import path from 'path';
+import os from 'os';
+import {
+  detectFileChanges, computeIncrementalScanDiff, isInFolder, statAudioFiles,
+  type CachedFileStat, type FileStat, type ScannedSong,
+} from '../../lib/scan-engine';
+import { assert, assertThrows, finish } from '../assert';
+
+const MTIME = '2026-03-01T10:00:00.000Z';
+const LATER = '2026-03-02T18:30:00.000Z';
+
+const CACHED: CachedFileStat[] = [
+  { filePath: '/music/same.mp3', fileSize: 1000, lastModified: MTIME },
+  { filePath: '/music/bigger.mp3', fileSize: 1000, lastModified: MTIME },
+  { filePath: '/music/touched.mp3', fileSize: 1000, lastModified: MTIME },
+  { filePath: '/music/gone.mp3', fileSize: 1000, lastModified: MTIME },
+  { filePath: '/music/unknown-stat.flac', fileSize: null, lastModified: null },
+];
+
+const ON_DISK: FileStat[] = [
+  { filePath: '/music/same.mp3', size: 1000, mtime: MTIME },
+  { filePath: '/music/bigger.mp3', size: 1200, mtime: MTIME },
+  { filePath: '/music/touched.mp3', size: 1000, mtime: LATER },
+  { filePath: '/music/unknown-stat.flac', size: 500, mtime: MTIME },
+  { filePath: '/music/new.m4a', size: 800, mtime: LATER },
+];
+
+function scanned(filePath: string, ...moods: string[]): ScannedSong {
+  return { filePath, tags: moods.map(label => ({ label, category: 'mood' as const })), relatedSongs: [] };
+}
+
+async function main() {
+  // ── 1. Change detection ─────────────────────────────────────────
+  console.log('1) Sorting files against the cache…');
+  const changes = detectFileChanges(CACHED, ON_DISK);
+  assert(changes.newPaths.join() === '/music/new.m4a', 'file missing from the cache is new');
+  assert(changes.changedPaths.includes('/music/bigger.mp3'), 'size change alone counts as changed');
+  assert(changes.changedPaths.includes('/music/touched.mp3'), 'modification time alone counts as changed');
+  assert(changes.changedPaths.includes('/music/unknown-stat.flac'), 'cached without size or time counts as changed');
+  assert(changes.changedPaths.length === 3, 'nothing else changed');
+  assert(changes.unchangedPaths.join() === '/music/same.mp3', 'same size and time is unchanged');
+  assert(changes.removedPaths.join() === '/music/gone.mp3', 'cached file no longer on disk is removed');
+
+  const empty = detectFileChanges([], ON_DISK);
+  assert(empty.newPaths.length === ON_DISK.length && empty.removedPaths.length === 0, 'empty cache: every file is new');
+  const wiped = detectFileChanges(CACHED, []);
+  assert(wiped.removedPaths.length === CACHED.length && wiped.newPaths.length === 0, 'nothing on disk: every cached file is removed');
+
+  // ── 2. Incremental diff ─────────────────────────────────────────
+  console.log('\n2) Diff of the re-read files…');
+  // touched.mp3 failed to parse, so only three of the four re-read files come back
+  const songs = [scanned('/music/new.m4a', 'dark'), scanned('/music/bigger.mp3', 'warm'), scanned('/music/unknown-stat.flac')];
+  const existingTags = [
+    { file_path: '/music/bigger.mp3', tag_label: 'dark', tag_category: 'mood' },
+    { file_path: '/music/same.mp3', tag_label: 'dark', tag_category: 'mood' },
+  ];
+  const diff = computeIncrementalScanDiff(changes, songs, existingTags);
+  assert(diff.newSongs.map(s => s.filePath).join() === '/music/new.m4a', 'new file reported as a new song');
+  assert(diff.changedSongs.length === 1 && diff.changedSongs[0].song.filePath === '/music/bigger.mp3', 'changed file with new tags reported');
+  assert(diff.changedSongs[0].changes.sort().join() === '+tag:mood:warm,-tag:mood:dark', 'its added and dropped tags listed');
+  assert(diff.removedPaths.join() === '/music/gone.mp3', 'only the file gone from disk is removed');
+  assert(!diff.removedPaths.includes('/music/touched.mp3'), 'a file that failed to parse is not removed');
+  assert(!diff.removedPaths.includes('/music/same.mp3'), 'an unchanged file that was not re-read is not removed');
+  assert(diff.newTags.map(t => `${t.filePath}:${t.label}`).sort().join() === '/music/bigger.mp3:warm,/music/new.m4a:dark',
+    'tags of new songs and new tags of changed songs reported');
+
+  changes.removedPaths.push('/music/later.mp3');
+  assert(diff.removedPaths.length === 1, 'diff keeps its own copy of the removed paths');
+
+  // ── 3. Folders ──────────────────────────────────────────────────
+  console.log('\n3) Folders…');
+  assert(isInFolder('/music/House/a.mp3', '/music'), 'file below the folder');
+  assert(isInFolder('/music/a.mp3', '/music/'), 'trailing slash on the folder');
+  assert(!isInFolder('/music', '/music'), 'the folder itself is not inside it');
+  assert(!isInFolder('/musical/a.mp3', '/music'), 'a sibling sharing the name prefix is outside');
+  assert(!isInFolder('/other/a.mp3', '/music'), 'another folder is outside');
+  assert(!isInFolder('/music/../other/a.mp3', '/music'), 'a path climbing back out is outside');
+  await assertThrows(() => statAudioFiles(path.join(os.tmpdir(), 'musicky-no-such-folder')),
+    'a missing music folder throws instead of reading as empty', /Music folder not found/);
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,122 @@
+/**
+ * Serato Markers2 reader/writer: a GEOB object laid out as Serato writes it,
+ * rebuilding with the entries we don't interpret kept, and the ID3 tag of an
+ * MP3 rewritten around the audio.
+ * Run via: npx tsx tests/unit/serato-markers.test.ts
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import NodeID3 from 'node-id3';
+import {
+  parseSeratoMarkers, buildSeratoMarkers, readSeratoMarkers, writeSeratoMarkers, type SeratoMarkers,
+} from '../../lib/serato-markers';
+import { assert, assertThrows, finish } from '../assert';
+
+const AUDIO = Buffer.from('\xff\xfbfake-mpeg-frames', 'latin1');
+
+function entry(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  return Buffer.concat([Buffer.from(`${type}\0`, 'latin1'), length, data]);
+}
+
+function cueData(index: number, ms: number, color: string, name: string): Buffer {
+  return Buffer.concat([
+    Buffer.from([0, index]), Buffer.from(ms.toString(16).padStart(8, '0'), 'hex'),
+    Buffer.from([0]), Buffer.from(color, 'hex'), Buffer.from([0, 0]), Buffer.from(`${name}\0`, 'utf8'),
+  ]);
+}
+
+function loopData(index: number, startMs: number, endMs: number, locked: boolean, name: string): Buffer {
+  return Buffer.concat([
+    Buffer.from([0, index]), Buffer.from(startMs.toString(16).padStart(8, '0'), 'hex'),
+    Buffer.from(endMs.toString(16).padStart(8, '0'), 'hex'), Buffer.from('ffffffff0027aae1', 'hex'),
+    Buffer.from([locked ? 1 : 0]), Buffer.from(`${name}\0`, 'utf8'),
+  ]);
+}
+
+/** A Markers2 object the way Serato writes it: base64 wrapped at 72, no padding, NUL-filled to 470 bytes */
+function seratoObject(entries: Buffer[]): Buffer {
+  const payload = Buffer.concat([Buffer.from([1, 1]), ...entries, Buffer.alloc(1)]);
+  const text = payload.toString('base64').replace(/=+$/, '').match(/.{1,72}/g)!.join('\n');
+  const body = Buffer.concat([Buffer.from([1, 1]), Buffer.from(text, 'latin1'), Buffer.alloc(1)]);
+  return Buffer.concat([body, Buffer.alloc(Math.max(0, 470 - body.length))]);
+}
+
+const COLOR = entry('COLOR', Buffer.from('00ffffff', 'hex'));
+const BPMLOCK = entry('BPMLOCK', Buffer.from([1]));
+
+async function main() {
+  // ── 1. Parsing ──────────────────────────────────────────────────
+  console.log('1) Reading a Serato-written object…');
+  const object = seratoObject([
+    COLOR,
+    entry('CUE', cueData(0, 1500, 'cc0000', 'Intro')),
+    entry('CUE', cueData(3, 64250, '00cc00', 'Drop — ünïcode')),
+    entry('LOOP', loopData(1, 32000, 40000, true, 'Build')),
+    BPMLOCK,
+  ]);
+  const parsed = parseSeratoMarkers(object);
+  assert(parsed.cues.length === 2 && parsed.loops.length === 1, 'cues and loops read, other entries skipped');
+  assert(parsed.cues[0].index === 0 && parsed.cues[0].position === 1.5 && parsed.cues[0].color === 'CC0000', 'cue pad, position and colour');
+  assert(parsed.cues[1].index === 3 && parsed.cues[1].name === 'Drop — ünïcode', 'UTF-8 cue name');
+  const loop = parsed.loops[0];
+  assert(loop.index === 1 && loop.start === 32 && loop.end === 40 && loop.locked && loop.name === 'Build', 'loop slot, span and lock');
+  await assertThrows(async () => parseSeratoMarkers(Buffer.from([2, 1, 0])), 'unknown version rejected', /Unsupported Serato Markers2 version/);
+
+  // ── 2. Building ─────────────────────────────────────────────────
+  console.log('\n2) Rebuilding…');
+  const markers: SeratoMarkers = {
+    cues: [{ index: 2, position: 10.25, color: '0000CC', name: 'New' }],
+    loops: [{ index: 0, start: 5, end: 7.5, locked: false, name: '' }],
+  };
+  const rebuilt = buildSeratoMarkers(markers, object);
+  assert(JSON.stringify(parseSeratoMarkers(rebuilt)) === JSON.stringify(markers), 'round-trip');
+  const payload = Buffer.from(rebuilt.toString('latin1', 2, rebuilt.indexOf(0, 2)).replace(/\s/g, ''), 'base64');
+  assert(payload.indexOf(COLOR) === 2 && payload.indexOf(BPMLOCK) === 2 + COLOR.length, 'COLOR and BPMLOCK kept, first and in order');
+  assert(rebuilt.length === 470, 'padded like Serato pads it');
+  assert(rebuilt.toString('latin1', 2, rebuilt.indexOf(0, 2)).split('\n').every(line => line.length <= 72), 'base64 wrapped at 72');
+  assert(parseSeratoMarkers(buildSeratoMarkers({ cues: [], loops: [] }, null)).cues.length === 0, 'empty markers from nothing');
+
+  // ── 3. Files ────────────────────────────────────────────────────
+  console.log('\n3) MP3 files…');
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'musicky-serato-'));
+  try {
+    const tagged = path.join(dir, 'tagged.mp3');
+    fs.writeFileSync(tagged, Buffer.concat([NodeID3.create({ title: 'Song', artist: 'Artist', comment: { language: 'eng', text: '#peak' } }), AUDIO]));
+    assert(await readSeratoMarkers(tagged) === null, 'no Serato frame, no markers');
+
+    await writeSeratoMarkers(tagged, markers);
+    assert(JSON.stringify(await readSeratoMarkers(tagged)) === JSON.stringify(markers), 'markers read back from the file');
+    const tags = NodeID3.read(tagged);
+    assert(tags.title === 'Song' && tags.artist === 'Artist' && tags.comment?.text === '#peak', 'other frames kept');
+    assert(fs.readFileSync(tagged).subarray(-AUDIO.length).equals(AUDIO), 'audio untouched');
+
+    const size = fs.statSync(tagged).size;
+    await writeSeratoMarkers(tagged, { cues: [markers.cues[0]], loops: [] });
+    assert(fs.statSync(tagged).size === size, 'smaller markers fit the existing padding');
+    assert((await readSeratoMarkers(tagged))?.loops.length === 0, 'loop removed');
+    assert(!fs.existsSync(`${tagged}.musicky-tmp`), 'no temp file left behind');
+
+    const bare = path.join(dir, 'bare.mp3');
+    fs.writeFileSync(bare, AUDIO);
+    await writeSeratoMarkers(bare, markers);
+    assert((await readSeratoMarkers(bare))?.cues[0]?.name === 'New', 'tag created on a file without one');
+    assert(fs.readFileSync(bare).subarray(-AUDIO.length).equals(AUDIO), 'audio follows the new tag');
+
+    const old = path.join(dir, 'v22.mp3');
+    fs.writeFileSync(old, Buffer.concat([Buffer.from('ID3\x02\x00\x00\x00\x00\x00\x00', 'latin1'), AUDIO]));
+    await assertThrows(() => writeSeratoMarkers(old, markers), 'ID3v2.2 left alone', /ID3v2.2/);
+    assert(fs.readFileSync(old).subarray(10).equals(AUDIO), 'file unchanged after the refusal');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,90 @@
+/**
+ * Merging duplicate copies onto the one to keep: tags, connections and
+ * playlist/set items move over without listing the song twice, and the
+ * merged copies leave search and the duplicate finder — also after the next
+ * scan finds their files again.
+ * Run via: npx tsx tests/unit/song-merge.test.ts
+ */
+import { useTempDatabase } from '../temp-db';
+import { assert, finish } from '../assert';
+
+const KEEPER = '/music/keeper.flac';
+const COPY = '/music/copy.mp3';
+const OTHER = '/music/other.mp3';
+const FINGERPRINT = { words: new Uint32Array([1, 2, 3, 4]), duration: 300 };
+
+async function main() {
+  const database = useTempDatabase();
+  try {
+    await import('../../database/sqlite/schema/all');
+    const { insertMP3Cache, searchMP3Cache, addSongToSet, getSetItems, createDJSet } = await import('../../database/sqlite/queries/dj-sets');
+    const { createPlaylist, addPlaylistItem, getPlaylistItems } = await import('../../database/sqlite/queries/playlists');
+    const { addSongTag, getTagsForSong } = await import('../../database/sqlite/queries/song-tags');
+    const { addSongConnection, getConnectionsForSong } = await import('../../database/sqlite/queries/song-connections');
+    const {
+      saveFingerprint, getLibraryFingerprints, getUnfingerprintedPaths, countFingerprints,
+    } = await import('../../database/sqlite/queries/audio-features');
+    const { mergeSongs, renameSong } = await import('../../database/sqlite/queries/song-merge');
+
+    const cache = (filePath: string) => insertMP3Cache({
+      file_path: filePath, filename: filePath.split('/').pop()!, title: 'Same Song', artist: 'Artist', file_size: 1000, last_modified: '2024-01-01',
+    });
+    for (const filePath of [KEEPER, COPY, OTHER]) cache(filePath);
+    for (const filePath of [KEEPER, COPY]) saveFingerprint(filePath, FINGERPRINT);
+
+    addSongTag(KEEPER, 'house', 'genre');
+    addSongTag(COPY, 'house', 'genre');
+    addSongTag(COPY, 'peak', 'phase');
+    addSongConnection(COPY, OTHER, 'transition');
+    addSongConnection(KEEPER, COPY, 'similarity');
+
+    const both = createPlaylist('Both copies');
+    addPlaylistItem(both.id, KEEPER, 0);
+    addPlaylistItem(both.id, OTHER, 1);
+    addPlaylistItem(both.id, COPY, 2);
+    const copyOnly = createPlaylist('Copy only');
+    addPlaylistItem(copyOnly.id, COPY, 0);
+    const set = createDJSet('Friday');
+    addSongToSet(set.id, COPY, 0);
+    addSongToSet(set.id, KEEPER, 1);
+
+    // ── 1. Merging ──────────────────────────────────────────────────
+    console.log('1) Merging the copy onto the keeper…');
+    const summary = mergeSongs(KEEPER, [COPY]);
+    assert(getTagsForSong(KEEPER).map(t => t.tag_label).sort().join() === 'house,peak', 'copy\'s tags added to the keeper\'s');
+    assert(getTagsForSong(COPY).length === 0, 'copy has no tags left');
+    const connections = getConnectionsForSong(KEEPER);
+    assert(connections.length === 1 && connections[0].source_path === KEEPER && connections[0].target_path === OTHER,
+      'connection moved, link between the copies dropped');
+    assert(getPlaylistItems(both.id).map(i => i.file_path).join() === `${KEEPER},${OTHER}`, 'playlist holding both copies lists the song once');
+    assert(getPlaylistItems(copyOnly.id).map(i => i.file_path).join() === KEEPER, 'playlist holding only the copy now holds the keeper');
+    assert(getSetItems(set.id).map(i => i.file_path).join() === KEEPER, 'set holding both copies lists the song once');
+    assert(summary.playlistItems === 1 && summary.tags === 1, 'summary counts what moved');
+
+    // ── 2. The merged copy leaves the library ───────────────────────
+    console.log('\n2) The merged copy…');
+    assert(!searchMP3Cache('Same Song').some(s => s.file_path === COPY), 'no longer found by search');
+    assert(getLibraryFingerprints().map(f => f.filePath).join() === KEEPER, 'no longer offered as a duplicate');
+    assert(!getUnfingerprintedPaths(10).includes(COPY), 'not queued for fingerprinting again');
+    assert(countFingerprints().total === 2, 'not counted towards fingerprinting progress');
+    cache(COPY);
+    assert(!searchMP3Cache('Same Song').some(s => s.file_path === COPY), 'stays merged when a scan reads the file again');
+
+    // ── 3. The keeper moves ─────────────────────────────────────────
+    console.log('\n3) Renaming the keeper…');
+    const moved = '/music/moved/keeper.flac';
+    cache(moved);
+    renameSong(KEEPER, moved);
+    assert(getPlaylistItems(both.id).map(i => i.file_path).join() === `${moved},${OTHER}`, 'playlist follows the rename');
+    assert(searchMP3Cache('Same Song').some(s => s.file_path === moved), 'renamed keeper is not mistaken for a merged copy');
+  } finally {
+    database.cleanup();
+  }
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,70 @@
+/**
+ * Tempo-matched previews: shifting a Camelot key by semitones, the rate that
+ * brings a track to the previous one's BPM (half and double time included),
+ * the MAX_TEMPO_CHANGE cutoff, and the label shown on the preview.
+ * Run via: npx tsx tests/unit/tempo-match.test.ts
+ */
+import { shiftCamelotKey } from '../../lib/camelot';
+import { tempoMatchRate, matchTempo, formatTempoMatch, MAX_TEMPO_CHANGE } from '../../lib/tempo-match';
+import { assert, assertClose, finish } from '../assert';
+
+async function main() {
+  // ── 1. Key shift ────────────────────────────────────────────────
+  console.log('1) Shifting a key…');
+  assert(shiftCamelotKey('8A', 1) === '3A', 'one semitone up is seven steps round the wheel');
+  assert(shiftCamelotKey('8A', -1) === '1A', 'one semitone down');
+  assert(shiftCamelotKey('8A', -2) === '6A', 'two semitones down');
+  assert(shiftCamelotKey('8B', 0) === '8B' && shiftCamelotKey('12A', 12) === '12A', 'no shift, or a whole octave, keeps the key');
+  assert(shiftCamelotKey('Am', 1) === '3A', 'standard notation accepted, Camelot returned');
+  assert(shiftCamelotKey('5B', 1) === '12B', 'mode never changes');
+  assert(shiftCamelotKey('H#', 1) === null, 'unknown key gives null');
+
+  // ── 2. Rate ─────────────────────────────────────────────────────
+  console.log('\n2) Matching rate…');
+  assertClose(tempoMatchRate(103, 100), 1.03, 1e-9, 'faster target speeds the track up');
+  assertClose(tempoMatchRate(94, 100), 0.94, 1e-9, 'slower target slows it down');
+  assertClose(tempoMatchRate(87, 174), 1, 1e-9, 'double time counts as matching');
+  assertClose(tempoMatchRate(174, 87), 1, 1e-9, 'half time counts as matching');
+  assertClose(tempoMatchRate(140, 72), 70 / 72, 1e-9, 'nearest of half, same and double time picked');
+
+  // ── 3. Match and label ──────────────────────────────────────────
+  console.log('\n3) Match and label…');
+  const up = matchTempo({ bpm: 103, camelotKey: '5A' }, { bpm: 100, camelotKey: '8A' }, false);
+  assert(up?.percent === 3 && up.semitones === 1 && up.effectiveKey === '3A', '+3% raises the pitch a semitone');
+  assert(up !== null && formatTempoMatch(up) === '+3% → 8A becomes 3A', 'label names the shifted key');
+
+  const down = matchTempo({ bpm: 94, camelotKey: null }, { bpm: 100, camelotKey: '8A' }, false);
+  assert(down?.percent === -6 && down.semitones === -1 && down.effectiveKey === '1A', '-6% lowers the pitch a semitone');
+  assert(down !== null && formatTempoMatch(down) === '-6% → 8A becomes 1A', 'label for a negative shift');
+
+  const slight = matchTempo({ bpm: 98, camelotKey: null }, { bpm: 100, camelotKey: '8A' }, false);
+  assert(slight?.semitones === 0 && slight !== null && formatTempoMatch(slight) === '-2% · 8A kept',
+    'a change under half a semitone keeps the key');
+
+  const locked = matchTempo({ bpm: 103, camelotKey: null }, { bpm: 100, camelotKey: '8A' }, true);
+  assert(locked?.semitones === 0 && locked.effectiveKey === '8A', 'preserved pitch keeps the key');
+  assert(locked !== null && formatTempoMatch(locked) === '+3% · 8A kept', 'label for preserved pitch');
+
+  const noKey = matchTempo({ bpm: 103, camelotKey: null }, { bpm: 100, camelotKey: null }, false);
+  assert(noKey?.effectiveKey === null && noKey !== null && formatTempoMatch(noKey) === '+3%', 'unknown key gives the percentage alone');
+
+  const doubled = matchTempo({ bpm: 87, camelotKey: null }, { bpm: 174, camelotKey: '8A' }, false);
+  assert(doubled?.rate === 1 && doubled.effectiveKey === '8A', 'a double-time track plays at its own speed');
+
+  // ── 4. Cutoff ───────────────────────────────────────────────────
+  console.log('\n4) MAX_TEMPO_CHANGE cutoff…');
+  assert(MAX_TEMPO_CHANGE === 0.16, 'cutoff is 16%');
+  assert(matchTempo({ bpm: 115, camelotKey: null }, { bpm: 100, camelotKey: null }, false)?.percent === 15, '+15% still matched');
+  assert(matchTempo({ bpm: 117, camelotKey: null }, { bpm: 100, camelotKey: null }, false) === null, '+17% not matched');
+  assert(matchTempo({ bpm: 85, camelotKey: null }, { bpm: 100, camelotKey: null }, false)?.percent === -15, '-15% still matched');
+  assert(matchTempo({ bpm: 83, camelotKey: null }, { bpm: 100, camelotKey: null }, false) === null, '-17% not matched');
+  assert(matchTempo({ bpm: null, camelotKey: '8A' }, { bpm: 100, camelotKey: '8A' }, false) === null
+    && matchTempo({ bpm: 100, camelotKey: '8A' }, { bpm: 0, camelotKey: '8A' }, false) === null, 'unknown BPM gives no match');
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
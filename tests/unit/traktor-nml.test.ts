@@ -0,0 +1,121 @@
+/**
+ * Traktor NML export and import: key and location mapping, collections built
+ * by buildTraktorNml read back through parseTraktorNml with either tag field,
+ * and a collection in the shape Traktor itself writes.
+ * Run via: npx tsx tests/unit/traktor-nml.test.ts
+ */
+import {
+  buildTraktorNml, parseTraktorNml, traktorTagText, camelotToTraktorKey, traktorKeyToCamelot,
+  toTraktorLocation, fromTraktorLocation, traktorPrimaryKey, type TraktorTrack,
+} from '../../lib/traktor-nml';
+import { assert, assertThrows, finish } from '../assert';
+
+const TRAKTOR_NML = `<?xml version="1.0" encoding="UTF-8" standalone="no" ?>
+<NML VERSION="19"><HEAD COMPANY="www.native-instruments.com" PROGRAM="Traktor"></HEAD>
+<COLLECTION ENTRIES="2">
+<ENTRY MODIFIED_DATE="2024/3/1" TITLE="Deep &amp; Slow" ARTIST="Someone">
+<LOCATION DIR="/:Users/:me/:Music/:House/:" FILE="deep.mp3" VOLUME="Macintosh HD" VOLUMEID="Macintosh HD"></LOCATION>
+<INFO BITRATE="320000" GENRE="House" COMMENT="my own notes" COMMENT2="#opener #dreamy" LABEL="#peak" PLAYTIME="412"></INFO>
+<TEMPO BPM="121.998001" BPM_QUALITY="100.000000"></TEMPO>
+<MUSICAL_KEY VALUE="21"></MUSICAL_KEY>
+<CUE_V2 NAME="AutoGrid" DISPL_ORDER="0" TYPE="4" START="53.1" LEN="0.0" REPEATS="-1" HOTCUE="0"></CUE_V2>
+</ENTRY>
+<ENTRY TITLE="Windows Track" ARTIST="Other">
+<LOCATION DIR="/:Music/:Sets/:" FILE="win.flac" VOLUME="D:"></LOCATION>
+<INFO GENRE="Techno"></INFO>
+</ENTRY>
+</COLLECTION>
+<PLAYLISTS><NODE TYPE="FOLDER" NAME="$ROOT"><SUBNODES COUNT="2">
+<NODE TYPE="FOLDER" NAME="Gigs"><SUBNODES COUNT="1">
+<NODE TYPE="PLAYLIST" NAME="Club Night"><PLAYLIST ENTRIES="2" TYPE="LIST" UUID="x">
+<ENTRY><PRIMARYKEY TYPE="TRACK" KEY="Macintosh HD/:Users/:me/:Music/:House/:deep.mp3"></PRIMARYKEY></ENTRY>
+<ENTRY><PRIMARYKEY TYPE="TRACK" KEY="D:/:Music/:Sets/:win.flac"></PRIMARYKEY></ENTRY>
+</PLAYLIST></NODE>
+</SUBNODES></NODE>
+<NODE TYPE="PLAYLIST" NAME="_LOOPS"><PLAYLIST ENTRIES="0" TYPE="LIST"></PLAYLIST></NODE>
+</SUBNODES></NODE></PLAYLISTS>
+</NML>
+`;
+
+function track(filePath: string, overrides: Partial<TraktorTrack> = {}): TraktorTrack {
+  return {
+    filePath,
+    title: 'Title',
+    artist: 'Artist',
+    album: 'Album',
+    genre: 'techno',
+    duration: 300.6,
+    hashtags: '#peak #dark',
+    ...overrides,
+  };
+}
+
+async function main() {
+  // ── 1. Keys ─────────────────────────────────────────────────────
+  console.log('1) Musical keys…');
+  let keysOk = true;
+  for (let n = 1; n <= 12; n++) {
+    for (const mode of ['A', 'B']) {
+      const value = camelotToTraktorKey(`${n}${mode}`);
+      if (value === null || traktorKeyToCamelot(value) !== `${n}${mode}`) keysOk = false;
+    }
+  }
+  assert(keysOk, 'all 24 Camelot keys survive a trip through MUSICAL_KEY');
+  assert(camelotToTraktorKey('8A') === 21 && camelotToTraktorKey('8B') === 0, '8A is Am (21), 8B is C (0)');
+  assert(traktorKeyToCamelot(24) === null && traktorKeyToCamelot(-1) === null, 'out-of-range values rejected');
+  assert(camelotToTraktorKey('13A') === null, 'invalid Camelot code rejected');
+
+  // ── 2. Locations ────────────────────────────────────────────────
+  console.log('\n2) Locations…');
+  const mac = toTraktorLocation('/Users/me/Music/a b.mp3');
+  assert(mac.dir === '/:Users/:me/:Music/:' && mac.file === 'a b.mp3' && mac.volume === '', 'POSIX path split into DIR and FILE');
+  assert(fromTraktorLocation(mac) === '/Users/me/Music/a b.mp3', 'POSIX path reads back');
+  const win = toTraktorLocation('D:\\Music\\x.flac');
+  assert(win.volume === 'D:' && traktorPrimaryKey(win) === 'D:/:Music/:x.flac', 'drive letter becomes the volume');
+  assert(fromTraktorLocation(win) === 'D:/Music/x.flac', 'Windows path reads back');
+  assert(fromTraktorLocation({ volume: 'Macintosh HD', dir: '/:Music/:', file: 'y.mp3' }) === '/Music/y.mp3', 'macOS volume name dropped');
+  assert(fromTraktorLocation(toTraktorLocation('/top.mp3')) === '/top.mp3', 'file at the root reads back');
+
+  // ── 3. Round-trip through both tag fields ───────────────────────
+  for (const tagField of ['COMMENT2', 'LABEL'] as const) {
+    console.log(`\n3) Building and parsing with hashtags in ${tagField}…`);
+    const shared = track('/music/shared "one" & co.mp3', { bpm: 124.5, camelotKey: '11B', hashtags: '#opener #dreamy' });
+    const nml = buildTraktorNml([
+      { name: 'Warmup <1>', tracks: [shared, track('C:\\Music\\b.flac')] },
+      { name: 'Again', tracks: [shared] },
+    ], tagField);
+    const library = parseTraktorNml(nml);
+    assert(library.tracks.length === 2, 'a track in two playlists is listed once');
+    const back = library.tracks.find(t => t.filePath === shared.filePath);
+    assert(back?.title === shared.title && back?.artist === shared.artist, 'title and artist read back');
+    assert(traktorTagText(back!, tagField) === '#opener #dreamy', `hashtags read back from ${tagField}`);
+    assert(traktorTagText(back!, tagField === 'LABEL' ? 'COMMENT2' : 'LABEL') === '', 'the other field is left empty');
+    assert(back?.bpm === 124.5 && back?.camelotKey === '11B', 'BPM and key read back');
+    assert(library.tracks.some(t => t.filePath === 'C:/Music/b.flac' && t.bpm === undefined && !t.camelotKey), 'missing BPM and key stay missing');
+    assert(library.playlists.map(p => p.name).join('|') === 'Warmup <1>|Again', 'escaped playlist names read back');
+    const byKey = new Map(library.tracks.map(t => [t.primaryKey, t.filePath]));
+    assert(library.playlists[0].trackKeys.map(k => byKey.get(k)).join('|') === `${shared.filePath}|C:/Music/b.flac`,
+      'playlist primary keys resolve to collection entries in order');
+  }
+
+  // ── 4. A Traktor-written collection ─────────────────────────────
+  console.log('\n4) Parsing a collection written by Traktor…');
+  const library = parseTraktorNml(TRAKTOR_NML);
+  const [deep, windows] = library.tracks;
+  assert(library.tracks.length === 2, 'entries with cue points and extra attributes are read');
+  assert(deep.filePath === '/Users/me/Music/House/deep.mp3', 'macOS volume dropped from the path');
+  assert(deep.title === 'Deep & Slow', 'entities decoded');
+  assert(deep.comment === 'my own notes' && deep.comment2 === '#opener #dreamy' && deep.label === '#peak', 'INFO fields kept apart');
+  assert(deep.camelotKey === '8A' && Math.abs((deep.bpm ?? 0) - 122) < 0.01, 'tempo and key read');
+  assert(windows.filePath === 'D:/Music/Sets/win.flac', 'Windows volume kept in the path');
+  assert(library.playlists.map(p => p.name).join('|') === 'Gigs / Club Night|_LOOPS', 'folder names prefix nested playlists');
+  assert(library.playlists[0].trackKeys.join('|') === `${deep.primaryKey}|${windows.primaryKey}`, 'playlist keys match the collection primary keys');
+  await assertThrows(() => parseTraktorNml('<DJ_PLAYLISTS/>'), 'non-NML input is rejected', /Not a Traktor NML/);
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,115 @@
+/**
+ * "Prepare USB" planning and copying: folder layouts and name clashes, a
+ * missing source reported without aborting the job, and repeat syncs that
+ * skip unchanged copies — including copies rewritten with pending tags.
+ * Run via: npx tsx tests/unit/usb-export.test.ts
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  planUsbCopies, estimateUsbExport, runUsbExport, readUsbManifest, USB_MANIFEST_FILE,
+  type UsbCopyPlan, type UsbCompareMode,
+} from '../../lib/usb-export';
+import { assert, finish } from '../assert';
+
+/** Estimate then copy, the way the telefunc job does */
+async function sync(plans: UsbCopyPlan[], destination: string, compare: UsbCompareMode, afterCopy?: (plan: UsbCopyPlan) => Promise<void>) {
+  const estimate = await estimateUsbExport(plans, destination, compare);
+  const progress = await runUsbExport(plans, {
+    destination, compare, identical: estimate.identical, failed: estimate.failed, manifest: estimate.manifest, afterCopy,
+  });
+  return { estimate, progress };
+}
+
+/** Stands in for writing pending tags into the copy: the copy grows */
+const tagCopy = async (plan: UsbCopyPlan) => fs.appendFileSync(plan.targetPath, '+tags');
+
+async function main() {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'musicky-usb-'));
+  try {
+    // ── 1. Planning ───────────────────────────────────────────────
+    console.log('1) Planning copies…');
+    const plans = planUsbCopies([
+      { filePath: '/a/Song.mp3', phase: 'peak', genre: 'Techno' },
+      { filePath: '/b/song.mp3', phase: 'peak', genre: null },
+      { filePath: '/a/Song.mp3', phase: 'peak', genre: 'Techno' },
+      { filePath: '/c/What? "Now".flac', phase: null, genre: 'Drum & Bass / Jungle' },
+    ], '/stick', 'phase');
+    assert(plans.length === 3, 'a file listed twice is copied once');
+    assert(plans[0].targetPath === path.join('/stick', 'peak', 'Song.mp3'), 'phase folder');
+    assert(plans[1].targetPath === path.join('/stick', 'peak', 'song (2).mp3'), 'case-insensitive clash gets a suffix');
+    assert(plans[2].targetPath === path.join('/stick', 'Untagged', 'What Now.flac'), 'FAT-unsafe characters removed, untagged folder');
+    const byGenre = planUsbCopies([{ filePath: '/c/x.mp3', phase: null, genre: 'Drum & Bass / Jungle' }], '/stick', 'genre');
+    assert(byGenre[0].targetPath === path.join('/stick', 'Drum & Bass Jungle', 'x.mp3'), 'genre folder name made safe');
+
+    // ── 2. Missing source ─────────────────────────────────────────
+    console.log('\n2) A source that no longer exists…');
+    const library = path.join(root, 'library');
+    fs.mkdirSync(library);
+    const one = path.join(library, 'one.mp3');
+    const two = path.join(library, 'two.mp3');
+    fs.writeFileSync(one, 'one-audio');
+    fs.writeFileSync(two, 'two-audio-longer');
+    const gone = path.join(library, 'gone.mp3');
+    const stick = path.join(root, 'stick');
+    const withGone = planUsbCopies([one, gone, two].map(filePath => ({ filePath, phase: null, genre: null })), stick, 'flat');
+    const first = await sync(withGone, stick, 'size_mtime');
+    assert(first.estimate.failed.length === 1 && first.estimate.failed[0].filePath === gone, 'estimate lists the missing file instead of throwing');
+    assert(first.estimate.requiredBytes === 'one-audio'.length + 'two-audio-longer'.length, 'required space counts the readable files');
+    assert(first.progress.copied === 2 && first.progress.failed.length === 1, 'the other files are still copied');
+    assert(first.progress.done === first.progress.total, 'progress reaches the total');
+    assert(fs.existsSync(path.join(stick, USB_MANIFEST_FILE)), 'manifest written to the stick');
+
+    // ── 3. Repeat sync ────────────────────────────────────────────
+    console.log('\n3) Syncing again…');
+    const plain = planUsbCopies([one, two].map(filePath => ({ filePath, phase: null, genre: null })), stick, 'flat');
+    const again = await sync(plain, stick, 'size_mtime');
+    assert(again.progress.skipped === 2 && again.progress.copied === 0, 'unchanged copies skipped');
+    fs.writeFileSync(two, 'two-audio-changed!');
+    const changed = await sync(plain, stick, 'size_mtime');
+    assert(changed.progress.copied === 1 && changed.progress.skipped === 1, 'changed source copied again');
+    assert(fs.readFileSync(path.join(stick, 'two.mp3'), 'utf8') === 'two-audio-changed!', 'copy holds the new contents');
+
+    // ── 4. Copies with pending tags ───────────────────────────────
+    for (const compare of ['size_mtime', 'hash'] as const) {
+      console.log(`\n4) Tagged copies compared by ${compare}…`);
+      const dest = path.join(root, `tagged-${compare}`);
+      const tagged = plain.map(p => ({ ...p, targetPath: path.join(dest, path.basename(p.targetPath)), variant: 'edits-v1' }));
+      const made = await sync(tagged, dest, compare, tagCopy);
+      assert(made.progress.copied === 2, 'tagged copies made');
+      assert(fs.readFileSync(path.join(dest, 'one.mp3'), 'utf8') === 'one-audio+tags', 'tags written into the copy only');
+      assert(fs.readFileSync(one, 'utf8') === 'one-audio', 'library file untouched');
+      const repeat = await sync(tagged, dest, compare, tagCopy);
+      assert(repeat.progress.skipped === 2 && repeat.progress.copied === 0, 'tagged copies are not copied again');
+      const newEdits = tagged.map((p, i) => (i === 0 ? { ...p, variant: 'edits-v2' } : p));
+      const retag = await sync(newEdits, dest, compare, tagCopy);
+      assert(retag.progress.copied === 1 && retag.progress.skipped === 1, 'different pending tags re-make only that copy');
+      fs.appendFileSync(path.join(dest, 'two.mp3'), 'edited on the stick');
+      const touched = await sync(newEdits, dest, compare, tagCopy);
+      assert(touched.progress.copied === 1 && touched.progress.skipped === 1, 'copy changed on the stick is replaced');
+      const manifest = await readUsbManifest(dest);
+      assert(Object.keys(manifest.files).sort().join() === 'one.mp3,two.mp3', 'manifest keyed by path on the stick');
+      assert((manifest.files['one.mp3'].sourceHash !== undefined) === (compare === 'hash'), 'hashes recorded only in hash mode');
+    }
+
+    // ── 5. Copies from before the manifest ────────────────────────
+    console.log('\n5) Copies without a manifest entry…');
+    fs.rmSync(path.join(stick, USB_MANIFEST_FILE));
+    const legacy = await sync(plain, stick, 'size_mtime');
+    assert(legacy.progress.skipped === 2, 'plain copies still recognised by size and mtime');
+    const legacyTagged = await sync(plain.map(p => ({ ...p, variant: 'edits-v1' })), stick, 'size_mtime', tagCopy);
+    assert(legacyTagged.progress.copied === 2, 'a tagged export cannot trust copies it has no record of');
+    fs.writeFileSync(path.join(stick, USB_MANIFEST_FILE), '{ not json');
+    assert(Object.keys((await readUsbManifest(stick)).files).length === 0, 'unreadable manifest treated as empty');
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,126 @@
+/**
+ * VirtualDJ database.xml reader/writer: parsing, surgical field updates that
+ * leave everything else byte-for-byte as VirtualDJ wrote it, hot cue
+ * replacement, and the backup/atomic write helpers.
+ * Run via: npx tsx tests/unit/vdj-database.test.ts
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  parseVdjDatabase, updateVdjDatabase, replaceVdjHotCues, normalizeVdjPath,
+  readVdjDatabase, backupVdjDatabase, writeVdjDatabase,
+} from '../../lib/vdj-database';
+import { assert, assertThrows, finish } from '../assert';
+
+const SCAN = '<Scan Version="801" Bpm="0.468750" AltBpm="" Volume="1.021" Key="Am" Flag="32768" />';
+
+const DATABASE = `<?xml version="1.0" encoding="UTF-8"?>
+<VirtualDJ_Database Version="2024">
+ <Song FilePath="C:\\Music\\Artist - One.mp3" FileSize="9120000" Flag="1">
+  <Tags Author="Artist" Title="One" Genre="House" User1="#peak" Flag="1" />
+  <Infos SongLength="312.5" PlayCount="7" LastPlay="1700000000" />
+  <Comment>old &amp; gold</Comment>
+  ${SCAN}
+  <Poi Pos="0.052" Type="beatgrid" />
+  <Poi Name="Drop" Pos="64.250000" Num="1" Type="cue" />
+  <Poi Pos="200.0" Type="automix" Point="realEnd" />
+ </Song>
+ <Song FilePath="C:\\Music\\Bare.flac" FileSize="1">
+  <Infos SongLength="200" />
+ </Song>
+ <Song FilePath="D:\\Empty.mp3" />
+</VirtualDJ_Database>
+`;
+
+async function main() {
+  // ── 1. Parsing ──────────────────────────────────────────────────
+  console.log('1) Parsing database.xml…');
+  const songs = parseVdjDatabase(DATABASE);
+  const [one, bare, empty] = songs;
+  assert(songs.length === 3, 'every Song read, including a self-closing one');
+  assert(one.filePath === 'C:\\Music\\Artist - One.mp3', 'FilePath kept as VirtualDJ stores it');
+  assert(normalizeVdjPath(one.filePath) === 'C:/Music/Artist - One.mp3', 'path key uses forward slashes');
+  assert(one.fields.Genre === 'House' && one.fields.User1 === '#peak' && one.fields.User2 === '', 'Tags attributes read');
+  assert(one.fields.Comment === 'old & gold', 'Comment element unescaped');
+  assert(one.playCount === 7 && bare.playCount === 0, 'PlayCount read, defaulting to 0');
+  assert(one.cues.length === 1 && one.cues[0].name === 'Drop' && one.cues[0].num === 1, 'only cue POIs read as cues');
+  assert(empty.fields.Genre === '' && empty.cues.length === 0, 'self-closing Song has empty fields');
+
+  // ── 2. Updates ──────────────────────────────────────────────────
+  console.log('\n2) Updating fields…');
+  const updates = new Map([
+    ['C:/Music/Artist - One.mp3', { User1: '#opener #dark', Comment: 'new <comment>' }],
+    ['C:/Music/Bare.flac', { Grouping: 'Warmup', Comment: 'first' }],
+    ['D:/Empty.mp3', { Genre: 'Techno & Acid' }],
+    ['C:/Music/Unknown.mp3', { Genre: 'x' }],
+  ]);
+  const { xml, missing } = updateVdjDatabase(DATABASE, updates);
+  assert(missing.join() === 'C:/Music/Unknown.mp3', 'song VirtualDJ never scanned is reported missing');
+
+  const after = parseVdjDatabase(xml);
+  assert(after[0].fields.User1 === '#opener #dark' && after[0].fields.Genre === 'House', 'changed attribute written, others kept');
+  assert(after[0].fields.Comment === 'new <comment>', 'existing Comment replaced and escaped');
+  assert(after[1].fields.Grouping === 'Warmup' && after[1].fields.Comment === 'first', 'Tags and Comment added where missing');
+  assert(/<Infos SongLength="200" \/>\n\s*<Comment>first<\/Comment>/.test(xml), 'new Comment placed after Infos');
+  assert(after[2].fields.Genre === 'Techno & Acid', 'self-closing Song opened up and tagged');
+  assert(after[0].playCount === 7 && after[0].cues.length === 1, 'play count and cues untouched');
+  for (const kept of [SCAN, '<Poi Pos="0.052" Type="beatgrid" />', '<Poi Pos="200.0" Type="automix" Point="realEnd" />',
+    '<Infos SongLength="312.5" PlayCount="7" LastPlay="1700000000" />']) {
+    assert(xml.includes(kept), `unknown element kept byte-for-byte: ${kept.slice(0, 24)}…`);
+  }
+  assert(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<VirtualDJ_Database Version="2024">'), 'document header untouched');
+
+  const unchanged = updateVdjDatabase(DATABASE, new Map());
+  assert(unchanged.xml === DATABASE, 'no updates, identical output');
+  const again = updateVdjDatabase(xml, new Map([['C:/Music/Artist - One.mp3', { User1: '#opener #dark' }]]));
+  assert(again.xml === xml, 'writing the same values again changes nothing');
+
+  // ── 3. Hot cues ─────────────────────────────────────────────────
+  console.log('\n3) Replacing hot cues…');
+  const withExtra = DATABASE.replace('<Poi Pos="200.0" Type="automix" Point="realEnd" />',
+    '<Poi Pos="200.0" Type="automix" Point="realEnd" />\n  <Poi Name="Far" Pos="250.0" Num="12" Type="cue" />');
+  const cued = replaceVdjHotCues(withExtra, 'C:/Music/Artist - One.mp3', [
+    { position: 32, name: 'Intro & build', num: 1 },
+    { position: 96.5, name: '', num: 3 },
+  ], 8);
+  const cuedSong = parseVdjDatabase(cued.xml)[0];
+  assert(cued.found, 'song found');
+  assert(cuedSong.cues.map(c => `${c.num}@${c.position}`).join() === '12@250,1@32,3@96.5', 'slots 1–8 replaced, cue 12 kept');
+  assert(cuedSong.cues.find(c => c.num === 1)?.name === 'Intro & build', 'cue name escaped and read back');
+  for (const kept of [SCAN, '<Poi Pos="0.052" Type="beatgrid" />', '<Poi Pos="200.0" Type="automix" Point="realEnd" />']) {
+    assert(cued.xml.includes(kept), `other POIs kept: ${kept.slice(0, 24)}…`);
+  }
+  assert(parseVdjDatabase(cued.xml)[1].cues.length === 0 && cued.xml.includes('<Song FilePath="C:\\Music\\Bare.flac" FileSize="1">\n  <Infos SongLength="200" />'),
+    'other songs untouched');
+  const cleared = replaceVdjHotCues(cued.xml, 'C:/Music/Artist - One.mp3', [], 8);
+  assert(parseVdjDatabase(cleared.xml)[0].cues.map(c => c.num).join() === '12', 'no cues clears slots 1–8');
+  const emptySong = replaceVdjHotCues(DATABASE, 'D:/Empty.mp3', [{ position: 1, name: 'A', num: 2 }], 8);
+  assert(parseVdjDatabase(emptySong.xml)[2].cues[0]?.num === 2, 'self-closing Song opened up for its first cue');
+  assert(!replaceVdjHotCues(DATABASE, 'C:/Music/Unknown.mp3', [], 8).found, 'unknown song reported');
+
+  // ── 4. Files ────────────────────────────────────────────────────
+  console.log('\n4) Backup and atomic write…');
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'musicky-vdj-'));
+  try {
+    const dbPath = path.join(dir, 'database.xml');
+    fs.writeFileSync(dbPath, DATABASE);
+    const backupPath = await backupVdjDatabase(dbPath);
+    await writeVdjDatabase(dbPath, xml);
+    assert(fs.readFileSync(backupPath, 'utf8') === DATABASE, 'backup holds the original');
+    assert(await readVdjDatabase(dbPath) === xml, 'new database written');
+    assert(!fs.existsSync(`${dbPath}.musicky-tmp`), 'no temp file left behind');
+    await assertThrows(() => writeVdjDatabase(path.join(dir, 'missing', 'database.xml'), xml), 'write into a missing folder fails');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  await assertThrows(() => parseVdjDatabase('<NML/>'), 'non-VirtualDJ XML is rejected', /Not a VirtualDJ database/);
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
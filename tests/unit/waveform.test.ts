@@ -0,0 +1,54 @@
+/**
+ * Waveform peaks on a synthetic track: a bass tone, then a hi-hat-range
+ * tone, then silence, checked per band and across resolutions.
+ * Run via: npx tsx tests/unit/waveform.test.ts
+ */
+import { computeWaveform, pickWaveformLevel, WAVEFORM_RESOLUTIONS } from '../../lib/waveform';
+import { assert, finish } from '../assert';
+
+const SAMPLE_RATE = 22050;
+
+/** Two seconds each of 60 Hz at full level, 8 kHz at half level, and silence */
+function renderTrack(): Float32Array {
+  const out = new Float32Array(SAMPLE_RATE * 6);
+  for (let i = 0; i < SAMPLE_RATE * 2; i++) {
+    out[i] = Math.sin((2 * Math.PI * 60 * i) / SAMPLE_RATE);
+    out[SAMPLE_RATE * 2 + i] = 0.5 * Math.sin((2 * Math.PI * 8000 * i) / SAMPLE_RATE);
+  }
+  return out;
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+async function main() {
+  const waveform = computeWaveform(renderTrack(), SAMPLE_RATE);
+
+  // ── 1. Levels ───────────────────────────────────────────────────
+  console.log('1) Resolutions…');
+  assert(waveform.duration === 6, 'duration in seconds');
+  assert(waveform.levels.map(l => l.resolution).join() === WAVEFORM_RESOLUTIONS.join(), 'one level per resolution, finest first');
+  assert(waveform.levels.every(l => l.peak.length === 6 * l.resolution), 'one bucket per step of audio');
+  const [finest, middle] = waveform.levels;
+  assert(middle.peak.every((v, i) => v === Math.max(...finest.peak.slice(i * 5, i * 5 + 5))), 'coarser levels are maxima of the finer one');
+
+  // ── 2. Peaks and bands ──────────────────────────────────────────
+  console.log('\n2) Bands…');
+  const { peak, low, high } = middle;
+  assert(Math.max(...peak) === 255, 'loudest bucket at full scale');
+  assert(Math.abs(mean(peak.slice(20, 40)) - 128) <= 2, `half-level tone at half height (${mean(peak.slice(20, 40))})`);
+  assert(peak.slice(40).every(v => v === 0), 'silence is flat');
+  assert(mean(low.slice(2, 20)) > 4 * mean(high.slice(2, 20)), 'bass tone shows in the low band');
+  assert(mean(high.slice(22, 40)) > 4 * mean(low.slice(22, 40)), '8 kHz tone shows in the high band');
+
+  // ── 3. Picking a level ──────────────────────────────────────────
+  console.log('\n3) Picking a level…');
+  assert(pickWaveformLevel(waveform, 50).resolution === 10, 'coarsest level that fills the width');
+  assert(pickWaveformLevel(waveform, 5000).resolution === 50, 'finest when none is wide enough');
+
+  finish();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});